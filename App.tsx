@@ -1,27 +1,67 @@
 
-import React, { useState, useCallback, useRef, MouseEvent, useEffect } from 'react';
-import { NodeType } from './types/graph';
+import React, { useState, useCallback, useRef, MouseEvent, useEffect, useMemo } from 'react';
+import { Node, NodeType, ScriptData } from './types/graph';
 import { useViewport } from './hooks/useViewport';
 import { useGraphEditor } from './hooks/useGraphEditor';
 import { useGeminiGenerator } from './hooks/useGeminiGenerator';
 import { useSmartConnections } from './hooks/useSmartConnections';
 import { useConnectionEnricher } from './hooks/useConnectionEnricher';
+import { useScreenplayImport } from './hooks/useScreenplayImport';
+import { useScriptBreakdown } from './hooks/useScriptBreakdown';
+import { useCsvImport } from './hooks/useCsvImport';
 import { enrichSceneDescription } from './services/promptArchitect';
 import { usePersistence } from './hooks/usePersistence';
+import { findStaleNodes } from './services/inputHashes';
+import { MigrationReport } from './services/persistence/migrations';
+import { useHistoryShortcuts } from './hooks/useHistoryShortcuts';
+import { useActiveProjectId } from './hooks/useProjects';
+import { useProjectImport } from './hooks/useProjectImport';
+import { useAssetLibrary } from './hooks/useAssetLibrary';
+import { AssetRecord } from './services/persistence/db';
+import { ASSET_DRAG_TYPE, assetNodeData, findAssetUpdates, isLibraryNode, latestVersion } from './services/persistence/assetLibrary';
+import { preloadImages } from './services/persistence/imageStore';
+import { exportProjectBundle, bundleFileName } from './services/persistence/projectBundle';
+import { downloadBlob } from './utils/file';
 
 // UI Components
 import { NODE_CONFIG } from './components/nodes/nodeConfig';
 import { FlowCanvas } from './components/layout/FlowCanvas';
 import { MiniMap } from './components/ui/MiniMap';
+import { ProjectBrowser } from './components/ui/ProjectBrowser';
+import { MigrationReportModal } from './components/ui/MigrationReportModal';
+import { BreakdownPreview } from './components/ui/BreakdownPreview';
+import { ProviderSettings } from './components/ui/ProviderSettings';
+import { JobQueuePanel } from './components/ui/JobQueuePanel';
+import { PdfExportDialog } from './components/ui/PdfExportDialog';
+import { AnimaticPlayer } from './components/ui/AnimaticPlayer';
+import { EditorialExportDialog } from './components/ui/EditorialExportDialog';
+import { ProjectImportDialog } from './components/ui/ProjectImportDialog';
+import { MergeImportDialog } from './components/ui/MergeImportDialog';
+import { AssetLibraryPanel } from './components/ui/AssetLibraryPanel';
+import { PublishAssetDialog } from './components/ui/PublishAssetDialog';
+import { ProjectSource } from './services/persistence/projectSource';
 
 // Main App Component
 export default function App() {
+  const { projectId, openProject } = useActiveProjectId();
+  const [isProjectBrowserOpen, setIsProjectBrowserOpen] = useState(false);
+  const [isProviderSettingsOpen, setIsProviderSettingsOpen] = useState(false);
+  const [isPdfExportOpen, setIsPdfExportOpen] = useState(false);
+  const [isAnimaticOpen, setIsAnimaticOpen] = useState(false);
+  const [isEditorialExportOpen, setIsEditorialExportOpen] = useState(false);
+  const [mergeImport, setMergeImport] = useState<{ source?: ProjectSource } | null>(null); // Selector de nodos de otro proyecto
+  const [isLibraryOpen, setIsLibraryOpen] = useState(false);
+  const [publishNodeId, setPublishNodeId] = useState<string | null>(null);
+
   const { 
       nodes, 
       connections, 
       graph,
+      history,
       actions 
-  } = useGraphEditor();
+  } = useGraphEditor(projectId);
+
+  useHistoryShortcuts(history.undo, history.redo);
   
   // AGREGA ESTO PARA DEPURAR:
   console.log("🔍 DEBUG - NodeTypes disponibles:", Object.keys(NodeType));
@@ -30,11 +70,12 @@ export default function App() {
   const [connecting, setConnecting] = useState<{ fromNodeId: string; fromOutput: string | number; toPosition: { x: number; y: number } } | null>(null);
   
   // Persistence Integration
-  const { status: persistenceStatus, loadInitialData, clearStorage } = usePersistence(graph);
+  const { status: persistenceStatus, loadInitialData, clearStorage } = usePersistence(graph, projectId);
   
   // 🆕 Loading State
   const [isReady, setIsReady] = useState(false);
   const [isConfirmingReset, setIsConfirmingReset] = useState(false);
+  const [migrationReport, setMigrationReport] = useState<MigrationReport | null>(null);
 
   const { 
     viewTransform, 
@@ -47,9 +88,11 @@ export default function App() {
   // Initial Load Effect with Auto-Fit
   useEffect(() => {
     const init = async () => {
-      console.log("📂 Persistence: Loading project...");
+      console.log(`📂 Persistence: Loading project ${projectId}...`);
+      setIsReady(false);
       try {
-        const savedGraph = await loadInitialData();
+        const { graph: savedGraph, migration } = await loadInitialData();
+        setMigrationReport(migration);
         
         if (savedGraph && savedGraph.nodes.length > 0) {
           console.log("✅ Persistence: Project loaded.");
@@ -99,6 +142,8 @@ export default function App() {
 
         } else {
           console.log("ℹ️ Persistence: No saved project found.");
+          // Proyecto nuevo o vacío: limpiamos el canvas del proyecto anterior
+          actions.setGraph({ nodes: [], connections: [], name: savedGraph?.name || 'Untitled Storyboard' });
           // Centrar en el origen por defecto
           setViewTransform({ x: window.innerWidth/2 - 100, y: window.innerHeight/2 - 50, zoom: 1 });
         }
@@ -109,10 +154,14 @@ export default function App() {
       }
     };
     init();
-  }, [loadInitialData, actions.setGraph, setViewTransform]);
+  }, [projectId, loadInitialData, actions.setGraph, setViewTransform]);
 
   // Use the new Gemini Generator Hook
-  const { generateImage, generateAll, isGeneratingAll, reverseEngineer } = useGeminiGenerator(nodes, connections, actions.updateNodeData);
+  const { generateImage, generateAll, regenerateStale, isGeneratingAll, reverseEngineer, processTransformation } = useGeminiGenerator(nodes, connections, actions.updateNodeData);
+
+  // Artefactos cuyas entradas cambiaron desde que se generaron
+  const staleNodes = useMemo(() => findStaleNodes(nodes, connections), [nodes, connections]);
+  const staleCount = Object.keys(staleNodes).length;
 
   // Use Smart Connections for Eager Enrichment (Character/Setting)
   useSmartConnections(nodes, connections, actions.updateNodeData);
@@ -120,46 +169,103 @@ export default function App() {
   // Use Connection Enricher for Scene Description -> Image Node JSON
   useConnectionEnricher(nodes, connections, actions.updateNodeData, enrichSceneDescription);
 
+  // Fountain / Final Draft -> escenas, personajes y localizaciones
+  const { importScreenplay } = useScreenplayImport(nodes, connections, actions.insertSubgraph);
+  const { importCsvScenes } = useCsvImport(nodes, connections, actions.insertSubgraph);
+
+  // Texto libre del guion -> planos propuestos por la IA (se revisan antes de fusionarlos)
+  const { pendingBreakdown, breakingDownIds, breakDownScript, applyBreakdown, dismissBreakdown } = useScriptBreakdown(nodes, connections, actions.insertSubgraph);
+
+  // Cargar proyecto (.zip o .json): abrir como nuevo, fusionar o reemplazar el canvas
+  const handleImportReplaced = useCallback((report: MigrationReport | null) => {
+    setViewTransform({ x: 0, y: 0, zoom: 1 }); // Reset view on load
+    setMigrationReport(report);
+  }, [setViewTransform]);
+  const { pendingImport, readProjectFile, applyImport, dismissImport, mergeSubgraph } = useProjectImport(nodes, actions.setGraph, actions.insertSubgraph, openProject, handleImportReplaced);
+
+  // Librería compartida: Characters / Settings publicados que se reutilizan entre proyectos
+  const { assets: libraryAssets, publish: publishAsset, remove: removeAsset } = useAssetLibrary();
+  const libraryUpdates = useMemo(() => findAssetUpdates(nodes, libraryAssets), [nodes, libraryAssets]);
+  const usedAssetIds = useMemo(
+    () => new Set(nodes.filter(isLibraryNode).map(n => n.data.libraryLink?.assetId).filter((id): id is string => !!id)),
+    [nodes]
+  );
+  const publishNode = nodes.find(n => n.id === publishNodeId);
+
+  // Los fallos de IndexedDB se avisan aquí; devuelve si se publicó para que el diálogo decida si cerrarse
+  const handlePublishAsset = useCallback(async (meta: { name: string; tags: string[]; note?: string }): Promise<boolean> => {
+    if (!publishNode || !isLibraryNode(publishNode)) return false;
+    try {
+      const record = await publishAsset(publishNode, meta);
+      actions.updateNodeData(publishNode.id, { libraryLink: { assetId: record.id, version: latestVersion(record).version } });
+      return true;
+    } catch (error) {
+      console.error('❌ Library publish failed:', error);
+      alert(`Publish failed: ${error instanceof Error ? error.message : String(error)}`);
+      return false;
+    }
+  }, [publishNode, publishAsset, actions.updateNodeData]);
+
+  const handlePullAssetUpdate = useCallback(async (nodeId: string) => {
+    const asset = libraryUpdates[nodeId];
+    if (!asset) return;
+    try {
+      const data = assetNodeData(asset);
+      await preloadImages([data.image, (data as { clothingImage?: string }).clothingImage].filter((ref): ref is string => !!ref));
+      actions.insertSubgraph(`Update "${asset.name}" to library v${latestVersion(asset).version}`, { nodeData: { [nodeId]: data } });
+    } catch (error) {
+      console.error('❌ Library update failed:', error);
+      alert(`Could not pull "${asset.name}" from the library: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [libraryUpdates, actions.insertSubgraph]);
+
+  const placeAsset = useCallback(async (asset: AssetRecord, position: { x: number; y: number }) => {
+    try {
+      const data = assetNodeData(asset);
+      await preloadImages([data.image, (data as { clothingImage?: string }).clothingImage].filter((ref): ref is string => !!ref));
+      const node: Node = { id: crypto.randomUUID(), type: asset.kind, position, data };
+      actions.insertSubgraph(`Add "${asset.name}" from library`, { nodes: [node] });
+    } catch (error) {
+      console.error('❌ Library placement failed:', error);
+      alert(`Could not add "${asset.name}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [actions.insertSubgraph]);
+
+  const handleDeleteAsset = useCallback(async (asset: AssetRecord) => {
+    if (!window.confirm(`Delete "${asset.name}" and its ${asset.versions.length} version(s) from the library? Nodes already placed keep their data.`)) return;
+    try {
+      await removeAsset(asset.id);
+    } catch (error) {
+      console.error('❌ Library delete failed:', error);
+      alert(`Could not delete "${asset.name}": ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [removeAsset]);
+
   const fileInputRef = useRef<HTMLInputElement>(null);
 
-  const handleSave = () => {
-    const dataToSave = JSON.stringify({ nodes, connections }, null, 2);
-    const blob = new Blob([dataToSave], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = 'storyboard-flow.json';
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    URL.revokeObjectURL(url);
+  const handleSave = async () => {
+    // Bundle autocontenido: manifest + imágenes PNG + pasaportes/specs como archivos JSON
+    try {
+      const blob = await exportProjectBundle({ name: graph.name, nodes, connections });
+      downloadBlob(blob, bundleFileName(graph.name));
+    } catch (error) {
+      console.error("Failed to export project bundle:", error);
+      alert(`Failed to save the project bundle.${error instanceof Error ? `\n\n${error.message}` : ''}`);
+    }
   };
 
-  const handleLoad = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleLoad = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
+    if (e.target) e.target.value = ''; // Allow loading the same file again
     if (!file) return;
 
-    const reader = new FileReader();
-    reader.onload = (event) => {
-      try {
-        const content = event.target?.result;
-        if (typeof content !== 'string') throw new Error("Invalid file content");
-        const loadedData = JSON.parse(content);
-        
-        if (Array.isArray(loadedData.nodes) && Array.isArray(loadedData.connections)) {
-          actions.setNodes(loadedData.nodes);
-          actions.setConnections(loadedData.connections);
-          setViewTransform({ x: 0, y: 0, zoom: 1 }); // Reset view on load
-        } else {
-          alert('Invalid JSON file format.');
-        }
-      } catch (error) {
-        console.error("Failed to load or parse file:", error);
-        alert('Failed to load file. It might be corrupted or not in the correct format.');
-      }
-    };
-    reader.readAsText(file);
-    if (e.target) e.target.value = ''; // Allow loading the same file again
+    try {
+      await readProjectFile(file);
+    } catch (error) {
+      console.error("Failed to load or parse file:", error);
+      const detail = error instanceof Error ? `\n\n${error.message}` : '';
+      alert(`Failed to load file. It might be corrupted or not in the correct format.${detail}`);
+    }
   };
 
   // Lógica mejorada del Reset (Sin window.confirm)
@@ -233,7 +339,7 @@ export default function App() {
       const mouseWorldPos = screenToWorld({ x: e.clientX, y: e.clientY });
       const newX = mouseWorldPos.x - draggingNode.offset.x;
       const newY = mouseWorldPos.y - draggingNode.offset.y;
-      actions.setNodes(prevNodes => prevNodes.map(n => n.id === draggingNode.id ? { ...n, position: { x: newX, y: newY } } : n));
+      actions.moveNode(draggingNode.id, { x: newX, y: newY });
     }
     if (connecting) {
       setConnecting(prev => prev ? { ...prev, toPosition: { x: e.clientX, y: e.clientY } } : null);
@@ -242,6 +348,7 @@ export default function App() {
 
   const onMouseUp = (e: MouseEvent<HTMLDivElement>) => {
     viewportHandlers.onMouseUp(e);
+    if (draggingNode) history.checkpoint(); // Cierra el paso de historial del arrastre
     setDraggingNode(null);
     setConnecting(null);
   };
@@ -284,14 +391,143 @@ export default function App() {
         onMouseUp={onMouseUp}
         onMouseDown={viewportHandlers.onMouseDown} // Use viewport handlers for background pan
         onWheel={viewportHandlers.onWheel}
+        onDragOver={(e) => {
+            if (e.dataTransfer.types.includes(ASSET_DRAG_TYPE)) e.preventDefault();
+        }}
+        onDrop={(e) => {
+            const asset = libraryAssets.find(a => a.id === e.dataTransfer.getData(ASSET_DRAG_TYPE));
+            if (!asset) return;
+            e.preventDefault();
+            const world = screenToWorld({ x: e.clientX, y: e.clientY });
+            placeAsset(asset, { x: world.x - 100, y: world.y - 50 });
+        }}
     >
+      {/* Top Left: Active Project */}
+      <div className="absolute top-4 left-4 z-50 flex gap-2 items-center">
+        <button
+            onClick={() => setIsProjectBrowserOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold rounded-full border border-gray-600 transition-colors shadow-sm max-w-[320px]"
+            title="Open Project Browser"
+        >
+            <span>🗂️</span>
+            <span className="truncate">{graph.name}</span>
+        </button>
+        <button
+            onClick={() => setIsLibraryOpen(!isLibraryOpen)}
+            className={`flex items-center gap-2 px-4 py-2 text-white text-xs font-bold rounded-full border transition-colors shadow-sm ${isLibraryOpen ? 'bg-teal-800 border-teal-600' : 'bg-gray-800 hover:bg-gray-700 border-gray-600'}`}
+            title="Shared asset library (characters & settings)"
+        >
+            <span>📚</span>
+            <span>Library</span>
+            {Object.keys(libraryUpdates).length > 0 && (
+              <span className="px-1.5 rounded-full bg-teal-500 text-black text-[9px]" title="Linked nodes with a newer library version">
+                {Object.keys(libraryUpdates).length}
+              </span>
+            )}
+        </button>
+      </div>
+
+      <ProjectBrowser
+        isOpen={isProjectBrowserOpen}
+        onClose={() => setIsProjectBrowserOpen(false)}
+        activeProjectId={projectId}
+        onOpenProject={openProject}
+        onActiveProjectRenamed={actions.setProjectName}
+      />
+
+      <MigrationReportModal report={migrationReport} onClose={() => setMigrationReport(null)} />
+      {pendingBreakdown && (
+        <BreakdownPreview
+          breakdown={pendingBreakdown}
+          existingScenes={(nodes.find(n => n.id === pendingBreakdown.scriptNodeId)?.data as ScriptData | undefined)?.scenes || []}
+          onApply={applyBreakdown}
+          onClose={dismissBreakdown}
+        />
+      )}
+      <ProviderSettings isOpen={isProviderSettingsOpen} onClose={() => setIsProviderSettingsOpen(false)} />
+      {isPdfExportOpen && (
+        <PdfExportDialog nodes={nodes} connections={connections} projectName={graph.name} onClose={() => setIsPdfExportOpen(false)} />
+      )}
+      {isAnimaticOpen && (
+        <AnimaticPlayer nodes={nodes} connections={connections} projectName={graph.name} updateNodeData={actions.updateNodeData} onClose={() => setIsAnimaticOpen(false)} />
+      )}
+      {pendingImport && (
+        <ProjectImportDialog
+          pending={pendingImport}
+          onApply={applyImport}
+          onPickNodes={() => { setMergeImport({ source: pendingImport }); dismissImport(); }}
+          onClose={dismissImport}
+        />
+      )}
+      {isLibraryOpen && (
+        <AssetLibraryPanel
+          assets={libraryAssets}
+          usedAssetIds={usedAssetIds}
+          onPlace={(asset) => {
+            const center = screenToWorld({ x: window.innerWidth / 2, y: window.innerHeight / 2 });
+            placeAsset(asset, { x: center.x - 100, y: center.y - 50 });
+          }}
+          onDelete={handleDeleteAsset}
+          onClose={() => setIsLibraryOpen(false)}
+        />
+      )}
+      {publishNode && isLibraryNode(publishNode) && (
+        <PublishAssetDialog
+          node={publishNode}
+          asset={libraryAssets.find(a => a.id === publishNode.data.libraryLink?.assetId)}
+          onPublish={handlePublishAsset}
+          onClose={() => setPublishNodeId(null)}
+        />
+      )}
+      {mergeImport && (
+        <MergeImportDialog
+          activeProjectId={projectId}
+          initialSource={mergeImport.source}
+          onMerge={mergeSubgraph}
+          onClose={() => setMergeImport(null)}
+        />
+      )}
+      {isEditorialExportOpen && (
+        <EditorialExportDialog nodes={nodes} connections={connections} projectName={graph.name} onClose={() => setIsEditorialExportOpen(false)} />
+      )}
+
       {/* Top Right Actions Toolbar */}
       <div className="absolute top-4 right-4 z-50 flex gap-2">
+        {/* Undo / Redo */}
+        <div className="flex rounded-full border border-gray-600 overflow-hidden shadow-sm">
+            <button
+                onClick={history.undo}
+                disabled={!history.canUndo}
+                className="px-3 py-2 bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                title={history.undoLabel ? `Undo: ${history.undoLabel} (Ctrl+Z)` : 'Nothing to undo'}
+            >
+                ↩️
+            </button>
+            <div className="w-[1px] bg-gray-600"></div>
+            <button
+                onClick={history.redo}
+                disabled={!history.canRedo}
+                className="px-3 py-2 bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold transition-colors disabled:opacity-40 disabled:cursor-not-allowed"
+                title={history.redoLabel ? `Redo: ${history.redoLabel} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+            >
+                ↪️
+            </button>
+        </div>
+
+        {/* AI Provider Settings */}
+        <button
+            onClick={() => setIsProviderSettingsOpen(true)}
+            className="px-3 py-2 bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold rounded-full border border-gray-600 transition-colors shadow-sm"
+            title="AI Provider & Models"
+        >
+            🔌
+        </button>
+
         {/* Save Button */}
         <button
             onClick={handleSave}
             className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold rounded-full border border-gray-600 transition-colors shadow-sm"
-            title="Save Project"
+            title="Save project bundle (.zip with images, passports and specs)"
         >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="M8 7H5a2 2 0 00-2 2v9a2 2 0 002 2h14a2 2 0 002-2V9a2 2 0 00-2-2h-3m-1 4l-3 3m0 0l-3-3m3 3V4" />
@@ -299,25 +535,65 @@ export default function App() {
             <span>Save</span>
         </button>
 
+        {/* Storyboard PDF Export */}
+        <button
+            onClick={() => setIsPdfExportOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold rounded-full border border-gray-600 transition-colors shadow-sm"
+            title="Export a printable storyboard sheet (PDF)"
+        >
+            <span>🖨️</span>
+            <span>PDF</span>
+        </button>
+
+        {/* Animatic Player / WebM Export */}
+        <button
+            onClick={() => setIsAnimaticOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold rounded-full border border-gray-600 transition-colors shadow-sm"
+            title="Play the scenes as a timed animatic and export it to WebM"
+        >
+            <span>🎞️</span>
+            <span>Animatic</span>
+        </button>
+
+        {/* Editorial Export (EDL / FCPXML / OTIO) */}
+        <button
+            onClick={() => setIsEditorialExportOpen(true)}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold rounded-full border border-gray-600 transition-colors shadow-sm"
+            title="Export the shot list for editing (EDL / FCPXML / OTIO + frames)"
+        >
+            <span>🎬</span>
+            <span>Edit</span>
+        </button>
+
         {/* Load Button */}
         <button
             onClick={() => fileInputRef.current?.click()}
             className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold rounded-full border border-gray-600 transition-colors shadow-sm"
-            title="Load Project"
+            title="Load a project bundle (.zip) or legacy .json"
         >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-gray-400" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                  <path strokeLinecap="round" strokeLinejoin="round" d="M4 16v1a3 3 0 003 3h10a3 3 0 003-3v-1m-4-8l-4-4m0 0L8 8m4-4v12" />
             </svg>
             <span>Load</span>
         </button>
-        <input type="file" ref={fileInputRef} onChange={handleLoad} style={{ display: 'none' }} accept=".json" />
+        <input type="file" ref={fileInputRef} onChange={handleLoad} style={{ display: 'none' }} accept=".zip,.json" />
+
+        {/* Import Nodes from another project / file */}
+        <button
+            onClick={() => setMergeImport({})}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-800 hover:bg-gray-700 text-white text-xs font-bold rounded-full border border-gray-600 transition-colors shadow-sm"
+            title="Pick characters, settings or scenes from another project and merge them here"
+        >
+            <span>🧩</span>
+            <span>Import Nodes</span>
+        </button>
 
         {/* Generate All Button (Indigo) */}
         <button
             onClick={generateAll}
             disabled={isGeneratingAll}
             className="flex items-center gap-2 px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-xs font-bold rounded-full border border-indigo-500 transition-colors shadow-sm disabled:opacity-50"
-            title="Generate All Scenes"
+            title="Run the whole graph in dependency order"
         >
             <svg xmlns="http://www.w3.org/2000/svg" className="h-4 w-4 text-indigo-100" fill="none" viewBox="0 0 24 24" stroke="currentColor" strokeWidth={2}>
                 <path strokeLinecap="round" strokeLinejoin="round" d="M14.752 11.168l-3.197-2.132A1 1 0 0010 9.87v4.263a1 1 0 001.555.832l3.197-2.132a1 1 0 000-1.664z" />
@@ -326,6 +602,19 @@ export default function App() {
             <span>{isGeneratingAll ? 'Generating...' : 'Run All'}</span>
         </button>
 
+        {/* Regenerate Stale Button (Amber) - solo si hay nodos obsoletos */}
+        {staleCount > 0 && (
+            <button
+                onClick={regenerateStale}
+                disabled={isGeneratingAll}
+                className="flex items-center gap-2 px-4 py-2 bg-amber-600 hover:bg-amber-500 text-white text-xs font-bold rounded-full border border-amber-500 transition-colors shadow-sm disabled:opacity-50"
+                title="Regenerate only the outputs whose inputs changed"
+            >
+                <span>♻️</span>
+                <span>Stale ({staleCount})</span>
+            </button>
+        )}
+
         {/* New Project / Reset Button */}
         <button 
           onClick={handleReset}
@@ -356,14 +645,30 @@ export default function App() {
         onDeleteNode={actions.deleteNode}
         onDisconnectInput={actions.disconnectInput}
         updateNodeData={actions.updateNodeData}
+        commitNodeData={actions.commitNodeData}
         addScene={actions.addScene}
         deleteScene={actions.deleteScene}
+        duplicateScene={actions.duplicateScene}
+        moveScene={actions.moveScene}
+        splitScene={actions.splitScene}
+        mergeSceneWithNext={actions.mergeSceneWithNext}
+        onImportScreenplay={importScreenplay}
+        onBreakdownScript={breakDownScript}
+        breakingDownIds={breakingDownIds}
+        onImportCsv={importCsvScenes}
         generateImage={generateImage}
         onReverseEngineer={reverseEngineer}
+        onProcessTransformation={processTransformation}
+        staleNodes={staleNodes}
+        libraryUpdates={libraryUpdates}
+        onPublishAsset={setPublishNodeId}
+        onPullAssetUpdate={handlePullAssetUpdate}
         connecting={connecting}
         connectingToPos={connectingToPos}
       />
 
+      <JobQueuePanel />
+
       {/* Persistence Status Indicator Only */}
       <div className="absolute bottom-4 right-4 z-50">
         <div className="bg-gray-900/80 backdrop-blur text-white text-[10px] px-3 py-1.5 rounded-full border border-gray-700 shadow-lg flex items-center gap-2">
@@ -1,6 +1,6 @@
 
 import React, { useLayoutEffect, useState, useRef } from 'react';
-import { Node, Connection, NodeType, ScriptData, CharacterData, SettingData, ImageData, TransformationData, VideoData, ConnectorPosition } from '../../types/graph';
+import { Node, Connection, NodeType, ScriptData, CharacterData, SettingData, ImageData, TransformationData, VideoData, ConnectorPosition, GeneratedArtifact } from '../../types/graph';
 import { NODE_CONFIG } from '../nodes/nodeConfig';
 import { BaseNode } from '../nodes/BaseNode';
 import { CharacterNode } from '../nodes/CharacterNode';
@@ -9,6 +9,9 @@ import { ScriptNode } from '../nodes/ScriptNode';
 import { ImageNode } from '../nodes/ImageNode';
 import { TransformationNode } from '../nodes/TransformationNode';
 import { VideoNode } from '../nodes/VideoNode';
+import { CsvSceneRow } from '../../utils/scriptParser';
+import { CsvImportMode } from '../../hooks/useCsvImport';
+import { AssetRecord } from '../../services/persistence/db';
 
 interface FlowCanvasProps {
   nodes: Node[];
@@ -21,11 +24,26 @@ interface FlowCanvasProps {
   onDeleteNode: (nodeId: string) => void;
   onDisconnectInput: (nodeId: string, inputIndex?: number) => void;
   updateNodeData: (nodeId: string, data: any) => void;
+  commitNodeData: (nodeId: string, data: any, label: string) => void;
   // Specific Actions
-  addScene: (nodeId: string) => void;
+  addScene: (nodeId: string, afterSceneId?: string) => void;
   deleteScene: (nodeId: string, sceneId: string) => void;
+  duplicateScene: (nodeId: string, sceneId: string) => void;
+  moveScene: (nodeId: string, sceneId: string, toIndex: number) => void;
+  splitScene: (nodeId: string, sceneId: string, at?: number) => boolean;
+  mergeSceneWithNext: (nodeId: string, sceneId: string) => void;
+  onImportScreenplay: (nodeId: string, text: string, fileName: string) => void;
+  onBreakdownScript: (nodeId: string) => void;
+  breakingDownIds: string[]; // Script nodes with an AI breakdown in flight
+  onImportCsv: (nodeId: string, rows: CsvSceneRow[], mode: CsvImportMode, createAssets: boolean) => void;
   generateImage: (node: Node<any>) => void;
   onReverseEngineer: (nodeId: string, image: string) => void;
+  onProcessTransformation: (nodeId: string) => void;
+  staleNodes: Record<string, GeneratedArtifact[]>;
+  // Shared Asset Library
+  libraryUpdates: Record<string, AssetRecord>;
+  onPublishAsset: (nodeId: string) => void;
+  onPullAssetUpdate: (nodeId: string) => void;
   // Connecting State
   connecting: { fromNodeId: string; fromOutput: string | number; toPosition: { x: number; y: number } } | null;
   connectingToPos: { x: number; y: number };
@@ -42,10 +60,24 @@ export const FlowCanvas: React.FC<FlowCanvasProps> = ({
   onDeleteNode,
   onDisconnectInput,
   updateNodeData,
+  commitNodeData,
   addScene,
   deleteScene,
+  duplicateScene,
+  moveScene,
+  splitScene,
+  mergeSceneWithNext,
+  onImportScreenplay,
+  onBreakdownScript,
+  breakingDownIds,
+  onImportCsv,
   generateImage,
   onReverseEngineer,
+  onProcessTransformation,
+  staleNodes,
+  libraryUpdates,
+  onPublishAsset,
+  onPullAssetUpdate,
   connecting,
   connectingToPos
 }) => {
@@ -157,12 +189,25 @@ export const FlowCanvas: React.FC<FlowCanvasProps> = ({
             onDisconnectInput={onDisconnectInput}
             checkInputConnection={(index) => checkInputConnection(node.id, index)}
             connectorRefs={connectorRefs}
+            staleArtifacts={staleNodes[node.id]}
           >
             {node.type === NodeType.Character && (
-              <CharacterNode node={node as Node<CharacterData>} updateNodeData={updateNodeData} />
+              <CharacterNode
+                node={node as Node<CharacterData>}
+                updateNodeData={updateNodeData}
+                libraryUpdateVersion={libraryUpdates[node.id]?.versions.length}
+                onPublishAsset={onPublishAsset}
+                onPullAssetUpdate={onPullAssetUpdate}
+              />
             )}
             {node.type === NodeType.Setting && (
-              <SettingNode node={node as Node<SettingData>} updateNodeData={updateNodeData} />
+              <SettingNode
+                node={node as Node<SettingData>}
+                updateNodeData={updateNodeData}
+                libraryUpdateVersion={libraryUpdates[node.id]?.versions.length}
+                onPublishAsset={onPublishAsset}
+                onPullAssetUpdate={onPullAssetUpdate}
+              />
             )}
             {node.type === NodeType.Script && (
               <ScriptNode
@@ -170,6 +215,14 @@ export const FlowCanvas: React.FC<FlowCanvasProps> = ({
                 updateNodeData={updateNodeData}
                 addScene={addScene}
                 deleteScene={deleteScene}
+                duplicateScene={duplicateScene}
+                moveScene={moveScene}
+                splitScene={splitScene}
+                mergeSceneWithNext={mergeSceneWithNext}
+                onImportScreenplay={onImportScreenplay}
+                onBreakdownScript={onBreakdownScript}
+                isBreakingDown={breakingDownIds.includes(node.id)}
+                onImportCsv={onImportCsv}
                 connectorRefs={connectorRefs}
                 onConnectorMouseDown={onConnectorMouseDown}
                 onConnectorMouseUp={onConnectorMouseUp}
@@ -186,6 +239,7 @@ export const FlowCanvas: React.FC<FlowCanvasProps> = ({
               <ImageNode
                 node={node as Node<ImageData>}
                 updateNodeData={updateNodeData}
+                commitNodeData={commitNodeData}
                 onGenerate={generateImage}
                 onReverseEngineer={onReverseEngineer}
                 connectorRefs={connectorRefs}
@@ -193,7 +247,11 @@ export const FlowCanvas: React.FC<FlowCanvasProps> = ({
               />
             )}
             {node.type === NodeType.Transformation && (
-              <TransformationNode node={node as Node<TransformationData>} updateNodeData={updateNodeData} />
+              <TransformationNode
+                node={node as Node<TransformationData>}
+                updateNodeData={updateNodeData}
+                onProcess={onProcessTransformation}
+              />
             )}
             {node.type === NodeType.Video && (
                <VideoNode
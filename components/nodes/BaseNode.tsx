@@ -1,5 +1,6 @@
 import React, { MouseEvent, MutableRefObject } from 'react';
-import { Node } from '../../types/graph';
+import { Node, GeneratedArtifact } from '../../types/graph';
+import { ARTIFACT_LABELS } from '../../services/inputHashes';
 import { NodeConfigItem } from './nodeConfig';
 import { Handle } from './Handle';
 
@@ -14,6 +15,7 @@ interface BaseNodeProps {
   onDisconnectInput?: (nodeId: string, inputIndex: number) => void;
   checkInputConnection: (index: number) => boolean;
   connectorRefs: MutableRefObject<Record<string, HTMLDivElement | null>>;
+  staleArtifacts?: GeneratedArtifact[]; // Outputs whose inputs changed since they were generated
 }
 
 export const BaseNode: React.FC<BaseNodeProps> = ({
@@ -27,6 +29,7 @@ export const BaseNode: React.FC<BaseNodeProps> = ({
   onDisconnectInput,
   checkInputConnection,
   connectorRefs,
+  staleArtifacts = [],
 }) => {
   return (
     <div
@@ -45,7 +48,17 @@ export const BaseNode: React.FC<BaseNodeProps> = ({
     >
       {/* Header */}
       <div className="p-2 rounded-t-lg bg-black/20 flex justify-between items-center cursor-move">
-        <span className="font-bold text-sm text-white/90 shadow-black drop-shadow-md">{config.title}</span>
+        <div className="flex items-center gap-2">
+          <span className="font-bold text-sm text-white/90 shadow-black drop-shadow-md">{config.title}</span>
+          {staleArtifacts.length > 0 && (
+            <span
+              className="px-1.5 py-0.5 rounded bg-amber-500/90 text-black text-[9px] font-bold uppercase tracking-wider"
+              title={`Inputs changed since generation: ${staleArtifacts.map(a => ARTIFACT_LABELS[a]).join(', ')}`}
+            >
+              Stale
+            </span>
+          )}
+        </div>
         <button
           onMouseDown={(e) => e.stopPropagation()} // Stop drag start on delete button
           onClick={(e) => {
@@ -4,10 +4,16 @@ import { fileToBase64 } from '../../utils/file';
 import { analyzeCharacterImage, generateReferenceAsset } from '../../services/geminiService';
 import { CharacterPassport } from '../../types/cinematicSchema';
 import { JSONInspectorModal } from '../ui/JSONInspectorModal';
+import { storeImage, resolveImage } from '../../services/persistence/imageStore';
+import { useImageSrc } from '../../hooks/useImageSrc';
+import { LibraryLinkBar } from './LibraryLinkBar';
 
 interface CharacterNodeProps {
   node: Node<CharacterData>;
   updateNodeData: (nodeId: string, data: Partial<CharacterData>) => void;
+  libraryUpdateVersion?: number;
+  onPublishAsset: (nodeId: string) => void;
+  onPullAssetUpdate: (nodeId: string) => void;
 }
 
 // Internal component to visualize the Biometric Profile (Visual DNA)
@@ -82,7 +88,7 @@ const PassportInspector = ({ passport }: { passport: CharacterPassport }) => {
     )
 }
 
-export const CharacterNode = React.memo(({ node, updateNodeData }: CharacterNodeProps) => {
+export const CharacterNode = React.memo(({ node, updateNodeData, libraryUpdateVersion, onPublishAsset, onPullAssetUpdate }: CharacterNodeProps) => {
   const [isDescriptionOpen, setIsDescriptionOpen] = useState(true);
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   
@@ -90,22 +96,26 @@ export const CharacterNode = React.memo(({ node, updateNodeData }: CharacterNode
   const [inputMode, setInputMode] = useState<'upload' | 'generate'>('upload');
   const [genPrompt, setGenPrompt] = useState('');
 
+  const imageSrc = useImageSrc(node.data.image);
+  const clothingSrc = useImageSrc(node.data.clothingImage);
+
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.[0]) {
-      const base64 = await fileToBase64(e.target.files[0]);
-      
-      // 1. Update visual immediately
-      updateNodeData(node.id, { image: base64 });
-
-      // 2. Trigger AI Analysis
       setIsAnalyzing(true);
       try {
+        const base64 = await fileToBase64(e.target.files[0]);
+        const imageRef = await storeImage(base64);
+
+        // 1. Update visual immediately
+        updateNodeData(node.id, { image: imageRef });
+
+        // 2. Trigger AI Analysis
         console.log("👁️ Character Node: Analyzing image for biometric profile...");
-        const passport = await analyzeCharacterImage(base64, node.data.clothingImage);
+        const passport = await analyzeCharacterImage(base64, await resolveImage(node.data.clothingImage));
         
         if (passport) {
              updateNodeData(node.id, { 
-                image: base64,
+                image: imageRef,
                 prompt: passport.description, // Fill the description/prompt field
                 characterPassport: passport   // Store structural data
              });
@@ -121,29 +131,31 @@ export const CharacterNode = React.memo(({ node, updateNodeData }: CharacterNode
 
   const handleClothingUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.[0]) {
-       const clothingBase64 = await fileToBase64(e.target.files[0]);
-       
-       // 1. Guardar la imagen de ropa
-       updateNodeData(node.id, { clothingImage: clothingBase64 });
+       setIsAnalyzing(true);
+       try {
+           const clothingBase64 = await fileToBase64(e.target.files[0]);
+           const clothingRef = await storeImage(clothingBase64);
+
+           // 1. Guardar la imagen de ropa
+           updateNodeData(node.id, { clothingImage: clothingRef });
 
-       // 2. Si ya tenemos cara, re-analizamos todo para mezclar (Fusión)
-       if (node.data.image) {
-           setIsAnalyzing(true);
-           try {
+           // 2. Si ya tenemos cara, re-analizamos todo para mezclar (Fusión)
+           const faceImage = await resolveImage(node.data.image);
+           if (faceImage) {
                console.log("👕 Merging Clothing DNA...");
-               const passport = await analyzeCharacterImage(node.data.image, clothingBase64);
+               const passport = await analyzeCharacterImage(faceImage, clothingBase64);
                if (passport) {
                    updateNodeData(node.id, { 
-                       clothingImage: clothingBase64, // Reiteramos para asegurar
+                       clothingImage: clothingRef, // Reiteramos para asegurar
                        prompt: passport.description,
                        characterPassport: passport 
                    });
                }
-           } catch (err) {
-               console.error("Clothing merge failed", err);
-           } finally {
-               setIsAnalyzing(false);
            }
+       } catch (err) {
+           console.error("Clothing upload failed", err);
+       } finally {
+           setIsAnalyzing(false);
        }
     }
   };
@@ -156,17 +168,18 @@ export const CharacterNode = React.memo(({ node, updateNodeData }: CharacterNode
         console.log("🎨 Generating Character Concept...");
         // 1. Generar la Imagen Base (Text-to-Image)
         const base64Image = await generateReferenceAsset(genPrompt);
+        const imageRef = await storeImage(base64Image);
         
         // Actualizamos visualmente de inmediato
-        updateNodeData(node.id, { image: base64Image });
+        updateNodeData(node.id, { image: imageRef });
 
         console.log("🧬 Analyzing Generated Identity...");
         // 2. Analizar la imagen generada para obtener el Passport (Image-to-Text/JSON)
-        const passport = await analyzeCharacterImage(base64Image, node.data.clothingImage);
+        const passport = await analyzeCharacterImage(base64Image, await resolveImage(node.data.clothingImage));
 
         if (passport) {
             updateNodeData(node.id, { 
-                image: base64Image,
+                image: imageRef,
                 prompt: passport.description, // La IA describe su propia creación
                 characterPassport: passport
             });
@@ -182,6 +195,15 @@ export const CharacterNode = React.memo(({ node, updateNodeData }: CharacterNode
 
   return (
     <div className="p-3 space-y-3">
+
+      {/* Shared Library Link */}
+      <LibraryLinkBar
+          link={node.data.libraryLink}
+          updateVersion={libraryUpdateVersion}
+          onPublish={() => onPublishAsset(node.id)}
+          onPullUpdate={() => onPullAssetUpdate(node.id)}
+          onUnlink={() => updateNodeData(node.id, { libraryLink: undefined })}
+      />
       
       {/* Input Mode Tabs */}
       <div className="flex bg-gray-900 p-1 rounded-lg border border-gray-700 mb-2">
@@ -201,9 +223,9 @@ export const CharacterNode = React.memo(({ node, updateNodeData }: CharacterNode
 
       {/* Image Area with Overlay */}
       <div className="relative w-full h-40 bg-gray-900 rounded border border-gray-700 overflow-hidden group shadow-sm hover:border-blue-500/50 transition-colors">
-           {node.data.image ? (
+           {imageSrc ? (
               <img 
-                src={node.data.image.startsWith('data:') ? node.data.image : `data:image/png;base64,${node.data.image}`} 
+                src={imageSrc} 
                 className="w-full h-full object-cover" 
                 alt="Character" 
               />
@@ -262,9 +284,9 @@ export const CharacterNode = React.memo(({ node, updateNodeData }: CharacterNode
       <div className="flex gap-2 items-start p-2 bg-gray-900/50 rounded border border-gray-700">
           {/* Mini Preview / Upload Box */}
           <div className="relative w-16 h-16 bg-gray-800 rounded border border-gray-600 shrink-0 overflow-hidden group hover:border-blue-400 transition-colors">
-              {node.data.clothingImage ? (
+              {clothingSrc ? (
                   <img 
-                      src={node.data.clothingImage.startsWith('data:') ? node.data.clothingImage : `data:image/png;base64,${node.data.clothingImage}`} 
+                      src={clothingSrc} 
                       className="w-full h-full object-cover" 
                       alt="Body Ref" 
                   />
@@ -1,16 +1,23 @@
 
-import React, { useState, MutableRefObject, MouseEvent, useCallback } from 'react';
+import React, { useState, useEffect, MutableRefObject, MouseEvent, useCallback } from 'react';
 import { createPortal } from 'react-dom';
 import { Node, ImageData } from '../../types/graph';
 import { ErrorInspector } from '../ui/ErrorInspector';
+import { invalidateNodeResponses } from '../../services/responseCache';
 import { CinematicInspector } from '../ui/CinematicInspector';
 import { CinematicJSON } from '../../types/cinematicSchema';
 import { Handle } from './Handle';
 import { fileToBase64 } from '../../utils/file';
+import { storeImage } from '../../services/persistence/imageStore';
+import { useImageSrc } from '../../hooks/useImageSrc';
+import { TakeFilmstrip } from '../ui/TakeFilmstrip';
+import { TakeCompare } from '../ui/TakeCompare';
+import { getTakes, createTake, addTake, selectTake, removeTake } from '../../utils/imageTakes';
 
 interface ImageNodeProps {
   node: Node<ImageData>;
   updateNodeData: (nodeId: string, data: Partial<ImageData>) => void;
+  commitNodeData: (nodeId: string, data: Partial<ImageData>, label: string) => void;
   onGenerate: (node: Node<ImageData>) => void;
   onReverseEngineer?: (nodeId: string, image: string) => void;
   connectorRefs: MutableRefObject<Record<string, HTMLDivElement | null>>;
@@ -23,6 +30,7 @@ export const ImageNode = React.memo(({
     onGenerate, 
     onReverseEngineer, 
     updateNodeData, 
+    commitNodeData, 
     connectorRefs, 
     onConnectorMouseDown,
     isRefConnected 
@@ -31,6 +39,41 @@ export const ImageNode = React.memo(({
   const [showLightbox, setShowLightbox] = useState(false);
   const [showDebug, setShowDebug] = useState(false);
   const [isCopied, setIsCopied] = useState(false);
+  const [viewedTakeId, setViewedTakeId] = useState<string | null>(null);
+  const [showCompare, setShowCompare] = useState(false);
+  const [isConfirmingDelete, setIsConfirmingDelete] = useState(false);
+
+  // La tira de tomas permite mirar versiones anteriores sin cambiar la que consumen los nodos de abajo
+  const takes = getTakes(node.data);
+  const viewedTake = takes.find(t => t.id === viewedTakeId);
+  const viewedIndex = viewedTake ? takes.indexOf(viewedTake) : takes.findIndex(t => t.id === node.data.selectedTakeId);
+  const isViewingOtherTake = !!viewedTake && viewedTake.id !== node.data.selectedTakeId;
+
+  const imageSrc = useImageSrc(viewedTake?.image ?? node.data.image);
+
+  // Una toma nueva (o fijada desde otro sitio) vuelve a mostrarse en primer plano
+  useEffect(() => {
+    setViewedTakeId(null);
+  }, [node.data.selectedTakeId]);
+
+  // Cambiar de toma es un solo paso de Undo: imagen, spec, sellos y traza vuelven juntos
+  const handlePinTake = useCallback((takeId: string) => {
+    const patch = selectTake(node.data, takeId);
+    if (patch) commitNodeData(node.id, patch, 'Pin take');
+    setViewedTakeId(null);
+  }, [node.id, node.data, commitNodeData]);
+
+  // Mismo patrón de doble click que el botón Reset (sin window.confirm)
+  const handleDeleteTake = useCallback((takeId: string) => {
+    if (!isConfirmingDelete) {
+      setIsConfirmingDelete(true);
+      setTimeout(() => setIsConfirmingDelete(false), 3000);
+      return;
+    }
+    setIsConfirmingDelete(false);
+    commitNodeData(node.id, removeTake(node.data, takeId), 'Delete take');
+    setViewedTakeId(null);
+  }, [node.id, node.data, commitNodeData, isConfirmingDelete]);
 
   const handleCopyJson = (e: React.MouseEvent) => {
     e.stopPropagation();
@@ -50,19 +93,23 @@ export const ImageNode = React.memo(({
 
   const handleUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     if (e.target.files?.[0]) {
-      const fullBase64 = await fileToBase64(e.target.files[0]);
-      
-      // [FIX] CRÍTICO: Eliminamos el prefijo "data:image/png;base64," 
-      // para guardar solo la data cruda, ya que el render lo agrega después.
-      const rawBase64 = fullBase64.split(',')[1]; 
+      try {
+        const fullBase64 = await fileToBase64(e.target.files[0]);
 
-      updateNodeData(node.id, { 
-          image: rawBase64, 
-          error: undefined, 
-          isLoading: false,
-          // Importante: Marcar modo standard para que no busque inputs de transformación
-          mode: 'standard' 
-      });
+        // La imagen va al store de blobs; el nodo solo guarda la referencia.
+        const imageRef = await storeImage(fullBase64);
+
+        updateNodeData(node.id, { 
+            ...addTake(node.data, createTake(imageRef, { source: 'upload' })),
+            error: undefined, 
+            isLoading: false,
+            // Importante: Marcar modo standard para que no busque inputs de transformación
+            mode: 'standard' 
+        });
+      } catch (error) {
+        console.error("Error storing uploaded image:", error);
+        alert(`Could not store the image: ${error instanceof Error ? error.message : String(error)}`);
+      }
     }
   };
 
@@ -116,15 +163,19 @@ export const ImageNode = React.memo(({
 
         {/* Debug Inspector Portal */}
         {showDebug && node.data.debugTrace && (
-            <ErrorInspector trace={node.data.debugTrace} onClose={() => setShowDebug(false)} />
+            <ErrorInspector
+                trace={node.data.debugTrace}
+                onClose={() => setShowDebug(false)}
+                onClearCache={() => invalidateNodeResponses(node.id)}
+            />
         )}
 
       {/* Image Display */}
       {node.data.image ? (
         <div className="relative w-full min-h-[250px] rounded-md border border-gray-600 border-solid overflow-hidden shadow-sm group bg-black">
             <img
-                src={`data:image/png;base64,${node.data.image}`}
-                alt="Generated scene"
+                src={imageSrc}
+                alt={viewedIndex >= 0 ? `Take ${viewedIndex + 1}` : 'Generated scene'}
                 className={`w-full h-full object-cover min-h-[250px] ${node.data.isLoading ? 'opacity-50 blur-[1px]' : ''} cursor-pointer`}
                 onClick={() => setShowLightbox(true)}
             />
@@ -133,6 +184,11 @@ export const ImageNode = React.memo(({
                     <div className="animate-spin rounded-full h-10 w-10 border-b-2 border-white/80"></div>
                 </div>
             )}
+            {isViewingOtherTake && (
+                <span className="absolute top-2 right-2 z-10 px-2 py-0.5 rounded bg-black/80 text-[10px] font-bold text-gray-200 border border-gray-600 pointer-events-none">
+                    Previewing take {viewedIndex + 1} · not pinned
+                </span>
+            )}
         </div>
       ) : (
         <div className="relative w-full min-h-[250px] rounded-md border border-gray-600 border-dashed bg-gray-700/30 flex justify-center items-center flex-col gap-2 select-none hover:bg-gray-700/50 transition-colors">
@@ -166,14 +222,71 @@ export const ImageNode = React.memo(({
         </div>
       )}
 
+      {/* Take History */}
+      {node.data.image && takes.length > 1 && (
+        <div className="space-y-1.5">
+            <TakeFilmstrip
+                takes={takes}
+                selectedTakeId={node.data.selectedTakeId}
+                viewedTakeId={viewedTake?.id ?? node.data.selectedTakeId}
+                onView={(takeId) => setViewedTakeId(takeId === node.data.selectedTakeId ? null : takeId)}
+            />
+            <div className="flex items-center gap-1.5 text-[10px]">
+                <span className="text-gray-400 font-mono mr-auto">Take {viewedIndex + 1}/{takes.length}</span>
+                <button
+                    onClick={(e) => { e.stopPropagation(); handlePinTake(viewedTake!.id); }}
+                    disabled={!isViewingOtherTake || node.data.isLoading}
+                    className="px-2 py-1 rounded font-bold bg-yellow-700/60 hover:bg-yellow-600 text-yellow-100 disabled:opacity-40 disabled:hover:bg-yellow-700/60"
+                    title="Use this take downstream (Transformation / Video nodes)"
+                >
+                    📌 Pin as selected
+                </button>
+                <button
+                    onClick={(e) => { e.stopPropagation(); setShowCompare(true); }}
+                    className="px-2 py-1 rounded font-bold bg-gray-700 hover:bg-gray-600 text-gray-200"
+                    title="Compare two takes side by side"
+                >
+                    A/B
+                </button>
+                <button
+                    onClick={(e) => { e.stopPropagation(); handleDeleteTake(viewedTake?.id ?? node.data.selectedTakeId!); }}
+                    disabled={node.data.isLoading}
+                    className={`px-2 py-1 rounded disabled:opacity-40 ${isConfirmingDelete ? 'bg-red-600 text-white font-bold' : 'bg-gray-800 hover:bg-red-900 text-gray-400 hover:text-red-200'}`}
+                    title="Delete this take"
+                >
+                    {isConfirmingDelete ? 'Confirm?' : '🗑'}
+                </button>
+            </div>
+        </div>
+      )}
+
       {/* Lightbox */}
-      {showLightbox && node.data.image && createPortal(
+      {showLightbox && imageSrc && createPortal(
         <div className="fixed inset-0 z-[9999] bg-black/90 backdrop-blur-sm flex items-center justify-center p-4" onClick={() => setShowLightbox(false)}>
-          <img src={`data:image/png;base64,${node.data.image}`} className="max-w-full max-h-[90vh] object-contain rounded shadow-2xl" />
+          <img src={imageSrc} className="max-w-full max-h-[90vh] object-contain rounded shadow-2xl" />
+          {takes.length > 1 && (
+            <button
+                onClick={(e) => { e.stopPropagation(); setShowLightbox(false); setShowCompare(true); }}
+                className="absolute top-4 right-4 px-3 py-1.5 rounded bg-gray-800 hover:bg-gray-700 text-gray-200 text-xs font-bold border border-gray-600"
+            >
+                A/B Compare takes
+            </button>
+          )}
         </div>,
         document.body
       )}
 
+      {/* A/B Comparison */}
+      {showCompare && takes.length > 1 && (
+        <TakeCompare
+            takes={takes}
+            selectedTakeId={node.data.selectedTakeId}
+            initialB={isViewingOtherTake ? viewedTake!.id : undefined}
+            onPin={handlePinTake}
+            onClose={() => setShowCompare(false)}
+        />
+      )}
+
       {/* Action Buttons */}
       <div className="flex gap-2">
         {/* Generate Button */}
@@ -185,7 +298,7 @@ export const ImageNode = React.memo(({
             } text-white`}
         >
             {node.data.isLoading ? 'Generating...' : (
-                isTransformationMode ? 'Run Transformation' : (node.data.image ? 'Regenerate (Overwrite)' : 'Generate Image')
+                isTransformationMode ? 'Run Transformation' : (node.data.image ? 'Generate New Take' : 'Generate Image')
             )}
         </button>
       </div>
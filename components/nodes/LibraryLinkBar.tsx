@@ -0,0 +1,42 @@
+import React from 'react';
+import { LibraryLink } from '../../types/graph';
+
+interface LibraryLinkBarProps {
+  link?: LibraryLink;
+  updateVersion?: number; // Newer library version available for this node
+  onPublish: () => void;
+  onPullUpdate: () => void;
+  onUnlink: () => void;
+}
+
+// Estado del vínculo con la librería compartida (Character / Setting)
+export const LibraryLinkBar: React.FC<LibraryLinkBarProps> = ({ link, updateVersion, onPublish, onPullUpdate, onUnlink }) => (
+  <div className="flex items-center gap-1 text-[10px]">
+    {link ? (
+      <>
+        <span className="px-1.5 py-0.5 rounded bg-teal-900/50 border border-teal-700/60 text-teal-200 font-bold" title="Placed from the asset library">
+          📚 v{link.version}
+        </span>
+        {updateVersion && (
+          <button
+            onClick={onPullUpdate}
+            className="px-1.5 py-0.5 rounded bg-teal-600 hover:bg-teal-500 text-white font-bold transition-colors"
+            title="The library has a newer version. Pulling it replaces the prompt, reference images and passport."
+          >
+            ⬆ v{updateVersion}
+          </button>
+        )}
+        <button onClick={onPublish} className="ml-auto px-1.5 py-0.5 rounded text-gray-400 hover:text-white hover:bg-gray-700/60" title="Publish these changes as a new library version">
+          Publish
+        </button>
+        <button onClick={onUnlink} className="px-1.5 py-0.5 rounded text-gray-500 hover:text-white hover:bg-gray-700/60" title="Stop following the library asset">
+          Unlink
+        </button>
+      </>
+    ) : (
+      <button onClick={onPublish} className="ml-auto px-1.5 py-0.5 rounded text-gray-400 hover:text-teal-200 hover:bg-gray-700/60" title="Publish to the shared asset library">
+        📚 Publish to library
+      </button>
+    )}
+  </div>
+);
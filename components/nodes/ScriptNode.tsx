@@ -1,9 +1,13 @@
 import React, { MouseEvent, MutableRefObject, useRef, useState } from 'react';
 import { createPortal } from 'react-dom';
-import { Node, ScriptData, ScriptScene, CharacterData, SettingData } from '../../types/graph';
+import { Node, ScriptData, ScriptScene, CharacterData, SettingData, SceneBlocking, CastBlocking, ScreenPosition, DialogueLine } from '../../types/graph';
 import { Handle } from './Handle';
-// Importamos el parser desde la carpeta utils en la raíz (subimos 2 niveles)
-import { parseScriptCSV } from '../../utils/scriptParser'; 
+import { CsvSceneRow } from '../../utils/scriptParser';
+import { CsvImportDialog } from '../ui/CsvImportDialog';
+import { CsvImportMode } from '../../hooks/useCsvImport';
+import { resolveSceneCast, toggleCastMember } from '../../utils/sceneCast';
+import { SCREENPLAY_EXTENSIONS } from '../../utils/screenplayParser';
+import { SHOT_SIZES, CAMERA_ANGLES, TIMES_OF_DAY, SCREEN_POSITIONS, normalizeBlocking, summarizeBlocking } from '../../utils/sceneBlocking';
 
 // --- SUBCOMPONENT: Expanded Text Editor (Modal) ---
 const ExpandedEditor = ({ 
@@ -96,6 +100,169 @@ const SettingSelector = ({ connectedSettings, selectedId, onSelect }: {
   );
 };
 
+// --- SUBCOMPONENT: Cast Selector (multi-select, like the settings but several can be on) ---
+const CastSelector = ({ connectedCharacters, scene, onChange }: {
+    connectedCharacters: Node<CharacterData>[],
+    scene: ScriptScene,
+    onChange: (castIds: string[]) => void
+}) => {
+  if (!connectedCharacters || connectedCharacters.length === 0) return null;
+  const castIds = resolveSceneCast(scene, connectedCharacters).map(c => c.id);
+
+  return (
+    <div className="flex flex-wrap gap-2 ml-2 mt-1">
+      {connectedCharacters.map((character, index) => {
+        const isSelected = castIds.includes(character.id);
+        return (
+          <label
+            key={character.id}
+            title={character.data.prompt || `Character ${index + 1}`}
+            className={`
+              flex items-center gap-1 px-1.5 py-0.5 rounded border text-[9px] cursor-pointer transition-all select-none
+              ${isSelected
+                ? 'bg-blue-900/50 border-blue-500 text-blue-200'
+                : 'bg-gray-800 border-gray-600 text-gray-500 hover:border-gray-500'
+              }
+            `}
+            onClick={(e) => e.stopPropagation()}
+          >
+            <input
+                type="checkbox"
+                checked={isSelected}
+                onChange={() => onChange(toggleCastMember(scene, connectedCharacters, character.id))}
+                className="hidden"
+            />
+            <span className="text-blue-400">
+                {isSelected ? '☑' : '☐'}
+            </span>
+            <span className="max-w-[60px] truncate">
+                Char {index + 1}
+            </span>
+          </label>
+        );
+      })}
+    </div>
+  );
+};
+
+// --- SUBCOMPONENT: Blocking Editor (production metadata, sent as hard constraints) ---
+const blockingInputClass = "w-full bg-black/30 border border-gray-700 rounded px-1 py-0.5 text-[10px] text-gray-200 focus:outline-none focus:border-purple-500";
+
+const BlockingSelect = ({ label, value, options, onChange }: {
+    label: string,
+    value: string | undefined,
+    options: string[],
+    onChange: (value: string | undefined) => void
+}) => (
+    <label className="flex flex-col gap-0.5 text-[9px] text-gray-400 uppercase font-bold">
+        {label}
+        <select value={value || ''} onChange={(e) => onChange(e.target.value || undefined)} onMouseDown={(e) => e.stopPropagation()} className={blockingInputClass}>
+            <option value="">Auto</option>
+            {options.map(option => <option key={option} value={option}>{option}</option>)}
+        </select>
+    </label>
+);
+
+const BlockingEditor = ({ scene, cast, allCharacters, onChange }: {
+    scene: ScriptScene,
+    cast: Node<CharacterData>[],
+    allCharacters: Node<CharacterData>[],
+    onChange: (blocking: SceneBlocking | undefined) => void
+}) => {
+  const blocking = scene.blocking || {};
+  const update = (patch: Partial<SceneBlocking>) => onChange(normalizeBlocking({ ...blocking, ...patch }));
+  const updateCast = (characterId: string, patch: Partial<CastBlocking>) =>
+      update({ cast: { ...blocking.cast, [characterId]: { ...blocking.cast?.[characterId], ...patch } } });
+
+  return (
+    <div className="mt-2 pt-2 border-t border-gray-700/60 space-y-2">
+        <div className="grid grid-cols-2 gap-1.5">
+            <BlockingSelect label="Shot Size" value={blocking.shotSize} options={SHOT_SIZES} onChange={(shotSize) => update({ shotSize })} />
+            <BlockingSelect label="Camera Angle" value={blocking.cameraAngle} options={CAMERA_ANGLES} onChange={(cameraAngle) => update({ cameraAngle })} />
+            <BlockingSelect label="Time of Day" value={blocking.timeOfDay} options={TIMES_OF_DAY} onChange={(timeOfDay) => update({ timeOfDay })} />
+            <label className="flex flex-col gap-0.5 text-[9px] text-gray-400 uppercase font-bold">
+                Mood
+                <input
+                    value={blocking.mood || ''}
+                    onChange={(e) => update({ mood: e.target.value })}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    placeholder="Auto"
+                    className={blockingInputClass}
+                />
+            </label>
+        </div>
+
+        {cast.length > 0 && (
+            <div className="space-y-1.5">
+                <span className="text-[9px] text-blue-400 uppercase font-bold">Cast Blocking</span>
+                {cast.map(character => {
+                    const entry = blocking.cast?.[character.id] || {};
+                    return (
+                        <div key={character.id} className="p-1.5 rounded bg-blue-950/20 border border-blue-900/40 space-y-1">
+                            <span className="block text-[9px] text-blue-200 truncate" title={character.data.prompt}>
+                                Char {allCharacters.indexOf(character) + 1}{character.data.prompt ? ` · ${character.data.prompt}` : ''}
+                            </span>
+                            <input
+                                value={entry.action || ''}
+                                onChange={(e) => updateCast(character.id, { action: e.target.value })}
+                                onMouseDown={(e) => e.stopPropagation()}
+                                placeholder="Action (inferred from the scene if empty)"
+                                className={blockingInputClass}
+                            />
+                            <div className="flex gap-1">
+                                <input
+                                    value={entry.wardrobe || ''}
+                                    onChange={(e) => updateCast(character.id, { wardrobe: e.target.value })}
+                                    onMouseDown={(e) => e.stopPropagation()}
+                                    placeholder="Wardrobe override"
+                                    className={blockingInputClass}
+                                />
+                                <select
+                                    value={entry.position || ''}
+                                    onChange={(e) => updateCast(character.id, { position: (e.target.value || undefined) as ScreenPosition | undefined })}
+                                    onMouseDown={(e) => e.stopPropagation()}
+                                    className={`${blockingInputClass} w-24 shrink-0`}
+                                    title="Screen position"
+                                >
+                                    <option value="">Position</option>
+                                    {SCREEN_POSITIONS.map(position => <option key={position} value={position}>{position}</option>)}
+                                </select>
+                            </div>
+                        </div>
+                    );
+                })}
+            </div>
+        )}
+    </div>
+  );
+};
+
+// --- SUBCOMPONENT: Dialogue (read-only, from imported screenplays) ---
+const DialogueList = ({ dialogue }: { dialogue: DialogueLine[] }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  return (
+    <div className="mt-2 border-t border-gray-700/50 pt-1">
+        <button
+            onClick={(e) => { e.stopPropagation(); setIsOpen(!isOpen); }}
+            className="flex items-center gap-1 text-[9px] uppercase font-bold text-gray-400 hover:text-white"
+        >
+            💬 Dialogue ({dialogue.length}) <span>{isOpen ? '▼' : '▶'}</span>
+        </button>
+        {isOpen && (
+            <div className="mt-1 space-y-1 max-h-40 overflow-y-auto custom-scrollbar" onMouseDown={(e) => e.stopPropagation()}>
+                {dialogue.map((line, i) => (
+                    <div key={i} className="text-[10px] leading-snug">
+                        <span className="font-bold text-blue-300">{line.character}</span>
+                        {line.parenthetical && <span className="text-gray-500 italic"> {line.parenthetical}</span>}
+                        <span className="text-gray-300">: {line.text}</span>
+                    </div>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
+
 interface SceneModuleProps {
   nodeId: string;
   scene: ScriptScene;
@@ -104,12 +271,29 @@ interface SceneModuleProps {
   deleteScene: (nodeId: string, sceneId: string) => void;
   updateSceneDescription: (sceneId: string, newDescription: string) => void;
   updateSceneSetting: (sceneId: string, settingId: string | undefined) => void;
+  updateSceneCast: (sceneId: string, castIds: string[]) => void;
+  updateSceneBlocking: (sceneId: string, blocking: SceneBlocking | undefined) => void;
+  updateSceneNotes: (sceneId: string, notes: string) => void;
   connectedSettings: Node<SettingData>[];
+  connectedCharacters: Node<CharacterData>[];
   onConnectorMouseDown: (e: MouseEvent<HTMLDivElement>, nodeId: string, outputId: string) => void;
   connectorRefs: MutableRefObject<Record<string, HTMLDivElement | null>>;
   onOpenEditor: (sceneId: string, text: string, title: string) => void;
+  onInsertAfter: () => void;
+  onDuplicate: () => void;
+  onSplit: (at?: number) => void;
+  onMergeNext?: () => void; // Undefined for the last scene
+  // Drag to reorder
+  isDragging: boolean;
+  dropPosition: 'before' | 'after' | null;
+  onDragStart: (e: React.DragEvent) => void;
+  onDragOver: (e: React.DragEvent) => void;
+  onDrop: (e: React.DragEvent) => void;
+  onDragEnd: () => void;
 }
 
+const sceneActionClass = 'p-1 rounded text-[10px] leading-none text-gray-400 hover:text-white hover:bg-gray-600/60 transition-colors opacity-0 group-hover/scene:opacity-100';
+
 const SceneModule: React.FC<SceneModuleProps> = ({
   nodeId,
   scene,
@@ -118,18 +302,52 @@ const SceneModule: React.FC<SceneModuleProps> = ({
   deleteScene,
   updateSceneDescription,
   updateSceneSetting,
+  updateSceneCast,
+  updateSceneBlocking,
+  updateSceneNotes,
   connectedSettings,
+  connectedCharacters,
   onConnectorMouseDown,
   connectorRefs,
   onOpenEditor,
+  onInsertAfter,
+  onDuplicate,
+  onSplit,
+  onMergeNext,
+  isDragging,
+  dropPosition,
+  onDragStart,
+  onDragOver,
+  onDrop,
+  onDragEnd,
 }) => {
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
   
   return (
-    <div className="bg-gray-700/60 rounded-lg border border-gray-600/50 relative group/scene mb-2 visible">
+    <div
+      className={`bg-gray-700/60 rounded-lg border border-gray-600/50 relative group/scene mb-2 visible transition-opacity ${isDragging ? 'opacity-40' : ''}`}
+      onDragOver={onDragOver}
+      onDrop={onDrop}
+    >
+      {/* Drop indicator */}
+      {dropPosition && (
+        <div className={`absolute left-0 right-0 h-0.5 bg-purple-400 rounded z-40 ${dropPosition === 'before' ? '-top-1.5' : '-bottom-1.5'}`} />
+      )}
+
       {/* Scene Header */}
       <div className="flex justify-between items-start p-2 relative bg-gray-800/50">
         <div className="flex flex-col gap-1 flex-grow min-w-0">
             <div className="flex items-center gap-2">
+                <span
+                    draggable
+                    onDragStart={onDragStart}
+                    onDragEnd={onDragEnd}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    className="cursor-grab active:cursor-grabbing text-gray-500 hover:text-purple-300 text-[10px] select-none"
+                    title="Drag to reorder"
+                >
+                    ⋮⋮
+                </span>
                 <span className="font-bold text-[10px] text-purple-400 uppercase tracking-wide">
                     Scene {index + 1}
                 </span>
@@ -150,15 +368,45 @@ const SceneModule: React.FC<SceneModuleProps> = ({
                 </div>
             </div>
             
+            {scene.slugline && (
+                <span className="ml-2 text-[9px] font-mono text-gray-400 truncate" title={scene.slugline}>
+                    {scene.slugline}
+                </span>
+            )}
+
+            {summarizeBlocking(scene.blocking) && (
+                <span className="ml-2 text-[9px] text-purple-300/70 truncate" title="Scene blocking">
+                    🎬 {summarizeBlocking(scene.blocking)}
+                </span>
+            )}
+
             {/* SETTING SELECTOR (Checkboxes) */}
             <SettingSelector 
                 connectedSettings={connectedSettings}
                 selectedId={scene.selectedSettingId}
                 onSelect={(id) => updateSceneSetting(scene.id, id)}
             />
+
+            {/* CAST SELECTOR (Checkboxes) */}
+            <CastSelector
+                connectedCharacters={connectedCharacters}
+                scene={scene}
+                onChange={(castIds) => updateSceneCast(scene.id, castIds)}
+            />
         </div>
 
-        <div className="flex items-center gap-1 ml-2">
+        <div className="flex items-center gap-0.5 ml-2">
+            <button onMouseDown={(e) => e.stopPropagation()} onClick={(e) => { e.stopPropagation(); onInsertAfter(); }} className={sceneActionClass} title="Insert a scene after this one">
+                ＋
+            </button>
+            <button onMouseDown={(e) => e.stopPropagation()} onClick={(e) => { e.stopPropagation(); onDuplicate(); }} className={sceneActionClass} title="Duplicate scene">
+                ⧉
+            </button>
+            {onMergeNext && (
+                <button onMouseDown={(e) => e.stopPropagation()} onClick={(e) => { e.stopPropagation(); onMergeNext(); }} className={sceneActionClass} title="Merge with the next scene">
+                    ⤵
+                </button>
+            )}
             <button
                 onMouseDown={(e) => e.stopPropagation()}
                 onClick={(e) => {
@@ -195,6 +443,7 @@ const SceneModule: React.FC<SceneModuleProps> = ({
       {scene.isExpanded && (
         <div className="p-2 bg-gray-900/30 border-t border-gray-600/50">
           <textarea
+            ref={textareaRef}
             className="w-full bg-transparent text-xs text-gray-300 focus:text-white focus:outline-none focus:bg-gray-800/50 resize-y border border-transparent focus:border-gray-600 rounded p-1 transition-all"
             value={scene.description}
             onChange={(e) => updateSceneDescription(scene.id, e.target.value)}
@@ -202,6 +451,31 @@ const SceneModule: React.FC<SceneModuleProps> = ({
             rows={3}
             onMouseDown={(e) => e.stopPropagation()}
           />
+          <div className="flex justify-end">
+            <button
+                onMouseDown={(e) => e.stopPropagation()}
+                onClick={(e) => { e.stopPropagation(); onSplit(textareaRef.current?.selectionStart); }}
+                className="text-[9px] text-gray-400 hover:text-purple-300"
+                title="Split at the text cursor (or near the middle when the cursor is not placed)"
+            >
+                ✂️ Split scene
+            </button>
+          </div>
+          <BlockingEditor
+            scene={scene}
+            cast={resolveSceneCast(scene, connectedCharacters)}
+            allCharacters={connectedCharacters}
+            onChange={(blocking) => updateSceneBlocking(scene.id, blocking)}
+          />
+          {scene.dialogue && scene.dialogue.length > 0 && <DialogueList dialogue={scene.dialogue} />}
+          <textarea
+            className="mt-2 w-full bg-yellow-900/10 text-[10px] text-yellow-100/80 placeholder-gray-500 focus:outline-none resize-y border border-yellow-900/30 focus:border-yellow-700/60 rounded p-1"
+            value={scene.notes || ''}
+            onChange={(e) => updateSceneNotes(scene.id, e.target.value)}
+            placeholder="📝 Notes (printed on the storyboard sheet)"
+            rows={1}
+            onMouseDown={(e) => e.stopPropagation()}
+          />
         </div>
       )}
     </div>
@@ -212,8 +486,16 @@ interface ScriptNodeProps {
   node: Node<ScriptData>;
   updateNodeData: (nodeId: string, data: Partial<ScriptData>) => void;
   connectedNodes: Node[];
-  addScene: (nodeId: string) => void;
+  addScene: (nodeId: string, afterSceneId?: string) => void;
   deleteScene: (nodeId: string, sceneId: string) => void;
+  duplicateScene: (nodeId: string, sceneId: string) => void;
+  moveScene: (nodeId: string, sceneId: string, toIndex: number) => void;
+  splitScene: (nodeId: string, sceneId: string, at?: number) => boolean;
+  mergeSceneWithNext: (nodeId: string, sceneId: string) => void;
+  onImportScreenplay: (nodeId: string, text: string, fileName: string) => void;
+  onBreakdownScript: (nodeId: string) => void;
+  isBreakingDown?: boolean;
+  onImportCsv: (nodeId: string, rows: CsvSceneRow[], mode: CsvImportMode, createAssets: boolean) => void;
   connectorRefs: MutableRefObject<Record<string, HTMLDivElement | null>>;
   onConnectorMouseDown: (e: MouseEvent<HTMLDivElement>, nodeId: string, outputId: string | number) => void;
   onConnectorMouseUp: (e: MouseEvent<HTMLDivElement>, nodeId: string, inputIndex: number) => void;
@@ -226,30 +508,47 @@ export const ScriptNode = React.memo(({
   connectedNodes,
   addScene,
   deleteScene,
+  duplicateScene,
+  moveScene,
+  splitScene,
+  mergeSceneWithNext,
+  onImportScreenplay,
+  onBreakdownScript,
+  isBreakingDown,
+  onImportCsv,
   connectorRefs,
   onConnectorMouseDown,
   onConnectorMouseUp,
   onDisconnectInput
 }: ScriptNodeProps) => {
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const screenplayInputRef = useRef<HTMLInputElement>(null);
   const [pasteText, setPasteText] = useState("");
   const [showPaste, setShowPaste] = useState(false);
+  const [showScript, setShowScript] = useState(false);
+  const [csvDraft, setCsvDraft] = useState<{ text: string; fileName?: string } | null>(null);
+  const [draggedSceneId, setDraggedSceneId] = useState<string | null>(null);
+  const [dropTarget, setDropTarget] = useState<{ sceneId: string; position: 'before' | 'after' } | null>(null);
   const [editorState, setEditorState] = useState<{ isOpen: boolean; sceneId: string; text: string; title: string } | null>(null);
 
   // Filtering connected nodes based on type
-  const connectedCharacter = connectedNodes.find(n => n.type === 'CHARACTER') as Node<CharacterData> | undefined;
+  const connectedCharacters = connectedNodes.filter(n => n.type === 'CHARACTER') as Node<CharacterData>[];
   const connectedSettings = connectedNodes.filter(n => n.type === 'SETTING') as Node<SettingData>[];
 
-  const processCSV = (text: string) => {
-      // Usamos el parser que creamos en utils
-      const newScenes = parseScriptCSV(text, node.id);
-      if (newScenes.length > 0) {
-          updateNodeData(node.id, { scenes: newScenes });
-          setPasteText(""); 
-          setShowPaste(false);
-      } else {
+  // El CSV pasa por el diálogo de mapeo de columnas antes de tocar las escenas
+  const processCSV = (text: string, fileName?: string) => {
+      if (!text.trim()) {
           alert("No valid scenes found. Check CSV format.");
+          return;
       }
+      setCsvDraft({ text, fileName });
+  };
+
+  const handleCsvImport = (rows: CsvSceneRow[], mode: CsvImportMode, createAssets: boolean) => {
+      onImportCsv(node.id, rows, mode, createAssets);
+      setCsvDraft(null);
+      setPasteText("");
+      setShowPaste(false);
   };
 
   const handleFileUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
@@ -259,12 +558,50 @@ export const ScriptNode = React.memo(({
     const reader = new FileReader();
     reader.onload = (event) => {
       const text = event.target?.result as string;
-      processCSV(text);
+      processCSV(text, file.name);
     };
     reader.readAsText(file);
     if (e.target) e.target.value = '';
   };
 
+  const handleScreenplayUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (event) => onImportScreenplay(node.id, event.target?.result as string, file.name);
+    reader.readAsText(file);
+    if (e.target) e.target.value = '';
+  };
+
+  // --- Drag to reorder (los cables van por id de escena, así que no se tocan) ---
+  const handleSceneDragOver = (e: React.DragEvent, sceneId: string) => {
+    if (!draggedSceneId) return;
+    e.preventDefault();
+    const rect = e.currentTarget.getBoundingClientRect();
+    const position = e.clientY < rect.top + rect.height / 2 ? 'before' : 'after';
+    if (dropTarget?.sceneId !== sceneId || dropTarget.position !== position) setDropTarget({ sceneId, position });
+  };
+
+  const handleSceneDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    if (draggedSceneId && dropTarget) {
+      const scenes = node.data.scenes;
+      const from = scenes.findIndex(s => s.id === draggedSceneId);
+      let to = scenes.findIndex(s => s.id === dropTarget.sceneId) + (dropTarget.position === 'after' ? 1 : 0);
+      if (from < to) to--;
+      moveScene(node.id, draggedSceneId, to);
+    }
+    setDraggedSceneId(null);
+    setDropTarget(null);
+  };
+
+  const handleSplit = (sceneId: string, at?: number) => {
+    if (!splitScene(node.id, sceneId, at)) {
+      alert('Nothing to split: place the cursor inside the text, or use a description with more than one sentence.');
+    }
+  };
+
   const toggleSceneExpanded = (sceneId: string) => {
     const newScenes = node.data.scenes.map((scene) =>
       scene.id === sceneId ? { ...scene, isExpanded: !scene.isExpanded } : scene
@@ -286,13 +623,34 @@ export const ScriptNode = React.memo(({
     updateNodeData(node.id, { scenes: newScenes });
   };
 
+  const updateSceneCast = (sceneId: string, castIds: string[]) => {
+    const newScenes = node.data.scenes.map((scene) =>
+      scene.id === sceneId ? { ...scene, castIds } : scene
+    );
+    updateNodeData(node.id, { scenes: newScenes });
+  };
+
+  const updateSceneBlocking = (sceneId: string, blocking: SceneBlocking | undefined) => {
+    const newScenes = node.data.scenes.map((scene) =>
+      scene.id === sceneId ? { ...scene, blocking } : scene
+    );
+    updateNodeData(node.id, { scenes: newScenes });
+  };
+
+  const updateSceneNotes = (sceneId: string, notes: string) => {
+    const newScenes = node.data.scenes.map((scene) =>
+      scene.id === sceneId ? { ...scene, notes: notes || undefined } : scene
+    );
+    updateNodeData(node.id, { scenes: newScenes });
+  };
+
   return (
     <div className="p-3 space-y-3">
       {/* GLOBAL ASSETS INPUTS */}
       <div className="space-y-2">
         <div className="flex flex-col gap-2 text-xs">
-          {/* Character Input */}
-          <div className={`relative flex-1 p-2 rounded border transition-colors ${connectedCharacter ? 'border-blue-500/50 bg-blue-900/20' : 'border-gray-600 bg-gray-800/30'}`}>
+          {/* Character Input (Multi-capable) */}
+          <div className={`relative flex-1 p-2 rounded border transition-colors ${connectedCharacters.length > 0 ? 'border-blue-500/50 bg-blue-900/20' : 'border-gray-600 bg-gray-800/30'}`}>
              <Handle
                 type="input"
                 style={{ left: '-12px' }}
@@ -302,17 +660,16 @@ export const ScriptNode = React.memo(({
                     if (el) connectorRefs.current[key] = el;
                     else delete connectorRefs.current[key];
                 }}
-                isConnected={!!connectedCharacter}
+                isConnected={connectedCharacters.length > 0}
                 onMouseUp={(e) => onConnectorMouseUp(e, node.id, 0)}
                 onDisconnect={() => onDisconnectInput(node.id, 0)}
              />
             <div className="flex items-center gap-2 ml-2">
-                <span className="text-blue-400 font-bold">Character</span>
-                {connectedCharacter ? (
-                    <span className="text-gray-300 truncate flex-1">{connectedCharacter.data.prompt || 'Linked'}</span>
-                ) : (
-                    <span className="text-gray-500 italic">None</span>
+                <span className="text-blue-400 font-bold">Characters ({connectedCharacters.length})</span>
+                {connectedCharacters.length === 1 && (
+                    <span className="text-gray-300 truncate flex-1">{connectedCharacters[0].data.prompt || 'Linked'}</span>
                 )}
+                {connectedCharacters.length === 0 && <span className="text-gray-500 italic">None</span>}
             </div>
           </div>
 
@@ -342,9 +699,16 @@ export const ScriptNode = React.memo(({
       
       {/* IMPORT TOOLS */}
       <div className="flex flex-col gap-2 border-b border-gray-700 pb-2">
-          <div className="flex justify-between items-center">
+          <div className="flex flex-wrap justify-between items-center gap-1">
                 <span className="text-[10px] text-gray-400 uppercase font-bold">Script Tools</span>
-                <div className="flex gap-1">
+                <div className="flex flex-wrap gap-1">
+                    <button 
+                        onClick={() => setShowScript(!showScript)}
+                        className={`text-[10px] px-2 py-1 rounded flex gap-1 items-center transition-colors ${showScript ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
+                        title="Free-form script text for the AI breakdown"
+                    >
+                        📜 Script
+                    </button>
                     <button 
                         onClick={() => setShowPaste(!showPaste)}
                         className={`text-[10px] px-2 py-1 rounded flex gap-1 items-center transition-colors ${showPaste ? 'bg-purple-600 text-white' : 'bg-gray-700 text-gray-300 hover:bg-gray-600'}`}
@@ -357,10 +721,38 @@ export const ScriptNode = React.memo(({
                     >
                         📂 Upload CSV
                     </button>
+                    <button 
+                        onClick={() => screenplayInputRef.current?.click()}
+                        className="text-[10px] bg-gray-700 hover:bg-gray-600 text-gray-300 px-2 py-1 rounded flex gap-1 items-center transition-colors"
+                        title="Import a Fountain or Final Draft (.fdx) screenplay"
+                    >
+                        🎬 Screenplay
+                    </button>
                 </div>
-                <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept=".csv,.txt" />
+                <input type="file" ref={fileInputRef} onChange={handleFileUpload} className="hidden" accept=".csv,.tsv,.txt" />
+                <input type="file" ref={screenplayInputRef} onChange={handleScreenplayUpload} className="hidden" accept={SCREENPLAY_EXTENSIONS.join(',')} />
           </div>
 
+          {/* Script Text + AI Breakdown */}
+          {showScript && (
+              <div className="bg-black/30 p-2 rounded border border-purple-500/30 animate-in fade-in slide-in-from-top-2 duration-200">
+                  <textarea 
+                    value={node.data.script}
+                    onChange={(e) => updateNodeData(node.id, { script: e.target.value })}
+                    onMouseDown={(e) => e.stopPropagation()}
+                    className="w-full h-32 bg-gray-900 text-xs text-gray-300 p-1 rounded border border-gray-700 focus:border-purple-500 mb-1 resize-y"
+                    placeholder="Paste or write the script as free-form prose..."
+                  />
+                  <button 
+                    onClick={() => onBreakdownScript(node.id)}
+                    disabled={!node.data.script?.trim() || isBreakingDown}
+                    className="w-full bg-purple-600 hover:bg-purple-500 text-white text-[10px] font-bold py-1 rounded disabled:bg-gray-700 disabled:text-gray-400"
+                  >
+                      {isBreakingDown ? '⏳ Breaking down...' : '✂️ Break down script (AI)'}
+                  </button>
+              </div>
+          )}
+
           {/* Paste Area */}
           {showPaste && (
               <div className="bg-black/30 p-2 rounded border border-purple-500/30 animate-in fade-in slide-in-from-top-2 duration-200">
@@ -368,13 +760,13 @@ export const ScriptNode = React.memo(({
                     value={pasteText}
                     onChange={(e) => setPasteText(e.target.value)}
                     className="w-full h-24 bg-gray-900 text-xs text-gray-300 p-1 rounded border border-gray-700 focus:border-purple-500 mb-1 font-mono"
-                    placeholder={`Scene 1, A dark room...\nScene 2, Exterior day...`}
+                    placeholder={`Title, Description, Setting, Characters, Shot, Duration\nScene 1, A dark room..., Basement, Maria, CU, 4`}
                   />
                   <button 
                     onClick={() => processCSV(pasteText)}
                     className="w-full bg-purple-600 hover:bg-purple-500 text-white text-[10px] font-bold py-1 rounded"
                   >
-                      Process CSV (Skip Header)
+                      Preview & Map Columns
                   </button>
               </div>
           )}
@@ -384,7 +776,7 @@ export const ScriptNode = React.memo(({
       <div className="space-y-2 mt-2">
         {node.data.scenes.length === 0 ? (
             <div className="text-center py-6 text-gray-500 text-xs italic border border-dashed border-gray-700 rounded">
-                No scenes yet. <br/>Paste CSV or Upload.
+                No scenes yet. <br/>Paste CSV, Upload or import a Screenplay.
             </div>
         ) : (
             node.data.scenes.map((scene, index) => (
@@ -397,10 +789,28 @@ export const ScriptNode = React.memo(({
                 deleteScene={deleteScene}
                 updateSceneDescription={updateSceneDescription}
                 updateSceneSetting={updateSceneSetting}
+                updateSceneCast={updateSceneCast}
+                updateSceneBlocking={updateSceneBlocking}
+                updateSceneNotes={updateSceneNotes}
                 connectedSettings={connectedSettings}
+                connectedCharacters={connectedCharacters}
                 onConnectorMouseDown={onConnectorMouseDown}
                 connectorRefs={connectorRefs}
                 onOpenEditor={(id, txt, title) => setEditorState({ isOpen: true, sceneId: id, text: txt, title })}
+                onInsertAfter={() => addScene(node.id, scene.id)}
+                onDuplicate={() => duplicateScene(node.id, scene.id)}
+                onSplit={(at) => handleSplit(scene.id, at)}
+                onMergeNext={index < node.data.scenes.length - 1 ? () => mergeSceneWithNext(node.id, scene.id) : undefined}
+                isDragging={draggedSceneId === scene.id}
+                dropPosition={dropTarget?.sceneId === scene.id && draggedSceneId !== scene.id ? dropTarget.position : null}
+                onDragStart={(e) => {
+                    e.dataTransfer.effectAllowed = 'move';
+                    e.dataTransfer.setData('text/plain', scene.id);
+                    setDraggedSceneId(scene.id);
+                }}
+                onDragOver={(e) => handleSceneDragOver(e, scene.id)}
+                onDrop={handleSceneDrop}
+                onDragEnd={() => { setDraggedSceneId(null); setDropTarget(null); }}
             />
             ))
         )}
@@ -413,6 +823,16 @@ export const ScriptNode = React.memo(({
         + Add Scene Manually
       </button>
 
+      {csvDraft && (
+        <CsvImportDialog
+            text={csvDraft.text}
+            fileName={csvDraft.fileName}
+            existingSceneCount={node.data.scenes.length}
+            onImport={handleCsvImport}
+            onClose={() => setCsvDraft(null)}
+        />
+      )}
+
       {/* Modal Render */}
       {editorState && (
         <ExpandedEditor 
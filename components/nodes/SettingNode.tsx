@@ -3,19 +3,27 @@ import React, { useState } from 'react';
 import { Node, SettingData } from '../../types/graph';
 import { analyzeSettingImage, generateReferenceAsset } from '../../services/geminiService';
 import { CinematicInspector } from '../ui/CinematicInspector';
+import { storeImage } from '../../services/persistence/imageStore';
+import { useImageSrc } from '../../hooks/useImageSrc';
+import { LibraryLinkBar } from './LibraryLinkBar';
 
 interface SettingNodeProps {
   node: Node<SettingData>;
   updateNodeData: (nodeId: string, data: Partial<SettingData>) => void;
+  libraryUpdateVersion?: number;
+  onPublishAsset: (nodeId: string) => void;
+  onPullAssetUpdate: (nodeId: string) => void;
 }
 
-export const SettingNode = React.memo(({ node, updateNodeData }: SettingNodeProps) => {
+export const SettingNode = React.memo(({ node, updateNodeData, libraryUpdateVersion, onPublishAsset, onPullAssetUpdate }: SettingNodeProps) => {
   const [isAnalyzing, setIsAnalyzing] = useState(false);
   
   // New State for Generator Mode
   const [inputMode, setInputMode] = useState<'upload' | 'generate'>('upload');
   const [genPrompt, setGenPrompt] = useState('');
 
+  const imageSrc = useImageSrc(node.data.image);
+
   const handleImageUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file) return;
@@ -23,12 +31,14 @@ export const SettingNode = React.memo(({ node, updateNodeData }: SettingNodeProp
     const reader = new FileReader();
     reader.onload = async (event) => {
       const base64 = event.target?.result as string;
-      
-      // Update visual immediately
-      updateNodeData(node.id, { image: base64 });
 
       setIsAnalyzing(true);
       try {
+        const imageRef = await storeImage(base64);
+
+        // Update visual immediately
+        updateNodeData(node.id, { image: imageRef });
+
         console.log("🏙️ Analyzing setting...");
         
         // Call the setting analysis service
@@ -37,7 +47,7 @@ export const SettingNode = React.memo(({ node, updateNodeData }: SettingNodeProp
         if (settingJSON) {
              // Save data
             updateNodeData(node.id, { 
-                image: base64,
+                image: imageRef,
                 prompt: settingJSON.scene_description, // For description text area
                 settingPassport: settingJSON           // Complete JSON for inspector
             });
@@ -60,7 +70,8 @@ export const SettingNode = React.memo(({ node, updateNodeData }: SettingNodeProp
       console.log("🏙️ Generating Setting Concept...");
       // 1. Crear Imagen (Text-to-Image)
       const base64Image = await generateReferenceAsset(genPrompt);
-      updateNodeData(node.id, { image: base64Image });
+      const imageRef = await storeImage(base64Image);
+      updateNodeData(node.id, { image: imageRef });
 
       console.log("🎨 Analyzing Setting Style...");
       // 2. Extraer Estilo (Image-to-JSON)
@@ -68,7 +79,7 @@ export const SettingNode = React.memo(({ node, updateNodeData }: SettingNodeProp
       
       if (settingJSON) {
           updateNodeData(node.id, { 
-              image: base64Image,
+              image: imageRef,
               prompt: settingJSON.scene_description, // Descripción técnica
               settingPassport: settingJSON           // Datos de estilo
           });
@@ -82,6 +93,15 @@ export const SettingNode = React.memo(({ node, updateNodeData }: SettingNodeProp
 
   return (
     <div className="p-3 space-y-3">
+
+      {/* Shared Library Link */}
+      <LibraryLinkBar
+          link={node.data.libraryLink}
+          updateVersion={libraryUpdateVersion}
+          onPublish={() => onPublishAsset(node.id)}
+          onPullUpdate={() => onPullAssetUpdate(node.id)}
+          onUnlink={() => updateNodeData(node.id, { libraryLink: undefined })}
+      />
       
       {/* Input Mode Tabs */}
       <div className="flex bg-gray-900 p-1 rounded-lg border border-gray-700 mb-2">
@@ -101,8 +121,8 @@ export const SettingNode = React.memo(({ node, updateNodeData }: SettingNodeProp
 
       {/* IMAGE ZONE */}
       <div className="relative w-full h-32 bg-gray-900 rounded border border-gray-700 overflow-hidden group hover:border-green-500/50 transition-colors">
-          {node.data.image ? (
-              <img src={node.data.image.startsWith('data:') ? node.data.image : `data:image/png;base64,${node.data.image}`} className="w-full h-full object-cover" alt="Setting Ref" />
+          {imageSrc ? (
+              <img src={imageSrc} className="w-full h-full object-cover" alt="Setting Ref" />
           ) : (
               <div className="flex flex-col items-center justify-center h-full text-gray-500 text-xs gap-2 p-2 bg-gray-800/30">
                   {inputMode === 'upload' ? (
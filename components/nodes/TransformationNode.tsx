@@ -1,47 +1,27 @@
 import React, { useState, useEffect } from 'react';
 import { Node, TransformationData } from '../../types/graph';
-import { transformCinematicSpec } from '../../services/promptArchitect'; // <--- Usamos la nueva función inteligente
 import { CinematicInspector } from '../ui/CinematicInspector';
+import { ErrorInspector } from '../ui/ErrorInspector';
 import { CinematicJSON } from '../../types/cinematicSchema';
+import { useImageSrc } from '../../hooks/useImageSrc';
 
 interface TransformationNodeProps {
   node: Node<TransformationData>;
   updateNodeData: (nodeId: string, data: Partial<TransformationData>) => void;
+  onProcess: (nodeId: string) => void;
 }
 
-export const TransformationNode = React.memo(({ node, updateNodeData }: TransformationNodeProps) => {
+export const TransformationNode = React.memo(({ node, updateNodeData, onProcess }: TransformationNodeProps) => {
   const [isPromptOpen, setIsPromptOpen] = useState(true);
+  const [showDebug, setShowDebug] = useState(false);
+  const referenceSrc = useImageSrc(node.data.referenceImage);
 
   const handlePromptChange = (e: React.ChangeEvent<HTMLTextAreaElement>) => {
     updateNodeData(node.id, { modificationPrompt: e.target.value });
   };
 
-  const processTransformation = async () => {
-    if (!node.data.modificationPrompt.trim()) return;
-    
-    // Validación: Necesitamos una fuente para transformar
-    if (!node.data.sourceJson) {
-        console.warn("Transformation Node: No source JSON to transform. Connect an Image Node first.");
-        return;
-    }
-
-    updateNodeData(node.id, { isProcessing: true });
-    try {
-      // Usamos la nueva lógica que mezcla Original + Cambios
-      const resultJson = await transformCinematicSpec(
-          node.data.sourceJson as CinematicJSON, 
-          node.data.modificationPrompt
-      );
-      
-      updateNodeData(node.id, { 
-        isProcessing: false, 
-        transformationJson: resultJson 
-      });
-    } catch (error) {
-      console.error("Transformation processing failed:", error);
-      updateNodeData(node.id, { isProcessing: false });
-    }
-  };
+  // La transformación se encola en la cola de generación (ver useGeminiGenerator)
+  const processTransformation = () => onProcess(node.id);
 
   const isReady = !!node.data.transformationJson;
 
@@ -50,9 +30,9 @@ export const TransformationNode = React.memo(({ node, updateNodeData }: Transfor
       
       {/* HEADER: Reference Status */}
       <div className={`flex items-center gap-2 p-2 rounded border ${node.data.sourceJson ? 'bg-green-900/20 border-green-600/50' : 'bg-gray-800 border-gray-700 border-dashed'}`}>
-         {node.data.referenceImage ? (
+         {referenceSrc ? (
              <img 
-                src={`data:image/png;base64,${node.data.referenceImage}`} 
+                src={referenceSrc} 
                 alt="Ref" 
                 className="w-8 h-8 object-cover rounded border border-green-500/50"
              />
@@ -73,8 +53,22 @@ export const TransformationNode = React.memo(({ node, updateNodeData }: Transfor
       <div>
         <div className="flex justify-between items-center mb-1">
             <label className="text-[10px] font-bold text-pink-400 uppercase">Transformation Request</label>
-            {node.data.isProcessing && <span className="text-[9px] text-pink-300 animate-pulse">Processing...</span>}
+            <div className="flex items-center gap-2">
+                {node.data.isProcessing && <span className="text-[9px] text-pink-300 animate-pulse">Processing...</span>}
+                {node.data.debugTrace && !node.data.isProcessing && (
+                    <button
+                        onClick={() => setShowDebug(true)}
+                        className={`text-[9px] px-1.5 py-0.5 rounded ${node.data.debugTrace.status === 'error' ? 'bg-red-600 text-white' : 'text-gray-500 hover:text-white'}`}
+                        title="Inspect the last transformation request"
+                    >
+                        {node.data.debugTrace.status === 'error' ? '⚠️ Failed' : '</>'}
+                    </button>
+                )}
+            </div>
         </div>
+        {showDebug && node.data.debugTrace && (
+            <ErrorInspector trace={node.data.debugTrace} onClose={() => setShowDebug(false)} />
+        )}
         <textarea
           className="w-full p-2 bg-gray-900/50 rounded border border-pink-500/30 focus:border-pink-500 focus:outline-none text-xs text-gray-300 resize-y font-mono"
           placeholder="e.g., Change lighting to cyberpunk neon, make it rain..."
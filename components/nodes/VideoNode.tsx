@@ -1,6 +1,7 @@
 import React, { useState, memo, useEffect, useMemo } from 'react';
 import { Node, VideoData, Connection, NodeType, ImageData } from '../../types/graph';
 import { JSONInspectorModal } from '../ui/JSONInspectorModal';
+import { useImageSrc } from '../../hooks/useImageSrc';
 
 interface VideoNodeProps { 
     node: Node<VideoData>; 
@@ -32,6 +33,8 @@ export const VideoNode = memo(({ node, updateNodeData, onGenerate, allNodes, all
         };
         return { start: getInputImage('start-frame'), end: getInputImage('end-frame') };
     }, [allNodes, allConnections, node.id]);
+    const startSrc = useImageSrc(connectedImages.start);
+    const endSrc = useImageSrc(connectedImages.end);
 
     useEffect(() => {
         if (!node.data.segments || node.data.segments.length === 0) {
@@ -132,12 +135,12 @@ export const VideoNode = memo(({ node, updateNodeData, onGenerate, allNodes, all
         {activeTab === 'preview' && (
             <div className="flex gap-2 h-32 animate-in fade-in">
                 <div className="flex-1 bg-black/40 rounded border border-blue-900/30 flex flex-col items-center justify-center overflow-hidden relative">
-                    {connectedImages.start ? <img src={`data:image/png;base64,${connectedImages.start}`} className="w-full h-full object-cover opacity-80" /> : <span className="text-[9px] text-blue-400">Start Frame</span>}
+                    {startSrc ? <img src={startSrc} className="w-full h-full object-cover opacity-80" /> : <span className="text-[9px] text-blue-400">Start Frame</span>}
                     <div className="absolute top-1 left-1 bg-blue-900/80 text-white text-[8px] px-1.5 py-0.5 rounded font-mono">0.0s</div>
                 </div>
                 <div className="flex flex-col items-center justify-center text-gray-600 gap-1"><div className="w-8 h-[1px] bg-gray-700"></div><span className="text-[9px] font-mono text-indigo-400">{duration}s</span><div className="w-8 h-[1px] bg-gray-700"></div></div>
                 <div className="flex-1 bg-black/40 rounded border border-purple-900/30 flex flex-col items-center justify-center overflow-hidden relative">
-                    {connectedImages.end ? <img src={`data:image/png;base64,${connectedImages.end}`} className="w-full h-full object-cover opacity-80" /> : <span className="text-[9px] text-purple-400">End Frame</span>}
+                    {endSrc ? <img src={endSrc} className="w-full h-full object-cover opacity-80" /> : <span className="text-[9px] text-purple-400">End Frame</span>}
                     <div className="absolute top-1 right-1 bg-purple-900/80 text-white text-[8px] px-1.5 py-0.5 rounded font-mono">{duration}.0s</div>
                 </div>
             </div>
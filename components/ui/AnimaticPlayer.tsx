@@ -0,0 +1,238 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Node, Connection, AnyNodeData } from '../../types/graph';
+import {
+  CameraMove, CAMERA_MOVES, MIN_SHOT_SECONDS,
+  buildAnimaticShots, applyShotTiming, totalDuration, shotAt, shotStartTime,
+} from '../../utils/animatic';
+import { loadAnimaticImages, drawAnimaticFrame, renderAnimaticWebm, ANIMATIC_RESOLUTIONS } from '../../services/animaticRenderer';
+import { downloadBlob } from '../../utils/file';
+
+interface AnimaticPlayerProps {
+  nodes: Node[];
+  connections: Connection[];
+  projectName: string;
+  updateNodeData: (nodeId: string, data: Partial<AnyNodeData>) => void;
+  onClose: () => void;
+}
+
+const controlClass = 'bg-black/30 border border-gray-700 rounded px-1 py-0.5 text-[10px] text-gray-200 focus:outline-none focus:border-purple-500';
+
+const formatTime = (seconds: number) => {
+  const whole = Math.floor(seconds);
+  return `${Math.floor(whole / 60)}:${String(whole % 60).padStart(2, '0')}.${Math.floor((seconds - whole) * 10)}`;
+};
+
+export const AnimaticPlayer: React.FC<AnimaticPlayerProps> = ({ nodes, connections, projectName, updateNodeData, onClose }) => {
+  // Los tiempos y movimientos se guardan en las escenas del guion: los planos se leen del grafo
+  const shots = useMemo(() => buildAnimaticShots(nodes, connections), [nodes, connections]);
+  const [images, setImages] = useState<Map<string, HTMLImageElement> | null>(null);
+  const [time, setTime] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(false);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [resolution, setResolution] = useState(0);
+  const [exportProgress, setExportProgress] = useState<number | null>(null);
+
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const abortRef = useRef<AbortController | null>(null);
+  const total = useMemo(() => totalDuration(shots), [shots]);
+  const current = shots.length > 0 ? shotAt(shots, time).index : -1;
+  const isExporting = exportProgress !== null;
+
+  useEffect(() => {
+    let cancelled = false;
+    loadAnimaticImages(shots).then(loaded => { if (!cancelled) setImages(loaded); });
+    return () => { cancelled = true; };
+    // Solo al abrir: las imágenes no cambian al editar tiempos
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, []);
+
+  // Cancela una exportación en curso si se cierra el reproductor
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  useEffect(() => {
+    const ctx = canvasRef.current?.getContext('2d');
+    if (ctx && images) drawAnimaticFrame(ctx, shots, images, time, { showCaptions });
+  }, [shots, images, time, showCaptions]);
+
+  useEffect(() => {
+    if (!isPlaying) return;
+    let frame = 0;
+    let last = performance.now();
+    const tick = (now: number) => {
+      const delta = (now - last) / 1000;
+      last = now;
+      setTime(prev => {
+        const next = prev + delta;
+        if (next >= total) {
+          setIsPlaying(false);
+          return total;
+        }
+        return next;
+      });
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [isPlaying, total]);
+
+  const togglePlay = () => {
+    if (time >= total) setTime(0);
+    setIsPlaying(prev => !prev);
+  };
+
+  const seekShot = (index: number) => {
+    if (index < 0 || index >= shots.length) return;
+    setTime(shotStartTime(shots, index));
+  };
+
+  const saveTiming = (sceneIds: string[], timing: { duration?: number; move?: CameraMove }) =>
+    applyShotTiming(nodes, shots, sceneIds, timing).forEach(({ nodeId, scenes }) => updateNodeData(nodeId, { scenes }));
+
+  const updateShot = (index: number, timing: { duration?: number; move?: CameraMove }) =>
+    saveTiming([shots[index].panel.sceneId], timing);
+
+  const applyMoveToAll = (move: CameraMove) => saveTiming(shots.map(shot => shot.panel.sceneId), { move });
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if ((e.target as HTMLElement).closest('input, select, textarea')) return;
+      if (e.key === 'Escape' && !isExporting) onClose();
+      else if (e.key === ' ') { e.preventDefault(); togglePlay(); }
+      else if (e.key === 'ArrowRight') seekShot(current + 1);
+      else if (e.key === 'ArrowLeft') seekShot(time - shotStartTime(shots, current) > 0.5 ? current : current - 1);
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  });
+
+  const handleExport = async () => {
+    if (!images) return;
+    setIsPlaying(false);
+    const controller = new AbortController();
+    abortRef.current = controller;
+    setExportProgress(0);
+    try {
+      const blob = await renderAnimaticWebm(
+        shots, images, ANIMATIC_RESOLUTIONS[resolution], { showCaptions },
+        (seconds, length) => setExportProgress(length > 0 ? seconds / length : 1),
+        controller.signal
+      );
+      downloadBlob(blob, `${(projectName || 'animatic').trim().replace(/\s+/g, '-').toLowerCase()}-animatic.webm`);
+    } catch (error) {
+      if (!(error instanceof DOMException && error.name === 'AbortError')) {
+        console.error('❌ Animatic export failed:', error);
+        alert(`Animatic export failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } finally {
+      abortRef.current = null;
+      setExportProgress(null);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black flex flex-col">
+      {/* Header */}
+      <div className="flex items-center justify-between px-4 py-2 bg-gray-800 border-b border-gray-700">
+        <h2 className="text-sm font-bold text-white">🎞️ Animatic — {projectName} <span className="text-gray-400 font-normal">({shots.length} shots · {formatTime(total)})</span></h2>
+        <button onClick={onClose} disabled={isExporting} className="text-gray-400 hover:text-white disabled:opacity-40">✕</button>
+      </div>
+
+      <div className="flex-1 flex min-h-0">
+        {/* Viewer */}
+        <div className="flex-1 flex flex-col min-w-0">
+          <div className="flex-1 flex items-center justify-center p-4 min-h-0">
+            {shots.length === 0 ? (
+              <p className="text-gray-500 text-sm italic">No Script scenes to play. Add scenes and connect Image nodes to them.</p>
+            ) : !images ? (
+              <p className="text-gray-500 text-sm italic">Loading images…</p>
+            ) : (
+              <canvas ref={canvasRef} width={1280} height={720} onClick={togglePlay} className="max-w-full max-h-full aspect-video bg-black cursor-pointer shadow-2xl" />
+            )}
+          </div>
+
+          {/* Transport */}
+          <div className="flex items-center gap-3 px-4 py-2 bg-gray-900 border-t border-gray-800 text-xs text-gray-300">
+            <button onClick={() => seekShot(current - 1)} disabled={current <= 0} className="hover:text-white disabled:opacity-30" title="Previous shot (←)">⏮</button>
+            <button onClick={togglePlay} disabled={shots.length === 0 || !images} className="text-lg hover:text-white disabled:opacity-30" title="Play / Pause (Space)">
+              {isPlaying ? '⏸' : '▶️'}
+            </button>
+            <button onClick={() => seekShot(current + 1)} disabled={current >= shots.length - 1} className="hover:text-white disabled:opacity-30" title="Next shot (→)">⏭</button>
+            <input
+              type="range" min={0} max={total || 1} step={0.05} value={time}
+              onChange={(e) => { setIsPlaying(false); setTime(Number(e.target.value)); }}
+              className="flex-1 accent-purple-500"
+            />
+            <span className="font-mono w-24 text-right">{formatTime(time)} / {formatTime(total)}</span>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={showCaptions} onChange={(e) => setShowCaptions(e.target.checked)} className="accent-purple-500" />
+              Captions
+            </label>
+          </div>
+        </div>
+
+        {/* Shot list */}
+        <div className="w-72 flex flex-col bg-gray-900 border-l border-gray-800">
+          <div className="flex items-center justify-between px-3 py-2 border-b border-gray-800 text-[10px] uppercase font-bold text-gray-400">
+            Shots
+            <select value="" onChange={(e) => e.target.value && applyMoveToAll(e.target.value as CameraMove)} className={controlClass} title="Set the same move on every shot">
+              <option value="">Move for all…</option>
+              {CAMERA_MOVES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+            </select>
+          </div>
+          <div className="flex-1 overflow-y-auto custom-scrollbar">
+            {shots.map((shot, index) => (
+              <div
+                key={shot.id}
+                onClick={() => seekShot(index)}
+                className={`px-3 py-2 border-b border-gray-800 cursor-pointer ${index === current ? 'bg-purple-900/30 border-l-2 border-l-purple-500' : 'hover:bg-gray-800/60'}`}
+              >
+                <div className="text-xs text-white truncate">
+                  <span className="font-mono text-gray-400 mr-1">{shot.panel.number}</span>
+                  {shot.panel.title}
+                  {!shot.panel.image && <span className="ml-1 text-[9px] text-gray-500">(no image)</span>}
+                </div>
+                <div className="flex items-center gap-2 mt-1" onClick={e => e.stopPropagation()}>
+                  <input
+                    type="number" min={MIN_SHOT_SECONDS} step={0.5} value={shot.duration}
+                    onChange={(e) => updateShot(index, { duration: Math.max(MIN_SHOT_SECONDS, Number(e.target.value) || MIN_SHOT_SECONDS) })}
+                    className={`${controlClass} w-14`}
+                    title="Seconds on screen (shared by every shot of the scene)"
+                  />
+                  <span className="text-[10px] text-gray-500">s</span>
+                  <select value={shot.move} onChange={(e) => updateShot(index, { move: e.target.value as CameraMove })} className={`${controlClass} flex-1`}>
+                    {CAMERA_MOVES.map(m => <option key={m.value} value={m.value}>{m.label}</option>)}
+                  </select>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          {/* Export */}
+          <div className="p-3 border-t border-gray-800 space-y-2 text-xs text-gray-300">
+            <div className="flex items-center gap-2">
+              <select value={resolution} onChange={(e) => setResolution(Number(e.target.value))} disabled={isExporting} className={controlClass}>
+                {ANIMATIC_RESOLUTIONS.map((r, i) => <option key={r.label} value={i}>{r.label}</option>)}
+              </select>
+              {isExporting ? (
+                <button onClick={() => abortRef.current?.abort()} className="flex-1 px-3 py-1.5 rounded bg-red-800 hover:bg-red-700 text-white font-bold">
+                  Cancel ({Math.round((exportProgress || 0) * 100)}%)
+                </button>
+              ) : (
+                <button
+                  onClick={handleExport}
+                  disabled={shots.length === 0 || !images}
+                  className="flex-1 px-3 py-1.5 rounded bg-purple-600 hover:bg-purple-500 text-white font-bold disabled:bg-gray-700 disabled:text-gray-400"
+                >
+                  ⬇️ Export WebM
+                </button>
+              )}
+            </div>
+            <p className="text-[10px] text-gray-500">Recording runs in real time ({formatTime(total)}).</p>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,151 @@
+import React, { useMemo, useState } from 'react';
+import { NodeType } from '../../types/graph';
+import { AssetRecord } from '../../services/persistence/db';
+import { ASSET_DRAG_TYPE, latestVersion } from '../../services/persistence/assetLibrary';
+import { getImageSrcSync } from '../../services/persistence/imageStore';
+
+interface AssetLibraryPanelProps {
+  assets: AssetRecord[];
+  usedAssetIds: Set<string>; // Assets already placed in this project
+  onPlace: (asset: AssetRecord) => void;
+  onDelete: (asset: AssetRecord) => void;
+  onClose: () => void;
+}
+
+type KindFilter = 'all' | AssetRecord['kind'];
+
+const KIND_FILTERS: { value: KindFilter; label: string }[] = [
+  { value: 'all', label: 'All' },
+  { value: NodeType.Character, label: '👤 Characters' },
+  { value: NodeType.Setting, label: '🏙️ Settings' },
+];
+
+export const AssetLibraryPanel: React.FC<AssetLibraryPanelProps> = ({ assets, usedAssetIds, onPlace, onDelete, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [kind, setKind] = useState<KindFilter>('all');
+  const [tag, setTag] = useState<string | null>(null);
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const allTags = useMemo(() => Array.from(new Set(assets.flatMap(a => a.tags))).sort(), [assets]);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return assets.filter(asset =>
+      (kind === 'all' || asset.kind === kind) &&
+      (!tag || asset.tags.includes(tag)) &&
+      (!q || asset.name.toLowerCase().includes(q) || asset.tags.some(t => t.includes(q)) || latestVersion(asset).data.prompt?.toLowerCase().includes(q))
+    );
+  }, [assets, query, kind, tag]);
+
+  return (
+    <div
+      className="absolute top-16 left-4 z-50 w-72 max-h-[calc(100vh-6rem)] flex flex-col bg-gray-900/95 rounded-lg border border-gray-700 shadow-xl backdrop-blur-sm text-xs"
+      onMouseDown={(e) => e.stopPropagation()} // No iniciar pan del canvas
+      onWheel={(e) => e.stopPropagation()}
+    >
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-800 border-b border-gray-700 rounded-t-lg">
+        <span className="text-gray-200 font-bold uppercase tracking-wider text-[10px]">📚 Asset Library</span>
+        <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+      </div>
+
+      {/* Filters */}
+      <div className="p-2 space-y-2 border-b border-gray-800">
+        <input
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search name, tag or description…"
+          className="w-full bg-black/30 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-purple-500"
+        />
+        <div className="flex gap-1">
+          {KIND_FILTERS.map(f => (
+            <button
+              key={f.value}
+              onClick={() => setKind(f.value)}
+              className={`flex-1 py-0.5 rounded text-[10px] ${kind === f.value ? 'bg-gray-700 text-white font-bold' : 'text-gray-500 hover:text-gray-300'}`}
+            >
+              {f.label}
+            </button>
+          ))}
+        </div>
+        {allTags.length > 0 && (
+          <div className="flex flex-wrap gap-1">
+            {allTags.map(t => (
+              <button
+                key={t}
+                onClick={() => setTag(tag === t ? null : t)}
+                className={`px-1.5 py-0.5 rounded-full text-[9px] border ${tag === t ? 'bg-purple-700 border-purple-500 text-white' : 'border-gray-700 text-gray-400 hover:text-gray-200'}`}
+              >
+                #{t}
+              </button>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Assets */}
+      <div className="flex-1 overflow-y-auto p-2 space-y-1 custom-scrollbar">
+        {visible.length === 0 && (
+          <div className="text-center py-6 text-gray-500 italic">
+            {assets.length === 0 ? 'Publish a Character or Setting node to start the library.' : 'No assets match.'}
+          </div>
+        )}
+        {visible.map(asset => {
+          const latest = latestVersion(asset);
+          const thumbnail = getImageSrcSync(latest.data.image);
+          const isExpanded = expandedId === asset.id;
+          return (
+            <div key={asset.id} className="rounded border border-gray-800 hover:border-gray-600 bg-gray-800/40">
+              <div
+                draggable
+                onDragStart={(e) => {
+                  e.dataTransfer.setData(ASSET_DRAG_TYPE, asset.id);
+                  e.dataTransfer.effectAllowed = 'copy';
+                }}
+                className="flex items-center gap-2 p-1.5 cursor-grab"
+                title="Drag onto the canvas to place a linked instance"
+              >
+                {thumbnail ? (
+                  <img src={thumbnail} alt="" className="w-10 h-10 object-cover rounded pointer-events-none" />
+                ) : (
+                  <div className={`w-10 h-10 rounded ${asset.kind === NodeType.Character ? 'bg-blue-800' : 'bg-green-800'} opacity-60`} />
+                )}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-1">
+                    <span className="truncate font-bold text-gray-200">{asset.name}</span>
+                    {usedAssetIds.has(asset.id) && <span className="text-[9px] text-teal-400" title="Used in this project">●</span>}
+                  </div>
+                  <div className="text-[9px] text-gray-500 truncate">
+                    {asset.kind === NodeType.Character ? 'Character' : 'Setting'} · v{latest.version}
+                    {asset.tags.length > 0 && ` · ${asset.tags.map(t => `#${t}`).join(' ')}`}
+                  </div>
+                </div>
+                <button onClick={() => onPlace(asset)} className="px-1.5 py-0.5 rounded text-gray-400 hover:text-white hover:bg-gray-700" title="Add to the canvas">
+                  ➕
+                </button>
+                <button onClick={() => setExpandedId(isExpanded ? null : asset.id)} className="px-1 text-gray-500 hover:text-white" title="Versions">
+                  {isExpanded ? '▼' : '▶'}
+                </button>
+              </div>
+
+              {isExpanded && (
+                <div className="px-2 pb-2 space-y-1 text-[9px] text-gray-400">
+                  {[...asset.versions].reverse().map(v => (
+                    <div key={v.version} className="flex gap-2">
+                      <span className="font-mono text-gray-300">v{v.version}</span>
+                      <span className="text-gray-500">{new Date(v.publishedAt).toLocaleDateString()}</span>
+                      <span className="truncate">{v.note || (v.version === 1 ? 'First version' : '')}</span>
+                    </div>
+                  ))}
+                  <button onClick={() => onDelete(asset)} className="mt-1 text-red-400 hover:text-red-300">
+                    🗑️ Delete from library
+                  </button>
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
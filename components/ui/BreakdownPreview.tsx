@@ -0,0 +1,132 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ScriptScene } from '../../types/graph';
+import { PendingBreakdown } from '../../hooks/useScriptBreakdown';
+import { BreakdownRow, BreakdownMergeMode, BreakdownChange, scenesRemovedBy } from '../../utils/scriptBreakdown';
+
+interface BreakdownPreviewProps {
+  breakdown: PendingBreakdown;
+  existingScenes: ScriptScene[];
+  onApply: (rows: BreakdownRow[], mode: BreakdownMergeMode, createAssets: boolean) => void;
+  onClose: () => void;
+}
+
+const CHANGE_BADGES: Record<BreakdownChange | 'removed', { label: string; className: string }> = {
+  added: { label: 'NEW', className: 'bg-green-900/60 text-green-300 border-green-700' },
+  updated: { label: 'CHANGED', className: 'bg-yellow-900/60 text-yellow-300 border-yellow-700' },
+  unchanged: { label: 'SAME', className: 'bg-gray-800 text-gray-400 border-gray-600' },
+  removed: { label: 'REMOVED', className: 'bg-red-900/60 text-red-300 border-red-700' },
+};
+
+const Badge: React.FC<{ kind: BreakdownChange | 'removed' }> = ({ kind }) => (
+  <span className={`shrink-0 px-1.5 py-0.5 rounded border text-[9px] font-bold ${CHANGE_BADGES[kind].className}`}>
+    {CHANGE_BADGES[kind].label}
+  </span>
+);
+
+const AssetChip: React.FC<{ label: string; isNew: boolean; tone: 'blue' | 'green' }> = ({ label, isNew, tone }) => (
+  <span
+    className={`px-1.5 py-0.5 rounded text-[9px] border ${tone === 'blue' ? 'bg-blue-900/30 text-blue-300 border-blue-800' : 'bg-green-900/30 text-green-300 border-green-800'}`}
+    title={isNew ? 'No matching node yet' : 'Matches an existing node'}
+  >
+    {label}{isNew && ' ✚'}
+  </span>
+);
+
+export const BreakdownPreview: React.FC<BreakdownPreviewProps> = ({ breakdown, existingScenes, onApply, onClose }) => {
+  const [included, setIncluded] = useState<boolean[]>(() => breakdown.rows.map(() => true));
+  const [mode, setMode] = useState<BreakdownMergeMode>('merge');
+  const [createAssets, setCreateAssets] = useState(true);
+
+  const acceptedRows = breakdown.rows.filter((_, i) => included[i]);
+  const removed = mode === 'replace' ? scenesRemovedBy(existingScenes, acceptedRows) : [];
+  const hasNewAssets = breakdown.newCharacters.length > 0 || breakdown.newLocations.length > 0;
+
+  const toggleRow = (index: number) => setIncluded(prev => prev.map((value, i) => (i === index ? !value : value)));
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 w-full max-w-4xl rounded-lg border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-800 border-b border-gray-700 rounded-t-lg">
+          <h2 className="text-lg font-bold text-white">✂️ Script Breakdown — {breakdown.rows.length} shots</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+
+        {/* Diff */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-2 custom-scrollbar">
+          {breakdown.rows.map((row, index) => (
+            <label
+              key={index}
+              className={`flex gap-3 p-2 rounded border cursor-pointer transition-opacity ${included[index] ? 'border-gray-700 bg-gray-800/50' : 'border-gray-800 bg-gray-900 opacity-50'}`}
+            >
+              <input type="checkbox" checked={included[index]} onChange={() => toggleRow(index)} className="mt-1 accent-purple-500" />
+              <div className="flex-1 min-w-0 space-y-1">
+                <div className="flex items-center gap-2">
+                  <Badge kind={row.change} />
+                  <span className="text-sm font-bold text-white truncate">{row.proposal.title}</span>
+                  {row.proposal.shot_type && (
+                    <span className={`ml-auto shrink-0 text-[10px] ${row.shotSize ? 'text-purple-300' : 'text-gray-500 line-through'}`} title={row.shotSize ? 'Shot size' : 'Not a known shot size, ignored'}>
+                      🎥 {row.proposal.shot_type}
+                    </span>
+                  )}
+                </div>
+                {row.change === 'updated' && row.existing && row.existing.description !== row.proposal.description && (
+                  <p className="text-xs text-red-300/80 line-through">{row.existing.description}</p>
+                )}
+                <p className={`text-xs ${row.change === 'unchanged' ? 'text-gray-400' : 'text-gray-200'}`}>{row.proposal.description}</p>
+                <div className="flex flex-wrap gap-1">
+                  {row.proposal.characters.map(name => (
+                    <AssetChip key={name} label={name} tone="blue" isNew={breakdown.newCharacters.includes(name)} />
+                  ))}
+                  {row.proposal.location && (
+                    <AssetChip label={`📍 ${row.proposal.location}`} tone="green" isNew={breakdown.newLocations.includes(row.proposal.location)} />
+                  )}
+                </div>
+              </div>
+            </label>
+          ))}
+
+          {removed.map(scene => (
+            <div key={scene.id} className="flex gap-3 p-2 rounded border border-red-900/50 bg-red-950/20">
+              <Badge kind="removed" />
+              <div className="min-w-0">
+                <span className="text-sm font-bold text-red-200 line-through">{scene.title}</span>
+                <p className="text-xs text-red-300/60 truncate">{scene.description}</p>
+              </div>
+            </div>
+          ))}
+        </div>
+
+        {/* Footer */}
+        <div className="flex flex-wrap items-center gap-4 px-4 py-3 border-t border-gray-700 bg-gray-900 rounded-b-lg text-xs text-gray-300">
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="radio" checked={mode === 'merge'} onChange={() => setMode('merge')} className="accent-purple-500" />
+            Merge into existing scenes
+          </label>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="accent-purple-500" />
+            Replace all scenes
+          </label>
+          {hasNewAssets && (
+            <label className="flex items-center gap-1 cursor-pointer" title={[...breakdown.newCharacters, ...breakdown.newLocations].join(', ')}>
+              <input type="checkbox" checked={createAssets} onChange={(e) => setCreateAssets(e.target.checked)} className="accent-purple-500" />
+              Create nodes for {breakdown.newCharacters.length} character(s) and {breakdown.newLocations.length} location(s) ✚
+            </label>
+          )}
+          <div className="ml-auto flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded text-gray-400 hover:text-white">Cancel</button>
+            <button
+              onClick={() => onApply(acceptedRows, mode, createAssets)}
+              disabled={acceptedRows.length === 0}
+              className="px-6 py-2 rounded bg-purple-600 hover:bg-purple-500 text-white font-bold disabled:bg-gray-700 disabled:text-gray-400"
+            >
+              Apply {acceptedRows.length} shot(s)
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
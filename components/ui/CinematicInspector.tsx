@@ -147,12 +147,17 @@ export const CinematicInspector: React.FC<CinematicInspectorProps> = ({
                        <Row label="Mood" value={data.scene_globals?.mood} />
                     </Section>
 
-                    {/* 2. SUBJECTS (NEW) */}
-                    <Section title="Main Subject" icon="👤" defaultOpen={true}>
-                       <Row label="Subject" value={data.subjects?.main_subject} />
-                       <Row label="Action" value={data.subjects?.action_pose} />
-                       <Row label="Expression" value={data.subjects?.expression_mood} />
-                       <Row label="Clothing" value={data.subjects?.clothing_details} />
+                    {/* 2. SUBJECTS (one per cast member) */}
+                    <Section title={`Subjects (${data.subjects?.length || 0})`} icon="👤" defaultOpen={true}>
+                       {(data.subjects || []).map((subject, i) => (
+                         <div key={i} className={i > 0 ? 'mt-2 pt-1 border-t border-white/5' : ''}>
+                           <Row label={subject.character_id || `Subject ${i + 1}`} value={subject.description} />
+                           <Row label="Action" value={subject.action_pose} />
+                           <Row label="Expression" value={subject.expression_mood} />
+                           <Row label="Clothing" value={subject.clothing_details} />
+                           <Row label="Position" value={subject.screen_position} />
+                         </div>
+                       ))}
                     </Section>
 
                     {/* 3. COMPOSITION */}
@@ -0,0 +1,174 @@
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import {
+  CsvDelimiter, CsvColumnMapping, CsvColumnRole, CsvSceneRow, CSV_DELIMITERS, CSV_COLUMN_ROLES,
+  detectDelimiter, parseDelimited, looksLikeHeader, guessColumnMapping, mapCsvRows,
+} from '../../utils/scriptParser';
+import { matchShotSize } from '../../utils/sceneBlocking';
+import { CsvImportMode } from '../../hooks/useCsvImport';
+
+interface CsvImportDialogProps {
+  text: string;
+  fileName?: string;
+  existingSceneCount: number;
+  onImport: (rows: CsvSceneRow[], mode: CsvImportMode, createAssets: boolean) => void;
+  onClose: () => void;
+}
+
+const MAX_PREVIEW_ROWS = 50;
+
+const controlClass = 'bg-black/30 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-purple-500';
+
+const cellText = (row: CsvSceneRow, role: CsvColumnRole) => {
+  switch (role) {
+    case 'title': return row.title;
+    case 'description': return row.description;
+    case 'setting': return row.setting || '';
+    case 'characters': return row.characters.join(', ');
+    case 'shotType': return row.shotType || '';
+    case 'duration': return row.duration !== undefined ? `${row.duration}s` : '';
+  }
+};
+
+export const CsvImportDialog: React.FC<CsvImportDialogProps> = ({ text, fileName, existingSceneCount, onImport, onClose }) => {
+  const [delimiter, setDelimiter] = useState<CsvDelimiter>(() => detectDelimiter(text));
+  const rows = useMemo(() => parseDelimited(text, delimiter), [text, delimiter]);
+  const [hasHeader, setHasHeader] = useState(() => looksLikeHeader(rows));
+  const [mapping, setMapping] = useState<CsvColumnMapping>(() => guessColumnMapping(rows, hasHeader));
+  const [mode, setMode] = useState<CsvImportMode>('replace');
+  const [createAssets, setCreateAssets] = useState(true);
+
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  const scenes = useMemo(() => mapCsvRows(rows, mapping, hasHeader), [rows, mapping, hasHeader]);
+  const mappedRoles = CSV_COLUMN_ROLES.filter(({ role }) => mapping[role] !== undefined);
+  const usesAssets = mapping.setting !== undefined || mapping.characters !== undefined;
+
+  // Al cambiar delimitador o cabecera las columnas cambian: se vuelve a adivinar el mapeo
+  const changeDelimiter = (value: CsvDelimiter) => {
+    const next = parseDelimited(text, value);
+    setDelimiter(value);
+    setMapping(guessColumnMapping(next, hasHeader));
+  };
+  const changeHeader = (value: boolean) => {
+    setHasHeader(value);
+    setMapping(guessColumnMapping(rows, value));
+  };
+
+  const columnLabel = (index: number) => {
+    const sample = rows[0]?.[index] || '';
+    const preview = sample.length > 24 ? `${sample.slice(0, 24)}…` : sample;
+    return hasHeader ? `${index + 1}: ${preview}` : `Column ${index + 1}${preview ? ` (${preview})` : ''}`;
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 w-full max-w-5xl rounded-lg border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-800 border-b border-gray-700 rounded-t-lg">
+          <h2 className="text-lg font-bold text-white">📄 Import Scenes{fileName ? ` — ${fileName}` : ''}</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+
+        {/* Parsing options + column mapping */}
+        <div className="p-4 space-y-3 border-b border-gray-800">
+          <div className="flex flex-wrap items-center gap-4 text-xs text-gray-300">
+            <label className="flex items-center gap-2">
+              Delimiter
+              <select value={delimiter} onChange={(e) => changeDelimiter(e.target.value as CsvDelimiter)} className={controlClass}>
+                {CSV_DELIMITERS.map(d => <option key={d.label} value={d.value}>{d.label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={hasHeader} onChange={(e) => changeHeader(e.target.checked)} className="accent-purple-500" />
+              First row is a header
+            </label>
+            <span className="text-gray-500">{rows.length} row(s) · {columnCount} column(s)</span>
+          </div>
+
+          <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+            {CSV_COLUMN_ROLES.map(({ role, label }) => (
+              <label key={role} className="flex flex-col gap-1 text-[10px] uppercase font-bold text-gray-400">
+                {label}
+                <select
+                  value={mapping[role] ?? ''}
+                  onChange={(e) => setMapping(prev => ({ ...prev, [role]: e.target.value === '' ? undefined : Number(e.target.value) }))}
+                  className={controlClass}
+                >
+                  <option value="">— None —</option>
+                  {Array.from({ length: columnCount }, (_, i) => <option key={i} value={i}>{columnLabel(i)}</option>)}
+                </select>
+              </label>
+            ))}
+          </div>
+        </div>
+
+        {/* Preview */}
+        <div className="flex-1 overflow-auto p-4 custom-scrollbar">
+          {scenes.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 text-xs italic">No rows to import with this mapping.</div>
+          ) : (
+            <table className="w-full text-xs text-left border-collapse">
+              <thead>
+                <tr className="text-[10px] uppercase text-gray-400">
+                  <th className="p-1 border-b border-gray-700">#</th>
+                  {mappedRoles.map(({ role, label }) => <th key={role} className="p-1 border-b border-gray-700">{label}</th>)}
+                </tr>
+              </thead>
+              <tbody>
+                {scenes.slice(0, MAX_PREVIEW_ROWS).map((scene, index) => (
+                  <tr key={index} className="align-top odd:bg-gray-800/30">
+                    <td className="p-1 text-gray-500">{index + 1}</td>
+                    {mappedRoles.map(({ role }) => {
+                      const unknownShot = role === 'shotType' && !!scene.shotType && !matchShotSize(scene.shotType);
+                      return (
+                        <td
+                          key={role}
+                          className={`p-1 whitespace-pre-wrap ${role === 'description' ? 'min-w-[240px] text-gray-300' : 'text-gray-200'} ${unknownShot ? 'text-gray-500 line-through' : ''}`}
+                          title={unknownShot ? 'Not a known shot size, ignored' : undefined}
+                        >
+                          {cellText(scene, role)}
+                        </td>
+                      );
+                    })}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+          {scenes.length > MAX_PREVIEW_ROWS && (
+            <p className="mt-2 text-[10px] text-gray-500">…and {scenes.length - MAX_PREVIEW_ROWS} more row(s)</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex flex-wrap items-center gap-4 px-4 py-3 border-t border-gray-700 bg-gray-900 rounded-b-lg text-xs text-gray-300">
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="radio" checked={mode === 'replace'} onChange={() => setMode('replace')} className="accent-purple-500" />
+            Replace {existingSceneCount > 0 ? `the ${existingSceneCount} existing scene(s)` : 'scenes'}
+          </label>
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="radio" checked={mode === 'append'} onChange={() => setMode('append')} className="accent-purple-500" />
+            Append to existing scenes
+          </label>
+          {usesAssets && (
+            <label className="flex items-center gap-1 cursor-pointer">
+              <input type="checkbox" checked={createAssets} onChange={(e) => setCreateAssets(e.target.checked)} className="accent-purple-500" />
+              Create nodes for unknown settings / characters
+            </label>
+          )}
+          <div className="ml-auto flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded text-gray-400 hover:text-white">Cancel</button>
+            <button
+              onClick={() => onImport(scenes, mode, createAssets)}
+              disabled={scenes.length === 0}
+              className="px-6 py-2 rounded bg-purple-600 hover:bg-purple-500 text-white font-bold disabled:bg-gray-700 disabled:text-gray-400"
+            >
+              Import {scenes.length} scene(s)
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
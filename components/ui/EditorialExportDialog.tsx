@@ -0,0 +1,88 @@
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Node, Connection } from '../../types/graph';
+import { buildAnimaticShots, totalDuration } from '../../utils/animatic';
+import { TimelineFps, TIMELINE_FPS } from '../../utils/editorialTimeline';
+import { exportEditorialPackage } from '../../services/editorialExport';
+import { downloadBlob } from '../../utils/file';
+
+interface EditorialExportDialogProps {
+  nodes: Node[];
+  connections: Connection[];
+  projectName: string;
+  onClose: () => void;
+}
+
+const controlClass = 'bg-black/30 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-purple-500';
+
+export const EditorialExportDialog: React.FC<EditorialExportDialogProps> = ({ nodes, connections, projectName, onClose }) => {
+  const [fps, setFps] = useState<TimelineFps>(24);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const shots = useMemo(() => buildAnimaticShots(nodes, connections), [nodes, connections]);
+  const withImages = shots.filter(s => s.panel.image).length;
+  const seconds = totalDuration(shots);
+  const isExporting = progress !== null;
+
+  const handleExport = async () => {
+    setProgress({ done: 0, total: shots.length });
+    try {
+      const blob = await exportEditorialPackage(shots, fps, projectName, (done, total) => setProgress({ done, total }));
+      downloadBlob(blob, `${(projectName || 'storyboard').trim().replace(/\s+/g, '-').toLowerCase()}-edit.zip`);
+      onClose();
+    } catch (error) {
+      console.error('❌ Editorial export failed:', error);
+      alert(`Editorial export failed: ${error instanceof Error ? error.message : String(error)}`);
+      setProgress(null);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={isExporting ? undefined : onClose}>
+      <div className="bg-gray-900 w-full max-w-md rounded-lg border border-gray-700 shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-800 border-b border-gray-700 rounded-t-lg">
+          <h2 className="text-lg font-bold text-white">🎬 Export for Editing</h2>
+          <button onClick={onClose} disabled={isExporting} className="text-gray-400 hover:text-white disabled:opacity-40">✕</button>
+        </div>
+
+        <div className="p-4 space-y-3 text-xs text-gray-300">
+          <p className="text-gray-400">
+            A zip with the shot list as <b className="text-gray-200">CMX3600 EDL</b>, <b className="text-gray-200">FCPXML</b> and <b className="text-gray-200">OpenTimelineIO</b>,
+            plus the selected frame of every shot in <code className="text-purple-300">media/</code>. Unzip it and relink the media in your editor.
+          </p>
+          <label className="flex items-center gap-2">
+            Frame rate
+            <select value={fps} onChange={(e) => setFps(Number(e.target.value) as TimelineFps)} className={controlClass}>
+              {TIMELINE_FPS.map(rate => <option key={rate} value={rate}>{rate} fps</option>)}
+            </select>
+          </label>
+          <p className="text-gray-500">
+            {shots.length === 0
+              ? 'No Script scenes to export.'
+              : `${shots.length} shot(s), ${withImages} with image · ${Math.round(seconds * 10) / 10}s total`}
+          </p>
+          {shots.length > withImages && withImages > 0 && (
+            <p className="text-[10px] text-yellow-400/80">Shots without an image are exported as gaps.</p>
+          )}
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-2 px-4 py-3 border-t border-gray-700 rounded-b-lg text-xs">
+          {progress && <span className="text-gray-400">Packaging {progress.done}/{progress.total}…</span>}
+          <div className="ml-auto flex gap-2">
+            <button onClick={onClose} disabled={isExporting} className="px-4 py-2 rounded text-gray-400 hover:text-white disabled:opacity-40">Cancel</button>
+            <button
+              onClick={handleExport}
+              disabled={shots.length === 0 || isExporting}
+              className="px-6 py-2 rounded bg-purple-600 hover:bg-purple-500 text-white font-bold disabled:bg-gray-700 disabled:text-gray-400"
+            >
+              {isExporting ? 'Exporting…' : 'Export .zip'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
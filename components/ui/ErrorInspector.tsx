@@ -5,10 +5,12 @@ import { GenerationTrace } from '../../types/graph';
 interface ErrorInspectorProps {
   trace: GenerationTrace;
   onClose: () => void;
+  onClearCache?: () => Promise<number>; // Drops this node's cached AI responses
 }
 
-export const ErrorInspector: React.FC<ErrorInspectorProps> = ({ trace, onClose }) => {
-  const [activeTab, setActiveTab] = useState<'inputs' | 'json' | 'error'>(
+export const ErrorInspector: React.FC<ErrorInspectorProps> = ({ trace, onClose, onClearCache }) => {
+  const [cacheCleared, setCacheCleared] = useState<number | null>(null);
+  const [activeTab, setActiveTab] = useState<'inputs' | 'json' | 'validation' | 'error'>(
     trace.status === 'error' ? 'error' : 'json'
   );
 
@@ -19,6 +21,7 @@ export const ErrorInspector: React.FC<ErrorInspectorProps> = ({ trace, onClose }
   const getContentToCopy = () => {
     if (activeTab === 'inputs') return JSON.stringify(trace.inputs, null, 2);
     if (activeTab === 'json') return JSON.stringify(trace.architectOutput, null, 2);
+    if (activeTab === 'validation') return JSON.stringify(trace.response, null, 2);
     return trace.rawError || 'No error message captured.';
   };
 
@@ -35,6 +38,11 @@ export const ErrorInspector: React.FC<ErrorInspectorProps> = ({ trace, onClose }
             <span className={`px-2 py-0.5 text-xs rounded font-bold uppercase ${trace.status === 'error' ? 'bg-red-900 text-red-200' : 'bg-green-900 text-green-200'}`}>
                 {trace.status}
             </span>
+            {trace.response?.cacheHit && (
+                <span className="px-2 py-0.5 text-xs rounded font-bold uppercase bg-blue-900 text-blue-200" title="The architect JSON came from the response cache">
+                    ⚡ Cached
+                </span>
+            )}
           </div>
           <button onClick={onClose} className="text-gray-400 hover:text-white">
             <svg xmlns="http://www.w3.org/2000/svg" className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
@@ -57,11 +65,20 @@ export const ErrorInspector: React.FC<ErrorInspectorProps> = ({ trace, onClose }
           >
             2. Architect JSON
           </button>
+          <button
+            onClick={() => setActiveTab('validation')}
+            className={`px-4 py-3 text-sm font-medium transition-colors flex-1 ${activeTab === 'validation' ? 'bg-gray-800 text-yellow-400 border-t-2 border-yellow-400' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'}`}
+          >
+            3. Validation
+            {trace.response && trace.response.issues.length > 0 && (
+                <span className="ml-1 text-[10px] text-yellow-500">({trace.response.issues.length})</span>
+            )}
+          </button>
           <button
             onClick={() => setActiveTab('error')}
             className={`px-4 py-3 text-sm font-medium transition-colors flex-1 ${activeTab === 'error' ? 'bg-gray-800 text-red-400 border-t-2 border-red-400' : 'text-gray-400 hover:text-gray-200 hover:bg-gray-800'}`}
           >
-            3. Error Stack
+            4. Error Stack
           </button>
         </div>
 
@@ -109,6 +126,91 @@ export const ErrorInspector: React.FC<ErrorInspectorProps> = ({ trace, onClose }
                 </div>
             )}
 
+            {activeTab === 'validation' && (
+                <div className="space-y-4">
+                    {!trace.response ? (
+                        <div className="text-gray-500 italic flex items-center justify-center h-32">No validated response recorded.</div>
+                    ) : (
+                        <>
+                            <div className="flex gap-4 text-xs">
+                                <div>
+                                    <span className="block text-gray-500 mb-1">Schema</span>
+                                    <span className="text-gray-200 font-bold">{trace.response.schema}</span>
+                                </div>
+                                <div>
+                                    <span className="block text-gray-500 mb-1">Result</span>
+                                    <span className={`font-bold uppercase ${trace.response.status === 'invalid' ? 'text-red-400' : trace.response.status === 'repaired' ? 'text-yellow-400' : 'text-green-400'}`}>
+                                        {trace.response.status}
+                                    </span>
+                                </div>
+                                <div>
+                                    <span className="block text-gray-500 mb-1">Attempts</span>
+                                    <span className="text-gray-200">{trace.response.attempts}</span>
+                                </div>
+                                <div>
+                                    <span className="block text-gray-500 mb-1">Source</span>
+                                    <span className={trace.response.cacheHit ? 'text-blue-400 font-bold' : 'text-gray-200'}>
+                                        {trace.response.cacheHit ? '⚡ Response cache' : 'Model'}
+                                    </span>
+                                </div>
+                            </div>
+
+                            {trace.response.repairs?.length > 0 && (
+                                <div>
+                                    <span className="block text-xs text-gray-500 mb-1">JSON syntax repairs</span>
+                                    <ul className="space-y-1">
+                                        {trace.response.repairs.map((repair, i) => (
+                                            <li key={i} className="p-2 bg-blue-900/10 rounded border border-blue-900/40 text-xs text-blue-200">🔧 {repair}</li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            {trace.response.repairRequestedFor && trace.response.repairRequestedFor.length > 0 && (
+                                <div>
+                                    <span className="block text-xs text-gray-500 mb-1">Errors sent back to the model for repair</span>
+                                    <ul className="space-y-1">
+                                        {trace.response.repairRequestedFor.map((issue, i) => (
+                                            <li key={i} className="p-2 bg-black/30 rounded border border-gray-700 text-xs text-gray-300">
+                                                <span className="text-blue-300">{issue.path}</span>: {issue.message}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                </div>
+                            )}
+
+                            <div>
+                                <span className="block text-xs text-gray-500 mb-1">Final issues</span>
+                                {trace.response.issues.length === 0 ? (
+                                    <span className="text-xs text-green-400">None — response matched the schema.</span>
+                                ) : (
+                                    <ul className="space-y-1">
+                                        {trace.response.issues.map((issue, i) => (
+                                            <li
+                                                key={i}
+                                                className={`p-2 rounded border text-xs ${issue.severity === 'error' ? 'bg-red-900/20 border-red-900/50 text-red-200' : 'bg-yellow-900/10 border-yellow-900/40 text-yellow-200'}`}
+                                            >
+                                                <span className="font-bold uppercase text-[9px] mr-2">{issue.severity}</span>
+                                                <span className="text-blue-300">{issue.path}</span>: {issue.message}
+                                            </li>
+                                        ))}
+                                    </ul>
+                                )}
+                            </div>
+
+                            {trace.response.rawResponse && (
+                                <div>
+                                    <span className="block text-xs text-gray-500 mb-1">Raw model output (last attempt)</span>
+                                    <pre className="p-3 bg-black/30 rounded border border-gray-700 text-gray-400 text-xs whitespace-pre-wrap break-all max-h-48 overflow-auto">
+                                        {trace.response.rawResponse}
+                                    </pre>
+                                </div>
+                            )}
+                        </>
+                    )}
+                </div>
+            )}
+
              {activeTab === 'error' && (
                 <div className="space-y-4">
                     <div>
@@ -139,6 +241,15 @@ export const ErrorInspector: React.FC<ErrorInspectorProps> = ({ trace, onClose }
                 Timestamp: {new Date(trace.timestamp).toLocaleTimeString()}
              </span>
              <div className="flex gap-2">
+                {onClearCache && (
+                    <button
+                        onClick={async () => setCacheCleared(await onClearCache())}
+                        className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors"
+                        title="Next generation of this node asks the model again"
+                    >
+                        {cacheCleared === null ? 'Clear cached responses' : `Cleared (${cacheCleared})`}
+                    </button>
+                )}
                 <button
                     onClick={() => handleCopy(getContentToCopy())}
                     className="px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-white text-xs rounded transition-colors flex items-center gap-2"
@@ -146,7 +257,7 @@ export const ErrorInspector: React.FC<ErrorInspectorProps> = ({ trace, onClose }
                     <svg xmlns="http://www.w3.org/2000/svg" className="h-3 w-3" fill="none" viewBox="0 0 24 24" stroke="currentColor">
                         <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M8 16H6a2 2 0 01-2-2V6a2 2 0 012-2h8a2 2 0 012 2v2m-6 12h8a2 2 0 002-2v-8a2 2 0 00-2-2h-8a2 2 0 00-2 2v8a2 2 0 002 2z" />
                     </svg>
-                    Copy {activeTab === 'inputs' ? 'Inputs' : activeTab === 'json' ? 'JSON' : 'Error'}
+                    Copy {activeTab === 'inputs' ? 'Inputs' : activeTab === 'json' ? 'JSON' : activeTab === 'validation' ? 'Report' : 'Error'}
                 </button>
              </div>
         </div>
@@ -0,0 +1,113 @@
+import React, { useEffect, useState } from 'react';
+import { Job, JobStatus, isActiveJob } from '../../services/jobQueue';
+import { useJobQueue } from '../../hooks/useJobQueue';
+
+const STATUS_STYLES: Record<JobStatus, string> = {
+  queued: 'bg-gray-700 text-gray-300',
+  running: 'bg-blue-900/60 text-blue-300 animate-pulse',
+  retrying: 'bg-yellow-900/60 text-yellow-300',
+  succeeded: 'bg-green-900/60 text-green-300',
+  failed: 'bg-red-900/60 text-red-300',
+  cancelled: 'bg-gray-800 text-gray-500',
+};
+
+const KIND_ICONS: Record<Job['kind'], string> = {
+  analysis: '🧬',
+  image: '🖼️',
+  transformation: '🔀',
+  video: '🎬',
+};
+
+const CONCURRENCY_OPTIONS = [1, 2, 3, 4];
+
+// Segundos hasta el próximo reintento; se refresca cada segundo mientras haya reintentos
+const useRetryCountdown = (jobs: Job[]) => {
+  const [now, setNow] = useState(Date.now());
+  const hasRetrying = jobs.some(job => job.status === 'retrying');
+
+  useEffect(() => {
+    if (!hasRetrying) return;
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, [hasRetrying]);
+
+  return (job: Job) => (job.nextRetryAt ? Math.max(0, Math.ceil((job.nextRetryAt - now) / 1000)) : 0);
+};
+
+export const JobQueuePanel: React.FC = () => {
+  const { jobs, activeJobs, concurrency, cancel, cancelAll, clearFinished, setConcurrency } = useJobQueue();
+  const [isOpen, setIsOpen] = useState(true);
+  const secondsUntilRetry = useRetryCountdown(jobs);
+
+  if (jobs.length === 0) return null;
+
+  const finishedCount = jobs.length - activeJobs.length;
+
+  return (
+    <div className="absolute top-16 right-4 z-50 w-72 bg-gray-900/90 rounded-lg border border-gray-700 shadow-xl backdrop-blur-sm overflow-hidden text-xs">
+      {/* Header */}
+      <div className="flex items-center justify-between px-3 py-2 bg-gray-800 border-b border-gray-700">
+        <button onClick={() => setIsOpen(!isOpen)} className="flex items-center gap-2 text-gray-200 font-bold uppercase tracking-wider text-[10px]">
+          <span className="text-gray-500">{isOpen ? '▼' : '▶'}</span>
+          <span>Queue</span>
+          <span className="px-1.5 py-0.5 rounded-full bg-gray-700 text-gray-300 font-mono">{activeJobs.length}</span>
+        </button>
+        <label className="flex items-center gap-1 text-[10px] text-gray-400" title="Parallel generations">
+          ⚡
+          <select
+            value={concurrency}
+            onChange={(e) => setConcurrency(Number(e.target.value))}
+            className="bg-black/30 border border-gray-700 rounded px-1 py-0.5 text-gray-200 focus:outline-none focus:border-blue-500"
+          >
+            {CONCURRENCY_OPTIONS.map(n => <option key={n} value={n}>{n}</option>)}
+          </select>
+        </label>
+      </div>
+
+      {isOpen && (
+        <>
+          <ul className="max-h-64 overflow-y-auto divide-y divide-gray-800">
+            {jobs.map(job => (
+              <li key={job.id} className="flex items-center gap-2 px-3 py-1.5">
+                <span>{KIND_ICONS[job.kind]}</span>
+                <div className="flex-1 min-w-0">
+                  <span className="block truncate text-gray-200" title={job.label}>{job.label}</span>
+                  {job.status === 'retrying' && (
+                    <span className="block text-[9px] text-yellow-400">
+                      Rate limited · retry in {secondsUntilRetry(job)}s (attempt {job.attempts})
+                    </span>
+                  )}
+                  {job.status === 'failed' && job.error && (
+                    <span className="block truncate text-[9px] text-red-400" title={job.error}>{job.error}</span>
+                  )}
+                </div>
+                <span className={`px-1.5 py-0.5 rounded text-[9px] font-bold uppercase ${STATUS_STYLES[job.status]}`}>{job.status}</span>
+                {isActiveJob(job) && (
+                  <button onClick={() => cancel(job.id)} className="text-gray-500 hover:text-red-400" title="Cancel">✕</button>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {/* Footer */}
+          <div className="flex justify-between gap-2 px-3 py-2 border-t border-gray-700 bg-gray-900">
+            <button
+              onClick={cancelAll}
+              disabled={activeJobs.length === 0}
+              className="px-2 py-1 rounded bg-red-900/60 hover:bg-red-800 text-red-200 text-[10px] font-bold disabled:opacity-40"
+            >
+              Stop All
+            </button>
+            <button
+              onClick={clearFinished}
+              disabled={finishedCount === 0}
+              className="px-2 py-1 rounded bg-gray-800 hover:bg-gray-700 text-gray-300 text-[10px] font-bold disabled:opacity-40"
+            >
+              Clear finished
+            </button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
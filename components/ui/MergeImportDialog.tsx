@@ -0,0 +1,177 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Node, NodeType, CharacterData, SettingData, ScriptData, ImageData, TransformationData } from '../../types/graph';
+import { useProjectList } from '../../hooks/useProjects';
+import { ProjectSource, readProjectFile, readStoredProject } from '../../services/persistence/projectSource';
+import { getImageSrcSync } from '../../services/persistence/imageStore';
+import { withUpstream } from '../../utils/graphRemap';
+import { NODE_CONFIG } from '../nodes/nodeConfig';
+
+interface MergeImportDialogProps {
+  activeProjectId: string;
+  initialSource?: ProjectSource; // Ya leído desde el diálogo de Load
+  onMerge: (source: ProjectSource, ids: Set<string>) => void;
+  onClose: () => void;
+}
+
+// Orden de los grupos: lo que más se reutiliza entre producciones va primero
+const TYPE_ORDER: NodeType[] = [NodeType.Character, NodeType.Setting, NodeType.Script, NodeType.Image, NodeType.Transformation, NodeType.Video];
+
+const nodeLabel = (node: Node): string => {
+  switch (node.type) {
+    case NodeType.Character: return (node.data as CharacterData).prompt || 'Unnamed character';
+    case NodeType.Setting: return (node.data as SettingData).prompt || 'Unnamed setting';
+    case NodeType.Script: {
+      const scenes = (node.data as ScriptData).scenes || [];
+      return `${scenes.length} scene(s)${scenes[0] ? ` — ${scenes[0].title}` : ''}`;
+    }
+    case NodeType.Image: return (node.data as ImageData).prompt || 'Image scene';
+    case NodeType.Transformation: return (node.data as TransformationData).modificationPrompt || 'Transformation';
+    default: return NODE_CONFIG[node.type].title;
+  }
+};
+
+export const MergeImportDialog: React.FC<MergeImportDialogProps> = ({ activeProjectId, initialSource, onMerge, onClose }) => {
+  const { projects, refresh } = useProjectList();
+  const [source, setSource] = useState<ProjectSource | null>(initialSource || null);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [includeUpstream, setIncludeUpstream] = useState(true);
+  const [isLoading, setIsLoading] = useState(false);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    refresh().catch(error => {
+      console.error('❌ Merge import: could not list projects', error);
+      alert(`Could not list the saved projects: ${error instanceof Error ? error.message : String(error)}`);
+    });
+  }, [refresh]);
+
+  const groups = useMemo(() => TYPE_ORDER
+    .map(type => ({ type, nodes: (source?.nodes || []).filter(n => n.type === type) }))
+    .filter(group => group.nodes.length > 0), [source]);
+
+  const effective = useMemo(
+    () => (source && includeUpstream ? withUpstream(selected, source.connections) : selected),
+    [source, selected, includeUpstream]
+  );
+  const addedByUpstream = effective.size - selected.size;
+
+  const load = async (read: () => Promise<ProjectSource>) => {
+    setIsLoading(true);
+    try {
+      setSource(await read());
+      setSelected(new Set());
+    } catch (error) {
+      console.error('❌ Merge import: could not read source', error);
+      alert(`Could not read the project: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) load(() => readProjectFile(file));
+  };
+
+  const toggle = (ids: string[], checked: boolean) => setSelected(prev => {
+    const next = new Set(prev);
+    ids.forEach(id => (checked ? next.add(id) : next.delete(id)));
+    return next;
+  });
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 w-full max-w-2xl rounded-lg border border-gray-700 shadow-2xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-800 border-b border-gray-700 rounded-t-lg">
+          <h2 className="text-lg font-bold text-white">🧩 Import Nodes</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+
+        {/* Source */}
+        <div className="flex flex-wrap items-center gap-2 p-4 border-b border-gray-800 text-xs text-gray-300">
+          <span className="text-[10px] uppercase font-bold text-gray-400">From</span>
+          <select
+            value=""
+            onChange={(e) => e.target.value && load(() => readStoredProject(e.target.value))}
+            disabled={isLoading}
+            className="bg-black/30 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-purple-500"
+          >
+            <option value="">Saved project…</option>
+            {projects.filter(p => p.id !== activeProjectId).map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+          </select>
+          <span className="text-gray-500">or</span>
+          <button onClick={() => fileInputRef.current?.click()} disabled={isLoading} className="px-2 py-1 rounded border border-gray-700 hover:bg-gray-800">
+            📂 File (.zip / .json)
+          </button>
+          <input type="file" ref={fileInputRef} onChange={handleFile} style={{ display: 'none' }} accept=".zip,.json" />
+          {source && <span className="ml-auto text-gray-400 truncate">{isLoading ? 'Loading…' : source.label}</span>}
+        </div>
+
+        {/* Node picker */}
+        <div className="flex-1 overflow-y-auto p-4 space-y-4 custom-scrollbar">
+          {!source ? (
+            <div className="text-center py-8 text-gray-500 text-xs italic">
+              {isLoading ? 'Loading…' : 'Pick a saved project or a file to choose nodes from.'}
+            </div>
+          ) : groups.length === 0 ? (
+            <div className="text-center py-8 text-gray-500 text-xs italic">This project has no nodes.</div>
+          ) : groups.map(({ type, nodes }) => {
+            const allPicked = nodes.every(n => selected.has(n.id));
+            return (
+              <div key={type}>
+                <label className="flex items-center gap-2 mb-1 text-[10px] uppercase font-bold text-gray-400 cursor-pointer">
+                  <input type="checkbox" checked={allPicked} onChange={(e) => toggle(nodes.map(n => n.id), e.target.checked)} className="accent-purple-500" />
+                  {NODE_CONFIG[type].title} ({nodes.length})
+                </label>
+                <div className="grid grid-cols-2 gap-1">
+                  {nodes.map(node => {
+                    const thumbnail = getImageSrcSync((node.data as { image?: string }).image);
+                    const isImplied = !selected.has(node.id) && effective.has(node.id);
+                    return (
+                      <label
+                        key={node.id}
+                        className={`flex items-center gap-2 p-1.5 rounded border cursor-pointer text-xs ${selected.has(node.id) ? 'border-purple-600 bg-purple-900/20' : isImplied ? 'border-gray-600 bg-gray-800/60' : 'border-gray-800 hover:bg-gray-800/40'}`}
+                        title={isImplied ? 'Included because a picked node depends on it' : undefined}
+                      >
+                        <input type="checkbox" checked={selected.has(node.id)} onChange={(e) => toggle([node.id], e.target.checked)} className="accent-purple-500" />
+                        {thumbnail ? (
+                          <img src={thumbnail} alt="" className="w-8 h-8 object-cover rounded" />
+                        ) : (
+                          <div className={`w-8 h-8 rounded ${NODE_CONFIG[type].color} opacity-60`} />
+                        )}
+                        <span className="truncate text-gray-200">{nodeLabel(node)}</span>
+                        {isImplied && <span className="ml-auto text-[9px] text-gray-400">＋</span>}
+                      </label>
+                    );
+                  })}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+
+        {/* Footer */}
+        <div className="flex flex-wrap items-center gap-4 px-4 py-3 border-t border-gray-700 bg-gray-900 rounded-b-lg text-xs text-gray-300">
+          <label className="flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={includeUpstream} onChange={(e) => setIncludeUpstream(e.target.checked)} className="accent-purple-500" />
+            Include the nodes they depend on{addedByUpstream > 0 && ` (+${addedByUpstream})`}
+          </label>
+          <div className="ml-auto flex gap-2">
+            <button onClick={onClose} className="px-4 py-2 rounded text-gray-400 hover:text-white">Cancel</button>
+            <button
+              onClick={() => { if (source) { onMerge(source, effective); onClose(); } }}
+              disabled={!source || effective.size === 0}
+              className="px-6 py-2 rounded bg-purple-600 hover:bg-purple-500 text-white font-bold disabled:bg-gray-700 disabled:text-gray-400"
+            >
+              Merge {effective.size} node(s)
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
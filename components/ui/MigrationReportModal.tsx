@@ -0,0 +1,66 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { MigrationReport } from '../../services/persistence/migrations';
+
+interface MigrationReportModalProps {
+  report: MigrationReport | null;
+  onClose: () => void;
+}
+
+export const MigrationReportModal: React.FC<MigrationReportModalProps> = ({ report, onClose }) => {
+  if (!report) return null;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 w-full max-w-xl max-h-[80vh] rounded-xl border border-gray-700 shadow-2xl flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center p-3 bg-gray-800 border-b border-gray-700 shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="text-lg">🧬</span>
+            <h3 className="text-xs font-bold text-gray-200 uppercase tracking-wider font-mono">Project Upgraded</h3>
+            <span className="text-[10px] text-gray-500 font-mono">v{report.fromVersion} → v{report.toVersion}</span>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-4 space-y-4">
+          <p className="text-xs text-gray-400">
+            This storyboard was saved with an older format and has been updated automatically.
+          </p>
+
+          {report.changes.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-bold text-green-400 uppercase tracking-wider mb-1">Changed ({report.changes.length})</h4>
+              <ul className="space-y-1">
+                {report.changes.map((change, i) => (
+                  <li key={i} className="text-xs text-gray-300 bg-gray-800/50 border border-gray-700 rounded px-2 py-1">{change}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {report.dropped.length > 0 && (
+            <div>
+              <h4 className="text-[10px] font-bold text-red-400 uppercase tracking-wider mb-1">Dropped ({report.dropped.length})</h4>
+              <ul className="space-y-1">
+                {report.dropped.map((item, i) => (
+                  <li key={i} className="text-xs text-red-200 bg-red-900/20 border border-red-500/30 rounded px-2 py-1">{item}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+
+        <div className="p-3 border-t border-gray-800 flex justify-end shrink-0">
+          <button onClick={onClose} className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold transition-colors">
+            OK
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
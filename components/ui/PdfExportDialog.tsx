@@ -0,0 +1,115 @@
+import React, { useMemo, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Node, Connection } from '../../types/graph';
+import { collectStoryboardPanels } from '../../utils/storyboardSheet';
+import { downloadBlob } from '../../utils/file';
+import { PAGE_SIZES } from '../../utils/pdf';
+import {
+  StoryboardPdfOptions, PanelsPerPage, PANELS_PER_PAGE, PANEL_ASPECT_RATIOS,
+  DEFAULT_STORYBOARD_PDF_OPTIONS, renderStoryboardPdf,
+} from '../../services/storyboardPdf';
+
+interface PdfExportDialogProps {
+  nodes: Node[];
+  connections: Connection[];
+  projectName: string;
+  onClose: () => void;
+}
+
+const controlClass = 'bg-black/30 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-purple-500';
+
+const fileNameFor = (projectName: string) =>
+  `${(projectName || 'storyboard').trim().replace(/[^\w\- ]+/g, '').replace(/\s+/g, '-').toLowerCase() || 'storyboard'}.pdf`;
+
+export const PdfExportDialog: React.FC<PdfExportDialogProps> = ({ nodes, connections, projectName, onClose }) => {
+  const [options, setOptions] = useState<StoryboardPdfOptions>(DEFAULT_STORYBOARD_PDF_OPTIONS);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const panels = useMemo(() => collectStoryboardPanels(nodes, connections), [nodes, connections]);
+  const withImages = panels.filter(p => p.image).length;
+  const pageCount = Math.ceil(panels.length / options.panelsPerPage);
+  const isExporting = progress !== null;
+
+  const update = (patch: Partial<StoryboardPdfOptions>) => setOptions(prev => ({ ...prev, ...patch }));
+
+  const handleExport = async () => {
+    setProgress({ done: 0, total: panels.length });
+    try {
+      const blob = await renderStoryboardPdf(panels, options, projectName, (done, total) => setProgress({ done, total }));
+      downloadBlob(blob, fileNameFor(projectName));
+      onClose();
+    } catch (error) {
+      console.error('❌ Storyboard PDF export failed:', error);
+      alert(`PDF export failed: ${error instanceof Error ? error.message : String(error)}`);
+      setProgress(null);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={isExporting ? undefined : onClose}>
+      <div className="bg-gray-900 w-full max-w-md rounded-lg border border-gray-700 shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-800 border-b border-gray-700 rounded-t-lg">
+          <h2 className="text-lg font-bold text-white">🖨️ Storyboard PDF</h2>
+          <button onClick={onClose} disabled={isExporting} className="text-gray-400 hover:text-white disabled:opacity-40">✕</button>
+        </div>
+
+        {/* Options */}
+        <div className="p-4 grid grid-cols-2 gap-3 text-xs text-gray-300">
+          <label className="flex flex-col gap-1 text-[10px] uppercase font-bold text-gray-400">
+            Panels per page
+            <select value={options.panelsPerPage} onChange={(e) => update({ panelsPerPage: Number(e.target.value) as PanelsPerPage })} className={controlClass}>
+              {PANELS_PER_PAGE.map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-[10px] uppercase font-bold text-gray-400">
+            Aspect ratio
+            <select value={options.aspectRatio} onChange={(e) => update({ aspectRatio: Number(e.target.value) })} className={controlClass}>
+              {PANEL_ASPECT_RATIOS.map(r => <option key={r.label} value={r.value}>{r.label}</option>)}
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-[10px] uppercase font-bold text-gray-400">
+            Orientation
+            <select value={options.orientation} onChange={(e) => update({ orientation: e.target.value as StoryboardPdfOptions['orientation'] })} className={controlClass}>
+              <option value="landscape">Landscape</option>
+              <option value="portrait">Portrait</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1 text-[10px] uppercase font-bold text-gray-400">
+            Page size
+            <select value={options.pageSize} onChange={(e) => update({ pageSize: e.target.value as StoryboardPdfOptions['pageSize'] })} className={controlClass}>
+              {Object.keys(PAGE_SIZES).map(size => <option key={size} value={size}>{size}</option>)}
+            </select>
+          </label>
+          <label className="col-span-2 flex items-center gap-1 cursor-pointer">
+            <input type="checkbox" checked={options.includeNotes} onChange={(e) => update({ includeNotes: e.target.checked })} className="accent-purple-500" />
+            Include scene notes
+          </label>
+          <p className="col-span-2 text-gray-500">
+            {panels.length === 0
+              ? 'No Script scenes to export.'
+              : `${panels.length} panel(s), ${withImages} with image · ${pageCount} page(s)`}
+          </p>
+        </div>
+
+        {/* Footer */}
+        <div className="flex items-center gap-2 px-4 py-3 border-t border-gray-700 rounded-b-lg text-xs">
+          {progress && (
+            <span className="text-gray-400">Rendering {progress.done}/{progress.total}…</span>
+          )}
+          <div className="ml-auto flex gap-2">
+            <button onClick={onClose} disabled={isExporting} className="px-4 py-2 rounded text-gray-400 hover:text-white disabled:opacity-40">Cancel</button>
+            <button
+              onClick={handleExport}
+              disabled={panels.length === 0 || isExporting}
+              className="px-6 py-2 rounded bg-purple-600 hover:bg-purple-500 text-white font-bold disabled:bg-gray-700 disabled:text-gray-400"
+            >
+              {isExporting ? 'Exporting…' : 'Export PDF'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,191 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { useProjectList, DEFAULT_PROJECT_ID } from '../../hooks/useProjects';
+
+// Mismo aviso que App.tsx: detalle en consola, mensaje corto al usuario
+const reportFailure = (message: string, error: unknown) => {
+  console.error(`❌ Projects: ${message}`, error);
+  alert(`${message}: ${error instanceof Error ? error.message : String(error)}`);
+};
+
+interface ProjectBrowserProps {
+  isOpen: boolean;
+  onClose: () => void;
+  activeProjectId: string;
+  onOpenProject: (id: string) => void;
+  onActiveProjectRenamed: (name: string) => void;
+}
+
+export const ProjectBrowser: React.FC<ProjectBrowserProps> = ({
+  isOpen,
+  onClose,
+  activeProjectId,
+  onOpenProject,
+  onActiveProjectRenamed,
+}) => {
+  const { projects, isLoading, refresh, create, rename, duplicate, remove } = useProjectList();
+  const [newName, setNewName] = useState('');
+  const [editing, setEditing] = useState<{ id: string; name: string } | null>(null);
+  const [confirmDeleteId, setConfirmDeleteId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) refresh().catch(error => reportFailure('Could not list the projects', error));
+  }, [isOpen, refresh]);
+
+  if (!isOpen) return null;
+
+  const open = (id: string) => {
+    onOpenProject(id);
+    onClose();
+  };
+
+  const handleCreate = async () => {
+    try {
+      const meta = await create(newName);
+      setNewName('');
+      open(meta.id);
+    } catch (error) {
+      reportFailure('Could not create the project', error);
+    }
+  };
+
+  const handleRename = async () => {
+    if (!editing || !editing.name.trim()) return;
+    try {
+      await rename(editing.id, editing.name.trim());
+      if (editing.id === activeProjectId) onActiveProjectRenamed(editing.name.trim());
+      setEditing(null);
+    } catch (error) {
+      reportFailure('Could not rename the project', error);
+    }
+  };
+
+  const handleDuplicate = async (id: string) => {
+    try {
+      await duplicate(id);
+    } catch (error) {
+      reportFailure('Could not duplicate the project', error);
+    }
+  };
+
+  // Mismo patrón de doble click que el botón Reset (sin window.confirm)
+  const handleDelete = async (id: string) => {
+    if (confirmDeleteId !== id) {
+      setConfirmDeleteId(id);
+      setTimeout(() => setConfirmDeleteId(current => (current === id ? null : current)), 3000);
+      return;
+    }
+    setConfirmDeleteId(null);
+    try {
+      const remaining = await remove(id);
+      if (id === activeProjectId) {
+        // El proyecto abierto ya no existe: saltamos al más reciente o a uno vacío por defecto.
+        onOpenProject(remaining[0]?.id || DEFAULT_PROJECT_ID);
+      }
+    } catch (error) {
+      reportFailure('Could not delete the project', error);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 w-full max-w-2xl max-h-[80vh] rounded-xl border border-gray-700 shadow-2xl flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center p-3 bg-gray-800 border-b border-gray-700 shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="text-lg">🗂️</span>
+            <h3 className="text-xs font-bold text-gray-200 uppercase tracking-wider font-mono">Projects</h3>
+            {isLoading && <span className="text-[10px] text-gray-500 animate-pulse">Loading...</span>}
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+
+        {/* New Project */}
+        <div className="p-3 border-b border-gray-800 flex gap-2">
+          <input
+            value={newName}
+            onChange={(e) => setNewName(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') handleCreate(); }}
+            placeholder="New storyboard name..."
+            className="flex-1 bg-black/30 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={handleCreate}
+            className="px-4 py-1.5 rounded bg-blue-600 hover:bg-blue-500 text-white text-xs font-bold transition-colors"
+          >
+            + New Project
+          </button>
+        </div>
+
+        {/* Project List */}
+        <div className="flex-1 overflow-y-auto custom-scrollbar p-2 space-y-1">
+          {projects.length === 0 && !isLoading && (
+            <div className="text-center py-8 text-gray-500 text-xs italic">No saved projects yet.</div>
+          )}
+          {projects.map(project => {
+            const isActive = project.id === activeProjectId;
+            const isEditing = editing?.id === project.id;
+            return (
+              <div
+                key={project.id}
+                className={`flex items-center gap-2 p-2 rounded border transition-colors ${isActive ? 'bg-blue-900/20 border-blue-500/50' : 'bg-gray-800/50 border-gray-700 hover:border-gray-500'}`}
+              >
+                <div className="flex-1 min-w-0">
+                  {isEditing ? (
+                    <input
+                      autoFocus
+                      value={editing!.name}
+                      onChange={(e) => setEditing({ id: project.id, name: e.target.value })}
+                      onKeyDown={(e) => {
+                        if (e.key === 'Enter') handleRename();
+                        if (e.key === 'Escape') setEditing(null);
+                      }}
+                      onBlur={handleRename}
+                      className="w-full bg-black/40 border border-blue-500/50 rounded px-1 py-0.5 text-xs text-white focus:outline-none"
+                    />
+                  ) : (
+                    <button onClick={() => open(project.id)} className="text-left w-full">
+                      <span className="block text-xs font-bold text-gray-100 truncate">
+                        {project.name} {isActive && <span className="text-[9px] text-blue-400 font-normal ml-1">(open)</span>}
+                      </span>
+                      <span className="block text-[10px] text-gray-500 font-mono">
+                        {new Date(project.lastModified).toLocaleString()}
+                      </span>
+                    </button>
+                  )}
+                </div>
+                <div className="flex gap-1 shrink-0">
+                  <button
+                    onClick={() => setEditing({ id: project.id, name: project.name })}
+                    className="text-[10px] px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-300"
+                    title="Rename"
+                  >
+                    ✏️
+                  </button>
+                  <button
+                    onClick={() => handleDuplicate(project.id)}
+                    className="text-[10px] px-2 py-1 rounded bg-gray-700 hover:bg-gray-600 text-gray-300"
+                    title="Duplicate"
+                  >
+                    📑
+                  </button>
+                  <button
+                    onClick={() => handleDelete(project.id)}
+                    className={`text-[10px] px-2 py-1 rounded transition-colors ${confirmDeleteId === project.id ? 'bg-red-900/80 text-white border border-red-500' : 'bg-gray-700 hover:bg-red-900/50 text-red-300'}`}
+                    title="Delete"
+                  >
+                    {confirmDeleteId === project.id ? 'Confirm?' : '🗑️'}
+                  </button>
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,71 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { NodeType } from '../../types/graph';
+import { ProjectImportMode } from '../../hooks/useProjectImport';
+import { ProjectSource } from '../../services/persistence/projectSource';
+
+interface ProjectImportDialogProps {
+  pending: ProjectSource;
+  onApply: (mode: ProjectImportMode) => Promise<void>;
+  onPickNodes: () => void; // Abre el selector para fusionar solo algunos nodos
+  onClose: () => void;
+}
+
+const OPTIONS: { mode: ProjectImportMode; icon: string; label: string; hint: string }[] = [
+  { mode: 'new', icon: '🆕', label: 'Open as a new project', hint: 'The current project is left untouched.' },
+  { mode: 'merge', icon: '➕', label: 'Merge into this canvas', hint: 'Added to the right with new ids. Undo removes it in one step.' },
+  { mode: 'replace', icon: '♻️', label: 'Replace this canvas', hint: 'Everything currently on the canvas is discarded.' },
+];
+
+export const ProjectImportDialog: React.FC<ProjectImportDialogProps> = ({ pending, onApply, onPickNodes, onClose }) => {
+  const [busy, setBusy] = useState<ProjectImportMode | null>(null);
+  const count = (type: NodeType) => pending.nodes.filter(n => n.type === type).length;
+
+  // onApply avisa de sus propios errores; si el diálogo sigue abierto se puede elegir otra opción
+  const apply = async (mode: ProjectImportMode) => {
+    setBusy(mode);
+    await onApply(mode);
+    setBusy(null);
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={busy ? undefined : onClose}>
+      <div className="bg-gray-900 w-full max-w-md rounded-lg border border-gray-700 shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-800 border-b border-gray-700 rounded-t-lg">
+          <h2 className="text-lg font-bold text-white truncate">📦 Import "{pending.name}"</h2>
+          <button onClick={onClose} disabled={!!busy} className="text-gray-400 hover:text-white disabled:opacity-40">✕</button>
+        </div>
+
+        <div className="p-4 space-y-3">
+          <p className="text-xs text-gray-400">
+            <span className="text-gray-200">{pending.label}</span> · {pending.nodes.length} node(s): {count(NodeType.Script)} script(s),{' '}
+            {count(NodeType.Character)} character(s), {count(NodeType.Setting)} setting(s), {count(NodeType.Image)} image(s)
+          </p>
+          {pending.report && (
+            <p className="text-[10px] text-yellow-400/80">
+              Upgraded from schema v{pending.report.fromVersion} to v{pending.report.toVersion}
+              {pending.report.dropped.length > 0 && ` (${pending.report.dropped.length} item(s) could not be carried over)`}.
+            </p>
+          )}
+
+          {OPTIONS.map(({ mode, icon, label, hint }) => (
+            <button
+              key={mode}
+              onClick={() => apply(mode)}
+              disabled={!!busy}
+              className={`w-full text-left px-3 py-2 rounded border transition-colors disabled:opacity-40 ${mode === 'replace' ? 'border-red-900/60 hover:bg-red-950/40' : 'border-gray-700 hover:bg-gray-800'}`}
+            >
+              <div className="text-sm font-bold text-white">{icon} {label}{busy === mode && '…'}</div>
+              <div className="text-[10px] text-gray-400">{hint}</div>
+            </button>
+          ))}
+          <button onClick={onPickNodes} disabled={!!busy} className="w-full text-center text-[10px] text-purple-300 hover:text-purple-200 disabled:opacity-40">
+            🧩 Pick which nodes to merge…
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
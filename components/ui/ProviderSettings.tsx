@@ -0,0 +1,138 @@
+import React, { useEffect, useState } from 'react';
+import { createPortal } from 'react-dom';
+import {
+  getProviders,
+  getActiveProvider,
+  setActiveProvider,
+  getModelFor,
+  setModelFor,
+  isProviderOverridden,
+  PROVIDER_TASKS,
+  ProviderTask,
+} from '../../services/providers';
+import { clearResponseCache, RESPONSE_CACHE_TTL_MS } from '../../services/responseCache';
+
+interface ProviderSettingsProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const readModels = () =>
+  Object.fromEntries(PROVIDER_TASKS.map(({ task }) => [task, getModelFor(task)])) as Record<ProviderTask, string>;
+
+export const ProviderSettings: React.FC<ProviderSettingsProps> = ({ isOpen, onClose }) => {
+  const [providerId, setProviderId] = useState(() => getActiveProvider().id);
+  const [models, setModels] = useState<Record<ProviderTask, string>>(readModels);
+  const [cacheStatus, setCacheStatus] = useState<'idle' | 'cleared' | 'error'>('idle');
+
+  // Al abrir, refrescamos desde la configuración guardada
+  useEffect(() => {
+    if (!isOpen) return;
+    setProviderId(getActiveProvider().id);
+    setModels(readModels());
+    setCacheStatus('idle');
+  }, [isOpen]);
+
+  if (!isOpen) return null;
+
+  const provider = getProviders().find(p => p.id === providerId) || getActiveProvider();
+
+  const handleProviderChange = (id: string) => {
+    setActiveProvider(id);
+    setProviderId(id);
+    setModels(readModels());
+  };
+
+  const handleClearCache = async () => {
+    try {
+      await clearResponseCache();
+      setCacheStatus('cleared');
+    } catch {
+      setCacheStatus('error');
+    }
+  };
+
+  const handleModelChange = (task: ProviderTask, model: string) => {
+    setModels(prev => ({ ...prev, [task]: model }));
+    setModelFor(task, model, providerId);
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div
+        className="bg-gray-900 w-full max-w-lg rounded-xl border border-gray-700 shadow-2xl flex flex-col overflow-hidden"
+        onClick={e => e.stopPropagation()}
+      >
+        {/* Header */}
+        <div className="flex justify-between items-center p-3 bg-gray-800 border-b border-gray-700 shrink-0">
+          <div className="flex items-center gap-2">
+            <span className="text-lg">🔌</span>
+            <h3 className="text-xs font-bold text-gray-200 uppercase tracking-wider font-mono">AI Provider</h3>
+          </div>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="p-4 space-y-4">
+          {/* Provider */}
+          <div>
+            <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider mb-1">Backend</label>
+            <select
+              value={providerId}
+              onChange={(e) => handleProviderChange(e.target.value)}
+              disabled={isProviderOverridden()}
+              className="w-full bg-black/30 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200 focus:outline-none focus:border-blue-500"
+            >
+              {getProviders().map(p => (
+                <option key={p.id} value={p.id}>{p.label}</option>
+              ))}
+            </select>
+            {isProviderOverridden() && (
+              <p className="mt-1 text-[10px] text-yellow-400">Forced by the <code>?provider=</code> URL parameter.</p>
+            )}
+            {!provider.isConfigured() && (
+              <p className="mt-1 text-[10px] text-red-400">⚠️ This provider is not configured (missing API key?).</p>
+            )}
+          </div>
+
+          {/* Models per task */}
+          <div className="space-y-3">
+            {PROVIDER_TASKS.map(({ task, label, description }) => (
+              <div key={task}>
+                <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">{label}</label>
+                <span className="block text-[10px] text-gray-500 mb-1">{description}</span>
+                <input
+                  list={`models-${provider.id}-${task}`}
+                  value={models[task]}
+                  onChange={(e) => handleModelChange(task, e.target.value)}
+                  onBlur={() => setModels(readModels())}
+                  placeholder={provider.models[task][0]}
+                  className="w-full bg-black/30 border border-gray-700 rounded px-2 py-1.5 text-xs text-gray-200 font-mono focus:outline-none focus:border-blue-500"
+                />
+                <datalist id={`models-${provider.id}-${task}`}>
+                  {provider.models[task].map(model => <option key={model} value={model} />)}
+                </datalist>
+              </div>
+            ))}
+          </div>
+
+          {/* Response cache */}
+          <div className="flex items-center justify-between gap-3 pt-3 border-t border-gray-800">
+            <div>
+              <label className="block text-[10px] font-bold text-gray-400 uppercase tracking-wider">Response Cache</label>
+              <span className="block text-[10px] text-gray-500">
+                Identical JSON requests are reused for {Math.round(RESPONSE_CACHE_TTL_MS / 86400000)} days.
+              </span>
+            </div>
+            <button
+              onClick={handleClearCache}
+              className="shrink-0 px-3 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-200 text-[10px] font-bold rounded border border-gray-600"
+            >
+              {cacheStatus === 'cleared' ? '✅ Cleared' : cacheStatus === 'error' ? '⚠️ Failed' : 'Clear cache'}
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
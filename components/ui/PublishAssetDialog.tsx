@@ -0,0 +1,97 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { Node, NodeType } from '../../types/graph';
+import { AssetRecord } from '../../services/persistence/db';
+import { LibraryNodeData, defaultAssetName, latestVersion, parseTags } from '../../services/persistence/assetLibrary';
+import { useImageSrc } from '../../hooks/useImageSrc';
+
+interface PublishAssetDialogProps {
+  node: Node<LibraryNodeData>;
+  asset?: AssetRecord; // The asset the node is linked to: publishing adds a version
+  onPublish: (meta: { name: string; tags: string[]; note?: string }) => Promise<boolean>; // false = failed (already reported)
+  onClose: () => void;
+}
+
+export const PublishAssetDialog: React.FC<PublishAssetDialogProps> = ({ node, asset, onPublish, onClose }) => {
+  const [name, setName] = useState(asset?.name || defaultAssetName(node));
+  const [tags, setTags] = useState((asset?.tags || []).join(', '));
+  const [note, setNote] = useState('');
+  const [isPublishing, setIsPublishing] = useState(false);
+  const imageSrc = useImageSrc(node.data.image);
+  const nextVersion = asset ? latestVersion(asset).version + 1 : 1;
+
+  const handlePublish = async () => {
+    setIsPublishing(true);
+    const published = await onPublish({ name: name.trim() || defaultAssetName(node), tags: parseTags(tags), note: note.trim() });
+    if (published) onClose();
+    else setIsPublishing(false);
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={isPublishing ? undefined : onClose}>
+      <div className="bg-gray-900 w-full max-w-md rounded-lg border border-gray-700 shadow-2xl flex flex-col" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-800 border-b border-gray-700 rounded-t-lg">
+          <h2 className="text-lg font-bold text-white">
+            📚 {asset ? `Publish v${nextVersion} of "${asset.name}"` : `Publish ${node.type === NodeType.Character ? 'Character' : 'Setting'}`}
+          </h2>
+          <button onClick={onClose} disabled={isPublishing} className="text-gray-400 hover:text-white disabled:opacity-40">✕</button>
+        </div>
+
+        <div className="p-4 flex gap-3">
+          <div className="w-24 h-24 shrink-0 bg-gray-800 rounded border border-gray-700 overflow-hidden">
+            {imageSrc && <img src={imageSrc} alt="" className="w-full h-full object-cover" />}
+          </div>
+          <div className="flex-1 space-y-2 text-xs">
+            <label className="block">
+              <span className="text-[10px] uppercase font-bold text-gray-400">Name</span>
+              <input
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                className="w-full bg-black/30 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-purple-500"
+              />
+            </label>
+            <label className="block">
+              <span className="text-[10px] uppercase font-bold text-gray-400">Tags (comma separated)</span>
+              <input
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="lead, noir, season 2"
+                className="w-full bg-black/30 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-purple-500"
+              />
+            </label>
+            {asset && (
+              <label className="block">
+                <span className="text-[10px] uppercase font-bold text-gray-400">What changed</span>
+                <input
+                  value={note}
+                  onChange={(e) => setNote(e.target.value)}
+                  placeholder="New outfit reference"
+                  className="w-full bg-black/30 border border-gray-700 rounded px-2 py-1 text-gray-200 focus:outline-none focus:border-purple-500"
+                />
+              </label>
+            )}
+          </div>
+        </div>
+        <p className="px-4 text-[10px] text-gray-500">
+          {asset
+            ? 'Projects using this asset will be offered the new version; they keep their current one until they pull it.'
+            : 'The prompt, reference images and passport are saved to the library. This node becomes a linked instance.'}
+        </p>
+
+        {/* Footer */}
+        <div className="flex justify-end gap-2 px-4 py-3 mt-3 border-t border-gray-700">
+          <button onClick={onClose} disabled={isPublishing} className="px-4 py-2 rounded text-xs text-gray-400 hover:text-white">Cancel</button>
+          <button
+            onClick={handlePublish}
+            disabled={isPublishing}
+            className="px-6 py-2 rounded bg-purple-600 hover:bg-purple-500 text-white text-xs font-bold disabled:bg-gray-700 disabled:text-gray-400"
+          >
+            {isPublishing ? 'Publishing…' : `Publish v${nextVersion}`}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
@@ -0,0 +1,82 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { ImageTake } from '../../types/graph';
+import { useImageSrc } from '../../hooks/useImageSrc';
+
+interface TakeCompareProps {
+  takes: ImageTake[];
+  selectedTakeId?: string;
+  initialA?: string;
+  initialB?: string;
+  onPin: (takeId: string) => void;
+  onClose: () => void;
+}
+
+export const describeTake = (take: ImageTake, index: number) => {
+  const time = new Date(take.createdAt).toLocaleString([], { month: 'short', day: 'numeric', hour: '2-digit', minute: '2-digit' });
+  const origin = take.source === 'upload' ? 'Upload' : take.model || 'Generated';
+  return `Take ${index + 1} · ${time} · ${origin}`;
+};
+
+interface ComparePaneProps {
+  label: 'A' | 'B';
+  takes: ImageTake[];
+  takeId: string;
+  isPinned: boolean;
+  onChange: (takeId: string) => void;
+  onPin: () => void;
+}
+
+const ComparePane: React.FC<ComparePaneProps> = ({ label, takes, takeId, isPinned, onChange, onPin }) => {
+  const take = takes.find(t => t.id === takeId);
+  const src = useImageSrc(take?.image);
+
+  return (
+    <div className="flex-1 min-w-0 flex flex-col gap-2">
+      <div className="flex items-center gap-2">
+        <span className="px-2 py-0.5 rounded bg-gray-700 text-gray-200 text-xs font-bold">{label}</span>
+        <select
+          value={takeId}
+          onChange={(e) => onChange(e.target.value)}
+          className="flex-1 min-w-0 bg-black/30 border border-gray-700 rounded px-2 py-1 text-xs text-gray-200 focus:outline-none focus:border-blue-500"
+        >
+          {takes.map((t, i) => <option key={t.id} value={t.id}>{describeTake(t, i)}</option>)}
+        </select>
+        <button
+          onClick={onPin}
+          disabled={isPinned}
+          className="px-2 py-1 rounded text-xs font-bold bg-yellow-600 hover:bg-yellow-700 text-white disabled:bg-gray-700 disabled:text-gray-400"
+        >
+          {isPinned ? '📌 Pinned' : '📌 Pin'}
+        </button>
+      </div>
+      <div className="flex-1 min-h-0 flex items-center justify-center bg-black rounded border border-gray-700 overflow-hidden">
+        {src ? <img src={src} className="max-w-full max-h-[70vh] object-contain" /> : <span className="text-xs text-gray-500">Image not found</span>}
+      </div>
+    </div>
+  );
+};
+
+export const TakeCompare: React.FC<TakeCompareProps> = ({ takes, selectedTakeId, initialA, initialB, onPin, onClose }) => {
+  const fallbackA = selectedTakeId || takes[takes.length - 1]?.id;
+  const [takeA, setTakeA] = useState(initialA || fallbackA);
+  const [takeB, setTakeB] = useState(initialB || takes.find(t => t.id !== (initialA || fallbackA))?.id || fallbackA);
+
+  return createPortal(
+    <div className="fixed inset-0 z-[9999] bg-black/80 backdrop-blur-sm flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-gray-900 w-full max-w-6xl rounded-lg border border-gray-700 shadow-2xl flex flex-col max-h-[95vh]" onClick={e => e.stopPropagation()}>
+        {/* Header */}
+        <div className="flex items-center justify-between px-4 py-3 bg-gray-800 border-b border-gray-700 rounded-t-lg">
+          <h2 className="text-lg font-bold text-white">Compare Takes</h2>
+          <button onClick={onClose} className="text-gray-400 hover:text-white">✕</button>
+        </div>
+
+        <div className="flex gap-4 p-4 min-h-0">
+          <ComparePane label="A" takes={takes} takeId={takeA} isPinned={takeA === selectedTakeId} onChange={setTakeA} onPin={() => onPin(takeA)} />
+          <ComparePane label="B" takes={takes} takeId={takeB} isPinned={takeB === selectedTakeId} onChange={setTakeB} onPin={() => onPin(takeB)} />
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
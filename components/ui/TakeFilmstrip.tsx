@@ -0,0 +1,43 @@
+import React from 'react';
+import { ImageTake } from '../../types/graph';
+import { useImageSrc } from '../../hooks/useImageSrc';
+import { describeTake } from './TakeCompare';
+
+interface TakeFilmstripProps {
+  takes: ImageTake[];
+  selectedTakeId?: string;
+  viewedTakeId?: string;
+  onView: (takeId: string) => void;
+}
+
+const TakeThumb: React.FC<{ take: ImageTake; index: number; isPinned: boolean; isViewed: boolean; onClick: () => void }> = ({ take, index, isPinned, isViewed, onClick }) => {
+  const src = useImageSrc(take.image);
+  return (
+    <button
+      onClick={(e) => { e.stopPropagation(); onClick(); }}
+      title={describeTake(take, index)}
+      className={`relative shrink-0 w-12 h-12 rounded overflow-hidden border-2 bg-black transition-colors ${
+        isViewed ? 'border-white' : isPinned ? 'border-yellow-500' : 'border-gray-700 hover:border-gray-500'
+      }`}
+    >
+      {src && <img src={src} className="w-full h-full object-cover" />}
+      <span className="absolute bottom-0 left-0 px-1 text-[8px] font-bold bg-black/70 text-gray-200">{index + 1}</span>
+      {isPinned && <span className="absolute top-0 right-0 text-[8px]">📌</span>}
+    </button>
+  );
+};
+
+export const TakeFilmstrip: React.FC<TakeFilmstripProps> = ({ takes, selectedTakeId, viewedTakeId, onView }) => (
+  <div className="flex gap-1.5 overflow-x-auto pb-1 custom-scrollbar">
+    {takes.map((take, index) => (
+      <TakeThumb
+        key={take.id}
+        take={take}
+        index={index}
+        isPinned={take.id === selectedTakeId}
+        isViewed={take.id === viewedTakeId}
+        onClick={() => onView(take.id)}
+      />
+    ))}
+  </div>
+);
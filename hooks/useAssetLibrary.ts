@@ -0,0 +1,50 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Node } from '../types/graph';
+import { AssetRecord, getAllAssetRecords, deleteAssetRecord } from '../services/persistence/db';
+import { publishAsset, LibraryNodeData } from '../services/persistence/assetLibrary';
+import { preloadImages } from '../services/persistence/imageStore';
+
+/**
+ * Asset library list + publish / delete. The list is reloaded on mount and whenever the
+ * window regains focus, so versions published from another tab show up as updates.
+ */
+export const useAssetLibrary = () => {
+  const [assets, setAssets] = useState<AssetRecord[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async (): Promise<AssetRecord[]> => {
+    setIsLoading(true);
+    try {
+      const list = await getAllAssetRecords();
+      // Las miniaturas del panel se resuelven de forma síncrona
+      await preloadImages(list.map(asset => asset.versions[asset.versions.length - 1]?.data.image).filter((ref): ref is string => !!ref));
+      setAssets(list);
+      return list;
+    } catch (error) {
+      console.error("Error listing library assets:", error);
+      return [];
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    const onFocus = () => { refresh(); };
+    window.addEventListener('focus', onFocus);
+    return () => window.removeEventListener('focus', onFocus);
+  }, [refresh]);
+
+  const publish = useCallback(async (node: Node<LibraryNodeData>, meta: { name: string; tags: string[]; note?: string }) => {
+    const record = await publishAsset(node, meta);
+    await refresh();
+    return record;
+  }, [refresh]);
+
+  const remove = useCallback(async (id: string) => {
+    await deleteAssetRecord(id);
+    await refresh();
+  }, [refresh]);
+
+  return { assets, isLoading, refresh, publish, remove };
+};
@@ -1,7 +1,10 @@
 
 import { useEffect } from 'react';
-import { Node, Connection, NodeType, ScriptData, ImageData, TransformationData, CharacterData, SettingData } from '../types/graph';
-import { fetchCinematicSpec, fetchCharacterPassport, enrichSceneDescription } from '../services/promptArchitect';
+import { Node, Connection, NodeType, ScriptData, ImageData, TransformationData, SettingData } from '../types/graph';
+import { fetchCinematicSpec, resolveCastBriefs, enrichSceneDescription } from '../services/promptArchitect';
+import { AICallContext } from '../services/aiResponse';
+import { computeInputHash } from '../services/inputHashes';
+import { getScriptCharacters, resolveSceneCast } from '../utils/sceneCast';
 
 export const useConnectionEnricher = (
   nodes: Node[],
@@ -26,62 +29,48 @@ export const useConnectionEnricher = (
           // Skip if we are in transformation mode to prevent overwriting with standard script logic
           if (imageData.mode === 'transformation') return;
 
-          // Skip if already enriched, loading, or success
+          if (imageData.sceneEnrichmentStatus === 'loading') return;
+
+          // Skip if already enriched (or failed) for these exact inputs: scene text, passports and model.
+          // 'error' waits for the user's "Try Again" (resets to idle) or for the inputs to change.
+          // Unstamped results (older projects, reverse engineering) are kept as they are.
+          const stampedHash = imageData.inputHashes?.enrichedSceneJson;
+          const upToDate = !stampedHash || stampedHash === computeInputHash(targetNode, 'enrichedSceneJson', nodes, connections);
           if (
-            imageData.enrichedSceneJson ||
-            imageData.sceneEnrichmentStatus === 'loading' ||
-            imageData.sceneEnrichmentStatus === 'success'
+            upToDate && (
+              imageData.enrichedSceneJson ||
+              imageData.sceneEnrichmentStatus === 'success' ||
+              imageData.sceneEnrichmentStatus === 'error'
+            )
           ) {
             return;
           }
 
           const fromOutput = conn.fromOutput;
-          let sceneText = '';
-          let selectedSettingId: string | undefined;
-
-          if (typeof fromOutput === 'string') {
-            const scene = scriptData.scenes.find((s) => s.id === fromOutput);
-            if (scene) {
-                sceneText = scene.description;
-                selectedSettingId = scene.selectedSettingId;
-            }
-          } else {
-            const scene = scriptData.scenes[fromOutput as number];
-            if (scene) {
-                sceneText = scene.description;
-                selectedSettingId = scene.selectedSettingId;
-            }
-          }
+          const scene = typeof fromOutput === 'string'
+            ? scriptData.scenes.find((s) => s.id === fromOutput)
+            : scriptData.scenes[fromOutput as number];
+          const sceneText = scene?.description || '';
+          const selectedSettingId = scene?.selectedSettingId;
 
-          if (!sceneText) return;
+          if (!scene || !sceneText) return;
 
           // Trigger Enrichment
           updateNodeData(targetNode.id, { sceneEnrichmentStatus: 'loading' });
 
           try {
             // V2 ARCHITECTURE IMPLEMENTATION
-            // 1. Try to find a connected character to the SCRIPT node (not the image node)
-            const charConn = connections.find(c => c.toNodeId === sourceNode.id && c.toInputIndex === 0);
-            const charNode = charConn ? nodes.find(n => n.id === charConn.fromNodeId) : null;
-            
-            let passport = null;
-
-            if (charNode && charNode.type === NodeType.Character) {
-                const charData = charNode.data as CharacterData;
-                
-                // Strategy: If we have a cached passport, use it. 
-                // If not, but we have a prompt, generate it on the fly to ensure V2 consistency.
-                if (charData.characterPassport) {
-                    passport = charData.characterPassport;
-                } else if (charData.prompt) {
-                    // Generate passport ad-hoc (without updating the char node to avoid side-effects in this hook)
-                    passport = await fetchCharacterPassport(charData.prompt);
-                    // Optionally cache it back if desired:
-                    if (passport) {
-                        updateNodeData(charNode.id, { characterPassport: passport });
-                    }
-                }
-            }
+            // 1. Cast of the scene: the characters connected to the SCRIPT node (not the image node)
+            const cast = resolveSceneCast(scene, getScriptCharacters(nodes, connections, sourceNode.id));
+
+            let hashNodes = nodes; // Grafo con el que se calcula el sello (incluye los pasaportes generados aquí)
+
+            // Strategy: use cached passports; members with only a prompt get one generated on the fly
+            // (and cached back on the character node) to ensure V2 consistency.
+            const briefs = await resolveCastBriefs(cast, scene.blocking, (characterId, passport) => {
+                updateNodeData(characterId, { characterPassport: passport });
+                hashNodes = hashNodes.map(n => n.id === characterId ? { ...n, data: { ...n.data, characterPassport: passport } } : n);
+            });
 
             // 2. Try to find a connected setting to the SCRIPT node
             // Find ALL connected settings to the script node
@@ -110,17 +99,47 @@ export const useConnectionEnricher = (
             }
 
             // 3. Generate the Scene Spec using the new V2 prompt architect
-            const resultJson = await fetchCinematicSpec(sceneText, passport, settingPassport);
+            const inputHashes = {
+              ...imageData.inputHashes,
+              enrichedSceneJson: computeInputHash(targetNode, 'enrichedSceneJson', hashNodes, connections) ?? undefined,
+            };
+            const ctx: AICallContext = { nodeId: targetNode.id };
+            const resultJson = await fetchCinematicSpec(sceneText, briefs, settingPassport, scene.blocking, ctx);
+
+            if (!resultJson) {
+              // Respuesta inválida incluso tras el re-prompt de reparación: lo dejamos en la traza
+              updateNodeData(targetNode.id, {
+                sceneEnrichmentStatus: 'error',
+                inputHashes,
+                debugTrace: {
+                  status: 'error',
+                  timestamp: Date.now(),
+                  stepFailed: 'architect_json',
+                  inputs: { sceneText },
+                  response: ctx.report,
+                  rawError: ctx.report?.error || 'Failed to generate cinematic specification.',
+                }
+              });
+              return;
+            }
             
             updateNodeData(targetNode.id, {
               sceneEnrichmentStatus: 'success',
               enrichedSceneJson: resultJson,
+              inputHashes,
               mode: 'standard'
             });
 
           } catch (error) {
             console.error('Scene enrichment failed:', error);
-            updateNodeData(targetNode.id, { sceneEnrichmentStatus: 'error' });
+            // Sellamos también el fallo: solo se reintenta si cambian las entradas
+            updateNodeData(targetNode.id, {
+              sceneEnrichmentStatus: 'error',
+              inputHashes: {
+                ...imageData.inputHashes,
+                enrichedSceneJson: computeInputHash(targetNode, 'enrichedSceneJson', nodes, connections) ?? undefined,
+              },
+            });
           }
       }
 
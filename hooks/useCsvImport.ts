@@ -0,0 +1,60 @@
+import { useCallback } from 'react';
+import { Node, Connection, NodeType, ScriptData, ScriptScene, CharacterData, SettingData } from '../types/graph';
+import { SubgraphEdit } from './useGraphEditor';
+import { CsvSceneRow } from '../utils/scriptParser';
+import { matchShotSize } from '../utils/sceneBlocking';
+import { resolveScriptAssets } from '../utils/scriptAssets';
+
+export type CsvImportMode = 'replace' | 'append';
+
+const unique = (values: string[]) => values.filter((v, i) => v && values.indexOf(v) === i);
+
+export const useCsvImport = (
+  nodes: Node[],
+  connections: Connection[],
+  insertSubgraph: (label: string, edit: SubgraphEdit) => void
+) => {
+  /**
+   * Adds the mapped rows as scenes in one undo step. Setting and character columns are matched
+   * against existing nodes; the missing ones are created only when `createAssets` is set.
+   */
+  const importCsvScenes = useCallback((scriptNodeId: string, rows: CsvSceneRow[], mode: CsvImportMode, createAssets: boolean) => {
+    const script = nodes.find(n => n.id === scriptNodeId && n.type === NodeType.Script) as Node<ScriptData> | undefined;
+    if (!script || rows.length === 0) return;
+
+    const characters = resolveScriptAssets<CharacterData>(
+      NodeType.Character, unique(rows.flatMap(r => r.characters)), nodes, connections, script, 0, 1, createAssets
+    );
+    const settings = resolveScriptAssets<SettingData>(
+      NodeType.Setting, unique(rows.map(r => r.setting || '')), nodes, connections, script, 1, 2, createAssets
+    );
+
+    const imported: ScriptScene[] = rows.map(row => {
+      const castIds = row.characters.map(name => characters.ids[name]).filter(Boolean);
+      const shotSize = matchShotSize(row.shotType);
+      return {
+        id: `scene-${script.id}-${crypto.randomUUID()}`,
+        title: row.title,
+        description: row.description,
+        isExpanded: true,
+        selectedSettingId: row.setting ? settings.ids[row.setting] : undefined,
+        castIds: castIds.length > 0 ? castIds : undefined,
+        blocking: shotSize ? { shotSize } : undefined,
+        duration: row.duration,
+      };
+    });
+
+    const previousSceneIds = mode === 'replace' ? script.data.scenes.map(s => s.id) : [];
+    insertSubgraph(mode === 'replace' ? 'Import CSV' : 'Append CSV scenes', {
+      nodes: [...characters.nodes, ...settings.nodes],
+      connections: [...characters.connections, ...settings.connections],
+      nodeData: { [script.id]: { scenes: mode === 'replace' ? imported : [...script.data.scenes, ...imported] } },
+      removeConnectionIds: connections
+        .filter(c => c.fromNodeId === script.id && previousSceneIds.includes(String(c.fromOutput)))
+        .map(c => c.id),
+    });
+    console.log(`📄 CSV imported: ${imported.length} scenes (${mode})`);
+  }, [nodes, connections, insertSubgraph]);
+
+  return { importCsvScenes };
+};
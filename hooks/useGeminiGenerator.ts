@@ -1,80 +1,143 @@
 
-import { useState, useCallback } from 'react';
-import { Node, Connection, NodeType, ScriptData, CharacterData, SettingData, ImageData, TransformationData, VideoData, GenerationTrace } from '../types/graph';
-import { generateSceneImage, generateVeoPrompt, reverseEngineerImageSpec } from '../services/geminiService';
-import { enrichSceneDescription, fetchCharacterPassport, fetchCinematicSpec } from '../services/promptArchitect';
+import { useCallback, useRef, useState } from 'react';
+import { Node, Connection, NodeType, ScriptData, CharacterData, SettingData, ImageData, TransformationData, VideoData, GenerationTrace, InputHashes, GeneratedArtifact } from '../types/graph';
+import { CinematicJSON } from '../types/cinematicSchema';
+import { generateSceneImage, generateVeoPrompt, reverseEngineerImageSpec, analyzeCharacterImage, analyzeSettingImage } from '../services/geminiService';
+import { fetchCharacterPassport, fetchCinematicSpec, transformCinematicSpec, resolveCastBriefs, buildCastIdentityNote, CastReferenceSlot } from '../services/promptArchitect';
+import { storeImage, resolveImage, resolveImages } from '../services/persistence/imageStore';
+import { AICallContext } from '../services/aiResponse';
+import { invalidateNodeResponses } from '../services/responseCache';
+import { Job, JobContext, JobKind } from '../services/jobQueue';
+import { useJobQueue } from './useJobQueue';
+import { topologicalSort, getUpstreamIds } from '../utils/graphTopology';
+import { getScriptCharacters, resolveSceneCast } from '../utils/sceneCast';
+import { NODE_CONFIG } from '../components/nodes/nodeConfig';
+import { computeInputHash, getStaleArtifacts } from '../services/inputHashes';
+import { getActiveProvider, getModelFor } from '../services/providers';
+import { createTake, addTake, updateSelectedTake, getSelectedTake } from '../utils/imageTakes';
+
+// Resultado de cada paso de "Run All": 'ran' = produjo una salida nueva (los nodos de abajo quedan desactualizados)
+type StepOutcome = 'ran' | 'skipped' | 'failed' | 'blocked';
+
+// Etiqueta legible para el panel de la cola
+const describeNode = (node: Node, nodes: Node[], connections: Connection[]): string => {
+  if (node.type === NodeType.Character) return `Character: ${(node.data as CharacterData).prompt?.slice(0, 30) || 'reference'}`;
+  if (node.type === NodeType.Setting) return `Setting: ${(node.data as SettingData).prompt?.slice(0, 30) || 'reference'}`;
+  if (node.type === NodeType.Video) return 'Video spec';
+  if (node.type === NodeType.Transformation) {
+    const prompt = (node.data as TransformationData).modificationPrompt || '';
+    return `Transform: ${prompt.slice(0, 30)}${prompt.length > 30 ? '…' : ''}`;
+  }
+  const scriptConn = connections.find(c => c.toNodeId === node.id && c.toInputIndex === 1);
+  const script = nodes.find(n => n.id === scriptConn?.fromNodeId);
+  if (script?.type === NodeType.Script) {
+    const scene = (script.data as ScriptData).scenes.find(s => s.id === scriptConn!.fromOutput);
+    if (scene) return `Image: ${scene.title}`;
+  }
+  return 'Image';
+};
 
 export const useGeminiGenerator = (
   nodes: Node[], 
   connections: Connection[], 
   updateNodeData: (id: string, data: any) => void
 ) => {
-  const [isGeneratingAll, setIsGeneratingAll] = useState(false);
-
-  // Ahora aceptamos cualquier tipo de nodo compatible
-  const generateImage = useCallback(async (targetNode: Node<any>) => {
-      
-      // --- RAMA DE VIDEO (VEO DIRECTOR) ---
-      if (targetNode.type === NodeType.Video) {
-          const videoNode = targetNode as Node<VideoData>;
-          updateNodeData(videoNode.id, { isLoading: true, error: undefined });
-
-          try {
-              // 1. Rastrear Inputs (Imágenes de Inicio y Fin)
-              const startConn = connections.find(c => c.toNodeId === videoNode.id && c.toInputIndex === 0);
-              const endConn = connections.find(c => c.toNodeId === videoNode.id && c.toInputIndex === 1);
-
-              let startImage: string | undefined;
-              let endImage: string | undefined;
-
-              if (startConn) {
-                  const source = nodes.find(n => n.id === startConn.fromNodeId);
-                  if (source && (source.data as ImageData).image) {
-                      startImage = (source.data as ImageData).image;
-                  }
-              }
-              if (endConn) {
-                  const source = nodes.find(n => n.id === endConn.fromNodeId);
-                  if (source && (source.data as ImageData).image) {
-                      endImage = (source.data as ImageData).image;
-                  }
-              }
-
-              // 2. Obtener Datos de Línea de Tiempo (NUEVO)
-              // Si no existen segmentos, usamos un fallback genérico.
-              const duration = videoNode.data.duration || 4;
-              const segments = videoNode.data.segments && videoNode.data.segments.length > 0 
-                  ? videoNode.data.segments 
-                  : ["Cinematic shot"];
-
-              // 3. Llamar al Cerebro VEO (Firma Actualizada: 4 argumentos)
-              const promptSchema = await generateVeoPrompt(
-                  startImage, 
-                  endImage, 
-                  duration, 
-                  segments
-              );
-
-              if (!promptSchema) throw new Error("Failed to generate VEO prompt.");
-
-              // 4. Guardar Resultado
-              updateNodeData(videoNode.id, {
-                  isLoading: false,
-                  promptSchema: promptSchema,
-                  // startImage/endImage ya no se guardan aquí redundante si no se quiere, 
-                  // pero está bien dejarlos para referencia visual si la UI lo usa.
-              });
+  const { enqueue, whenSettled, isBusy } = useJobQueue();
+  const [isRunningAll, setIsRunningAll] = useState(false);
+  const isGeneratingAll = isBusy || isRunningAll;
+
+  // Los trabajos pueden empezar mucho después de encolarse: siempre leen el grafo más reciente.
+  const nodesRef = useRef(nodes);
+  nodesRef.current = nodes;
+  const connectionsRef = useRef(connections);
+  connectionsRef.current = connections;
+
+  // Durante "Run All" cada paso necesita lo que escribió el anterior aunque React aún no lo haya renderizado:
+  // guardamos esas escrituras aquí y las superponemos al leer.
+  const pendingDataRef = useRef<Map<string, Record<string, any>> | null>(null);
+
+  const readNodes = useCallback((): Node[] => {
+      const pending = pendingDataRef.current;
+      if (!pending || pending.size === 0) return nodesRef.current;
+      return nodesRef.current.map(n => pending.has(n.id) ? { ...n, data: { ...n.data, ...pending.get(n.id) } } : n);
+  }, []);
+
+  const writeNodeData = useCallback((id: string, data: Record<string, any>) => {
+      const pending = pendingDataRef.current;
+      if (pending) pending.set(id, { ...(pending.get(id) || {}), ...data });
+      updateNodeData(id, data);
+  }, [updateNodeData]);
 
-          } catch (err) {
-              console.error(err);
-              const msg = err instanceof Error ? err.message : "Video generation failed";
-              updateNodeData(videoNode.id, { isLoading: false, error: msg });
+  // Sella los artefactos recién escritos con el hash de las entradas que los produjeron
+  const withHashes = useCallback((id: string, hashes: InputHashes) => {
+      const current = readNodes().find(n => n.id === id)?.data as { inputHashes?: InputHashes } | undefined;
+      return { ...(current?.inputHashes || {}), ...hashes };
+  }, [readNodes]);
+
+  // --- RAMA DE VIDEO (VEO DIRECTOR) ---
+  const runVideoJob = useCallback(async (nodeId: string, { signal }: JobContext) => {
+      const nodes = readNodes();
+      const connections = connectionsRef.current;
+      const videoNode = nodes.find(n => n.id === nodeId) as Node<VideoData> | undefined;
+      if (!videoNode) return;
+      writeNodeData(videoNode.id, { isLoading: true, error: undefined });
+      const inputHash = computeInputHash(videoNode, 'promptSchema', nodes, connections) ?? undefined;
+
+      // 1. Rastrear Inputs (Imágenes de Inicio y Fin)
+      const startConn = connections.find(c => c.toNodeId === videoNode.id && c.toInputIndex === 0);
+      const endConn = connections.find(c => c.toNodeId === videoNode.id && c.toInputIndex === 1);
+
+      let startImage: string | undefined;
+      let endImage: string | undefined;
+
+      if (startConn) {
+          const source = nodes.find(n => n.id === startConn.fromNodeId);
+          if (source && (source.data as ImageData).image) {
+              startImage = (source.data as ImageData).image;
+          }
+      }
+      if (endConn) {
+          const source = nodes.find(n => n.id === endConn.fromNodeId);
+          if (source && (source.data as ImageData).image) {
+              endImage = (source.data as ImageData).image;
           }
-          return; // Terminamos aquí para Video
       }
 
-      // --- RAMA DE IMAGEN (STANDARD / TRANSFORMATION) ---
-      const imageNode = targetNode as Node<ImageData>;
+      // 2. Obtener Datos de Línea de Tiempo (NUEVO)
+      // Si no existen segmentos, usamos un fallback genérico.
+      const duration = videoNode.data.duration || 4;
+      const segments = videoNode.data.segments && videoNode.data.segments.length > 0 
+          ? videoNode.data.segments 
+          : ["Cinematic shot"];
+
+      // 3. Llamar al Cerebro VEO (Firma Actualizada: 4 argumentos)
+      const promptSchema = await generateVeoPrompt(
+          await resolveImage(startImage), 
+          await resolveImage(endImage), 
+          duration, 
+          segments,
+          { nodeId: videoNode.id, signal }
+      );
+
+      if (!promptSchema) throw new Error("Failed to generate VEO prompt.");
+      if (signal.aborted) return;
+
+      // 4. Guardar Resultado
+      writeNodeData(videoNode.id, {
+          isLoading: false,
+          promptSchema: promptSchema,
+          inputHashes: withHashes(videoNode.id, { promptSchema: inputHash }),
+          // startImage/endImage ya no se guardan aquí redundante si no se quiere, 
+          // pero está bien dejarlos para referencia visual si la UI lo usa.
+      });
+  }, [readNodes, writeNodeData, withHashes]);
+
+  // --- RAMA DE IMAGEN (STANDARD / TRANSFORMATION) ---
+  const runImageJob = useCallback(async (nodeId: string, { signal }: JobContext) => {
+      let nodes = readNodes();
+      const connections = connectionsRef.current;
+      const imageNode = nodes.find(n => n.id === nodeId) as Node<ImageData> | undefined;
+      if (!imageNode) return;
       
       // Initialize Trace Object
       const currentTrace: GenerationTrace = {
@@ -84,7 +147,7 @@ export const useGeminiGenerator = (
           inputs: { sceneText: '' }
       };
 
-      updateNodeData(imageNode.id, { isLoading: true, error: undefined, debugTrace: undefined });
+      writeNodeData(imageNode.id, { isLoading: true, error: undefined, debugTrace: undefined });
       
       try {
           // Step A: Traversal & Input Resolution
@@ -93,6 +156,7 @@ export const useGeminiGenerator = (
           let promptString = "";
           let referenceImages: string[] = [];
           let cinematicSpec: any = null;
+          let identityNote = '';
 
           // 1. Identificar Conexiones por Puerto
           // Input 1 = Script / Prompt (Texto) or Transformation
@@ -130,9 +194,8 @@ export const useGeminiGenerator = (
                   
                   currentTrace.inputs!.sceneText = scene.description;
 
-                  // Contexto Personaje (Conectado al Script)
-                  const charConnection = connections.find(c => c.toNodeId === scriptNode.id && c.toInputIndex === 0);
-                  const characterNode = nodes.find(n => n.id === charConnection?.fromNodeId) as Node<CharacterData> | undefined;
+                  // Reparto de la escena (todos los personajes conectados al Script, o los elegidos en la escena)
+                  const cast = resolveSceneCast(scene, getScriptCharacters(nodes, connections, scriptNode.id));
                   
                   // Contexto Escenario (Conectado al Script)
                   const settingConnections = connections.filter(c => c.toNodeId === scriptNode.id && c.toInputIndex === 1);
@@ -149,24 +212,33 @@ export const useGeminiGenerator = (
                   }
 
                   // Pasaportes
-                  let passport = characterNode?.data.characterPassport;
-                  if (characterNode && characterNode.data.prompt && !passport) {
-                       passport = await fetchCharacterPassport(characterNode.data.prompt);
-                       if (passport) updateNodeData(characterNode.id, { characterPassport: passport });
-                  }
+                  const briefs = await resolveCastBriefs(cast, scene.blocking, (characterId, passport) => {
+                       writeNodeData(characterId, { characterPassport: passport });
+                       // El hash debe reflejar el pasaporte que realmente se usó
+                       nodes = nodes.map(n => n.id === characterId ? { ...n, data: { ...n.data, characterPassport: passport } } : n);
+                  }, signal);
                   let settingPassport = targetSettingNode?.data.settingPassport || null;
 
                   // Generación JSON
                   currentTrace.stepFailed = 'architect_json';
-                  cinematicSpec = await fetchCinematicSpec(scene.description, passport || null, settingPassport);
+                  const architectCtx: AICallContext = { nodeId: imageNode.id, signal };
+                  cinematicSpec = await fetchCinematicSpec(scene.description, briefs, settingPassport, scene.blocking, architectCtx);
+                  currentTrace.response = architectCtx.report;
                   
-                  if (!cinematicSpec) throw new Error("Failed to generate cinematic specification.");
+                  if (!cinematicSpec) throw new Error(architectCtx.report?.error || "Failed to generate cinematic specification.");
                   
                   currentTrace.architectOutput = cinematicSpec;
                   promptString = JSON.stringify(cinematicSpec, null, 2);
                   
-                  // Inyectar imágenes de contexto del script (Legacy/Implicit Refs)
-                  if (characterNode?.data.image) referenceImages.push(characterNode.data.image);
+                  // Inyectar imágenes de contexto del script: cara y vestuario de cada miembro del reparto, luego el escenario
+                  const slots: CastReferenceSlot[] = cast.map(member => {
+                      const slot: CastReferenceSlot = { description: member.data.characterPassport?.description || member.data.prompt || 'Character' };
+                      if (member.data.image) slot.face = referenceImages.push(member.data.image);
+                      // Un vestuario forzado en la escena sustituye a la referencia de ropa
+                      if (member.data.clothingImage && !scene.blocking?.cast?.[member.id]?.wardrobe) slot.outfit = referenceImages.push(member.data.clothingImage);
+                      return slot;
+                  });
+                  identityNote = buildCastIdentityNote(slots);
                   if (targetSettingNode?.data.image) referenceImages.push(targetSettingNode.data.image);
           } 
           // PRIORITY 3: Fallback (Manual Prompt)
@@ -194,20 +266,38 @@ export const useGeminiGenerator = (
                }
           }
           
+          // Hashes de las entradas, calculados antes de la llamada (lo que se edite mientras tanto dejará el resultado obsoleto)
+          const hashes: InputHashes = { image: computeInputHash(imageNode, 'image', nodes, connections) ?? undefined };
+          if (cinematicSpec && imageNode.data.mode !== 'transformation') {
+              hashes.enrichedSceneJson = computeInputHash(imageNode, 'enrichedSceneJson', nodes, connections) ?? undefined;
+          }
+
           // Step E: Generate Image
           currentTrace.stepFailed = 'image_api';
           const imageData = await generateSceneImage({
-              prompt: promptString, 
-              images: referenceImages
-          });
+              prompt: identityNote + promptString, 
+              images: await resolveImages(referenceImages)
+          }, signal);
+          const imageRef = await storeImage(imageData);
+          if (signal.aborted) return; // Cancelado mientras se generaba: no pisamos el nodo
 
           delete currentTrace.stepFailed;
-          updateNodeData(imageNode.id, { 
-              image: imageData, 
-              isLoading: false, 
-              prompt: promptString, 
+          // Cada generación es una toma nueva; las anteriores quedan en el historial del nodo
+          const provider = getActiveProvider();
+          const take = createTake(imageRef, {
+              source: 'generated',
+              prompt: promptString,
               enrichedSceneJson: cinematicSpec,
-              debugTrace: currentTrace
+              debugTrace: currentTrace,
+              inputHashes: hashes,
+              provider: provider.id,
+              model: getModelFor(referenceImages.length > 0 ? 'imageEdit' : 'image', provider),
+          });
+          const latest = (readNodes().find(n => n.id === imageNode.id) || imageNode).data as ImageData;
+          writeNodeData(imageNode.id, {
+              ...addTake(latest, take),
+              isLoading: false,
+              inputHashes: withHashes(imageNode.id, hashes)
           });
 
       } catch (err) {
@@ -215,44 +305,321 @@ export const useGeminiGenerator = (
           const errorMessage = err instanceof Error ? err.message : "Error";
           currentTrace.status = 'error';
           currentTrace.rawError = errorMessage;
-          updateNodeData(imageNode.id, { isLoading: false, error: errorMessage, debugTrace: currentTrace });
+          // El estado final (isLoading/error) lo escribe onSettled: la cola puede reintentar
+          writeNodeData(imageNode.id, { debugTrace: currentTrace });
+          throw err;
+      }
+  }, [readNodes, writeNodeData, withHashes]);
+
+  // --- TRANSFORMATION NODE (Original JSON + cambios pedidos) ---
+  const runTransformationJob = useCallback(async (nodeId: string, { signal }: JobContext) => {
+      const node = readNodes().find(n => n.id === nodeId) as Node<TransformationData> | undefined;
+      if (!node) return;
+      const inputHash = computeInputHash(node, 'transformationJson', readNodes(), connectionsRef.current) ?? undefined;
+      const ctx: AICallContext = { nodeId, signal };
+      const trace: GenerationTrace = {
+          status: 'error',
+          timestamp: Date.now(),
+          stepFailed: 'architect_json',
+          inputs: { sceneText: node.data.modificationPrompt },
+      };
+
+      // Usamos la nueva lógica que mezcla Original + Cambios
+      let resultJson: CinematicJSON | null;
+      try {
+          resultJson = await transformCinematicSpec(
+              node.data.sourceJson as CinematicJSON,
+              node.data.modificationPrompt,
+              ctx
+          );
+      } catch (err) {
+          if (signal.aborted) throw err;
+          writeNodeData(node.id, { debugTrace: { ...trace, response: ctx.report, rawError: err instanceof Error ? err.message : String(err) } });
+          throw err; // La cola decide si reintenta (429)
+      }
+      if (signal.aborted) return;
+
+      if (!resultJson) {
+          // Se conserva el JSON anterior; el trabajo queda como fallido
+          const message = ctx.report?.error || "The model did not return a valid CinematicJSON.";
+          writeNodeData(node.id, { debugTrace: { ...trace, response: ctx.report, rawError: message } });
+          throw new Error(message);
+      }
+      writeNodeData(node.id, {
+          isProcessing: false,
+          transformationJson: resultJson,
+          inputHashes: withHashes(node.id, { transformationJson: inputHash }),
+          debugTrace: { ...trace, status: 'success', stepFailed: undefined, architectOutput: resultJson, response: ctx.report },
+      });
+  }, [readNodes, writeNodeData, withHashes]);
+
+  // --- CHARACTER / SETTING (pasaportes de referencia) ---
+  const runAnalysisJob = useCallback(async (nodeId: string, { signal }: JobContext) => {
+      const node = readNodes().find(n => n.id === nodeId);
+      if (!node) return;
+
+      const ctx: AICallContext = { nodeId, signal };
+
+      if (node.type === NodeType.Character) {
+          const data = node.data as CharacterData;
+          const image = await resolveImage(data.image);
+          const passport = image
+              ? await analyzeCharacterImage(image, await resolveImage(data.clothingImage), ctx)
+              : await fetchCharacterPassport(data.prompt, ctx);
+          if (!passport) throw new Error("Could not build the character passport.");
+          if (signal.aborted) return;
+          writeNodeData(nodeId, { characterPassport: passport, ...(image ? { prompt: passport.description } : {}) });
+      }
+
+      if (node.type === NodeType.Setting) {
+          const image = await resolveImage((node.data as SettingData).image);
+          if (!image) return;
+          const settingJSON = await analyzeSettingImage(image, ctx);
+          if (!settingJSON) throw new Error("Could not analyze the setting image.");
+          if (signal.aborted) return;
+          writeNodeData(nodeId, { prompt: settingJSON.scene_description, settingPassport: settingJSON });
+      }
+  }, [readNodes, writeNodeData]);
+
+  // Encola el trabajo de un nodo; el flag de carga se limpia cuando la cola lo da por terminado
+  const enqueueNodeJob = useCallback((node: Node, kind: JobKind, run: (ctx: JobContext) => Promise<void>): string => {
+      const flag = kind === 'transformation' ? 'isProcessing' : 'isLoading';
+      if (kind !== 'analysis') writeNodeData(node.id, { [flag]: true, ...(kind === 'transformation' ? {} : { error: undefined }) });
+
+      return enqueue({
+          kind,
+          nodeId: node.id,
+          label: describeNode(node, readNodes(), connectionsRef.current),
+          run,
+          onSettled: (job: Job) => {
+              if (job.status === 'failed') console.error(`❌ ${job.label} failed:`, job.error);
+              if (kind === 'analysis') return;
+              writeNodeData(node.id, {
+                  [flag]: false,
+                  ...(job.status === 'failed' && kind !== 'transformation' ? { error: job.error } : {}),
+              });
+          },
+      });
+  }, [enqueue, readNodes, writeNodeData]);
+
+  // Ahora aceptamos cualquier tipo de nodo compatible: el trabajo se encola y se ejecuta según la concurrencia
+  const generateImage = useCallback((targetNode: Node<any>) => {
+      const isVideo = targetNode.type === NodeType.Video;
+      // Regenerar una imagen existente (Re-Roll) debe pedir respuestas nuevas, no las de la caché
+      const isReroll = !isVideo && !!targetNode.data.image;
+      return enqueueNodeJob(targetNode, isVideo ? 'video' : 'image', async (ctx) => {
+          if (isVideo) return runVideoJob(targetNode.id, ctx);
+          if (isReroll && ctx.attempt === 1) await invalidateNodeResponses(targetNode.id);
+          return runImageJob(targetNode.id, ctx);
+      });
+  }, [enqueueNodeJob, runVideoJob, runImageJob]);
+
+  const processTransformation = useCallback((nodeId: string) => {
+      const node = readNodes().find(n => n.id === nodeId) as Node<TransformationData> | undefined;
+      if (!node || !node.data.modificationPrompt?.trim()) return;
+
+      // Validación: Necesitamos una fuente para transformar
+      if (!node.data.sourceJson) {
+          console.warn("Transformation Node: No source JSON to transform. Connect an Image Node first.");
+          return;
+      }
+
+      return enqueueNodeJob(node, 'transformation', (ctx) => runTransformationJob(nodeId, ctx));
+  }, [readNodes, enqueueNodeJob, runTransformationJob]);
+
+  // Ejecuta un trabajo encolado y espera a que termine; cualquier final distinto de éxito corta la rama
+  const runQueued = useCallback(async (jobId: string | undefined) => {
+      if (!jobId) return;
+      const job = await whenSettled(jobId);
+      if (job?.status !== 'succeeded') throw new Error(job?.error || `Job ${job?.status ?? 'lost'}`);
+  }, [whenSettled]);
+
+  /**
+   * Un paso de "Run All". Resuelve las entradas directamente desde el nodo de arriba (sin esperar
+   * a los efectos de useConnectionEnricher) y solo ejecuta lo que falta o quedó desactualizado.
+   * Con `staleOnly` no se generan artefactos que faltan: solo se rehacen los obsoletos.
+   */
+  const runNodeStep = useCallback(async (nodeId: string, upstreamChanged: boolean, staleOnly: boolean): Promise<StepOutcome> => {
+      const nodes = readNodes();
+      const connections = connectionsRef.current;
+      const node = nodes.find(n => n.id === nodeId);
+      if (!node) return 'skipped';
+
+      // Se evalúa tras resolver las entradas, sobre el estado más reciente
+      const isStale = (artifact: GeneratedArtifact) => {
+          const latest = readNodes();
+          const current = latest.find(n => n.id === nodeId);
+          return !!current && getStaleArtifacts(current, latest, connections).includes(artifact);
+      };
+
+      if (staleOnly && (node.type === NodeType.Character || node.type === NodeType.Setting)) return 'skipped';
+
+      switch (node.type) {
+          case NodeType.Character: {
+              const data = node.data as CharacterData;
+              if (data.characterPassport || (!data.image && !data.prompt?.trim())) return 'skipped';
+              await runQueued(enqueueNodeJob(node, 'analysis', (ctx) => runAnalysisJob(nodeId, ctx)));
+              // El pasaporte nuevo no invalida las imágenes ya generadas
+              return 'skipped';
+          }
+
+          case NodeType.Setting: {
+              const data = node.data as SettingData;
+              if (data.settingPassport || !data.image) return 'skipped';
+              await runQueued(enqueueNodeJob(node, 'analysis', (ctx) => runAnalysisJob(nodeId, ctx)));
+              return 'skipped';
+          }
+
+          case NodeType.Transformation: {
+              const data = node.data as TransformationData;
+              let inputChanged = false;
+
+              // Entrada: el JSON activo de la imagen de la que parte (estándar o encadenada)
+              const sourceConn = connections.find(c => c.toNodeId === nodeId);
+              const source = nodes.find(n => n.id === sourceConn?.fromNodeId);
+              if (source?.type === NodeType.Image) {
+                  const sourceData = source.data as ImageData;
+                  const activeJson = sourceData.mode === 'transformation'
+                      ? sourceData.incomingTransformationData?.json
+                      : sourceData.enrichedSceneJson;
+                  if (sourceData.image && activeJson && (
+                      data.referenceImage !== sourceData.image ||
+                      JSON.stringify(activeJson) !== JSON.stringify(data.sourceJson)
+                  )) {
+                      writeNodeData(nodeId, { referenceImage: sourceData.image, sourceJson: activeJson });
+                      inputChanged = true;
+                  }
+              }
+
+              const outdated = inputChanged || upstreamChanged || isStale('transformationJson');
+              if (data.transformationJson ? !outdated : staleOnly) return 'skipped';
+              const jobId = processTransformation(nodeId);
+              if (!jobId) return 'skipped';
+              await runQueued(jobId);
+              // Sin JSON de salida la imagen de abajo no tiene de qué partir: cuenta como fallo
+              const produced = (readNodes().find(n => n.id === nodeId)?.data as TransformationData | undefined)?.transformationJson;
+              return produced ? 'ran' : 'failed';
+          }
+
+          case NodeType.Image: {
+              const data = node.data as ImageData;
+              let inputChanged = false;
+
+              // Entrada encadenada: Transformation -> Image
+              const scriptConn = connections.find(c => c.toNodeId === nodeId && c.toInputIndex === 1);
+              const input = nodes.find(n => n.id === scriptConn?.fromNodeId);
+              if (input?.type === NodeType.Transformation) {
+                  const transformData = input.data as TransformationData;
+                  if (!transformData.transformationJson || !transformData.referenceImage) return 'skipped';
+                  if (data.mode !== 'transformation' ||
+                      JSON.stringify(transformData.transformationJson) !== JSON.stringify(data.incomingTransformationData?.json)) {
+                      writeNodeData(nodeId, {
+                          mode: 'transformation',
+                          incomingTransformationData: { json: transformData.transformationJson, referenceImage: transformData.referenceImage },
+                          enrichedSceneJson: null,
+                          sceneEnrichmentStatus: 'success',
+                      });
+                      inputChanged = true;
+                  }
+              } else if (!input && !data.prompt && !(data.mode === 'transformation' && data.incomingTransformationData?.json)) {
+                  return 'skipped'; // Nada de lo que generar
+              }
+
+              const outdated = inputChanged || upstreamChanged || isStale('image');
+              if (data.image ? !outdated : staleOnly) return 'skipped';
+              await runQueued(generateImage(node));
+              return 'ran';
+          }
+
+          case NodeType.Video: {
+              const data = node.data as VideoData;
+              if (getUpstreamIds(connections, nodeId).length === 0) return 'skipped';
+              const outdated = upstreamChanged || isStale('promptSchema');
+              if (data.promptSchema ? !outdated : staleOnly) return 'skipped';
+              await runQueued(generateImage(node));
+              return 'ran';
+          }
+
+          default:
+              // Script: su análisis de personaje/escenario lo mantiene useSmartConnections
+              return 'skipped';
       }
-  }, [nodes, connections, updateNodeData]);
-
-  const generateAll = useCallback(async () => {
-    setIsGeneratingAll(true);
-    
-    // Explicitly check type and cast data to ImageData to satisfy TS check for isLoading
-    // MODIFICADO: Ahora filtramos también si YA tiene imagen para no gastar créditos.
-    const imageNodesToGenerate = nodes.filter((node): node is Node<ImageData> => {
-        return node.type === NodeType.Image && 
-               !(node.data as ImageData).isLoading &&
-               !(node.data as ImageData).image; // Skip si ya existe imagen
+  }, [readNodes, writeNodeData, runQueued, enqueueNodeJob, runAnalysisJob, processTransformation, generateImage]);
+
+  /**
+   * "Run All": recorre el grafo en orden topológico. Cada nodo espera solo a sus dependencias,
+   * así que ramas independientes avanzan en paralelo dentro del límite de la cola.
+   */
+  const runGraph = useCallback(async (staleOnly: boolean) => {
+    if (pendingDataRef.current) return; // Ya hay una ejecución en curso
+
+    const nodes = nodesRef.current;
+    const connections = connectionsRef.current;
+    const { order, cycle } = topologicalSort(nodes, connections);
+    if (cycle.length > 0) {
+        const names = cycle.map(id => NODE_CONFIG[nodes.find(n => n.id === id)!.type].title);
+        alert(`Cannot run the graph: it contains a cycle (${[...names, names[0]].join(' → ')}). Remove one of those connections and try again.`);
+        return;
+    }
+
+    pendingDataRef.current = new Map();
+    setIsRunningAll(true);
+    console.log(`▶️ ${staleOnly ? 'Regenerate stale' : 'Run All'}: ${order.length} nodes in dependency order`);
+
+    const outcomes = new Map<string, StepOutcome>();
+    const steps = new Map<string, Promise<void>>();
+    order.forEach(id => {
+        const upstream = getUpstreamIds(connections, id);
+        steps.set(id, Promise.all(upstream.map(u => steps.get(u))).then(async () => {
+            if (upstream.some(u => outcomes.get(u) === 'failed' || outcomes.get(u) === 'blocked')) {
+                outcomes.set(id, 'blocked');
+                return;
+            }
+            try {
+                outcomes.set(id, await runNodeStep(id, upstream.some(u => outcomes.get(u) === 'ran'), staleOnly));
+            } catch (err) {
+                console.error(`❌ Run All: node ${id} failed`, err);
+                outcomes.set(id, 'failed');
+            }
+        }));
     });
 
-    for (const node of imageNodesToGenerate) {
-        await generateImage(node);
+    try {
+        await Promise.all(steps.values());
+    } finally {
+        pendingDataRef.current = null;
+        setIsRunningAll(false);
     }
 
-    setIsGeneratingAll(false);
-  }, [nodes, connections, generateImage]);
+    const count = (outcome: StepOutcome) => Array.from(outcomes.values()).filter(o => o === outcome).length;
+    console.log(`✅ Run finished: ${count('ran')} ran, ${count('skipped')} up to date, ${count('failed')} failed, ${count('blocked')} blocked`);
+  }, [runNodeStep]);
+
+  const generateAll = useCallback(() => runGraph(false), [runGraph]);
+  const regenerateStale = useCallback(() => runGraph(true), [runGraph]);
 
-  const reverseEngineer = useCallback(async (nodeId: string, imageBase64: string) => {
+  const reverseEngineer = useCallback(async (nodeId: string, image: string) => {
       // 1. Activar estado de carga
       updateNodeData(nodeId, { isLoading: true, error: undefined });
 
       try {
-          // 2. Llamar al servicio de visión
+          // 2. Llamar al servicio de visión (la imagen puede ser una referencia del store)
+          const imageBase64 = await resolveImage(image);
+          if (!imageBase64) throw new Error("Image not found in local storage.");
           const spec = await reverseEngineerImageSpec(imageBase64);
 
           if (!spec) throw new Error("Could not reverse-engineer the image.");
 
-          // 3. Guardar el resultado (JSON) en el nodo
+          // 3. Guardar el resultado (JSON) en el nodo y en la toma seleccionada
+          const current = nodesRef.current.find(n => n.id === nodeId)?.data as ImageData | undefined;
           updateNodeData(nodeId, {
+              ...(current ? updateSelectedTake(current, { enrichedSceneJson: spec, inputHashes: { image: getSelectedTake(current)?.inputHashes?.image } }) : {}),
               isLoading: false,
               enrichedSceneJson: spec,
               sceneEnrichmentStatus: 'success',
-              prompt: JSON.stringify(spec, null, 2) // Para que sea visible/copiable
+              prompt: JSON.stringify(spec, null, 2), // Para que sea visible/copiable
+              // Viene de la imagen, no de la escena: sin sello para que el enricher no lo "actualice"
+              inputHashes: withHashes(nodeId, { enrichedSceneJson: undefined })
           });
 
       } catch (err) {
@@ -260,7 +627,7 @@ export const useGeminiGenerator = (
           const msg = err instanceof Error ? err.message : "Reverse engineering failed";
           updateNodeData(nodeId, { isLoading: false, error: msg });
       }
-  }, [updateNodeData]);
+  }, [updateNodeData, withHashes]);
 
-  return { generateImage, generateAll, isGeneratingAll, reverseEngineer };
+  return { generateImage, generateAll, regenerateStale, isGeneratingAll, reverseEngineer, processTransformation };
 };
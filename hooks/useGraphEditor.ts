@@ -1,10 +1,95 @@
+import { useState, useCallback, useEffect, useMemo, useRef } from 'react';
+import { Node, Connection, NodeType, AnyNodeData, ScriptData, ScriptScene, ImageData, Graph } from '../types/graph';
+import { useHistory, GraphPatch } from './useHistory';
+import { CURRENT_SCHEMA_VERSION } from '../services/persistence/migrations';
+import { wouldCreateCycle } from '../utils/graphTopology';
+import { splitScene as splitSceneAt, mergeScenes } from '../utils/sceneEditing';
 
-import { useState, useCallback, useEffect, useMemo } from 'react';
-import { Node, Connection, NodeType, AnyNodeData, ScriptData, ImageData, Graph } from '../types/graph';
+// Campos de estado efímero: los escriben los callbacks asíncronos de IA o los efectos
+// de propagación entre nodos, y no deben aparecer como pasos de Undo/Redo
+// (deshacerlos solo haría que el efecto los volviera a escribir).
+const TRANSIENT_DATA_KEYS = new Set<string>([
+  'isLoading',
+  'isProcessing',
+  'sceneEnrichmentStatus',
+  'enrichedSceneJson',
+  'mode',
+  'incomingTransformationData',
+  'referenceImage',
+  'sourceJson',
+  'error',
+  'debugTrace',
+  'inputHashes',
+  'isCharacterLoading',
+  'isSettingLoading',
+  'cachedCharacterId',
+  'cachedCharacterJson',
+  'cachedSettingId',
+  'cachedSettingJson',
+]);
 
-export const useGraphEditor = () => {
+const insertAt = <T,>(list: T[], index: number, item: T): T[] => {
+  const next = [...list];
+  next.splice(Math.min(Math.max(index, 0), next.length), 0, item);
+  return next;
+};
+
+const patchNodeData = (nodeId: string, values: Record<string, any>) => (nodes: Node[]) =>
+  nodes.map(n => n.id === nodeId ? { ...n, data: { ...n.data, ...values } } : n);
+
+const setNodePosition = (nodeId: string, position: { x: number; y: number }) => (nodes: Node[]) =>
+  nodes.map(n => n.id === nodeId ? { ...n, position } : n);
+
+const addConnections = (added: Connection[]) => (connections: Connection[]) =>
+  [...connections, ...added.filter(a => !connections.some(c => c.id === a.id))];
+
+const removeConnections = (ids: string[]) => (connections: Connection[]) =>
+  connections.filter(c => !ids.includes(c.id));
+
+export interface SubgraphEdit {
+  nodes?: Node[];
+  connections?: Connection[];
+  nodeData?: Record<string, Record<string, any>>; // Data patches for existing nodes
+  removeConnectionIds?: string[];
+}
+
+const moveItem = <T extends { id: string },>(list: T[], id: string, toIndex: number): T[] => {
+  const from = list.findIndex(item => item.id === id);
+  if (from === -1) return list;
+  const next = [...list];
+  const [item] = next.splice(from, 1);
+  return insertAt(next, toIndex, item);
+};
+
+const updateScenes = (nodeId: string, fn: (scenes: ScriptScene[]) => ScriptScene[]) => (nodes: Node[]) =>
+  nodes.map(n => n.id === nodeId && n.type === NodeType.Script
+    ? { ...n, data: { ...(n.data as ScriptData), scenes: fn((n.data as ScriptData).scenes) } }
+    : n);
+
+export const useGraphEditor = (projectId: string = 'main-storyboard') => {
   const [nodes, setNodes] = useState<Node[]>([]);
   const [connections, setConnections] = useState<Connection[]>([]);
+  const [projectName, setProjectName] = useState('Untitled Storyboard');
+
+  // Latest committed graph, used to capture the "before" side of each history command.
+  const nodesRef = useRef(nodes);
+  const connectionsRef = useRef(connections);
+  nodesRef.current = nodes;
+  connectionsRef.current = connections;
+
+  const applyPatch = useCallback((patch: GraphPatch) => {
+    if (patch.nodes) setNodes(patch.nodes);
+    if (patch.connections) setConnections(patch.connections);
+  }, []);
+
+  const history = useHistory(applyPatch);
+  const { record } = history;
+
+  /** Records a command and applies its `redo` side immediately. */
+  const commit = useCallback((label: string, redo: GraphPatch, undo: GraphPatch, coalesceKey?: string) => {
+    record({ label, redo, undo, coalesceKey });
+    applyPatch(redo);
+  }, [record, applyPatch]);
 
   const addNode = useCallback((type: NodeType, position = { x: 100, y: 100 }) => {
     let initialData: AnyNodeData;
@@ -37,15 +122,63 @@ export const useGraphEditor = () => {
       position,
       data: initialData,
     };
-    setNodes(prev => [...prev, newNode]);
-  }, []);
+    commit(
+      `Add ${type.toLowerCase()} node`,
+      { nodes: prev => prev.some(n => n.id === newNode.id) ? prev : [...prev, newNode] },
+      {
+        nodes: prev => prev.filter(n => n.id !== newNode.id),
+        connections: prev => prev.filter(c => c.fromNodeId !== newNode.id && c.toNodeId !== newNode.id),
+      }
+    );
+  }, [commit]);
 
   const deleteNode = useCallback((nodeId: string) => {
-    setNodes(prev => prev.filter(n => n.id !== nodeId));
-    setConnections(prev => prev.filter(c => c.fromNodeId !== nodeId && c.toNodeId !== nodeId));
-  }, []);
+    const index = nodesRef.current.findIndex(n => n.id === nodeId);
+    if (index === -1) return;
+    const removedNode = nodesRef.current[index];
+    const removedConnections = connectionsRef.current.filter(c => c.fromNodeId === nodeId || c.toNodeId === nodeId);
+
+    commit(
+      `Delete ${removedNode.type.toLowerCase()} node`,
+      {
+        nodes: prev => prev.filter(n => n.id !== nodeId),
+        connections: prev => prev.filter(c => c.fromNodeId !== nodeId && c.toNodeId !== nodeId),
+      },
+      {
+        nodes: prev => prev.some(n => n.id === nodeId) ? prev : insertAt(prev, index, removedNode),
+        connections: addConnections(removedConnections),
+      }
+    );
+  }, [commit]);
+
+  const moveNode = useCallback((nodeId: string, position: { x: number; y: number }) => {
+    const node = nodesRef.current.find(n => n.id === nodeId);
+    if (!node) return;
+    // Todos los movimientos de un mismo arrastre se fusionan en un solo paso.
+    commit('Move node', { nodes: setNodePosition(nodeId, position) }, { nodes: setNodePosition(nodeId, node.position) }, `move:${nodeId}`);
+  }, [commit]);
 
   const updateNodeData = useCallback((nodeId: string, data: Partial<AnyNodeData>) => {
+    const current = nodesRef.current.find(n => n.id === nodeId);
+    const trackedKeys = Object.keys(data).filter(key => !TRANSIENT_DATA_KEYS.has(key)).sort();
+    if (current && trackedKeys.length > 0) {
+        const before: Record<string, any> = {};
+        const after: Record<string, any> = {};
+        trackedKeys.forEach(key => {
+            before[key] = (current.data as any)[key];
+            after[key] = (data as any)[key];
+        });
+        if (trackedKeys.some(key => before[key] !== after[key])) {
+            // Text edits on the same fields coalesce into a single step.
+            record({
+                label: 'Edit node',
+                redo: { nodes: patchNodeData(nodeId, after) },
+                undo: { nodes: patchNodeData(nodeId, before) },
+                coalesceKey: `data:${nodeId}:${trackedKeys.join(',')}`,
+            });
+        }
+    }
+
     setNodes(prev => prev.map(n => {
         if (n.id === nodeId) {
             // Debug/Guard: Check if image is being wiped
@@ -67,74 +200,233 @@ export const useGraphEditor = () => {
         }
         return n;
     }));
-  }, []);
+  }, [record]);
+
+  /**
+   * Applies a data patch as one undo step, transient keys included. For edits that swap a
+   * whole set of mirrored fields at once (e.g. pinning or deleting an image take, which also
+   * brings the take's spec, stamps and trace), so Undo restores all of them together.
+   */
+  const commitNodeData = useCallback((nodeId: string, data: Partial<AnyNodeData>, label: string) => {
+    const current = nodesRef.current.find(n => n.id === nodeId);
+    if (!current) return;
+    const before: Record<string, any> = {};
+    Object.keys(data).forEach(key => { before[key] = (current.data as any)[key]; });
+    commit(label, { nodes: patchNodeData(nodeId, data) }, { nodes: patchNodeData(nodeId, before) });
+  }, [commit]);
 
   const addConnection = useCallback((conn: Omit<Connection, 'id'>) => {
     if (conn.fromNodeId === conn.toNodeId) return;
-    setConnections(prev => {
-        // Eliminamos la restricción de unicidad por input.
-        // Ahora se permiten múltiples cables al mismo puerto (ideal para Settings).
-        
-        // Opcional: Evitar duplicados exactos (mismo origen -> mismo destino)
-        const exists = prev.some(c => 
-            c.fromNodeId === conn.fromNodeId && 
-            c.toNodeId === conn.toNodeId &&
-            c.toInputIndex === conn.toInputIndex &&
-            c.fromOutput === conn.fromOutput
-        );
-        if (exists) return prev;
-
-        return [...prev, { ...conn, id: crypto.randomUUID() }];
-    });
-  }, []);
+    // Eliminamos la restricción de unicidad por input.
+    // Ahora se permiten múltiples cables al mismo puerto (ideal para Settings).
+
+    // Opcional: Evitar duplicados exactos (mismo origen -> mismo destino)
+    const exists = connectionsRef.current.some(c => 
+        c.fromNodeId === conn.fromNodeId && 
+        c.toNodeId === conn.toNodeId &&
+        c.toInputIndex === conn.toInputIndex &&
+        c.fromOutput === conn.fromOutput
+    );
+    if (exists) return;
+
+    // El grafo se ejecuta en orden de dependencias: un ciclo no tendría un orden válido
+    if (wouldCreateCycle(connectionsRef.current, conn.fromNodeId, conn.toNodeId)) {
+        alert('This connection would create a cycle. Nodes cannot depend on their own output.');
+        return;
+    }
+
+    const newConnection: Connection = { ...conn, id: crypto.randomUUID() };
+    commit('Connect', { connections: addConnections([newConnection]) }, { connections: removeConnections([newConnection.id]) });
+  }, [commit]);
 
   const removeConnection = useCallback((connectionId: string) => {
-    setConnections(prev => prev.filter(c => c.id !== connectionId));
-  }, []);
+    const removed = connectionsRef.current.filter(c => c.id === connectionId);
+    if (removed.length === 0) return;
+    commit('Disconnect', { connections: removeConnections([connectionId]) }, { connections: addConnections(removed) });
+  }, [commit]);
 
   const disconnectInput = useCallback((nodeId: string, inputIndex?: number) => {
-    setConnections(prev => prev.filter(c => {
+    const removed = connectionsRef.current.filter(c => {
         // If inputIndex is provided, only disconnect that specific input
         if (inputIndex !== undefined) {
-            return !(c.toNodeId === nodeId && c.toInputIndex === inputIndex);
+            return c.toNodeId === nodeId && c.toInputIndex === inputIndex;
         }
         // Otherwise disconnect all inputs to this node
-        return c.toNodeId !== nodeId;
-    }));
+        return c.toNodeId === nodeId;
+    });
+    if (removed.length === 0) return;
+    const removedIds = removed.map(c => c.id);
+    commit('Disconnect', { connections: removeConnections(removedIds) }, { connections: addConnections(removed) });
     console.log(`✂️ Cable desconectado del nodo ${nodeId} ${inputIndex !== undefined ? `(Input ${inputIndex})` : ''}`);
-  }, []);
+  }, [commit]);
   
-  const addScene = useCallback((nodeId: string) => {
-    setNodes(prevNodes => prevNodes.map(n => n.id === nodeId && n.type === NodeType.Script ? {
-      ...n,
-      data: {
-        ...n.data as ScriptData,
-        scenes: [...(n.data as ScriptData).scenes, {
-          id: `scene-${nodeId}-${crypto.randomUUID()}`,
-          title: 'New Scene',
-          description: 'A new scene description.',
-          isExpanded: true,
-        }],
+  const getScenes = (nodeId: string): ScriptScene[] | undefined => {
+    const scriptNode = nodesRef.current.find(n => n.id === nodeId && n.type === NodeType.Script);
+    return scriptNode ? (scriptNode.data as ScriptData).scenes : undefined;
+  };
+
+  // Inserts a scene right after `afterId` (or at the end) as one history step
+  const insertSceneAfter = useCallback((nodeId: string, scene: ScriptScene, afterId: string | undefined, label: string) => {
+    const insert = (scenes: ScriptScene[]) => {
+      if (scenes.some(s => s.id === scene.id)) return scenes;
+      const anchor = afterId ? scenes.findIndex(s => s.id === afterId) : -1;
+      return anchor === -1 ? [...scenes, scene] : insertAt(scenes, anchor + 1, scene);
+    };
+    commit(
+      label,
+      { nodes: updateScenes(nodeId, insert) },
+      { nodes: updateScenes(nodeId, scenes => scenes.filter(s => s.id !== scene.id)) }
+    );
+  }, [commit]);
+
+  const addScene = useCallback((nodeId: string, afterSceneId?: string) => {
+    const newScene: ScriptScene = {
+      id: `scene-${nodeId}-${crypto.randomUUID()}`,
+      title: 'New Scene',
+      description: 'A new scene description.',
+      isExpanded: true,
+    };
+    insertSceneAfter(nodeId, newScene, afterSceneId, 'Add scene');
+  }, [insertSceneAfter]);
+
+  const duplicateScene = useCallback((nodeId: string, sceneId: string) => {
+    const scene = getScenes(nodeId)?.find(s => s.id === sceneId);
+    if (!scene) return;
+    // La copia empieza sin cables: los nodos de imagen siguen enlazados al original
+    const copy: ScriptScene = { ...scene, id: `scene-${nodeId}-${crypto.randomUUID()}`, title: `${scene.title} (copy)` };
+    insertSceneAfter(nodeId, copy, sceneId, 'Duplicate scene');
+  }, [insertSceneAfter]);
+
+  const moveScene = useCallback((nodeId: string, sceneId: string, toIndex: number) => {
+    const scenes = getScenes(nodeId);
+    const from = scenes?.findIndex(s => s.id === sceneId) ?? -1;
+    if (!scenes || from === -1) return;
+    const target = Math.min(Math.max(toIndex, 0), scenes.length - 1);
+    if (target === from) return;
+    commit(
+      'Reorder scene',
+      { nodes: updateScenes(nodeId, list => moveItem(list, sceneId, target)) },
+      { nodes: updateScenes(nodeId, list => moveItem(list, sceneId, from)) }
+    );
+  }, [commit]);
+
+  /**
+   * Splits a scene's description in two (at a caret position, or near the middle). The first
+   * half keeps the scene id and therefore its cables. Returns false when there is nothing to split.
+   */
+  const splitScene = useCallback((nodeId: string, sceneId: string, at?: number): boolean => {
+    const scene = getScenes(nodeId)?.find(s => s.id === sceneId);
+    const parts = scene && splitSceneAt(scene, `scene-${nodeId}-${crypto.randomUUID()}`, at);
+    if (!scene || !parts) return false;
+    const [first, second] = parts;
+    commit(
+      'Split scene',
+      { nodes: updateScenes(nodeId, list => list.some(s => s.id === second.id) ? list : list.flatMap(s => s.id === sceneId ? [first, second] : [s])) },
+      { nodes: updateScenes(nodeId, list => list.filter(s => s.id !== second.id).map(s => s.id === sceneId ? scene : s)) }
+    );
+    return true;
+  }, [commit]);
+
+  /**
+   * Merges a scene with the next one. Cables from the absorbed scene are re-pointed to the
+   * merged scene so downstream Image nodes keep their input.
+   */
+  const mergeSceneWithNext = useCallback((nodeId: string, sceneId: string) => {
+    const scenes = getScenes(nodeId);
+    const index = scenes?.findIndex(s => s.id === sceneId) ?? -1;
+    if (!scenes || index === -1 || index >= scenes.length - 1) return;
+    const first = scenes[index];
+    const second = scenes[index + 1];
+    const merged = mergeScenes(first, second);
+    const movedIds = connectionsRef.current.filter(c => c.fromNodeId === nodeId && c.fromOutput === second.id).map(c => c.id);
+    const pointTo = (output: string) => (connections: Connection[]) =>
+      connections.map(c => movedIds.includes(c.id) ? { ...c, fromOutput: output } : c);
+
+    commit(
+      'Merge scenes',
+      {
+        nodes: updateScenes(nodeId, list => list.filter(s => s.id !== second.id).map(s => s.id === first.id ? merged : s)),
+        connections: pointTo(first.id),
       },
-    } : n));
-  }, []);
+      {
+        nodes: updateScenes(nodeId, list => {
+          const restored = list.map(s => s.id === first.id ? first : s);
+          if (restored.some(s => s.id === second.id)) return restored;
+          const at = restored.findIndex(s => s.id === first.id);
+          return insertAt(restored, at + 1, second);
+        }),
+        connections: pointTo(second.id),
+      }
+    );
+  }, [commit]);
 
   const deleteScene = useCallback((nodeId: string, sceneId: string) => {
-    setNodes(prevNodes => prevNodes.map(n => {
-      if (n.id === nodeId && n.type === NodeType.Script) {
-        const scriptData = n.data as ScriptData;
-        const newScenes = scriptData.scenes.filter(scene => scene.id !== sceneId);
-        return { ...n, data: { ...scriptData, scenes: newScenes } };
+    const scriptNode = nodesRef.current.find(n => n.id === nodeId && n.type === NodeType.Script);
+    if (!scriptNode) return;
+    const scenes = (scriptNode.data as ScriptData).scenes;
+    const index = scenes.findIndex(scene => scene.id === sceneId);
+    if (index === -1) return;
+    const removedScene = scenes[index];
+    const removedConnections = connectionsRef.current.filter(c => c.fromNodeId === nodeId && c.fromOutput === sceneId);
+
+    commit(
+      'Delete scene',
+      {
+        nodes: updateScenes(nodeId, list => list.filter(scene => scene.id !== sceneId)),
+        connections: removeConnections(removedConnections.map(c => c.id)),
+      },
+      {
+        nodes: updateScenes(nodeId, list => list.some(s => s.id === sceneId) ? list : insertAt(list, index, removedScene)),
+        connections: addConnections(removedConnections),
       }
-      return n;
-    }));
-    setConnections(prev => prev.filter(c => !(c.fromNodeId === nodeId && c.fromOutput === sceneId)));
-  }, []);
+    );
+  }, [commit]);
+
+  /**
+   * Adds nodes and connections, patches data on existing nodes and drops connections, all as
+   * a single undo step (used by importers that build several nodes at once).
+   */
+  const insertSubgraph = useCallback((label: string, edit: SubgraphEdit) => {
+    const addedNodes = edit.nodes || [];
+    const addedConnections = edit.connections || [];
+    const removedConnections = connectionsRef.current.filter(c => edit.removeConnectionIds?.includes(c.id));
+    const patches = Object.entries(edit.nodeData || {});
+    const previousData = patches.map(([nodeId, values]) => {
+      const current = nodesRef.current.find(n => n.id === nodeId);
+      const before: Record<string, any> = {};
+      Object.keys(values).forEach(key => { before[key] = (current?.data as any)?.[key]; });
+      return [nodeId, before] as const;
+    });
+    const addedIds = new Set(addedNodes.map(n => n.id));
 
-  const setGraph = useCallback((data: { nodes: Node[], connections: Connection[] }) => {
+    commit(
+      label,
+      {
+        nodes: prev => patches.reduce(
+          (list, [nodeId, values]) => patchNodeData(nodeId, values)(list),
+          [...prev, ...addedNodes.filter(n => !prev.some(p => p.id === n.id))]
+        ),
+        connections: prev => addConnections(addedConnections)(removeConnections(removedConnections.map(c => c.id))(prev)),
+      },
+      {
+        nodes: prev => previousData.reduce(
+          (list, [nodeId, before]) => patchNodeData(nodeId, before)(list),
+          prev.filter(n => !addedIds.has(n.id))
+        ),
+        connections: prev => addConnections(removedConnections)(
+          prev.filter(c => !addedConnections.some(a => a.id === c.id) && !addedIds.has(c.fromNodeId) && !addedIds.has(c.toNodeId))
+        ),
+      }
+    );
+  }, [commit]);
+
+  // Replaces the whole canvas (load / reset). History from the previous graph no longer applies.
+  const setGraph = useCallback((data: { nodes: Node[], connections: Connection[], name?: string }) => {
       setNodes(data.nodes);
       setConnections(data.connections);
-  }, []);
+      if (data.name !== undefined) setProjectName(data.name);
+      history.clear();
+  }, [history.clear]);
 
   // Effect: Clean invalid connections when script scenes change
   useEffect(() => {
@@ -213,29 +505,47 @@ export const useGraphEditor = () => {
 
   // Construct the Graph object for persistence or export
   const graph = useMemo<Graph>(() => ({
-      id: 'main-storyboard', // Default ID, could be dynamic in future
-      name: 'Untitled Storyboard',
+      id: projectId,
+      name: projectName,
       nodes,
       connections,
-      lastModified: Date.now()
-  }), [nodes, connections]);
+      lastModified: Date.now(),
+      schemaVersion: CURRENT_SCHEMA_VERSION
+  }), [projectId, projectName, nodes, connections]);
 
   return {
     nodes,
     connections,
     graph,
+    history: {
+      undo: history.undo,
+      redo: history.redo,
+      checkpoint: history.checkpoint,
+      canUndo: history.canUndo,
+      canRedo: history.canRedo,
+      undoLabel: history.undoLabel,
+      redoLabel: history.redoLabel,
+    },
     actions: {
       addNode,
       deleteNode,
+      moveNode,
       updateNodeData,
+      commitNodeData,
       addConnection,
       removeConnection,
       disconnectInput,
       addScene,
       deleteScene,
+      duplicateScene,
+      moveScene,
+      splitScene,
+      mergeSceneWithNext,
+      insertSubgraph,
       setNodes,
       setConnections,
-      setGraph
+      setGraph,
+      setProjectName
     }
   };
 };
\ No newline at end of file
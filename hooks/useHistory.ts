@@ -0,0 +1,104 @@
+import { useState, useCallback, useRef } from 'react';
+import { Node, Connection } from '../types/graph';
+
+/**
+ * One side of a reversible graph change, expressed as pure updaters so it can be
+ * replayed with functional setState on top of whatever the latest graph is.
+ */
+export interface GraphPatch {
+  nodes?: (nodes: Node[]) => Node[];
+  connections?: (connections: Connection[]) => Connection[];
+}
+
+/**
+ * A recorded mutation. Commands that share a `coalesceKey` must be "absolute"
+ * (set the same fields to a value) so that merging can keep the oldest `undo`
+ * and the newest `redo`.
+ */
+export interface HistoryCommand {
+  label: string;
+  redo: GraphPatch;
+  undo: GraphPatch;
+  coalesceKey?: string;
+  timestamp: number;
+}
+
+const MAX_HISTORY = 100;
+const COALESCE_WINDOW_MS = 1000;
+
+export const useHistory = (applyPatch: (patch: GraphPatch) => void) => {
+  const undoStack = useRef<HistoryCommand[]>([]);
+  const redoStack = useRef<HistoryCommand[]>([]);
+  // Cuando es true, el siguiente comando no se fusiona con el anterior (fin de un gesto).
+  const sealed = useRef(false);
+  // Solo sirve para re-renderizar cuando cambian las pilas (canUndo / canRedo).
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion(v => v + 1);
+
+  const record = useCallback((command: Omit<HistoryCommand, 'timestamp'>) => {
+    const now = Date.now();
+    const last = undoStack.current[undoStack.current.length - 1];
+
+    if (
+      !sealed.current &&
+      last &&
+      command.coalesceKey &&
+      last.coalesceKey === command.coalesceKey &&
+      now - last.timestamp < COALESCE_WINDOW_MS
+    ) {
+      undoStack.current[undoStack.current.length - 1] = { ...command, undo: last.undo, timestamp: now };
+    } else {
+      undoStack.current.push({ ...command, timestamp: now });
+      if (undoStack.current.length > MAX_HISTORY) undoStack.current.shift();
+    }
+
+    sealed.current = false;
+    redoStack.current = [];
+    bump();
+  }, []);
+
+  const undo = useCallback(() => {
+    const command = undoStack.current.pop();
+    if (!command) return;
+    applyPatch(command.undo);
+    redoStack.current.push(command);
+    sealed.current = true;
+    bump();
+  }, [applyPatch]);
+
+  const redo = useCallback(() => {
+    const command = redoStack.current.pop();
+    if (!command) return;
+    applyPatch(command.redo);
+    undoStack.current.push(command);
+    sealed.current = true;
+    bump();
+  }, [applyPatch]);
+
+  // Marks the end of a gesture (e.g. mouse up after a drag) so the next edit starts a new step.
+  const checkpoint = useCallback(() => {
+    sealed.current = true;
+  }, []);
+
+  const clear = useCallback(() => {
+    undoStack.current = [];
+    redoStack.current = [];
+    sealed.current = false;
+    bump();
+  }, []);
+
+  const lastUndo = undoStack.current[undoStack.current.length - 1];
+  const lastRedo = redoStack.current[redoStack.current.length - 1];
+
+  return {
+    record,
+    undo,
+    redo,
+    checkpoint,
+    clear,
+    canUndo: !!lastUndo,
+    canRedo: !!lastRedo,
+    undoLabel: lastUndo?.label,
+    redoLabel: lastRedo?.label,
+  };
+};
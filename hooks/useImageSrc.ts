@@ -0,0 +1,24 @@
+import { useEffect, useState } from 'react';
+import { getImageSrcSync, resolveImage } from '../services/persistence/imageStore';
+
+/**
+ * Turns an image field (store reference or legacy inline base64) into something an <img> can show.
+ */
+export const useImageSrc = (value?: string): string | undefined => {
+  const [src, setSrc] = useState<string | undefined>(() => getImageSrcSync(value));
+
+  useEffect(() => {
+    const sync = getImageSrcSync(value);
+    if (sync || !value) {
+      setSrc(sync);
+      return;
+    }
+    let cancelled = false;
+    resolveImage(value).then(resolved => {
+      if (!cancelled) setSrc(resolved);
+    });
+    return () => { cancelled = true; };
+  }, [value]);
+
+  return src;
+};
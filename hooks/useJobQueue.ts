@@ -0,0 +1,24 @@
+import { useSyncExternalStore, useMemo } from 'react';
+import { generationQueue, JobQueue, isActiveJob } from '../services/jobQueue';
+
+/**
+ * Subscribes a component to the generation queue.
+ */
+export const useJobQueue = (queue: JobQueue = generationQueue) => {
+  const state = useSyncExternalStore(queue.subscribe, queue.getSnapshot);
+
+  const activeJobs = useMemo(() => state.jobs.filter(isActiveJob), [state.jobs]);
+
+  return {
+    jobs: state.jobs,
+    activeJobs,
+    concurrency: state.concurrency,
+    isBusy: activeJobs.length > 0,
+    enqueue: queue.enqueue,
+    cancel: queue.cancel,
+    cancelAll: queue.cancelAll,
+    clearFinished: queue.clearFinished,
+    setConcurrency: queue.setConcurrency,
+    whenSettled: queue.whenSettled,
+  };
+};
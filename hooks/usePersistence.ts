@@ -1,47 +1,74 @@
 import { useState, useEffect, useRef, useCallback } from 'react';
 import { saveProject, loadProject, deleteProject } from '../services/persistence/db';
 import { Graph } from '../types/graph';
+import { collectImageRefs } from '../utils/imageRefs';
+import { preloadImages } from '../services/persistence/imageStore';
+import { migrateGraph, hasMigrationNotes, MigrationReport } from '../services/persistence/migrations';
 
 export type SavingStatus = 'idle' | 'loading' | 'saving' | 'saved' | 'error';
 
+export interface LoadResult {
+  graph: Graph | null;
+  migration: MigrationReport | null; // Solo si hubo algo que actualizar
+}
+
 export const usePersistence = (
   currentGraph: Graph, 
   projectId: string = 'main-storyboard'
 ) => {
   const [status, setStatus] = useState<SavingStatus>('idle');
   const isLoadedRef = useRef(false);
+  // Proyecto cuyo contenido está actualmente en el canvas. Evita que, al cambiar de
+  // proyecto, el grafo anterior se guarde bajo el ID nuevo antes de terminar la carga.
+  const loadedProjectIdRef = useRef<string | null>(null);
   
   // ALMACÉN DE ESTADO: Guardamos la "huella digital" (string JSON) del último guardado exitoso.
   const lastSavedStr = useRef<string>("");
 
   // 1. Cargar Datos Iniciales
-  const loadInitialData = useCallback(async (): Promise<Graph | null> => {
+  const loadInitialData = useCallback(async (): Promise<LoadResult> => {
+    isLoadedRef.current = false; // Pausamos el auto-guardado mientras se carga
     setStatus('loading');
     try {
-      const data = await loadProject(projectId);
-      if (data) {
-          // Generamos la huella inicial para no guardar nada más cargar
-          const content = { nodes: data.nodes, connections: data.connections };
-          lastSavedStr.current = JSON.stringify(content);
+      const stored = await loadProject(projectId);
+      // Registros antiguos se actualizan paso a paso al esquema actual (incluye mover
+      // base64 al store de imágenes). Si algo cambió, reescribimos el registro ya migrado.
+      const migrated = stored ? await migrateGraph(stored) : null;
+      const data = migrated?.graph;
+      if (migrated && migrated.report.fromVersion < migrated.report.toVersion) {
+        console.log(`🧬 Project ${projectId} migrated v${migrated.report.fromVersion} → v${migrated.report.toVersion}`);
+        await saveProject(projectId, { ...data!, id: projectId, lastModified: stored!.lastModified });
       }
+      if (data) await preloadImages(collectImageRefs(data.nodes));
+      // Generamos la huella inicial para no guardar nada más cargar
+      const content = data
+          ? { nodes: data.nodes, connections: data.connections }
+          : { nodes: [], connections: [] };
+      lastSavedStr.current = JSON.stringify(content);
+      loadedProjectIdRef.current = projectId;
       isLoadedRef.current = true; // Habilitamos el sistema
       setStatus('idle');
-      return data || null;
+      return {
+        graph: data || null,
+        migration: migrated && hasMigrationNotes(migrated.report) ? migrated.report : null,
+      };
     } catch (error) {
       console.error("Error loading project:", error);
       setStatus('error');
+      loadedProjectIdRef.current = projectId;
       isLoadedRef.current = true;
-      return null;
+      return { graph: null, migration: null };
     }
   }, [projectId]);
 
   // 2. Efecto de Auto-Guardado Inteligente
   useEffect(() => {
-    // Si no hemos cargado aún, no hacemos nada.
-    if (!isLoadedRef.current) return;
+    // Si no hemos cargado aún (o el canvas todavía muestra otro proyecto), no hacemos nada.
+    if (!isLoadedRef.current || loadedProjectIdRef.current !== projectId) return;
 
     // A. CREAR HUELLA DIGITAL ACTUAL
     // Solo nos importan los nodos y las conexiones. Ignoramos timestamps, IDs de sesión, zoom, etc.
+    // Las imágenes son referencias cortas al store de blobs, así que la huella es barata.
     const currentContent = { 
         nodes: currentGraph.nodes, 
         connections: currentGraph.connections 
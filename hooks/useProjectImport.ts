@@ -0,0 +1,73 @@
+import { useState, useCallback } from 'react';
+import { Node, Connection } from '../types/graph';
+import { SubgraphEdit } from './useGraphEditor';
+import { MigrationReport, CURRENT_SCHEMA_VERSION } from '../services/persistence/migrations';
+import { ProjectSource, readProjectFile as readSourceFile } from '../services/persistence/projectSource';
+import { createProject, saveProject } from '../services/persistence/db';
+import { remapGraph, offsetBeside, extractSubgraph } from '../utils/graphRemap';
+import { restampInputHashes } from '../services/inputHashes';
+
+export type ProjectImportMode = 'new' | 'merge' | 'replace';
+
+/**
+ * Loading a project file (bundle .zip or legacy .json) is two steps: read + migrate it, then
+ * let the user choose to open it as a new project, merge it into the canvas (fresh ids, placed
+ * to the right) or replace the canvas as the old Load did.
+ */
+export const useProjectImport = (
+  nodes: Node[],
+  setGraph: (data: { nodes: Node[]; connections: Connection[]; name?: string }) => void,
+  insertSubgraph: (label: string, edit: SubgraphEdit) => void,
+  openProject: (id: string) => void,
+  onReplaced: (report: MigrationReport | null) => void
+) => {
+  const [pendingImport, setPendingImport] = useState<ProjectSource | null>(null);
+
+  const readProjectFile = useCallback(async (file: File) => {
+    setPendingImport(await readSourceFile(file));
+  }, []);
+
+  // Copia los nodos elegidos (con ids nuevos y a la derecha de lo existente) en un solo paso de undo
+  const mergeSubgraph = useCallback((source: ProjectSource, ids: Set<string>) => {
+    const picked = extractSubgraph(source.nodes, source.connections, ids);
+    const remapped = remapGraph(picked.nodes, picked.connections, offsetBeside(nodes, picked.nodes));
+    // Los ids nuevos cambian el hash de las entradas (blocking por personaje): se vuelven a sellar
+    const restamped = restampInputHashes(picked, remapped, remapped.nodeIds);
+    insertSubgraph(`Merge ${picked.nodes.length} node(s) from "${source.name}"`, { nodes: restamped, connections: remapped.connections });
+  }, [nodes, insertSubgraph]);
+
+  // Nunca rechaza: los fallos se avisan aquí y el diálogo sigue abierto para reintentar
+  const applyImport = useCallback(async (mode: ProjectImportMode) => {
+    if (!pendingImport) return;
+    const { name, nodes: importedNodes, connections: importedConnections, report } = pendingImport;
+
+    try {
+      if (mode === 'new') {
+        const meta = await createProject(name);
+        await saveProject(meta.id, {
+          id: meta.id,
+          name,
+          nodes: importedNodes,
+          connections: importedConnections,
+          lastModified: Date.now(),
+          schemaVersion: CURRENT_SCHEMA_VERSION,
+        });
+        console.log(`📦 Imported "${name}" as project ${meta.id}`);
+        openProject(meta.id);
+      } else if (mode === 'merge') {
+        mergeSubgraph(pendingImport, new Set(importedNodes.map(n => n.id)));
+      } else {
+        setGraph({ nodes: importedNodes, connections: importedConnections });
+        onReplaced(report);
+      }
+      setPendingImport(null);
+    } catch (error) {
+      console.error('❌ Project import failed:', error);
+      alert(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }, [pendingImport, setGraph, mergeSubgraph, openProject, onReplaced]);
+
+  const dismissImport = useCallback(() => setPendingImport(null), []);
+
+  return { pendingImport, readProjectFile, applyImport, dismissImport, mergeSubgraph };
+};
@@ -0,0 +1,82 @@
+import { useState, useEffect, useCallback } from 'react';
+import { getAllProjects, createProject, renameProject, duplicateProject, deleteProject } from '../services/persistence/db';
+import { ProjectMetadata } from '../types/graph';
+
+// ID histórico: los proyectos guardados antes del workspace multi-proyecto usan este ID.
+export const DEFAULT_PROJECT_ID = 'main-storyboard';
+const PROJECT_PARAM = 'project';
+
+const readProjectIdFromUrl = (): string => {
+  const params = new URLSearchParams(window.location.search);
+  return params.get(PROJECT_PARAM) || DEFAULT_PROJECT_ID;
+};
+
+/**
+ * Keeps the active project ID in the URL (`?project=<id>`) so each production
+ * can be bookmarked and browser back/forward switches between projects.
+ */
+export const useActiveProjectId = () => {
+  const [projectId, setProjectId] = useState<string>(readProjectIdFromUrl);
+
+  useEffect(() => {
+    const onPopState = () => setProjectId(readProjectIdFromUrl());
+    window.addEventListener('popstate', onPopState);
+    return () => window.removeEventListener('popstate', onPopState);
+  }, []);
+
+  const openProject = useCallback((id: string) => {
+    const url = new URL(window.location.href);
+    url.searchParams.set(PROJECT_PARAM, id);
+    window.history.pushState({}, '', url);
+    setProjectId(id);
+  }, []);
+
+  return { projectId, openProject };
+};
+
+/**
+ * Project list + CRUD operations for the project browser.
+ */
+export const useProjectList = () => {
+  const [projects, setProjects] = useState<ProjectMetadata[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+
+  const refresh = useCallback(async (): Promise<ProjectMetadata[]> => {
+    setIsLoading(true);
+    try {
+      const list = await getAllProjects();
+      setProjects(list);
+      return list;
+    } catch (error) {
+      console.error("Error listing projects:", error);
+      throw error; // Quien llama decide cómo avisar al usuario
+    } finally {
+      setIsLoading(false);
+    }
+  }, []);
+
+  const create = useCallback(async (name: string) => {
+    const meta = await createProject(name.trim() || 'Untitled Storyboard');
+    await refresh();
+    return meta;
+  }, [refresh]);
+
+  const rename = useCallback(async (id: string, name: string) => {
+    await renameProject(id, name);
+    await refresh();
+  }, [refresh]);
+
+  const duplicate = useCallback(async (id: string) => {
+    const meta = await duplicateProject(id);
+    await refresh();
+    return meta;
+  }, [refresh]);
+
+  // Returns the remaining projects so the caller can pick what to open next.
+  const remove = useCallback(async (id: string) => {
+    await deleteProject(id);
+    return refresh();
+  }, [refresh]);
+
+  return { projects, isLoading, refresh, create, rename, duplicate, remove };
+};
@@ -0,0 +1,89 @@
+import { useCallback } from 'react';
+import { Node, Connection, NodeType, ScriptData, ScriptScene, CharacterData, SettingData } from '../types/graph';
+import { SubgraphEdit } from './useGraphEditor';
+import { parseScreenplay, ParsedScreenplayScene } from '../utils/screenplayParser';
+import { matchTimeOfDay } from '../utils/sceneBlocking';
+import { resolveScriptAssets } from '../utils/scriptAssets';
+
+const escapeRegex = (value: string) => value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+// Personajes de la escena: los que hablan y los que se nombran en la acción
+const sceneCharacterNames = (scene: ParsedScreenplayScene, allNames: string[]) =>
+  allNames.filter(name =>
+    scene.characters.includes(name) || new RegExp(`(^|[^A-Za-z0-9])${escapeRegex(name)}(?![A-Za-z0-9])`, 'i').test(scene.action)
+  );
+
+/**
+ * Turns a parsed screenplay into one graph edit: scenes for the Script node, plus the
+ * Character (input 0) and Setting (input 1) nodes they reference.
+ */
+const buildScreenplayImport = (parsed: ParsedScreenplayScene[], script: Node<ScriptData>, nodes: Node[], connections: Connection[]): SubgraphEdit => {
+  const unique = (values: string[]) => values.filter((v, i) => v && values.indexOf(v) === i);
+  const characterNames = unique(parsed.flatMap(scene => scene.characters));
+  const locations = unique(parsed.map(scene => scene.location.toUpperCase()));
+
+  const characters = resolveScriptAssets<CharacterData>(NodeType.Character, characterNames, nodes, connections, script, 0, 1);
+  const settings = resolveScriptAssets<SettingData>(NodeType.Setting, locations, nodes, connections, script, 1, 2);
+
+  const scenes: ScriptScene[] = parsed.map(scene => {
+    const timeOfDay = matchTimeOfDay(scene.timeOfDay);
+    return {
+      id: `scene-${script.id}-${crypto.randomUUID()}`,
+      title: scene.heading,
+      description: scene.action || scene.heading,
+      isExpanded: false,
+      slugline: scene.heading,
+      selectedSettingId: settings.ids[scene.location.toUpperCase()],
+      castIds: sceneCharacterNames(scene, characterNames).map(name => characters.ids[name]),
+      blocking: timeOfDay ? { timeOfDay } : undefined,
+      dialogue: scene.dialogue.length > 0 ? scene.dialogue : undefined,
+    };
+  });
+
+  const previousSceneIds = script.data.scenes.map(s => s.id);
+  return {
+    nodes: [...characters.nodes, ...settings.nodes],
+    connections: [...characters.connections, ...settings.connections],
+    nodeData: { [script.id]: { scenes } },
+    // Los cables de las escenas sustituidas se quitan en el mismo paso para que Undo los recupere
+    removeConnectionIds: connections
+      .filter(c => c.fromNodeId === script.id && previousSceneIds.includes(String(c.fromOutput)))
+      .map(c => c.id),
+  };
+};
+
+export const useScreenplayImport = (
+  nodes: Node[],
+  connections: Connection[],
+  insertSubgraph: (label: string, edit: SubgraphEdit) => void
+) => {
+  const importScreenplay = useCallback((scriptNodeId: string, text: string, fileName: string) => {
+    const script = nodes.find(n => n.id === scriptNodeId && n.type === NodeType.Script) as Node<ScriptData> | undefined;
+    if (!script) return;
+
+    let parsed: ParsedScreenplayScene[];
+    try {
+      parsed = parseScreenplay(text, fileName);
+    } catch (error: any) {
+      console.error('❌ Screenplay import failed:', error);
+      alert(`Could not read the screenplay: ${error.message}`);
+      return;
+    }
+
+    if (parsed.length === 0) {
+      alert('No scenes found. Scenes must start with a slugline (INT. / EXT.).');
+      return;
+    }
+
+    const existing = script.data.scenes.length;
+    if (existing > 0 && !window.confirm(`Replace the ${existing} existing scene(s) with ${parsed.length} scene(s) from "${fileName}"?`)) {
+      return;
+    }
+
+    const edit = buildScreenplayImport(parsed, script, nodes, connections);
+    insertSubgraph('Import screenplay', edit);
+    console.log(`🎬 Screenplay imported: ${parsed.length} scenes, ${edit.nodes?.length || 0} new nodes`);
+  }, [nodes, connections, insertSubgraph]);
+
+  return { importScreenplay };
+};
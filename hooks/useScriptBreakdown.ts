@@ -0,0 +1,109 @@
+import { useState, useCallback } from 'react';
+import { Node, Connection, NodeType, ScriptData, CharacterData, SettingData } from '../types/graph';
+import { SubgraphEdit } from './useGraphEditor';
+import { fetchScriptBreakdown } from '../services/promptArchitect';
+import { isProviderConfigured } from '../services/providers';
+import { getScriptCharacters } from '../utils/sceneCast';
+import { findAssetNode, resolveScriptAssets } from '../utils/scriptAssets';
+import { BreakdownRow, BreakdownMergeMode, diffBreakdown, mergeBreakdown, scenesRemovedBy } from '../utils/scriptBreakdown';
+
+export interface PendingBreakdown {
+  scriptNodeId: string;
+  rows: BreakdownRow[];
+  newCharacters: string[]; // Names with no matching Character node
+  newLocations: string[];  // Locations with no matching Setting node
+}
+
+const unique = (values: string[]) => values.filter((v, i) => v && values.indexOf(v) === i);
+
+export const useScriptBreakdown = (
+  nodes: Node[],
+  connections: Connection[],
+  insertSubgraph: (label: string, edit: SubgraphEdit) => void
+) => {
+  const [pending, setPending] = useState<PendingBreakdown | null>(null);
+  // Estado de la sesión, no del nodo: guardado en el grafo sobreviviría a una recarga y el botón quedaría bloqueado
+  const [breakingDownIds, setBreakingDownIds] = useState<string[]>([]);
+
+  const breakDownScript = useCallback(async (scriptNodeId: string) => {
+    const script = nodes.find(n => n.id === scriptNodeId && n.type === NodeType.Script) as Node<ScriptData> | undefined;
+    if (!script || breakingDownIds.includes(script.id)) return;
+    if (!script.data.script?.trim()) {
+      alert('Write or paste the script text first.');
+      return;
+    }
+    if (!isProviderConfigured()) {
+      alert('No AI provider is configured. Check the provider settings.');
+      return;
+    }
+
+    const known = {
+      characters: getScriptCharacters(nodes, connections, script.id).map(n => n.data.prompt).filter(Boolean),
+      locations: connections
+        .filter(c => c.toNodeId === script.id && c.toInputIndex === 1)
+        .map(c => nodes.find(n => n.id === c.fromNodeId && n.type === NodeType.Setting) as Node<SettingData> | undefined)
+        .map(n => n?.data.prompt || '')
+        .filter(Boolean),
+    };
+
+    setBreakingDownIds(ids => [...ids, script.id]);
+    console.log(`✂️ Breaking down script (${script.data.script.length} chars)...`);
+    const breakdown = await fetchScriptBreakdown(script.data.script, known, { nodeId: script.id })
+      .finally(() => setBreakingDownIds(ids => ids.filter(id => id !== script.id)));
+
+    if (!breakdown || breakdown.scenes.length === 0) {
+      alert('The script breakdown failed. Check the console for details.');
+      return;
+    }
+
+    const isNew = (type: NodeType, inputIndex: number) => (name: string) =>
+      !findAssetNode(type, name, nodes, connections, script.id, inputIndex);
+    const characters = unique(breakdown.scenes.flatMap(s => s.characters));
+    const locations = unique(breakdown.scenes.map(s => s.location));
+
+    setPending({
+      scriptNodeId: script.id,
+      rows: diffBreakdown(script.data.scenes, breakdown.scenes),
+      newCharacters: characters.filter(isNew(NodeType.Character, 0)),
+      newLocations: locations.filter(isNew(NodeType.Setting, 1)),
+    });
+  }, [nodes, connections, breakingDownIds]);
+
+  /**
+   * Merges the accepted rows into the script as one undo step, optionally creating nodes for
+   * characters and locations the graph does not have yet.
+   */
+  const applyBreakdown = useCallback((rows: BreakdownRow[], mode: BreakdownMergeMode, createAssets: boolean) => {
+    if (!pending) return;
+    const script = nodes.find(n => n.id === pending.scriptNodeId) as Node<ScriptData> | undefined;
+    if (!script) {
+      setPending(null);
+      return;
+    }
+
+    const characters = resolveScriptAssets<CharacterData>(
+      NodeType.Character, unique(rows.flatMap(r => r.proposal.characters)), nodes, connections, script, 0, 1, createAssets
+    );
+    const settings = resolveScriptAssets<SettingData>(
+      NodeType.Setting, unique(rows.map(r => r.proposal.location)), nodes, connections, script, 1, 2, createAssets
+    );
+
+    const scenes = mergeBreakdown(script.data.scenes, rows, mode, { characters: characters.ids, locations: settings.ids }, script.id);
+    const removedIds = mode === 'replace' ? scenesRemovedBy(script.data.scenes, rows).map(s => s.id) : [];
+
+    insertSubgraph('Break down script', {
+      nodes: [...characters.nodes, ...settings.nodes],
+      connections: [...characters.connections, ...settings.connections],
+      nodeData: { [script.id]: { scenes } },
+      removeConnectionIds: connections
+        .filter(c => c.fromNodeId === script.id && removedIds.includes(String(c.fromOutput)))
+        .map(c => c.id),
+    });
+    console.log(`✅ Breakdown applied: ${rows.length} shots (${mode})`);
+    setPending(null);
+  }, [pending, nodes, connections, insertSubgraph]);
+
+  const dismissBreakdown = useCallback(() => setPending(null), []);
+
+  return { pendingBreakdown: pending, breakingDownIds, breakDownScript, applyBreakdown, dismissBreakdown };
+};
@@ -2,6 +2,7 @@
 import { useEffect } from 'react';
 import { Node, Connection, NodeType, ScriptData, CharacterData, SettingData } from '../types/graph';
 import { enrichCharacter, enrichSetting } from '../services/promptArchitect';
+import { resolveImage } from '../services/persistence/imageStore';
 
 export const useSmartConnections = (
   nodes: Node[],
@@ -23,7 +24,8 @@ export const useSmartConnections = (
              // Mark as loading immediately to prevent duplicate calls
              updateNodeData(node.id, { isCharacterLoading: true });
              
-             enrichCharacter("Main Character", charNode.data.prompt, charNode.data.image)
+             resolveImage(charNode.data.image)
+                .then(image => enrichCharacter("Main Character", charNode.data.prompt, image, { nodeId: node.id }))
                 .then(json => {
                     updateNodeData(node.id, { 
                         isCharacterLoading: false, 
@@ -56,7 +58,8 @@ export const useSmartConnections = (
              
              updateNodeData(node.id, { isSettingLoading: true });
              
-             enrichSetting(settingNode.data.prompt, settingNode.data.image)
+             resolveImage(settingNode.data.image)
+                .then(image => enrichSetting(settingNode.data.prompt, image, { nodeId: node.id }))
                 .then(json => {
                     updateNodeData(node.id, { 
                         isSettingLoading: false, 
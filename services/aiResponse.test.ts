@@ -0,0 +1,61 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { requestValidatedJson, AICallContext, SchemaValidationError } from './aiResponse';
+import { mockProvider } from './providers/mockProvider';
+import { generateCharacterProfilePrompt } from './promptArchitect';
+import { CharacterPassport } from '../types/cinematicSchema';
+
+const PROMPT = generateCharacterProfilePrompt('A young courier with short red hair');
+
+// Primera respuesta rota (sin la descripción obligatoria); a partir de ahí contesta el mock
+const brokenThenMock = (broken = '```json\n{"character_id": "courier",}\n```') => {
+  const prompts: string[] = [];
+  const send = vi.fn(async (prompt: string) => {
+    prompts.push(prompt);
+    return prompts.length === 1 ? broken : mockProvider.completeJson({ model: 'mock-json', prompt, schema: 'CharacterPassport' });
+  });
+  return { send, prompts };
+};
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  vi.spyOn(console, 'warn').mockImplementation(() => {});
+});
+
+describe('requestValidatedJson', () => {
+  it('accepts a valid answer on the first attempt', async () => {
+    const ctx: AICallContext = {};
+    const send = (prompt: string) => mockProvider.completeJson({ model: 'mock-json', prompt, schema: 'CharacterPassport' });
+    const passport = await requestValidatedJson<CharacterPassport>('CharacterPassport', PROMPT, send, ctx);
+    expect(passport.description).toBe('A young courier with short red hair');
+    expect(ctx.report).toMatchObject({ status: 'valid', attempts: 1, repairs: [] });
+  });
+
+  it('re-prompts once with the validation errors and accepts the repaired answer', async () => {
+    const { send, prompts } = brokenThenMock();
+    const ctx: AICallContext = {};
+    const passport = await requestValidatedJson<CharacterPassport>('CharacterPassport', PROMPT, send, ctx);
+
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(prompts[1]).toContain(PROMPT);
+    expect(prompts[1]).toContain('[[⚠️ REPAIR REQUEST]]');
+    expect(prompts[1]).toContain('- description: Required string is missing.');
+    expect(prompts[1]).toContain('"character_id": "courier"');
+    expect(passport.description).toBe('A young courier with short red hair');
+    expect(ctx.report).toMatchObject({
+      status: 'repaired',
+      attempts: 2,
+      repairRequestedFor: [{ path: 'description', message: 'Required string is missing.', severity: 'error' }],
+    });
+  });
+
+  it('throws SchemaValidationError when the repaired answer is still invalid', async () => {
+    const send = vi.fn(async () => 'Sorry, I cannot help with that.');
+    const ctx: AICallContext = {};
+    const request = requestValidatedJson('CharacterPassport', PROMPT, send, ctx);
+
+    await expect(request).rejects.toBeInstanceOf(SchemaValidationError);
+    await expect(request).rejects.toThrow('(root): Response is not parseable JSON.');
+    expect(send).toHaveBeenCalledTimes(2);
+    expect(ctx.report).toMatchObject({ status: 'invalid', attempts: 2, rawResponse: 'Sorry, I cannot help with that.' });
+  });
+});
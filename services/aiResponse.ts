@@ -0,0 +1,135 @@
+import { ResponseSchemaName } from './providers';
+import { RESPONSE_SCHEMAS } from './responseSchemas';
+import { validate, formatIssues, ValidationIssue } from '../utils/schemaValidator';
+import { repairJson } from '../utils/jsonRepair';
+import { CacheableRequest, buildResponseCacheKey, readCachedResponse, writeCachedResponse } from './responseCache';
+
+// One repair round-trip is usually enough; more just burns quota on a confused model.
+const MAX_REPAIR_ATTEMPTS = 1;
+const MAX_ECHOED_RESPONSE = 4000;
+
+export interface AIResponseReport {
+  schema: ResponseSchemaName;
+  status: 'valid' | 'repaired' | 'invalid';
+  attempts: number;
+  issues: ValidationIssue[]; // Issues of the last attempt (fixed defaults included)
+  repairs: string[]; // Syntax fixes applied to the last raw response by the JSON repairer
+  repairRequestedFor?: ValidationIssue[]; // Errors that triggered the repair re-prompt
+  rawResponse?: string; // Last raw model output
+  cacheHit?: boolean; // Answered from the response cache (no model call)
+  error?: string;
+}
+
+/**
+ * Optional per-call context. Callers that want to know what happened to the response
+ * (validation issues, repairs) pass an object and read `report` after the call.
+ */
+export interface AICallContext {
+  report?: AIResponseReport;
+  nodeId?: string; // Node the response belongs to (per-node cache invalidation)
+  skipCache?: boolean; // Always ask the model (the fresh answer still refreshes the cache)
+  signal?: AbortSignal; // Passed to the provider so a cancelled job stops its request
+}
+
+export class SchemaValidationError extends Error {
+  constructor(
+    public schema: ResponseSchemaName,
+    public issues: ValidationIssue[],
+    public rawResponse: string
+  ) {
+    super(`${schema} response failed validation:\n${formatIssues(issues.filter(i => i.severity === 'error'))}`);
+    this.name = 'SchemaValidationError';
+  }
+}
+
+const buildRepairPrompt = (prompt: string, raw: string, issues: ValidationIssue[]) => `${prompt}
+
+[[⚠️ REPAIR REQUEST]]
+Your previous response did not match the required schema. Problems found:
+${formatIssues(issues)}
+
+PREVIOUS RESPONSE:
+${raw.slice(0, MAX_ECHOED_RESPONSE)}
+
+Return the corrected, COMPLETE JSON object only (no markdown, no commentary).`;
+
+// Parses (repairing syntax) and validates one raw response
+const evaluate = <T>(schema: ResponseSchemaName, raw: string) => {
+  const spec = RESPONSE_SCHEMAS[schema];
+  const { value: parsed, repairs } = repairJson<unknown>(raw || '');
+  if (!spec) {
+    // Sin esquema registrado: cualquier JSON parseable vale
+    return { value: parsed as T, repairs, issues: [] as ValidationIssue[], valid: parsed !== undefined, checked: false };
+  }
+  const result = validate<T>(spec, parsed);
+  if (parsed === undefined) {
+    result.issues.unshift({ path: '(root)', message: 'Response is not parseable JSON.', severity: 'error' });
+    result.valid = false;
+  }
+  return { ...result, repairs, checked: true };
+};
+
+/**
+ * Sends a JSON request, validates the answer against its schema and, if required fields are
+ * missing or unusable, re-prompts the model once with the validation errors. Throws
+ * SchemaValidationError when the response still does not validate.
+ *
+ * With `cacheAs`, a valid answer is stored in the response cache under the original prompt
+ * and identical requests are answered from there (see services/responseCache).
+ */
+export const requestValidatedJson = async <T>(
+  schema: ResponseSchemaName,
+  prompt: string,
+  send: (prompt: string) => Promise<string>,
+  ctx?: AICallContext,
+  cacheAs?: CacheableRequest
+): Promise<T> => {
+  const report: AIResponseReport = { schema, status: 'valid', attempts: 0, issues: [], repairs: [] };
+  if (ctx) ctx.report = report;
+
+  const cacheKey = cacheAs ? await buildResponseCacheKey(schema, prompt, cacheAs) : null;
+  if (cacheKey && !ctx?.skipCache) {
+    const cached = await readCachedResponse(cacheKey.key, ctx?.nodeId);
+    if (cached !== undefined) {
+      const result = evaluate<T>(schema, cached);
+      if (result.valid) {
+        console.log(`⚡ ${schema}: answered from the response cache`);
+        Object.assign(report, { cacheHit: true, rawResponse: cached, repairs: result.repairs, issues: result.issues });
+        return result.value;
+      }
+    }
+  }
+
+  let currentPrompt = prompt;
+  for (let attempt = 0; attempt <= MAX_REPAIR_ATTEMPTS; attempt++) {
+    report.attempts = attempt + 1;
+    const raw = await send(currentPrompt);
+    report.rawResponse = raw;
+
+    const result = evaluate<T>(schema, raw);
+    report.repairs = result.repairs;
+    if (result.repairs.length > 0) console.log(`🔧 ${schema}: repaired model JSON —`, result.repairs);
+    if (!result.checked) {
+      if (cacheKey && result.valid) await writeCachedResponse(cacheKey.key, cacheKey.model, raw, ctx?.nodeId);
+      return result.value;
+    }
+
+    report.issues = result.issues;
+    if (result.valid) {
+      report.status = attempt > 0 ? 'repaired' : 'valid';
+      if (result.issues.length > 0) console.log(`🩹 ${schema}: ${result.issues.length} field(s) defaulted/coerced`);
+      if (cacheKey) await writeCachedResponse(cacheKey.key, cacheKey.model, raw, ctx?.nodeId);
+      return result.value;
+    }
+
+    const errors = result.issues.filter(i => i.severity === 'error');
+    console.warn(`⚠️ ${schema} validation failed (attempt ${attempt + 1}):\n${formatIssues(errors)}`);
+    report.repairRequestedFor = errors;
+    currentPrompt = buildRepairPrompt(prompt, raw, errors);
+  }
+
+  report.status = 'invalid';
+  const error = new SchemaValidationError(schema, report.issues, report.rawResponse || '');
+  report.error = error.message;
+  throw error;
+};
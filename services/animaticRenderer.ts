@@ -0,0 +1,194 @@
+import { resolveImage } from './persistence/imageStore';
+import { AnimaticShot, moveTransform, shotAt, totalDuration } from '../utils/animatic';
+
+export interface AnimaticFrameOptions {
+  showCaptions: boolean;
+}
+
+export const ANIMATIC_RESOLUTIONS = [
+  { label: '720p', width: 1280, height: 720 },
+  { label: '1080p', width: 1920, height: 1080 },
+];
+
+const FPS = 30;
+
+export const loadAnimaticImages = async (shots: AnimaticShot[]): Promise<Map<string, HTMLImageElement>> => {
+  const images = new Map<string, HTMLImageElement>();
+  const refs = [...new Set(shots.map(s => s.panel.image).filter((ref): ref is string => !!ref))];
+  await Promise.all(refs.map(async ref => {
+    try {
+      const src = await resolveImage(ref);
+      if (!src) return;
+      const img = new Image();
+      img.src = src;
+      await img.decode();
+      images.set(ref, img);
+    } catch (error) {
+      console.warn('⚠️ Animatic: image skipped', ref, error);
+    }
+  }));
+  return images;
+};
+
+const wrapCanvasText = (ctx: CanvasRenderingContext2D, text: string, maxWidth: number, maxLines: number) => {
+  const lines: string[] = [];
+  let line = '';
+  for (const word of text.split(/\s+/).filter(Boolean)) {
+    const candidate = line ? `${line} ${word}` : word;
+    if (ctx.measureText(candidate).width <= maxWidth || !line) {
+      line = candidate;
+      continue;
+    }
+    lines.push(line);
+    line = word;
+    if (lines.length === maxLines) break;
+  }
+  if (line && lines.length < maxLines) lines.push(line);
+  else if (lines.length === maxLines) lines[maxLines - 1] = `${lines[maxLines - 1]}…`;
+  return lines;
+};
+
+/**
+ * Draws one frame of the animatic: the shot image cover-fitted with its camera move, or a
+ * slate with the scene title when the scene has no image yet. Shared by the preview player
+ * and the WebM export so both look the same.
+ */
+export const drawAnimaticFrame = (
+  ctx: CanvasRenderingContext2D,
+  shots: AnimaticShot[],
+  images: Map<string, HTMLImageElement>,
+  time: number,
+  { showCaptions }: AnimaticFrameOptions
+) => {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = '#000000';
+  ctx.fillRect(0, 0, width, height);
+  if (shots.length === 0) return;
+
+  const { index, progress } = shotAt(shots, time);
+  const shot = shots[index];
+  const img = shot.panel.image ? images.get(shot.panel.image) : undefined;
+  const unit = height / 720; // Tamaños de texto relativos a 720p
+
+  if (img) {
+    const { scale, x, y } = moveTransform(shot.move, progress);
+    const cover = Math.max(width / img.naturalWidth, height / img.naturalHeight) * scale;
+    const drawWidth = img.naturalWidth * cover;
+    const drawHeight = img.naturalHeight * cover;
+    const spareX = (drawWidth - width) / 2;
+    const spareY = (drawHeight - height) / 2;
+    ctx.drawImage(img, -spareX - x * spareX, -spareY - y * spareY, drawWidth, drawHeight);
+  } else {
+    // Claqueta para escenas sin imagen
+    ctx.fillStyle = '#111827';
+    ctx.fillRect(0, 0, width, height);
+    ctx.fillStyle = '#9ca3af';
+    ctx.textAlign = 'center';
+    ctx.font = `bold ${Math.round(40 * unit)}px sans-serif`;
+    ctx.fillText(`${shot.panel.number}. ${shot.panel.title}`, width / 2, height / 2, width * 0.9);
+    ctx.font = `${Math.round(20 * unit)}px sans-serif`;
+    ctx.fillText('No image yet', width / 2, height / 2 + 40 * unit);
+    ctx.textAlign = 'left';
+  }
+
+  if (showCaptions && shot.panel.description) {
+    const fontSize = Math.round(24 * unit);
+    ctx.font = `${fontSize}px sans-serif`;
+    const lines = wrapCanvasText(ctx, shot.panel.description, width * 0.84, 2);
+    const lineHeight = fontSize * 1.3;
+    const boxHeight = lines.length * lineHeight + fontSize;
+    ctx.fillStyle = 'rgba(0, 0, 0, 0.6)';
+    ctx.fillRect(0, height - boxHeight - 24 * unit, width, boxHeight);
+    ctx.fillStyle = '#ffffff';
+    ctx.textAlign = 'center';
+    lines.forEach((line, i) => ctx.fillText(line, width / 2, height - boxHeight - 24 * unit + fontSize * 1.2 + i * lineHeight));
+    ctx.textAlign = 'left';
+  }
+
+  // Número de plano en la esquina, como en un animatic de montaje
+  ctx.font = `bold ${Math.round(16 * unit)}px monospace`;
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.5)';
+  ctx.fillRect(16 * unit, 16 * unit, ctx.measureText(shot.panel.number).width + 16 * unit, 28 * unit);
+  ctx.fillStyle = '#ffffff';
+  ctx.fillText(shot.panel.number, 24 * unit, 36 * unit);
+};
+
+const pickMimeType = () =>
+  ['video/webm;codecs=vp9', 'video/webm;codecs=vp8', 'video/webm'].find(type => MediaRecorder.isTypeSupported(type));
+
+/**
+ * Records the animatic in real time through MediaRecorder (the browser has no offline video
+ * encoder), so an export takes as long as the animatic itself.
+ */
+export const renderAnimaticWebm = (
+  shots: AnimaticShot[],
+  images: Map<string, HTMLImageElement>,
+  size: { width: number; height: number },
+  options: AnimaticFrameOptions,
+  onProgress?: (seconds: number, total: number) => void,
+  signal?: AbortSignal
+): Promise<Blob> =>
+  new Promise((resolve, reject) => {
+    if (typeof MediaRecorder === 'undefined') {
+      reject(new Error('This browser cannot record video (MediaRecorder unavailable).'));
+      return;
+    }
+    const mimeType = pickMimeType();
+    if (!mimeType) {
+      reject(new Error('This browser cannot encode WebM video.'));
+      return;
+    }
+
+    const canvas = document.createElement('canvas');
+    canvas.width = size.width;
+    canvas.height = size.height;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) {
+      reject(new Error('Canvas 2D context unavailable'));
+      return;
+    }
+
+    // Cancelada antes de empezar: el evento 'abort' ya no se disparará
+    if (signal?.aborted) {
+      reject(new DOMException('Animatic export cancelled', 'AbortError'));
+      return;
+    }
+
+    const total = totalDuration(shots);
+    const recorder = new MediaRecorder(canvas.captureStream(FPS), { mimeType, videoBitsPerSecond: 8_000_000 });
+    const chunks: Blob[] = [];
+    let timer: ReturnType<typeof setInterval> | undefined;
+    let aborted = false;
+
+    recorder.ondataavailable = (event) => { if (event.data.size > 0) chunks.push(event.data); };
+    recorder.onstop = () => {
+      if (timer) clearInterval(timer);
+      if (aborted) reject(new DOMException('Animatic export cancelled', 'AbortError'));
+      else resolve(new Blob(chunks, { type: 'video/webm' }));
+    };
+    // El encoder puede fallar a mitad (memoria, GPU): sin esto la promesa no se resolvería nunca
+    recorder.onerror = (event) => {
+      if (timer) clearInterval(timer);
+      const error = (event as Event & { error?: DOMException }).error;
+      reject(error || new Error('Video recording failed.'));
+      if (recorder.state !== 'inactive') recorder.stop();
+    };
+    signal?.addEventListener('abort', () => {
+      aborted = true;
+      if (recorder.state !== 'inactive') recorder.stop();
+    });
+
+    drawAnimaticFrame(ctx, shots, images, 0, options);
+    recorder.start(1000);
+    const startedAt = performance.now();
+    // setInterval en lugar de requestAnimationFrame: sigue avanzando (más lento) con la pestaña oculta
+    timer = setInterval(() => {
+      const elapsed = (performance.now() - startedAt) / 1000;
+      drawAnimaticFrame(ctx, shots, images, Math.min(elapsed, total), options);
+      onProgress?.(Math.min(elapsed, total), total);
+      if (elapsed >= total && recorder.state === 'recording') {
+        clearInterval(timer);
+        recorder.stop();
+      }
+    }, 1000 / FPS);
+  });
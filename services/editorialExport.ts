@@ -0,0 +1,73 @@
+import { resolveImage } from './persistence/imageStore';
+import { AnimaticShot } from '../utils/animatic';
+import { TimelineClip, TimelineFps, buildTimelineClips, toEdl, toFcpxml, toOtio } from '../utils/editorialTimeline';
+import { buildZip, ZipEntry } from '../utils/zip';
+import { base64ToBytes } from '../utils/png';
+import { slugify } from '../utils/file';
+
+const EXTENSIONS: Record<string, string> = { 'image/png': 'png', 'image/jpeg': 'jpg', 'image/webp': 'webp', 'image/gif': 'gif' };
+
+const imageSize = async (src: string) => {
+  const img = new Image();
+  img.src = src;
+  await img.decode();
+  return { width: img.naturalWidth, height: img.naturalHeight };
+};
+
+interface MediaFile {
+  path: string;
+  bytes: Uint8Array;
+  width: number;
+  height: number;
+}
+
+/**
+ * Builds a zip with the shot list as EDL, FCPXML and OTIO plus a `media/` folder holding the
+ * selected frames. Timelines reference the images by relative path, so the folder must be
+ * unzipped as a whole before relinking in the NLE.
+ */
+export const exportEditorialPackage = async (
+  shots: AnimaticShot[],
+  fps: TimelineFps,
+  projectName: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const title = projectName.trim() || 'Storyboard';
+  const mediaByRef = new Map<string, MediaFile | null>();
+
+  for (let index = 0; index < shots.length; index++) {
+    const { panel } = shots[index];
+    if (panel.image && !mediaByRef.has(panel.image)) {
+      try {
+        const src = await resolveImage(panel.image);
+        const match = src?.match(/^data:([^;,]+);base64,(.*)$/);
+        if (!src || !match) throw new Error('Image is not available as a data URL');
+        const extension = EXTENSIONS[match[1]] || 'png';
+        const { width, height } = await imageSize(src);
+        const path = `media/${String(mediaByRef.size + 1).padStart(3, '0')}-${slugify(`${panel.number} ${panel.title}`) || 'shot'}.${extension}`;
+        mediaByRef.set(panel.image, { path, bytes: base64ToBytes(match[2]), width, height });
+      } catch (error) {
+        console.warn('⚠️ Editorial export: image skipped', panel.image, error);
+        mediaByRef.set(panel.image, null);
+      }
+    }
+    onProgress?.(index + 1, shots.length);
+  }
+
+  const clips = buildTimelineClips(shots, fps, (shot): TimelineClip['media'] => {
+    const media = shot.panel.image ? mediaByRef.get(shot.panel.image) : null;
+    return media ? { path: media.path, width: media.width, height: media.height } : undefined;
+  });
+
+  const baseName = slugify(title) || 'storyboard';
+  const entries: ZipEntry[] = [
+    { name: `${baseName}.edl`, data: toEdl(title, clips, fps) },
+    { name: `${baseName}.fcpxml`, data: toFcpxml(title, clips, fps) },
+    { name: `${baseName}.otio`, data: toOtio(title, clips, fps) },
+    ...[...mediaByRef.values()]
+      .filter((media): media is MediaFile => !!media)
+      .map(media => ({ name: media.path, data: media.bytes })),
+  ];
+
+  return new Blob([buildZip(entries)], { type: 'application/zip' });
+};
@@ -1,7 +1,6 @@
 
-import { GoogleGenAI, Modality } from "@google/genai";
-import type { Part } from "@google/genai";
-import { safeJsonParse } from "../utils/jsonRepair";
+import { analyzeImage, generateImage, editImage, isProviderConfigured, ImageInput } from "./providers";
+import { requestValidatedJson, AICallContext, SchemaValidationError } from "./aiResponse";
 import { CharacterPassport, SettingPassport, CinematicJSON } from "../types/cinematicSchema";
 import { VideoPrompt } from "../types/videoSchema";
 
@@ -10,64 +9,36 @@ export interface GenerationPayload {
   images?: string[]; // base64 strings
 }
 
-const fileToPart = (base64Data: string, mimeType: string): Part => {
+const fileToPart = (base64Data: string, mimeType: string): ImageInput => {
   return {
-    inlineData: {
-      data: base64Data.split(',')[1] || base64Data, // Handle with or without prefix
-      mimeType,
-    },
+    data: base64Data.split(',')[1] || base64Data, // Handle with or without prefix
+    mimeType,
   };
 };
 
-export const generateSceneImage = async (payload: GenerationPayload): Promise<string> => {
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const generateSceneImage = async (payload: GenerationPayload, signal?: AbortSignal): Promise<string> => {
+    // Ensure we aren't adding empty strings
+    const images = (payload.images || []).filter(Boolean).map(img => fileToPart(img, 'image/png'));
 
-    const parts: Part[] = [];
-    let systemInstruction: string | undefined;
-    
     // Check if we have reference images (Image-to-Image / Transformation Mode)
-    if (payload.images && payload.images.length > 0) {
-        payload.images.forEach(img => {
-            // Ensure we aren't adding empty strings
-            if(img) parts.push(fileToPart(img, 'image/png'));
-        });
-
+    if (images.length > 0) {
         // Specific instruction for editing tasks
-        systemInstruction = "You are an expert image editor. You will receive an input image and a JSON description of changes. Generate a NEW image that maintains the consistency/identity of the input image but applies the described changes.";
+        const systemInstruction = "You are an expert image editor. You will receive an input image and a JSON description of changes. Generate a NEW image that maintains the consistency/identity of the input image but applies the described changes.";
+        return editImage({ prompt: payload.prompt, images, systemInstruction, signal });
     }
     
-    // Add the master prompt (JSON)
-    parts.push({ text: payload.prompt });
-    
-    const response = await ai.models.generateContent({
-        model: 'gemini-2.5-flash-image',
-        contents: { parts },
-        config: {
-            responseModalities: [Modality.IMAGE],
-            systemInstruction: systemInstruction,
-        },
-    });
-
-    if (response.candidates?.[0]?.content?.parts) {
-        for (const part of response.candidates[0].content.parts) {
-            if (part.inlineData) {
-                return part.inlineData.data;
-            }
-        }
-    }
-
-    throw new Error("No image was generated. The response may have been blocked or the format was unexpected.");
+    // The master prompt (JSON) alone
+    return generateImage({ prompt: payload.prompt, signal });
 };
 
 /**
  * Analyzes an uploaded character image to generate a biometric profile (CharacterPassport).
  */
-export const analyzeCharacterImage = async (base64Image: string, clothingImage?: string): Promise<CharacterPassport | null> => {
-  if (!process.env.API_KEY) {
-      console.error("API Key is missing");
+export const analyzeCharacterImage = async (base64Image: string, clothingImage?: string, ctx?: AICallContext): Promise<CharacterPassport | null> => {
+  if (!isProviderConfigured()) {
+      console.error("AI provider is not configured (API Key missing?)");
       return null;
   }
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
   const prompt = `
     ROLE: Expert Forensic Artist and Casting Director.
@@ -105,31 +76,21 @@ export const analyzeCharacterImage = async (base64Image: string, clothingImage?:
   `;
 
   try {
-    const parts: any[] = [
-        { text: prompt },
-        fileToPart(base64Image, 'image/png')
-    ];
+    const images = [fileToPart(base64Image, 'image/png')];
 
     if (clothingImage) {
-        parts.push(fileToPart(clothingImage, 'image/png'));
+        images.push(fileToPart(clothingImage, 'image/png'));
     }
 
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-          parts: parts
-      },
-      config: {
-        responseMimeType: "application/json"
-      }
-    });
-
-    const text = response.text;
-    if (!text) return null;
-    
-    return safeJsonParse<CharacterPassport>(text, {} as CharacterPassport);
+    return await requestValidatedJson<CharacterPassport>(
+        'CharacterPassport',
+        prompt,
+        p => analyzeImage({ prompt: p, images, schema: 'CharacterPassport', signal: ctx?.signal }),
+        ctx
+    );
   } catch (error) {
     console.error("Character analysis failed:", error);
+    if (!(error instanceof SchemaValidationError)) throw error; // Provider errors (429...) go to the caller / job queue
     return null;
   }
 };
@@ -137,12 +98,11 @@ export const analyzeCharacterImage = async (base64Image: string, clothingImage?:
 /**
  * Analyzes an uploaded environmental image to extract its visual style (SettingPassport).
  */
-export const analyzeSettingImage = async (base64Image: string): Promise<SettingPassport | null> => {
-  if (!process.env.API_KEY) {
-      console.error("API Key is missing");
+export const analyzeSettingImage = async (base64Image: string, ctx?: AICallContext): Promise<SettingPassport | null> => {
+  if (!isProviderConfigured()) {
+      console.error("AI provider is not configured (API Key missing?)");
       return null;
   }
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
   const prompt = `
     ROLE: Expert Production Designer and Art Director.
@@ -172,61 +132,31 @@ export const analyzeSettingImage = async (base64Image: string): Promise<SettingP
   `;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash',
-      contents: {
-          parts: [
-              { text: prompt },
-              fileToPart(base64Image, 'image/png')
-          ]
-      },
-      config: {
-        responseMimeType: "application/json"
-      }
-    });
-
-    const text = response.text;
-    if (!text) return null;
-    
-    return safeJsonParse<SettingPassport>(text, {} as SettingPassport);
+    const images = [fileToPart(base64Image, 'image/png')];
+    return await requestValidatedJson<SettingPassport>(
+        'SettingPassport',
+        prompt,
+        p => analyzeImage({ prompt: p, images, schema: 'SettingPassport', signal: ctx?.signal }),
+        ctx
+    );
   } catch (error) {
     console.error("Setting analysis failed:", error);
+    if (!(error instanceof SchemaValidationError)) throw error; // Provider errors (429...) go to the caller / job queue
     return null;
   }
 };
 
 /**
  * Generates a visual asset (Character or Setting) from a text description.
- * Uses Gemini's image generation capabilities (Text-to-Image).
+ * Uses the active provider's image generation capabilities (Text-to-Image).
  */
 export const generateReferenceAsset = async (prompt: string): Promise<string> => {
-    if (!process.env.API_KEY) {
+    if (!isProviderConfigured()) {
         throw new Error("API Key is missing");
     }
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
-            contents: {
-                parts: [
-                    { text: prompt }
-                ]
-            },
-            config: {
-                responseModalities: [Modality.IMAGE],
-            },
-        });
-
-        if (response.candidates?.[0]?.content?.parts) {
-            for (const part of response.candidates[0].content.parts) {
-                if (part.inlineData) {
-                    return part.inlineData.data;
-                }
-            }
-        }
-        
-        throw new Error("No image generated by Gemini.");
+        return await generateImage({ prompt });
     } catch (error) {
         console.error("Asset generation failed:", error);
         throw error;
@@ -240,10 +170,10 @@ export const generateVeoPrompt = async (
   startImage: string | undefined, 
   endImage: string | undefined, 
   duration: number,
-  segments: string[]
+  segments: string[],
+  ctx?: AICallContext
 ): Promise<VideoPrompt | null> => {
-    if (!process.env.API_KEY) return null;
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    if (!isProviderConfigured()) return null;
 
     // Validación básica
     if (!startImage && !endImage) throw new Error("At least one image is required.");
@@ -256,10 +186,8 @@ export const generateVeoPrompt = async (
         return `- [${start}s - ${end}s]: ${seg}`;
     }).join('\n');
 
-    const parts: Part[] = [];
-    
     // Instrucción Maestra Actualizada
-    parts.push({ text: `
+    const prompt = `
     ROLE: Expert AI Video Director using Google VEO.
     TASK: Create a precise JSON specification for a video shot based on the provided assets and TIMELINE.
     
@@ -336,20 +264,20 @@ export const generateVeoPrompt = async (
         },
         "negative_prompts": ["text", "watermark", "distortion"]
     }
-    `});
+    `;
 
     // Adjuntar imágenes si existen
-    if (startImage) parts.push(fileToPart(startImage, 'image/png'));
-    if (endImage) parts.push(fileToPart(endImage, 'image/png'));
+    const images: ImageInput[] = [];
+    if (startImage) images.push(fileToPart(startImage, 'image/png'));
+    if (endImage) images.push(fileToPart(endImage, 'image/png'));
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash', 
-            contents: { parts },
-            config: { responseMimeType: 'application/json' }
-        });
-        
-        return safeJsonParse<VideoPrompt>(response.text, {} as VideoPrompt);
+        return await requestValidatedJson<VideoPrompt>(
+            'VideoPrompt',
+            prompt,
+            p => analyzeImage({ prompt: p, images, schema: 'VideoPrompt', signal: ctx?.signal }),
+            ctx
+        );
     } catch (e) {
         console.error("VEO Prompt generation failed:", e);
         throw e;
@@ -360,13 +288,12 @@ export const generateVeoPrompt = async (
  * REVERSE ENGINEERING: Takes an existing image Base64 and asks AI to generate
  * a plausible CinematicJSON specification that could have created it.
  */
-export const reverseEngineerImageSpec = async (imageBase64: string): Promise<CinematicJSON | null> => {
-    if (!process.env.API_KEY) {
+export const reverseEngineerImageSpec = async (imageBase64: string, ctx?: AICallContext): Promise<CinematicJSON | null> => {
+    if (!isProviderConfigured()) {
         console.error("API Key missing for reverse engineering.");
         return null;
     }
 
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
     const imagePart = fileToPart(imageBase64, 'image/png');
 
     const prompt = `
@@ -378,12 +305,13 @@ export const reverseEngineerImageSpec = async (imageBase64: string): Promise<Cin
 
     TARGET SCHEMA:
     interface CinematicJSON {
-      subjects: {
-        main_subject: string; // DETAILED description of who is in the shot.
+      subjects: Array<{ // One entry per person in the shot
+        character_id: string; // Leave empty
+        description: string; // DETAILED description of who this is.
         clothing_details: string; // Specific materials, colors, style of clothes.
         action_pose: string;
         expression_mood: string;
-      };
+      }>;
       scene_globals: {
         description: string; // Concise visual summary of the whole frame.
         mood: string;
@@ -413,20 +341,12 @@ export const reverseEngineerImageSpec = async (imageBase64: string): Promise<Cin
 
     try {
         console.log("🕵️‍♂️ Reverse-engineering image spec...");
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: {
-                parts: [
-                    { text: prompt },
-                    imagePart
-                ]
-            },
-            config: {
-                responseMimeType: 'application/json'
-            }
-        });
-
-        return safeJsonParse<CinematicJSON>(response.text, {} as CinematicJSON);
+        return await requestValidatedJson<CinematicJSON>(
+            'CinematicJSON',
+            prompt,
+            p => analyzeImage({ prompt: p, images: [imagePart], schema: 'CinematicJSON', signal: ctx?.signal }),
+            ctx
+        );
 
     } catch (error) {
         console.error("❌ Failed to reverse-engineer image spec:", error);
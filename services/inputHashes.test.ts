@@ -0,0 +1,52 @@
+import { describe, it, expect } from 'vitest';
+import { computeInputHash, findStaleNodes, restampInputHashes } from './inputHashes';
+import { remapGraph } from '../utils/graphRemap';
+import { Node, Connection, NodeType, ImageData } from '../types/graph';
+
+const NODES = [
+  { id: 'char', type: NodeType.Character, position: { x: 0, y: 0 }, data: { prompt: 'Maria', image: 'img:face', characterPassport: { description: 'Maria' } } },
+  {
+    id: 'script', type: NodeType.Script, position: { x: 300, y: 0 },
+    data: { script: '', scenes: [{ id: 'scene-a', title: 'One', description: 'Maria enters.', isExpanded: false, blocking: { cast: { char: { position: 'left' } } } }] },
+  },
+  { id: 'image', type: NodeType.Image, position: { x: 600, y: 0 }, data: { prompt: '', isLoading: false, image: 'img:frame', enrichedSceneJson: {} } },
+] as Node[];
+
+const CONNECTIONS: Connection[] = [
+  { id: 'c1', fromNodeId: 'char', fromOutput: 0, toNodeId: 'script', toInputIndex: 0 },
+  { id: 'c2', fromNodeId: 'script', fromOutput: 'scene-a', toNodeId: 'image', toInputIndex: 1 },
+];
+
+const stamped = (): Node[] => NODES.map(node => {
+  if (node.type !== NodeType.Image) return node;
+  const inputHashes = {
+    image: computeInputHash(node, 'image', NODES, CONNECTIONS)!,
+    enrichedSceneJson: computeInputHash(node, 'enrichedSceneJson', NODES, CONNECTIONS)!,
+  };
+  const takes = [
+    { id: 'take-1', image: 'img:frame', source: 'generated', createdAt: 1, inputHashes },
+    { id: 'take-0', image: 'img:old', source: 'generated', createdAt: 0, inputHashes: { image: 'image:outdated' } },
+  ];
+  return { ...node, data: { ...node.data, inputHashes, takes, selectedTakeId: 'take-1' } };
+});
+
+describe('restampInputHashes', () => {
+  const nodes = stamped();
+  const remapped = remapGraph(nodes, CONNECTIONS);
+
+  it('is needed: fresh ids in the blocking change the scene hash', () => {
+    expect(findStaleNodes(nodes, CONNECTIONS)).toEqual({});
+    expect(findStaleNodes(remapped.nodes, remapped.connections)).toEqual({
+      [remapped.nodeIds.get('image')!]: ['enrichedSceneJson', 'image'],
+    });
+  });
+
+  it('keeps fresh artifacts fresh after a remap, takes included', () => {
+    const restamped = restampInputHashes({ nodes, connections: CONNECTIONS }, remapped, remapped.nodeIds);
+    expect(findStaleNodes(restamped, remapped.connections)).toEqual({});
+
+    const image = restamped.find(n => n.type === NodeType.Image)!.data as ImageData;
+    expect(image.takes![0].inputHashes).toEqual(image.inputHashes);
+    expect(image.takes![1].inputHashes).toEqual({ image: 'image:outdated' });
+  });
+});
@@ -0,0 +1,203 @@
+import { Node, Connection, NodeType, ScriptData, ScriptScene, CharacterData, SettingData, ImageData, TransformationData, VideoData, GeneratedArtifact, InputHashes } from '../types/graph';
+import { hashString } from '../utils/hash';
+import { getActiveProvider, getModelFor } from './providers';
+import { getScriptCharacters, resolveSceneCast } from '../utils/sceneCast';
+
+/**
+ * Change detection for generated artifacts. Every AI output is stamped with a hash of the
+ * inputs that produced it (scene text, passports, reference images, provider + model); when
+ * the hash computed from the current graph no longer matches the stamp, the artifact is stale.
+ */
+
+export const ARTIFACTS_BY_TYPE: Partial<Record<NodeType, GeneratedArtifact[]>> = {
+  [NodeType.Image]: ['enrichedSceneJson', 'image'],
+  [NodeType.Transformation]: ['transformationJson'],
+  [NodeType.Video]: ['promptSchema'],
+};
+
+export const ARTIFACT_LABELS: Record<GeneratedArtifact, string> = {
+  image: 'Image',
+  enrichedSceneJson: 'Scene JSON',
+  transformationJson: 'Transformation JSON',
+  promptSchema: 'Video prompt',
+};
+
+export interface SceneContext {
+  script: Node<ScriptData>;
+  scene: ScriptScene;
+  cast: Node<CharacterData>[];
+  setting?: Node<SettingData>;
+}
+
+const hashParts = (kind: GeneratedArtifact, parts: unknown[]) =>
+  `${kind}:${hashString(JSON.stringify(parts)).toString(36)}`;
+
+const modelsFor = (...tasks: Parameters<typeof getModelFor>[0][]) => {
+  const provider = getActiveProvider();
+  return [provider.id, ...tasks.map(task => getModelFor(task, provider))];
+};
+
+const inputImage = (nodes: Node[], connections: Connection[], nodeId: string, inputIndex: number): string | null => {
+  const conn = connections.find(c => c.toNodeId === nodeId && c.toInputIndex === inputIndex);
+  const source = nodes.find(n => n.id === conn?.fromNodeId);
+  return (source?.data as { image?: string } | undefined)?.image || null;
+};
+
+/**
+ * Scene feeding an Image node (input 1) plus the cast and setting attached to its script.
+ * Mirrors the lookup done by the generator and the connection enricher.
+ */
+export const resolveSceneContext = (node: Node, nodes: Node[], connections: Connection[]): SceneContext | null => {
+  const scriptConn = connections.find(c => c.toNodeId === node.id && c.toInputIndex === 1);
+  const script = nodes.find(n => n.id === scriptConn?.fromNodeId);
+  if (!scriptConn || script?.type !== NodeType.Script) return null;
+
+  const scenes = (script.data as ScriptData).scenes;
+  const scene = typeof scriptConn.fromOutput === 'string'
+    ? scenes.find(s => s.id === scriptConn.fromOutput)
+    : scenes[scriptConn.fromOutput];
+  if (!scene) return null;
+
+  const cast = resolveSceneCast(scene, getScriptCharacters(nodes, connections, script.id));
+
+  const settings = connections
+    .filter(c => c.toNodeId === script.id && c.toInputIndex === 1)
+    .map(c => nodes.find(n => n.id === c.fromNodeId && n.type === NodeType.Setting) as Node<SettingData> | undefined)
+    .filter((n): n is Node<SettingData> => !!n);
+  const setting = settings.find(n => n.id === scene.selectedSettingId) || settings[0];
+
+  return { script: script as Node<ScriptData>, scene, cast, setting };
+};
+
+// Un reparto de 0 o 1 personajes se codifica como antes (valor o null) para no invalidar sellos existentes
+const castPart = <T,>(values: T[]): T | T[] | null => (values.length <= 1 ? values[0] ?? null : values);
+
+const sceneParts = (context: SceneContext) => [
+  context.scene.description,
+  castPart(context.cast.map(c => c.data.characterPassport ?? null)),
+  context.setting?.data.settingPassport ?? null,
+  ...(context.scene.blocking ? [context.scene.blocking] : []),
+];
+
+/**
+ * Hash of the inputs an artifact would be generated from right now, or null when the node
+ * has nothing to generate it from (disconnected input, empty prompt...).
+ */
+export const computeInputHash = (
+  node: Node,
+  artifact: GeneratedArtifact,
+  nodes: Node[],
+  connections: Connection[]
+): string | null => {
+  switch (artifact) {
+    case 'enrichedSceneJson': {
+      const context = resolveSceneContext(node, nodes, connections);
+      return context ? hashParts(artifact, [...sceneParts(context), ...modelsFor('text')]) : null;
+    }
+
+    case 'image': {
+      const data = node.data as ImageData;
+      const visualRef = inputImage(nodes, connections, node.id, 0);
+      const models = modelsFor('text', 'image', 'imageEdit');
+
+      if (data.mode === 'transformation' && data.incomingTransformationData?.json) {
+        const incoming = data.incomingTransformationData;
+        return hashParts(artifact, ['transformation', incoming.json, incoming.referenceImage ?? null, visualRef, ...models]);
+      }
+      const context = resolveSceneContext(node, nodes, connections);
+      if (context) {
+        const outfits = context.cast.map(c => c.data.clothingImage).filter(Boolean);
+        return hashParts(artifact, [
+          ...sceneParts(context),
+          castPart(context.cast.map(c => c.data.image ?? null)),
+          context.setting?.data.image ?? null,
+          visualRef,
+          ...models,
+          ...(outfits.length > 0 ? [outfits] : []),
+        ]);
+      }
+      return data.prompt ? hashParts(artifact, ['prompt', data.prompt, visualRef, ...models]) : null;
+    }
+
+    case 'transformationJson': {
+      const data = node.data as TransformationData;
+      if (!data.sourceJson || !data.modificationPrompt?.trim()) return null;
+      return hashParts(artifact, [data.sourceJson, data.modificationPrompt, ...modelsFor('text')]);
+    }
+
+    case 'promptSchema': {
+      const data = node.data as VideoData;
+      const start = inputImage(nodes, connections, node.id, 0);
+      const end = inputImage(nodes, connections, node.id, 1);
+      if (!start && !end) return null;
+      return hashParts(artifact, [start, end, data.duration, data.segments, ...modelsFor('text', 'vision')]);
+    }
+  }
+};
+
+const hasArtifact = (node: Node, artifact: GeneratedArtifact) => !!(node.data as unknown as Record<string, unknown>)[artifact];
+
+/**
+ * Artifacts whose stamp no longer matches their inputs. Unstamped artifacts (older projects,
+ * manual uploads) are never reported: we cannot know what produced them.
+ */
+export const getStaleArtifacts = (node: Node, nodes: Node[], connections: Connection[]): GeneratedArtifact[] => {
+  const stamps = (node.data as { inputHashes?: InputHashes }).inputHashes;
+  if (!stamps) return [];
+  return (ARTIFACTS_BY_TYPE[node.type] || []).filter(artifact => {
+    const stamp = stamps[artifact];
+    if (!stamp || !hasArtifact(node, artifact)) return false;
+    const current = computeInputHash(node, artifact, nodes, connections);
+    return current !== null && current !== stamp;
+  });
+};
+
+/**
+ * Stale artifacts for the whole graph, keyed by node id (only nodes with at least one).
+ */
+export const findStaleNodes = (nodes: Node[], connections: Connection[]): Record<string, GeneratedArtifact[]> => {
+  const result: Record<string, GeneratedArtifact[]> = {};
+  nodes.forEach(node => {
+    const stale = getStaleArtifacts(node, nodes, connections);
+    if (stale.length > 0) result[node.id] = stale;
+  });
+  return result;
+};
+
+/**
+ * Carries stamps over a rewrite that changes ids but not content (merge with fresh ids): the
+ * hash includes id-keyed data such as the per-character blocking, so every stamp that was
+ * current before the rewrite is recomputed on the new graph. Stale stamps stay stale.
+ * `nodeIds` maps old node ids to new ones, as returned by remapGraph.
+ */
+export const restampInputHashes = (
+  before: { nodes: Node[]; connections: Connection[] },
+  after: { nodes: Node[]; connections: Connection[] },
+  nodeIds: Map<string, string>
+): Node[] => {
+  const originals = new Map(before.nodes.map(node => [nodeIds.get(node.id), node]));
+  return after.nodes.map(node => {
+    const original = originals.get(node.id);
+    const data = node.data as ImageData;
+    if (!original || !data.inputHashes) return node;
+
+    // Sello vigente antes -> sello equivalente en el grafo nuevo
+    const renamed = new Map<string, string | undefined>();
+    (ARTIFACTS_BY_TYPE[node.type] || []).forEach(artifact => {
+      const previous = computeInputHash(original, artifact, before.nodes, before.connections);
+      if (previous) renamed.set(previous, computeInputHash(node, artifact, after.nodes, after.connections) ?? undefined);
+    });
+    const restamp = (stamps?: InputHashes): InputHashes | undefined => stamps && Object.fromEntries(
+      Object.entries(stamps).map(([artifact, stamp]) => [artifact, stamp && renamed.has(stamp) ? renamed.get(stamp) : stamp])
+    );
+
+    return {
+      ...node,
+      data: {
+        ...data,
+        inputHashes: restamp(data.inputHashes),
+        ...(data.takes ? { takes: data.takes.map(take => ({ ...take, inputHashes: restamp(take.inputHashes) })) } : {}),
+      },
+    } as Node;
+  });
+};
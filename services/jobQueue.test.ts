@@ -0,0 +1,137 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createJobQueue, JobSpec, JobContext } from './jobQueue';
+
+// Trabajo controlable desde el test: cada llamada a run() queda pendiente hasta resolverla
+const deferredJob = (nodeId: string, extra: Partial<JobSpec> = {}) => {
+  const runs: { ctx: JobContext; resolve: () => void; reject: (e: unknown) => void }[] = [];
+  const spec: JobSpec = {
+    kind: 'image',
+    nodeId,
+    label: `Image ${nodeId}`,
+    run: ctx => new Promise<void>((resolve, reject) => { runs.push({ ctx, resolve, reject }); }),
+    ...extra,
+  };
+  return { spec, runs };
+};
+
+const rateLimited = () => Object.assign(new Error('429 Too Many Requests'), { status: 429 });
+
+describe('createJobQueue', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  it('runs at most `concurrency` jobs at once and starts the next one when a slot frees', async () => {
+    const queue = createJobQueue({ concurrency: 2 });
+    const jobs = ['a', 'b', 'c'].map(id => deferredJob(id));
+    const ids = jobs.map(job => queue.enqueue(job.spec));
+
+    expect(queue.getSnapshot().jobs.map(j => j.status)).toEqual(['running', 'running', 'queued']);
+    expect(jobs[2].runs).toHaveLength(0);
+
+    jobs[0].runs[0].resolve();
+    await expect(queue.whenSettled(ids[0])).resolves.toMatchObject({ status: 'succeeded' });
+    expect(jobs[2].runs).toHaveLength(1);
+    expect(queue.getSnapshot().jobs.map(j => j.status)).toEqual(['succeeded', 'running', 'running']);
+  });
+
+  it('retries rate-limited jobs with exponential backoff and fails other errors at once', async () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const queue = createJobQueue({ baseDelayMs: 1000, maxRetries: 2 });
+    const limited = deferredJob('a');
+    const id = queue.enqueue(limited.spec);
+
+    limited.runs[0].reject(rateLimited());
+    await vi.advanceTimersByTimeAsync(0);
+    expect(queue.getSnapshot().jobs[0]).toMatchObject({ status: 'retrying', attempts: 1 });
+
+    await vi.advanceTimersByTimeAsync(999);
+    expect(limited.runs).toHaveLength(1);
+    await vi.advanceTimersByTimeAsync(1);
+    expect(limited.runs).toHaveLength(2);
+    expect(limited.runs[1].ctx.attempt).toBe(2);
+
+    // Segundo intento: el doble de espera
+    limited.runs[1].reject(rateLimited());
+    await vi.advanceTimersByTimeAsync(1999);
+    expect(limited.runs).toHaveLength(2);
+    await vi.advanceTimersByTimeAsync(1);
+    limited.runs[2].reject(rateLimited());
+    await expect(queue.whenSettled(id)).resolves.toMatchObject({ status: 'failed', attempts: 3, error: '429 Too Many Requests' });
+
+    const broken = deferredJob('b');
+    const brokenId = queue.enqueue(broken.spec);
+    broken.runs[0].reject(new Error('Invalid prompt'));
+    await expect(queue.whenSettled(brokenId)).resolves.toMatchObject({ status: 'failed', attempts: 1 });
+  });
+
+  it('cancels queued, running and retrying jobs and aborts their signal', async () => {
+    const queue = createJobQueue({ concurrency: 1 });
+    const running = deferredJob('a');
+    const queued = deferredJob('b');
+    const runningId = queue.enqueue(running.spec);
+    const queuedId = queue.enqueue(queued.spec);
+
+    queue.cancel(queuedId);
+    await expect(queue.whenSettled(queuedId)).resolves.toMatchObject({ status: 'cancelled' });
+    expect(queued.runs).toHaveLength(0);
+
+    // El hueco se libera aunque la petición subyacente no termine nunca
+    queue.cancel(runningId);
+    expect(running.runs[0].ctx.signal.aborted).toBe(true);
+    await expect(queue.whenSettled(runningId)).resolves.toMatchObject({ status: 'cancelled' });
+
+    const retrying = deferredJob('c');
+    const retryingId = queue.enqueue(retrying.spec);
+    retrying.runs[0].reject(rateLimited());
+    await vi.advanceTimersByTimeAsync(0);
+    queue.cancel(retryingId);
+    await expect(queue.whenSettled(retryingId)).resolves.toMatchObject({ status: 'cancelled' });
+    await vi.runAllTimersAsync();
+    expect(retrying.runs).toHaveLength(1);
+  });
+
+  it('removes its abort listeners once a wait or run settles', async () => {
+    const added = vi.spyOn(AbortSignal.prototype, 'addEventListener');
+    const removed = vi.spyOn(AbortSignal.prototype, 'removeEventListener');
+    const queue = createJobQueue({ baseDelayMs: 10 });
+    const job = deferredJob('a');
+    const id = queue.enqueue(job.spec);
+
+    job.runs[0].reject(rateLimited());
+    await vi.advanceTimersByTimeAsync(1000);
+    job.runs[1].resolve();
+    await queue.whenSettled(id);
+
+    expect(added.mock.calls.length).toBeGreaterThan(0);
+    expect(removed).toHaveBeenCalledTimes(added.mock.calls.length);
+  });
+
+  it('dedupes active jobs per node and kind, chaining onSettled onto the existing job', async () => {
+    const queue = createJobQueue();
+    const firstSettled = vi.fn();
+    const secondSettled = vi.fn();
+    const first = deferredJob('a', { onSettled: firstSettled });
+    const second = deferredJob('a', { onSettled: secondSettled });
+
+    const id = queue.enqueue(first.spec);
+    expect(queue.enqueue(second.spec)).toBe(id);
+    expect(queue.enqueue(deferredJob('a', { kind: 'analysis' }).spec)).not.toBe(id);
+    expect(queue.getSnapshot().jobs).toHaveLength(2);
+
+    first.runs[0].resolve();
+    await queue.whenSettled(id);
+    expect(second.runs).toHaveLength(0);
+    expect(firstSettled).toHaveBeenCalledWith(expect.objectContaining({ id, status: 'succeeded' }));
+    expect(secondSettled).toHaveBeenCalledWith(expect.objectContaining({ id, status: 'succeeded' }));
+
+    // Una vez terminado, el mismo nodo puede volver a encolar
+    expect(queue.enqueue(second.spec)).not.toBe(id);
+  });
+});
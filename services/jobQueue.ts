@@ -0,0 +1,298 @@
+/**
+ * Central scheduler for generation work (reference analysis, images, transformations, video specs).
+ *
+ * Jobs run with a configurable concurrency limit, rate-limit failures (429 / quota) are
+ * retried with exponential backoff, and every job can be cancelled through its AbortSignal.
+ * The queue is a plain store with subscribe/getSnapshot so React can read it through
+ * useSyncExternalStore (see hooks/useJobQueue).
+ */
+
+export type JobKind = 'analysis' | 'image' | 'transformation' | 'video';
+export type JobStatus = 'queued' | 'running' | 'retrying' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface Job {
+  id: string;
+  kind: JobKind;
+  nodeId: string;
+  label: string;
+  status: JobStatus;
+  attempts: number;
+  error?: string;
+  enqueuedAt: number;
+  startedAt?: number;
+  finishedAt?: number;
+  nextRetryAt?: number; // Only while status === 'retrying'
+}
+
+export interface JobContext {
+  signal: AbortSignal;
+  attempt: number; // 1-based
+}
+
+export interface JobSpec {
+  kind: JobKind;
+  nodeId: string;
+  label: string;
+  run: (ctx: JobContext) => Promise<void>;
+  // Called once, when the job reaches a final state (not between retries).
+  // If the spec was deduplicated (see JobQueue.enqueue), called with the existing job's final state.
+  onSettled?: (job: Job) => void;
+}
+
+export interface JobQueueState {
+  jobs: Job[];
+  concurrency: number;
+}
+
+export interface JobQueue {
+  // Returns the job id. A node never has two active jobs of the same kind: in that case the new
+  // spec is not queued, the existing job's id is returned and the spec's onSettled runs when
+  // that job settles.
+  enqueue: (spec: JobSpec) => string;
+  cancel: (jobId: string) => void;
+  cancelAll: () => void;
+  clearFinished: () => void;
+  setConcurrency: (value: number) => void;
+  // Resolves with the final state of the job (undefined if it is unknown or already pruned)
+  whenSettled: (jobId: string) => Promise<Job | undefined>;
+  getSnapshot: () => JobQueueState;
+  subscribe: (listener: () => void) => () => void;
+}
+
+export interface JobQueueOptions {
+  concurrency?: number;
+  maxRetries?: number;
+  baseDelayMs?: number;
+  maxDelayMs?: number;
+  maxFinishedJobs?: number; // History kept for the panel
+  onConcurrencyChange?: (value: number) => void;
+}
+
+export const isActiveJob = (job: Job) => job.status === 'queued' || job.status === 'running' || job.status === 'retrying';
+
+/**
+ * Rate limit / quota errors are worth retrying; everything else fails immediately.
+ */
+export const isRateLimitError = (error: unknown): boolean => {
+  const anyError = error as any;
+  if (anyError?.status === 429 || anyError?.code === 429) return true;
+  const message = error instanceof Error ? error.message : String(error ?? '');
+  return /\b429\b|RESOURCE_EXHAUSTED|rate.?limit|quota|too many requests/i.test(message);
+};
+
+class JobCancelledError extends Error {
+  constructor() {
+    super('Job cancelled');
+    this.name = 'JobCancelledError';
+  }
+}
+
+export const createJobQueue = (options: JobQueueOptions = {}): JobQueue => {
+  const maxRetries = options.maxRetries ?? 4;
+  const baseDelayMs = options.baseDelayMs ?? 2000;
+  const maxDelayMs = options.maxDelayMs ?? 30000;
+  const maxFinishedJobs = options.maxFinishedJobs ?? 30;
+
+  let state: JobQueueState = { jobs: [], concurrency: Math.max(1, options.concurrency ?? 2) };
+  const specs = new Map<string, JobSpec>();
+  const controllers = new Map<string, AbortController>();
+  const listeners = new Set<() => void>();
+  const waiters = new Map<string, ((job: Job) => void)[]>();
+
+  const emit = () => listeners.forEach(listener => listener());
+
+  // Snapshot inmutable: cada cambio crea un objeto nuevo para que React detecte la diferencia.
+  const updateJob = (id: string, patch: Partial<Job>) => {
+    state = { ...state, jobs: state.jobs.map(job => (job.id === id ? { ...job, ...patch } : job)) };
+    emit();
+  };
+
+  const getJob = (id: string) => state.jobs.find(job => job.id === id);
+
+  const pruneFinished = () => {
+    const finished = state.jobs.filter(job => !isActiveJob(job));
+    if (finished.length <= maxFinishedJobs) return;
+    const drop = new Set(finished.slice(0, finished.length - maxFinishedJobs).map(job => job.id));
+    state = { ...state, jobs: state.jobs.filter(job => !drop.has(job.id)) };
+  };
+
+  const runSettledHandler = (handler: (job: Job) => void, job: Job) => {
+    try {
+      handler(job);
+    } catch (e) {
+      console.error('Job onSettled handler failed:', e);
+    }
+  };
+
+  const settle = (id: string, patch: Partial<Job>) => {
+    updateJob(id, { ...patch, finishedAt: Date.now(), nextRetryAt: undefined });
+    const job = getJob(id);
+    const spec = specs.get(id);
+    specs.delete(id);
+    controllers.delete(id);
+    if (job && spec?.onSettled) runSettledHandler(spec.onSettled, job);
+    if (job) waiters.get(id)?.forEach(resolve => resolve(job));
+    waiters.delete(id);
+    pruneFinished();
+    emit();
+    pump();
+  };
+
+  // Rejects with JobCancelledError when the signal aborts. The listener is removed once the
+  // race settles, so a job that retries many times does not pile listeners on its signal.
+  const raceAbort = <T,>(promise: Promise<T>, signal: AbortSignal, cleanup?: () => void): Promise<T> => {
+    let rejectCancelled!: (error: Error) => void;
+    const cancelled = new Promise<never>((_, reject) => { rejectCancelled = reject; });
+    const onAbort = () => rejectCancelled(new JobCancelledError());
+    signal.addEventListener('abort', onAbort, { once: true });
+    return Promise.race([promise, cancelled]).finally(() => {
+      signal.removeEventListener('abort', onAbort);
+      cleanup?.();
+    });
+  };
+
+  const wait = (ms: number, signal: AbortSignal) => {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    return raceAbort(new Promise<void>(resolve => { timer = setTimeout(resolve, ms); }), signal, () => clearTimeout(timer));
+  };
+
+  // Resolves as soon as the signal aborts, so a cancelled job frees its slot immediately
+  // even if the underlying request cannot be interrupted.
+  const abortable = <T,>(promise: Promise<T>, signal: AbortSignal) =>
+    signal.aborted ? Promise.reject(new JobCancelledError()) : raceAbort(promise, signal);
+
+  const execute = async (id: string) => {
+    const spec = specs.get(id);
+    const controller = controllers.get(id);
+    if (!spec || !controller) return;
+
+    for (let attempt = 1; ; attempt++) {
+      updateJob(id, { status: 'running', attempts: attempt, startedAt: getJob(id)?.startedAt ?? Date.now(), nextRetryAt: undefined });
+      try {
+        await abortable(spec.run({ signal: controller.signal, attempt }), controller.signal);
+        settle(id, { status: 'succeeded', error: undefined });
+        return;
+      } catch (error) {
+        if (controller.signal.aborted || error instanceof JobCancelledError) {
+          settle(id, { status: 'cancelled', error: undefined });
+          return;
+        }
+        const message = error instanceof Error ? error.message : String(error);
+        if (!isRateLimitError(error) || attempt > maxRetries) {
+          settle(id, { status: 'failed', error: message });
+          return;
+        }
+        const delay = Math.min(maxDelayMs, baseDelayMs * 2 ** (attempt - 1)) + Math.floor(Math.random() * 500);
+        console.warn(`⏳ Rate limited (${spec.label}); retry ${attempt}/${maxRetries} in ${Math.round(delay / 1000)}s`);
+        updateJob(id, { status: 'retrying', error: message, nextRetryAt: Date.now() + delay });
+        try {
+          await wait(delay, controller.signal);
+        } catch {
+          settle(id, { status: 'cancelled', error: undefined });
+          return;
+        }
+      }
+    }
+  };
+
+  const pump = () => {
+    const busy = state.jobs.filter(job => job.status === 'running' || job.status === 'retrying').length;
+    const free = state.concurrency - busy;
+    if (free <= 0) return;
+    state.jobs
+      .filter(job => job.status === 'queued')
+      .slice(0, free)
+      .forEach(job => {
+        // Marcamos antes de arrancar para que un pump() reentrante no lo lance dos veces
+        updateJob(job.id, { status: 'running' });
+        execute(job.id);
+      });
+  };
+
+  return {
+    enqueue: (spec) => {
+      // Un mismo nodo no necesita dos trabajos iguales en cola a la vez
+      const existing = state.jobs.find(job => job.nodeId === spec.nodeId && job.kind === spec.kind && isActiveJob(job));
+      if (existing) {
+        const { onSettled } = spec;
+        if (onSettled) waiters.set(existing.id, [...(waiters.get(existing.id) || []), job => runSettledHandler(onSettled, job)]);
+        return existing.id;
+      }
+
+      const id = crypto.randomUUID();
+      specs.set(id, spec);
+      controllers.set(id, new AbortController());
+      state = {
+        ...state,
+        jobs: [...state.jobs, { id, kind: spec.kind, nodeId: spec.nodeId, label: spec.label, status: 'queued', attempts: 0, enqueuedAt: Date.now() }],
+      };
+      emit();
+      pump();
+      return id;
+    },
+
+    cancel: (jobId) => {
+      const job = getJob(jobId);
+      if (!job || !isActiveJob(job)) return;
+      if (job.status === 'queued') {
+        settle(jobId, { status: 'cancelled' });
+        return;
+      }
+      controllers.get(jobId)?.abort();
+    },
+
+    cancelAll: () => {
+      state.jobs.filter(isActiveJob).forEach(job => {
+        if (job.status === 'queued') settle(job.id, { status: 'cancelled' });
+        else controllers.get(job.id)?.abort();
+      });
+    },
+
+    clearFinished: () => {
+      state = { ...state, jobs: state.jobs.filter(isActiveJob) };
+      emit();
+    },
+
+    setConcurrency: (value) => {
+      state = { ...state, concurrency: Math.max(1, Math.floor(value)) };
+      options.onConcurrencyChange?.(state.concurrency);
+      emit();
+      pump();
+    },
+
+    whenSettled: (jobId) => {
+      const job = getJob(jobId);
+      if (!job || !isActiveJob(job)) return Promise.resolve(job);
+      return new Promise(resolve => waiters.set(jobId, [...(waiters.get(jobId) || []), resolve]));
+    },
+
+    getSnapshot: () => state,
+
+    subscribe: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+const CONCURRENCY_KEY = 'storyboard.queueConcurrency';
+
+const readConcurrency = (): number => {
+  try {
+    return Number(localStorage.getItem(CONCURRENCY_KEY)) || 2;
+  } catch {
+    return 2;
+  }
+};
+
+// Shared queue for the whole app; concurrency survives reloads.
+export const generationQueue = createJobQueue({
+  concurrency: readConcurrency(),
+  onConcurrencyChange: (value) => {
+    try {
+      localStorage.setItem(CONCURRENCY_KEY, String(value));
+    } catch {
+      // Sin localStorage (modo privado): la concurrencia vuelve al valor por defecto al recargar
+    }
+  },
+});
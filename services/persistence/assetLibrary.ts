@@ -0,0 +1,99 @@
+import { Node, NodeType, CharacterData, SettingData } from '../../types/graph';
+import { AssetRecord, AssetVersion, getAssetRecord, putAssetRecord } from './db';
+import { storeImage } from './imageStore';
+import { mapNodeImages } from '../../utils/imageRefs';
+
+/**
+ * Shared asset library: Characters and Settings published once and reused in any project.
+ *
+ * Images are already content-addressed and global, so a version only stores image refs.
+ * A node placed from the library carries a `libraryLink` and can pull newer versions;
+ * editing it locally never writes back unless it is published again.
+ */
+
+export type LibraryNodeType = NodeType.Character | NodeType.Setting;
+export type LibraryNodeData = CharacterData | SettingData;
+
+// Formato del drag & drop desde el panel de la librería al canvas
+export const ASSET_DRAG_TYPE = 'application/x-storyboard-asset';
+
+// Campos que forman el asset; el resto (estado de la UI, link) es del proyecto
+const ASSET_FIELDS: Record<LibraryNodeType, string[]> = {
+  [NodeType.Character]: ['prompt', 'image', 'clothingImage', 'characterPassport'],
+  [NodeType.Setting]: ['prompt', 'image', 'settingPassport'],
+};
+
+export const isLibraryNode = (node: Node): node is Node<LibraryNodeData> =>
+  node.type === NodeType.Character || node.type === NodeType.Setting;
+
+export const latestVersion = (asset: AssetRecord): AssetVersion => asset.versions[asset.versions.length - 1];
+
+export const parseTags = (text: string): string[] =>
+  Array.from(new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean)));
+
+export const defaultAssetName = (node: Node<LibraryNodeData>): string =>
+  node.data.prompt?.split(/[.,\n]/)[0].trim().slice(0, 40) || (node.type === NodeType.Character ? 'Character' : 'Setting');
+
+/**
+ * Every asset field, explicitly `undefined` when missing, so pulling a version also
+ * clears what the new version no longer has (e.g. a removed outfit reference).
+ */
+const assetFields = (type: LibraryNodeType, data: Record<string, any>): Record<string, any> =>
+  Object.fromEntries(ASSET_FIELDS[type].map(field => [field, data[field]]));
+
+/**
+ * Publishes a node: a new asset, or a new version of the one it is linked to.
+ * Returns the saved record; the caller links the node to its latest version.
+ */
+export const publishAsset = async (
+  node: Node<LibraryNodeData>,
+  meta: { name: string; tags: string[]; note?: string }
+): Promise<AssetRecord> => {
+  // Legacy inline images go to the image store first so versions only hold refs
+  const stored = await mapNodeImages(node, value => storeImage(value));
+  const data = JSON.parse(JSON.stringify(assetFields(node.type as LibraryNodeType, stored.data))) as AssetVersion['data'];
+  const now = Date.now();
+
+  const existing = node.data.libraryLink ? await getAssetRecord(node.data.libraryLink.assetId) : undefined;
+  const base: AssetRecord = existing || {
+    id: crypto.randomUUID(),
+    kind: node.type as LibraryNodeType,
+    name: meta.name,
+    tags: [],
+    versions: [],
+    createdAt: now,
+    updatedAt: now,
+  };
+  const version: AssetVersion = { version: base.versions.length + 1, data, note: meta.note || undefined, publishedAt: now };
+  const record: AssetRecord = { ...base, name: meta.name, tags: meta.tags, versions: [...base.versions, version], updatedAt: now };
+
+  await putAssetRecord(record);
+  console.log(`📚 Library: published "${record.name}" v${version.version}`);
+  return record;
+};
+
+/**
+ * Node data for the latest version of an asset, linked to it.
+ */
+export const assetNodeData = (asset: AssetRecord): LibraryNodeData => {
+  const latest = latestVersion(asset);
+  return {
+    ...assetFields(asset.kind, latest.data),
+    prompt: latest.data.prompt || '',
+    libraryLink: { assetId: asset.id, version: latest.version },
+  } as LibraryNodeData;
+};
+
+/**
+ * Linked library nodes whose asset has a newer version: nodeId -> asset.
+ */
+export const findAssetUpdates = (nodes: Node[], assets: AssetRecord[]): Record<string, AssetRecord> => {
+  const byId = new Map(assets.map(asset => [asset.id, asset]));
+  const updates: Record<string, AssetRecord> = {};
+  nodes.filter(isLibraryNode).forEach(node => {
+    const link = node.data.libraryLink;
+    const asset = link && byId.get(link.assetId);
+    if (asset && latestVersion(asset).version > link.version) updates[node.id] = asset;
+  });
+  return updates;
+};
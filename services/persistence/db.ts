@@ -1,17 +1,83 @@
 
 import { openDB, DBSchema, IDBPDatabase } from 'idb';
-import { Graph, ProjectMetadata } from '../../types/graph';
+import { Graph, ProjectMetadata, NodeType, CharacterData, SettingData } from '../../types/graph';
+
+/**
+ * A stored image blob, keyed by the SHA-256 of its base64 payload so identical
+ * images are only stored once across all projects.
+ */
+export interface ImageRecord {
+  hash: string;
+  data: string; // raw base64 (no data: prefix)
+  mimeType: string;
+  size: number;
+  createdAt: number;
+}
+
+/**
+ * A cached AI text response. `nodeIds` lists the nodes that requested it, so a single
+ * node can drop its entries (Re-Roll) without clearing the whole cache.
+ */
+export interface ResponseRecord {
+  key: string; // SHA-256 of provider, model, schema, prompt and image hashes
+  text: string;
+  model: string;
+  nodeIds: string[];
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * One published state of a library asset. `data` only holds the reusable fields of the
+ * node (prompt, reference images as store refs, passport), never project-specific state.
+ */
+export interface AssetVersion {
+  version: number;
+  data: Omit<CharacterData, 'libraryLink'> | Omit<SettingData, 'libraryLink'>;
+  note?: string;
+  publishedAt: number;
+}
+
+/**
+ * A Character or Setting shared across projects. Nodes link to it by `id` and pull
+ * `versions[versions.length - 1]` when it is newer than the version they hold.
+ */
+export interface AssetRecord {
+  id: string;
+  kind: NodeType.Character | NodeType.Setting;
+  name: string;
+  tags: string[];
+  versions: AssetVersion[];
+  createdAt: number;
+  updatedAt: number;
+}
 
 interface StoryboardDB extends DBSchema {
   projects: {
     key: string;
     value: Graph;
   };
+  images: {
+    key: string;
+    value: ImageRecord;
+  };
+  responses: {
+    key: string;
+    value: ResponseRecord;
+    indexes: { 'by-node': string };
+  };
+  assets: {
+    key: string;
+    value: AssetRecord;
+  };
 }
 
 const DB_NAME = 'ai-storyboard-db';
 const STORE_NAME = 'projects';
-const DB_VERSION = 1;
+const IMAGE_STORE_NAME = 'images';
+const RESPONSE_STORE_NAME = 'responses';
+const ASSET_STORE_NAME = 'assets';
+const DB_VERSION = 4;
 
 /**
  * Singleton database connection promise to avoid opening multiple connections.
@@ -26,6 +92,19 @@ const getDB = async () => {
           console.log('[DB] Creating object store:', STORE_NAME);
           db.createObjectStore(STORE_NAME, { keyPath: 'id' });
         }
+        if (!db.objectStoreNames.contains(IMAGE_STORE_NAME)) {
+          console.log('[DB] Creating object store:', IMAGE_STORE_NAME);
+          db.createObjectStore(IMAGE_STORE_NAME, { keyPath: 'hash' });
+        }
+        if (!db.objectStoreNames.contains(RESPONSE_STORE_NAME)) {
+          console.log('[DB] Creating object store:', RESPONSE_STORE_NAME);
+          const responses = db.createObjectStore(RESPONSE_STORE_NAME, { keyPath: 'key' });
+          responses.createIndex('by-node', 'nodeIds', { multiEntry: true });
+        }
+        if (!db.objectStoreNames.contains(ASSET_STORE_NAME)) {
+          console.log('[DB] Creating object store:', ASSET_STORE_NAME);
+          db.createObjectStore(ASSET_STORE_NAME, { keyPath: 'id' });
+        }
       },
     });
   }
@@ -104,3 +183,212 @@ export const deleteProject = async (id: string): Promise<void> => {
     throw error;
   }
 };
+
+/**
+ * Creates an empty project and returns its metadata.
+ */
+export const createProject = async (name: string): Promise<ProjectMetadata> => {
+  const project: Graph = {
+    id: crypto.randomUUID(),
+    name,
+    nodes: [],
+    connections: [],
+    lastModified: Date.now(),
+  };
+  await saveProject(project.id, project);
+  return { id: project.id, name: project.name, lastModified: project.lastModified };
+};
+
+/**
+ * Renames a stored project without touching its graph.
+ */
+export const renameProject = async (id: string, name: string): Promise<void> => {
+  try {
+    const db = await getDB();
+    const project = await db.get(STORE_NAME, id);
+    if (!project) throw new Error(`Project not found: ${id}`);
+    await db.put(STORE_NAME, { ...project, name, lastModified: Date.now() });
+    console.log(`[DB] Project renamed: ${id} -> "${name}"`);
+  } catch (error) {
+    console.error(`[DB] Failed to rename project ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Copies a stored project under a new ID. Node and connection IDs are kept,
+ * they only need to be unique inside a single project.
+ */
+export const duplicateProject = async (id: string, name?: string): Promise<ProjectMetadata> => {
+  try {
+    const db = await getDB();
+    const source = await db.get(STORE_NAME, id);
+    if (!source) throw new Error(`Project not found: ${id}`);
+    const copy: Graph = {
+      ...source,
+      id: crypto.randomUUID(),
+      name: name || `${source.name} (Copy)`,
+      lastModified: Date.now(),
+    };
+    await db.put(STORE_NAME, copy);
+    console.log(`[DB] Project duplicated: ${id} -> ${copy.id}`);
+    return { id: copy.id, name: copy.name, lastModified: copy.lastModified };
+  } catch (error) {
+    console.error(`[DB] Failed to duplicate project ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Stores an image blob unless one with the same hash already exists.
+ */
+export const putImageRecord = async (record: ImageRecord): Promise<void> => {
+  try {
+    const db = await getDB();
+    const existing = await db.getKey(IMAGE_STORE_NAME, record.hash);
+    if (existing) return;
+    await db.put(IMAGE_STORE_NAME, record);
+    console.log(`[DB] Image stored: ${record.hash.slice(0, 12)}… (${Math.round(record.size / 1024)} KB)`);
+  } catch (error) {
+    console.error(`[DB] Failed to store image ${record.hash}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Loads an image blob by hash.
+ */
+export const getImageRecord = async (hash: string): Promise<ImageRecord | undefined> => {
+  try {
+    const db = await getDB();
+    return await db.get(IMAGE_STORE_NAME, hash);
+  } catch (error) {
+    console.error(`[DB] Failed to load image ${hash}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Loads a cached AI response by key.
+ */
+export const getResponseRecord = async (key: string): Promise<ResponseRecord | undefined> => {
+  try {
+    const db = await getDB();
+    return await db.get(RESPONSE_STORE_NAME, key);
+  } catch (error) {
+    console.error(`[DB] Failed to load cached response ${key}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Stores (or replaces) a cached AI response.
+ */
+export const putResponseRecord = async (record: ResponseRecord): Promise<void> => {
+  try {
+    const db = await getDB();
+    await db.put(RESPONSE_STORE_NAME, record);
+  } catch (error) {
+    console.error(`[DB] Failed to store cached response ${record.key}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Deletes one cached response (e.g. expired).
+ */
+export const deleteResponseRecord = async (key: string): Promise<void> => {
+  try {
+    const db = await getDB();
+    await db.delete(RESPONSE_STORE_NAME, key);
+  } catch (error) {
+    console.error(`[DB] Failed to delete cached response ${key}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Deletes every cached response requested by a node. Returns how many were removed.
+ */
+export const deleteResponsesForNode = async (nodeId: string): Promise<number> => {
+  try {
+    const db = await getDB();
+    const keys = await db.getAllKeysFromIndex(RESPONSE_STORE_NAME, 'by-node', nodeId);
+    const tx = db.transaction(RESPONSE_STORE_NAME, 'readwrite');
+    await Promise.all([...keys.map(key => tx.store.delete(key)), tx.done]);
+    if (keys.length > 0) console.log(`[DB] Cached responses cleared for node ${nodeId}: ${keys.length}`);
+    return keys.length;
+  } catch (error) {
+    console.error(`[DB] Failed to clear cached responses for node ${nodeId}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Empties the AI response cache.
+ */
+export const clearResponseRecords = async (): Promise<void> => {
+  try {
+    const db = await getDB();
+    await db.clear(RESPONSE_STORE_NAME);
+    console.log('[DB] Response cache cleared');
+  } catch (error) {
+    console.error('[DB] Failed to clear the response cache:', error);
+    throw error;
+  }
+};
+
+/**
+ * Returns every library asset, most recently updated first.
+ */
+export const getAllAssetRecords = async (): Promise<AssetRecord[]> => {
+  try {
+    const db = await getDB();
+    const assets = await db.getAll(ASSET_STORE_NAME);
+    return assets.sort((a, b) => b.updatedAt - a.updatedAt);
+  } catch (error) {
+    console.error('[DB] Failed to list library assets:', error);
+    throw error;
+  }
+};
+
+/**
+ * Loads one library asset by ID.
+ */
+export const getAssetRecord = async (id: string): Promise<AssetRecord | undefined> => {
+  try {
+    const db = await getDB();
+    return await db.get(ASSET_STORE_NAME, id);
+  } catch (error) {
+    console.error(`[DB] Failed to load library asset ${id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Stores (or replaces) a library asset with all its versions.
+ */
+export const putAssetRecord = async (record: AssetRecord): Promise<void> => {
+  try {
+    const db = await getDB();
+    await db.put(ASSET_STORE_NAME, record);
+    console.log(`[DB] Library asset saved: ${record.id} (v${record.versions.length})`);
+  } catch (error) {
+    console.error(`[DB] Failed to save library asset ${record.id}:`, error);
+    throw error;
+  }
+};
+
+/**
+ * Deletes a library asset. Linked nodes keep their data and simply stop receiving updates.
+ */
+export const deleteAssetRecord = async (id: string): Promise<void> => {
+  try {
+    const db = await getDB();
+    await db.delete(ASSET_STORE_NAME, id);
+    console.log(`[DB] Library asset deleted: ${id}`);
+  } catch (error) {
+    console.error(`[DB] Failed to delete library asset ${id}:`, error);
+    throw error;
+  }
+};
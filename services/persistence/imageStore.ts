@@ -0,0 +1,98 @@
+import { putImageRecord, getImageRecord } from './db';
+
+/**
+ * Content-addressed image store.
+ *
+ * Nodes keep a short reference (`img:<sha256>`) instead of the base64 payload. The
+ * blob lives once in the IndexedDB `images` store and in an in-memory cache so
+ * rendering can resolve references synchronously once they have been loaded.
+ */
+export const IMAGE_REF_PREFIX = 'img:';
+
+const memoryCache = new Map<string, string>(); // hash -> data URL
+
+export const isImageRef = (value: unknown): boolean =>
+  typeof value === 'string' && value.startsWith(IMAGE_REF_PREFIX);
+
+const hashFromRef = (ref: string) => ref.slice(IMAGE_REF_PREFIX.length);
+
+/**
+ * Splits a data URL or raw base64 string into payload + mime type.
+ */
+const splitBase64 = (value: string): { data: string; mimeType: string } => {
+  if (value.startsWith('data:')) {
+    const [meta, data] = value.split(',');
+    const mimeType = meta.split(':')[1]?.split(';')[0] || 'image/png';
+    return { data: data || '', mimeType };
+  }
+  return { data: value, mimeType: 'image/png' };
+};
+
+const toDataUrl = (data: string, mimeType: string) => `data:${mimeType};base64,${data}`;
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * Stores an image (data URL or raw base64) and returns its reference.
+ * Passing an existing reference returns it unchanged.
+ */
+export const storeImage = async (value: string): Promise<string> => {
+  if (isImageRef(value)) return value;
+
+  const { data, mimeType } = splitBase64(value);
+  const hash = await sha256Hex(data);
+
+  if (!memoryCache.has(hash)) {
+    memoryCache.set(hash, toDataUrl(data, mimeType));
+  }
+  await putImageRecord({ hash, data, mimeType, size: data.length, createdAt: Date.now() });
+
+  return `${IMAGE_REF_PREFIX}${hash}`;
+};
+
+/**
+ * Synchronous lookup for rendering. Inline base64 (legacy data) is returned as a data URL;
+ * references only resolve if they are already in memory.
+ */
+export const getImageSrcSync = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  if (isImageRef(value)) return memoryCache.get(hashFromRef(value));
+  return value.startsWith('data:') ? value : toDataUrl(value, 'image/png');
+};
+
+/**
+ * Resolves a reference (or inline base64) to a data URL, loading it from IndexedDB if needed.
+ */
+export const resolveImage = async (value?: string): Promise<string | undefined> => {
+  if (!value) return undefined;
+  const cached = getImageSrcSync(value);
+  if (cached) return cached;
+
+  const hash = hashFromRef(value);
+  const record = await getImageRecord(hash);
+  if (!record) {
+    console.warn(`🖼️ Image not found in store: ${hash.slice(0, 12)}…`);
+    return undefined;
+  }
+  const dataUrl = toDataUrl(record.data, record.mimeType);
+  memoryCache.set(hash, dataUrl);
+  return dataUrl;
+};
+
+/**
+ * Resolves several images, dropping the ones that cannot be found.
+ */
+export const resolveImages = async (values: (string | undefined)[]): Promise<string[]> => {
+  const resolved = await Promise.all(values.map(resolveImage));
+  return resolved.filter((img): img is string => !!img);
+};
+
+/**
+ * Warms the memory cache so nodes render without a loading flash.
+ */
+export const preloadImages = async (refs: string[]): Promise<void> => {
+  await Promise.all(refs.filter(ref => isImageRef(ref)).map(resolveImage));
+};
@@ -0,0 +1,116 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { migrateGraph, CURRENT_SCHEMA_VERSION } from './migrations';
+import { NodeType, ImageData } from '../../types/graph';
+
+// Sin IndexedDB en Node: el store de imágenes solo necesita que la escritura no falle
+vi.mock('./db', () => ({
+  putImageRecord: vi.fn(async () => {}),
+  getImageRecord: vi.fn(async () => undefined),
+}));
+
+const SPEC = {
+  subjects: [{ character_id: 'cast_1', description: 'Maria' }],
+  scene_globals: { description: 'A rainy street', mood: 'tense' },
+};
+
+const scriptNode = {
+  id: 'script-1', type: NodeType.Script, position: { x: 0, y: 0 },
+  data: { script: '', scenes: [{ id: 'scene-a', title: 'Letter', description: 'Maria reads.', isExpanded: false }] },
+};
+
+const imageNode = (data: Record<string, unknown>) => ({
+  id: 'image-1', type: NodeType.Image, position: { x: 300, y: 0 }, data: { prompt: 'Maria reads.', isLoading: false, ...data },
+});
+
+const graphAt = (schemaVersion: number | undefined, nodes: unknown[], connections: unknown[] = []) => ({
+  id: 'p1', name: 'Fixture', lastModified: 1, nodes, connections, ...(schemaVersion === undefined ? {} : { schemaVersion }),
+});
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+});
+
+describe('migrateGraph', () => {
+  it('v1: rewires index-based scene cables to scene ids and drops dangling ones', async () => {
+    const { graph, report } = await migrateGraph(graphAt(undefined, [scriptNode, imageNode({})], [
+      { id: 'c1', fromNodeId: 'script-1', fromOutput: 0, toNodeId: 'image-1', toInputIndex: 1 },
+      { id: 'c2', fromNodeId: 'script-1', fromOutput: 3, toNodeId: 'image-1', toInputIndex: 1 },
+      { id: 'c3', fromNodeId: 'gone', fromOutput: 0, toNodeId: 'image-1', toInputIndex: 0 },
+    ]));
+    expect(graph.connections).toEqual([{ id: 'c1', fromNodeId: 'script-1', fromOutput: 'scene-a', toNodeId: 'image-1', toInputIndex: 1 }]);
+    expect(report.fromVersion).toBe(0);
+    expect(report.dropped).toHaveLength(2);
+  });
+
+  it('v2: converts legacy CinematicPrompt specs and clears empty ones', async () => {
+    const legacy = {
+      entities: [{ description: 'Maria', details: { clothing: 'raincoat', pose: 'reading', facial_expression: 'worried' } }],
+      composition: [{ description: 'Wet pavement' }, { description: 'Neon signs' }],
+      scene_globals: { atmosphere: 'tense', lighting: { type: 'neon', quality: ['hard', 'cold'] } },
+      presentation: { camera: { shot_type: 'Close-up', angle: 'Low' } },
+    };
+    const empty = { entities: [], scene_globals: { atmosphere: '' } };
+    const { graph } = await migrateGraph(graphAt(1, [
+      imageNode({ enrichedSceneJson: legacy }),
+      { ...imageNode({ enrichedSceneJson: empty, sceneEnrichmentStatus: 'success' }), id: 'image-2' },
+    ]));
+
+    const converted = (graph.nodes[0].data as ImageData).enrichedSceneJson as any;
+    expect(converted.subjects).toEqual([expect.objectContaining({ description: 'Maria', clothing_details: 'raincoat', action_pose: 'reading' })]);
+    expect(converted.composition).toMatchObject({ frame_size: 'Close-up', angle: 'Low', foreground: { description: 'Wet pavement' }, background: { description: 'Neon signs' } });
+    expect(converted.style.lighting).toEqual({ type: 'neon', mood: 'hard, cold' });
+    expect(graph.nodes[1].data).toMatchObject({ enrichedSceneJson: null, sceneEnrichmentStatus: 'idle' });
+  });
+
+  it('v3: moves inline base64 images to the image store', async () => {
+    const { graph, report } = await migrateGraph(graphAt(2, [imageNode({ image: 'data:image/png;base64,iVBORw0KGgo=' })]));
+    expect((graph.nodes[0].data as ImageData).image).toMatch(/^img:[0-9a-f]{64}$/);
+    expect(report.changes).toContain('Moved embedded images of 1 node(s) to the image store.');
+  });
+
+  it('v4: keeps the current image as the first take', async () => {
+    const { graph } = await migrateGraph(graphAt(3, [imageNode({ image: 'img:abc', enrichedSceneJson: SPEC, inputHashes: { image: 'h1', enrichedSceneJson: 'h2' } })]));
+    const data = graph.nodes[0].data as ImageData;
+    expect(data.takes).toEqual([expect.objectContaining({ image: 'img:abc', source: 'upload', prompt: 'Maria reads.', inputHashes: { image: 'h1', enrichedSceneJson: 'h2' } })]);
+    expect(data.selectedTakeId).toBe(data.takes![0].id);
+  });
+
+  it('v5: turns single-subject specs into lists, takes and transformations included', async () => {
+    const single = { ...SPEC, subjects: { main_subject: 'Maria', action_pose: 'reading' } };
+    const { graph } = await migrateGraph(graphAt(4, [
+      imageNode({ image: 'img:abc', enrichedSceneJson: single, takes: [{ id: 't1', image: 'img:abc', source: 'generated', createdAt: 0, enrichedSceneJson: single }], selectedTakeId: 't1' }),
+      { id: 'tr-1', type: NodeType.Transformation, position: { x: 0, y: 0 }, data: { prompt: '', sourceJson: single } },
+    ]));
+    const expected = [{ character_id: '', description: 'Maria', action_pose: 'reading' }];
+    const image = graph.nodes[0].data as ImageData;
+    expect((image.enrichedSceneJson as any).subjects).toEqual(expected);
+    expect((image.takes![0].enrichedSceneJson as any).subjects).toEqual(expected);
+    expect((graph.nodes[1].data as any).sourceJson.subjects).toEqual(expected);
+  });
+
+  it('runs every step in order from v0 up to the current version', async () => {
+    const { graph, report } = await migrateGraph(graphAt(undefined, [scriptNode, imageNode({ image: 'data:image/png;base64,iVBORw0KGgo=' })], [
+      { id: 'c1', fromNodeId: 'script-1', fromOutput: 0, toNodeId: 'image-1', toInputIndex: 1 },
+    ]));
+    expect(graph.schemaVersion).toBe(CURRENT_SCHEMA_VERSION);
+    expect(report.toVersion).toBe(CURRENT_SCHEMA_VERSION);
+    const image = graph.nodes[1].data as ImageData;
+    // v3 guarda la imagen antes de que v4 la copie en la primera toma
+    expect(image.takes![0].image).toBe(image.image);
+    expect(image.image).toMatch(/^img:/);
+  });
+
+  it('leaves a current graph untouched', async () => {
+    const current = await migrateGraph(graphAt(undefined, [scriptNode, imageNode({ image: 'img:abc', enrichedSceneJson: SPEC })], [
+      { id: 'c1', fromNodeId: 'script-1', fromOutput: 0, toNodeId: 'image-1', toInputIndex: 1 },
+    ]));
+    const again = await migrateGraph(current.graph);
+    expect(again.graph).toEqual(current.graph);
+    expect(again.report).toEqual({ fromVersion: CURRENT_SCHEMA_VERSION, toVersion: CURRENT_SCHEMA_VERSION, changes: [], dropped: [] });
+  });
+
+  it('rejects non-graphs and files from a newer version', async () => {
+    await expect(migrateGraph({ nodes: [] })).rejects.toThrow('Invalid graph');
+    await expect(migrateGraph(graphAt(CURRENT_SCHEMA_VERSION + 1, []))).rejects.toThrow('newer version');
+  });
+});
@@ -0,0 +1,251 @@
+import { Graph, Node, Connection, NodeType, ScriptData, ImageData } from '../../types/graph';
+import { CinematicJSON } from '../../types/cinematicSchema';
+import { externalizeGraphImages } from '../../utils/imageRefs';
+import { createTake } from '../../utils/imageTakes';
+
+/**
+ * Schema version written into every saved graph. Bump it together with a new
+ * entry in MIGRATIONS whenever the persisted shape of nodes or connections changes.
+ */
+export const CURRENT_SCHEMA_VERSION = 5;
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  changes: string[]; // Human readable list of what was upgraded
+  dropped: string[]; // Data that could not be carried over
+}
+
+interface Migration {
+  version: number; // Version the graph has AFTER this step
+  description: string;
+  migrate: (graph: Graph, report: MigrationReport) => Graph | Promise<Graph>;
+}
+
+const nodeLabel = (node: Node) => `${node.type.toLowerCase()} node ${node.id.slice(0, 8)}`;
+
+// --- v1: Script cables reference scene IDs instead of scene indexes ---
+const migrateSceneIndexes = (graph: Graph, report: MigrationReport): Graph => {
+  const connections: Connection[] = [];
+
+  graph.connections.forEach(conn => {
+    const fromNode = graph.nodes.find(n => n.id === conn.fromNodeId);
+    const toNode = graph.nodes.find(n => n.id === conn.toNodeId);
+    if (!fromNode || !toNode) {
+      report.dropped.push(`Connection ${conn.id} pointed to a node that no longer exists.`);
+      return;
+    }
+
+    if (fromNode.type === NodeType.Script && typeof conn.fromOutput === 'number') {
+      const scene = (fromNode.data as ScriptData).scenes?.[conn.fromOutput];
+      if (!scene) {
+        report.dropped.push(`Connection from scene #${conn.fromOutput + 1} of ${nodeLabel(fromNode)}: scene does not exist.`);
+        return;
+      }
+      report.changes.push(`Connection from scene #${conn.fromOutput + 1} of ${nodeLabel(fromNode)} now references scene "${scene.title}".`);
+      connections.push({ ...conn, fromOutput: scene.id });
+      return;
+    }
+
+    connections.push(conn);
+  });
+
+  return { ...graph, connections };
+};
+
+// --- v2: Legacy CinematicPrompt specs become CinematicJSON ---
+const isLegacyCinematicPrompt = (spec: any): boolean =>
+  !!spec && typeof spec === 'object' && !('subjects' in spec) &&
+  (Array.isArray(spec.entities) || Array.isArray(spec.composition) || !!spec.scene_globals?.lighting);
+
+const convertLegacyPrompt = (legacy: any): CinematicJSON | null => {
+  const entities: any[] = Array.isArray(legacy.entities) ? legacy.entities.filter(Boolean) : [];
+  const composition: any[] = Array.isArray(legacy.composition) ? legacy.composition : [];
+  const camera = legacy.presentation?.camera || {};
+  const globals = legacy.scene_globals || {};
+
+  // Sin ningún dato útil no tiene sentido inventar una especificación.
+  if (entities.length === 0 && composition.length === 0 && !legacy.presentation && !globals.lighting) return null;
+
+  return {
+    subjects: entities.map(entity => ({
+      character_id: '',
+      description: entity.description || '',
+      clothing_details: entity.details?.clothing || '',
+      action_pose: entity.details?.pose || '',
+      expression_mood: entity.details?.facial_expression || '',
+    })),
+    scene_globals: {
+      description: composition.map(c => c?.description).filter(Boolean).join(' ') || globals.atmosphere || '',
+      mood: globals.atmosphere || '',
+    },
+    composition: {
+      frame_size: camera.shot_type || '',
+      depth_of_field: camera.depth_of_field || '',
+      angle: camera.angle || '',
+      foreground: { description: composition[0]?.description || '' },
+      background: { description: composition.length > 1 ? composition[composition.length - 1]?.description || '' : '' },
+    },
+    style: {
+      visual_style: legacy.presentation?.color_grading || legacy.presentation?.film_grain || '',
+      color_palette: { dominant: [], accents: [] },
+      lighting: {
+        type: globals.lighting?.type || '',
+        mood: Array.isArray(globals.lighting?.quality) ? globals.lighting.quality.join(', ') : '',
+      },
+    },
+    presentation: {
+      camera: {
+        lens_focal_length: camera.lens_focal_length || '',
+        aperture: camera.aperture || '',
+        shot_type: camera.shot_type || '',
+      },
+    },
+  };
+};
+
+const migrateLegacySpecs = (graph: Graph, report: MigrationReport): Graph => {
+  const nodes = graph.nodes.map(node => {
+    if (node.type !== NodeType.Image) return node;
+    const data: any = { ...node.data };
+    let touched = false;
+
+    if (isLegacyCinematicPrompt(data.enrichedSceneJson)) {
+      const converted = convertLegacyPrompt(data.enrichedSceneJson);
+      touched = true;
+      if (converted) {
+        data.enrichedSceneJson = converted;
+        report.changes.push(`Scene spec of ${nodeLabel(node)} converted to the CinematicJSON format.`);
+      } else {
+        data.enrichedSceneJson = null;
+        data.sceneEnrichmentStatus = 'idle'; // Se volverá a generar al reconectar
+        report.dropped.push(`Empty legacy scene spec of ${nodeLabel(node)} removed; it will be regenerated.`);
+      }
+    }
+
+    if (isLegacyCinematicPrompt(data.incomingTransformationData?.json)) {
+      const converted = convertLegacyPrompt(data.incomingTransformationData.json);
+      touched = true;
+      data.incomingTransformationData = { ...data.incomingTransformationData, json: converted };
+      if (converted) report.changes.push(`Transformation input of ${nodeLabel(node)} converted to CinematicJSON.`);
+      else report.dropped.push(`Empty legacy transformation input of ${nodeLabel(node)} removed.`);
+    }
+
+    return touched ? { ...node, data } : node;
+  });
+
+  return { ...graph, nodes };
+};
+
+// --- v3: Inline base64 images move to the content-addressed image store ---
+const migrateInlineImages = async (graph: Graph, report: MigrationReport): Promise<Graph> => {
+  const migrated = await externalizeGraphImages(graph);
+  const moved = migrated.nodes.filter((node, i) => node !== graph.nodes[i]).length;
+  if (moved > 0) report.changes.push(`Moved embedded images of ${moved} node(s) to the image store.`);
+  return migrated;
+};
+
+// --- v4: Image nodes keep a version history; the current picture becomes the first take ---
+const migrateImageTakes = (graph: Graph, report: MigrationReport): Graph => {
+  let seeded = 0;
+  const nodes = graph.nodes.map(node => {
+    const data = node.data as ImageData;
+    if (node.type !== NodeType.Image || !data.image || data.takes?.length) return node;
+    const take = createTake(data.image, {
+      source: data.debugTrace ? 'generated' : 'upload',
+      prompt: data.prompt,
+      enrichedSceneJson: data.enrichedSceneJson,
+      debugTrace: data.debugTrace,
+      inputHashes: data.inputHashes && { image: data.inputHashes.image, enrichedSceneJson: data.inputHashes.enrichedSceneJson },
+    });
+    seeded++;
+    return { ...node, data: { ...data, takes: [take], selectedTakeId: take.id } };
+  });
+  if (seeded > 0) report.changes.push(`Current image of ${seeded} image node(s) kept as their first take.`);
+  return { ...graph, nodes };
+};
+
+// --- v5: CinematicJSON.subjects becomes a list (multi-character scenes) ---
+const hasSingleSubject = (spec: any): boolean =>
+  !!spec && typeof spec === 'object' && !!spec.subjects && typeof spec.subjects === 'object' && !Array.isArray(spec.subjects);
+
+const toSubjectList = (spec: any) => {
+  const { main_subject, ...rest } = spec.subjects;
+  return { ...spec, subjects: [{ character_id: '', description: main_subject || '', ...rest }] };
+};
+
+const migrateSubjectLists = (graph: Graph, report: MigrationReport): Graph => {
+  const upgrade = (spec: any) => (hasSingleSubject(spec) ? toSubjectList(spec) : spec);
+
+  const nodes = graph.nodes.map(node => {
+    const data: any = { ...node.data };
+    let touched = false;
+    const fields = node.type === NodeType.Image ? ['enrichedSceneJson'] : node.type === NodeType.Transformation ? ['transformationJson', 'sourceJson'] : [];
+
+    fields.forEach(field => {
+      if (!hasSingleSubject(data[field])) return;
+      data[field] = upgrade(data[field]);
+      touched = true;
+    });
+    if (node.type === NodeType.Image) {
+      if (hasSingleSubject(data.incomingTransformationData?.json)) {
+        data.incomingTransformationData = { ...data.incomingTransformationData, json: upgrade(data.incomingTransformationData.json) };
+        touched = true;
+      }
+      if (Array.isArray(data.takes) && data.takes.some((take: any) => hasSingleSubject(take?.enrichedSceneJson))) {
+        data.takes = data.takes.map((take: any) => (hasSingleSubject(take?.enrichedSceneJson) ? { ...take, enrichedSceneJson: upgrade(take.enrichedSceneJson) } : take));
+        touched = true;
+      }
+    }
+
+    if (touched) report.changes.push(`Scene spec subjects of ${nodeLabel(node)} converted to a list.`);
+    return touched ? { ...node, data } : node;
+  });
+
+  return { ...graph, nodes };
+};
+
+const MIGRATIONS: Migration[] = [
+  { version: 1, description: 'Scene cables use scene IDs', migrate: migrateSceneIndexes },
+  { version: 2, description: 'CinematicPrompt specs upgraded to CinematicJSON', migrate: migrateLegacySpecs },
+  { version: 3, description: 'Embedded images moved to the image store', migrate: migrateInlineImages },
+  { version: 4, description: 'Image nodes keep a take history', migrate: migrateImageTakes },
+  { version: 5, description: 'Scene spec subjects become a list', migrate: migrateSubjectLists },
+];
+
+/**
+ * Upgrades a saved graph (file or IndexedDB record) step by step to CURRENT_SCHEMA_VERSION.
+ * Throws if the input is not a graph at all.
+ */
+export const migrateGraph = async (raw: any): Promise<{ graph: Graph; report: MigrationReport }> => {
+  if (!raw || !Array.isArray(raw.nodes) || !Array.isArray(raw.connections)) {
+    throw new Error('Invalid graph: "nodes" and "connections" must be arrays.');
+  }
+
+  const fromVersion = typeof raw.schemaVersion === 'number' ? raw.schemaVersion : 0;
+  if (fromVersion > CURRENT_SCHEMA_VERSION) {
+    throw new Error(`This file was saved by a newer version (schema v${fromVersion}, supported v${CURRENT_SCHEMA_VERSION}).`);
+  }
+
+  const report: MigrationReport = { fromVersion, toVersion: CURRENT_SCHEMA_VERSION, changes: [], dropped: [] };
+
+  let graph: Graph = {
+    id: raw.id || 'imported',
+    name: raw.name || 'Untitled Storyboard',
+    nodes: raw.nodes,
+    connections: raw.connections,
+    lastModified: raw.lastModified || Date.now(),
+    schemaVersion: fromVersion,
+  };
+
+  for (const migration of MIGRATIONS) {
+    if (migration.version <= fromVersion) continue;
+    console.log(`🧬 Migrating graph to schema v${migration.version}: ${migration.description}`);
+    graph = { ...(await migration.migrate(graph, report)), schemaVersion: migration.version };
+  }
+
+  return { graph, report };
+};
+
+export const hasMigrationNotes = (report: MigrationReport | null | undefined): boolean =>
+  !!report && (report.changes.length > 0 || report.dropped.length > 0);
@@ -0,0 +1,162 @@
+import { Node, Connection, Graph, NodeType } from '../../types/graph';
+import { resolveImage, storeImage } from './imageStore';
+import { CURRENT_SCHEMA_VERSION } from './migrations';
+import { collectImageRefs, mapNodeImages } from '../../utils/imageRefs';
+import { buildZip, readZip, ZipEntry } from '../../utils/zip';
+import { base64ToBytes, bytesToBase64 } from '../../utils/png';
+import { slugify } from '../../utils/file';
+
+/**
+ * Project bundle (.zip): `manifest.json` with the graph, every image as its own file under
+ * `images/` (original bytes and format), and passports / cinematic specs as standalone JSON
+ * files so they can be read or diffed outside the app. The manifest keeps image references; `images` maps each one
+ * to its file and `files` says where each detached JSON field goes back on import.
+ */
+
+export const BUNDLE_FORMAT = 'storyboard-bundle';
+export const BUNDLE_VERSION = 1;
+const MANIFEST_PATH = 'manifest.json';
+
+interface DetachedFile {
+  nodeId: string;
+  field: string;
+  path: string;
+}
+
+interface BundleManifest {
+  format: typeof BUNDLE_FORMAT;
+  bundleVersion: number;
+  schemaVersion: number;
+  name: string;
+  exportedAt: string;
+  nodes: Node[];
+  connections: Connection[];
+  images: Record<string, string>; // image ref -> path inside the zip
+  files: DetachedFile[];
+}
+
+export interface ImportedProject {
+  name: string;
+  graph: { schemaVersion?: number; nodes: Node[]; connections: Connection[] };
+}
+
+// Campos JSON grandes que viajan como archivo propio
+const DETACHED_FIELDS: { type: NodeType; field: string; folder: string }[] = [
+  { type: NodeType.Character, field: 'characterPassport', folder: 'passports/characters' },
+  { type: NodeType.Setting, field: 'settingPassport', folder: 'passports/settings' },
+  { type: NodeType.Image, field: 'enrichedSceneJson', folder: 'specs/scenes' },
+  { type: NodeType.Transformation, field: 'transformationJson', folder: 'specs/transformations' },
+  { type: NodeType.Video, field: 'promptSchema', folder: 'specs/videos' },
+];
+
+const decoder = new TextDecoder();
+
+export const bundleFileName = (name: string) => `${slugify(name) || 'storyboard'}.storyboard.zip`;
+
+// Las imágenes viajan con sus bytes originales: re-codificarlas cambiaría su hash (img:<sha256>)
+// y con él los sellos de entrada de los nodos que las usan.
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+};
+
+const extensionFor = (mimeType: string) => IMAGE_EXTENSIONS[mimeType] || mimeType.split('/')[1] || 'png';
+
+const mimeTypeFromPath = (path: string) => {
+  const ext = path.split('.').pop()?.toLowerCase() || 'png';
+  return Object.entries(IMAGE_EXTENSIONS).find(([, known]) => known === ext)?.[0] || `image/${ext}`;
+};
+
+export const exportProjectBundle = async (graph: Pick<Graph, 'name' | 'nodes' | 'connections'>): Promise<Blob> => {
+  const entries: ZipEntry[] = [];
+  const images: Record<string, string> = {};
+
+  for (const ref of collectImageRefs(graph.nodes)) {
+    const src = await resolveImage(ref);
+    if (!src) {
+      console.warn(`⚠️ Bundle: image ${ref} not found, the reference is kept without a file`);
+      continue;
+    }
+    const [meta, data] = src.split(',');
+    const mimeType = meta.split(':')[1]?.split(';')[0] || 'image/png';
+    const path = `images/${ref.replace(/^img:/, '').slice(0, 32)}.${extensionFor(mimeType)}`;
+    entries.push({ name: path, data: base64ToBytes(data) });
+    images[ref] = path;
+  }
+
+  const files: DetachedFile[] = [];
+  const nodes = graph.nodes.map(node => {
+    const data: Record<string, any> = { ...node.data };
+    DETACHED_FIELDS.filter(d => d.type === node.type && data[d.field]).forEach(({ field, folder }) => {
+      const path = `${folder}/${node.id}.json`;
+      entries.push({ name: path, data: JSON.stringify(data[field], null, 2) });
+      files.push({ nodeId: node.id, field, path });
+      delete data[field];
+    });
+    return { ...node, data } as Node;
+  });
+
+  const manifest: BundleManifest = {
+    format: BUNDLE_FORMAT,
+    bundleVersion: BUNDLE_VERSION,
+    schemaVersion: CURRENT_SCHEMA_VERSION,
+    name: graph.name,
+    exportedAt: new Date().toISOString(),
+    nodes,
+    connections: graph.connections,
+    images,
+    files,
+  };
+
+  return new Blob([buildZip([{ name: MANIFEST_PATH, data: JSON.stringify(manifest, null, 2) }, ...entries])], { type: 'application/zip' });
+};
+
+/**
+ * Unpacks a bundle: stores its images (new refs replace the bundle ones) and re-attaches the
+ * detached JSON files. The returned graph still has to go through migrateGraph.
+ */
+export const readProjectBundle = async (file: Blob): Promise<ImportedProject> => {
+  const zip = await readZip(new Uint8Array(await file.arrayBuffer()));
+  const manifestBytes = zip.get(MANIFEST_PATH);
+  if (!manifestBytes) throw new Error('The zip has no manifest.json: it is not a storyboard bundle.');
+
+  const manifest = JSON.parse(decoder.decode(manifestBytes)) as BundleManifest;
+  if (manifest.format !== BUNDLE_FORMAT || !Array.isArray(manifest.nodes) || !Array.isArray(manifest.connections)) {
+    throw new Error('manifest.json is not a storyboard bundle manifest.');
+  }
+  if (manifest.bundleVersion > BUNDLE_VERSION) {
+    throw new Error(`This bundle was written by a newer version of the app (bundle v${manifest.bundleVersion}).`);
+  }
+
+  const refMap = new Map<string, string>();
+  for (const [ref, path] of Object.entries(manifest.images || {})) {
+    const bytes = zip.get(path);
+    if (!bytes) {
+      console.warn(`⚠️ Bundle: ${path} missing, ${ref} will not resolve`);
+      continue;
+    }
+    refMap.set(ref, await storeImage(`data:${mimeTypeFromPath(path)};base64,${bytesToBase64(bytes)}`));
+  }
+
+  const attached = manifest.nodes.map(node => {
+    const detached = (manifest.files || []).filter(f => f.nodeId === node.id);
+    if (detached.length === 0) return node;
+    const data: Record<string, any> = { ...node.data };
+    detached.forEach(({ field, path }) => {
+      const bytes = zip.get(path);
+      if (bytes) data[field] = JSON.parse(decoder.decode(bytes));
+      else console.warn(`⚠️ Bundle: ${path} missing, ${field} dropped`);
+    });
+    return { ...node, data } as Node;
+  });
+  const nodes = await Promise.all(attached.map(node => mapNodeImages(node, async value => refMap.get(value) || value)));
+
+  return {
+    name: manifest.name,
+    graph: { schemaVersion: manifest.schemaVersion, nodes, connections: manifest.connections },
+  };
+};
+
+export const isBundleFile = (file: File) => /\.zip$/i.test(file.name) || file.type === 'application/zip';
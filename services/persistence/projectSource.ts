@@ -0,0 +1,53 @@
+import { Node, Connection } from '../../types/graph';
+import { migrateGraph, hasMigrationNotes, MigrationReport } from './migrations';
+import { readProjectBundle, isBundleFile, ImportedProject } from './projectBundle';
+import { loadProject } from './db';
+import { preloadImages } from './imageStore';
+import { externalizeGraphImages, collectImageRefs } from '../../utils/imageRefs';
+
+/**
+ * A graph read from outside the canvas (a file or another stored project), already migrated
+ * to the current schema with its images in the store, ready to be opened or merged.
+ */
+export interface ProjectSource {
+  label: string; // File name or "Project: <name>"
+  name: string;
+  nodes: Node[];
+  connections: Connection[];
+  report: MigrationReport | null; // Solo si hubo algo que actualizar
+}
+
+const nameFromFile = (fileName: string) => fileName.replace(/(\.storyboard)?\.(zip|json)$/i, '') || 'Imported Storyboard';
+
+const prepare = async (label: string, imported: ImportedProject): Promise<ProjectSource> => {
+  const { graph: migrated, report } = await migrateGraph(imported.graph);
+  // Los .json exportados llevan las imágenes embebidas aunque ya estén en el esquema actual.
+  const externalized = await externalizeGraphImages(migrated);
+  await preloadImages(collectImageRefs(externalized.nodes));
+  return {
+    label,
+    name: imported.name,
+    nodes: externalized.nodes,
+    connections: externalized.connections,
+    report: hasMigrationNotes(report) ? report : null,
+  };
+};
+
+/**
+ * Reads a project bundle (.zip) or a legacy .json export.
+ */
+export const readProjectFile = async (file: File): Promise<ProjectSource> => {
+  if (isBundleFile(file)) {
+    const bundle = await readProjectBundle(file);
+    return prepare(file.name, { ...bundle, name: bundle.name || nameFromFile(file.name) });
+  }
+  const raw = JSON.parse(await file.text());
+  if (!Array.isArray(raw?.nodes) || !Array.isArray(raw?.connections)) throw new Error('Invalid JSON file format.');
+  return prepare(file.name, { name: raw.name || nameFromFile(file.name), graph: raw });
+};
+
+export const readStoredProject = async (id: string): Promise<ProjectSource> => {
+  const stored = await loadProject(id);
+  if (!stored) throw new Error(`Project not found: ${id}`);
+  return prepare(`Project: ${stored.name}`, { name: stored.name, graph: stored });
+};
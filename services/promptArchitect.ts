@@ -1,17 +1,23 @@
 
-import { GoogleGenAI } from "@google/genai";
-import { CinematicPrompt, SceneEntity, CompositionElement, CinematicJSON, CharacterPassport, SettingPassport } from "../types/cinematicSchema";
-import { CharacterData, SettingData } from "../types/graph";
+import { completeJson, analyzeImage, isProviderConfigured, toImageInput, ImageInput, ResponseSchemaName } from "./providers";
+import { CinematicPrompt, SceneEntity, CompositionElement, CinematicJSON, CharacterPassport, SettingPassport, ScriptBreakdown } from "../types/cinematicSchema";
+import { Node, CharacterData, SettingData, SceneBlocking, CastBlocking } from "../types/graph";
+import { castMemberId } from "../utils/sceneCast";
+import { SHOT_SIZES } from "../utils/sceneBlocking";
 import { safeJsonParse } from "../utils/jsonRepair";
+import { requestValidatedJson, AICallContext, SchemaValidationError } from "./aiResponse";
+import { CacheableRequest } from "./responseCache";
 
 const SCHEMA_DEFINITION = `
 interface CinematicJSON {
-  subjects: {
-    main_subject: string;
+  subjects: Array<{
+    character_id: string; // "cast_1", "cast_2"... for cast members, "" for anyone else
+    description: string;
     clothing_details: string;
     action_pose: string;
     expression_mood: string;
-  };
+    screen_position?: string; // Where they stand in frame: "left", "center", "background"...
+  }>;
   scene_globals: {
     description: string;
     mood: string;
@@ -61,51 +67,54 @@ interface CompositionElement {
 }
 `;
 
-// Helper to prepare content parts with optional image
-const prepareContent = (text: string, imageBase64?: string) => {
-    const parts: any[] = [{ text }];
-    if (imageBase64 && imageBase64.includes(',')) {
-        const [meta, data] = imageBase64.split(',');
-        const mimeType = meta.split(':')[1].split(';')[0];
-        parts.push({ inlineData: { data, mimeType } });
-    }
-    return parts;
-};
+// Helper: only data URLs carry a reliable mime type, so those are the only images attached
+const prepareImages = (imageBase64?: string): ImageInput[] =>
+    imageBase64 && imageBase64.includes(',') ? [toImageInput(imageBase64)] : [];
 
-export const enrichCharacter = async (name: string, description: string, imageBase64?: string): Promise<SceneEntity | null> => {
-    if (!process.env.API_KEY) return null;
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+// JSON request that switches to the vision model only when there is an image to look at
+const requestJson = (prompt: string, images: ImageInput[], systemInstruction: string, schema: ResponseSchemaName) =>
+    images.length > 0
+        ? analyzeImage({ prompt, images, systemInstruction, schema })
+        : completeJson({ prompt, systemInstruction, schema });
+
+// Cache descriptor matching requestJson (same model switch)
+const cacheFor = (images: ImageInput[], systemInstruction?: string): CacheableRequest =>
+    ({ task: images.length > 0 ? 'vision' : 'text', images, systemInstruction });
+
+export const enrichCharacter = async (name: string, description: string, imageBase64?: string, ctx?: AICallContext): Promise<SceneEntity | null> => {
+    if (!isProviderConfigured()) return null;
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: prepareContent(`Analyze this character description (and image if provided) and return a JSON object matching the SceneEntity schema. Name: ${name}. Description: ${description}`, imageBase64) },
-            config: {
-                systemInstruction: `You are a Character Artist AI. Output VALID JSON only. Schema: ${ENTITY_SCHEMA}`,
-                responseMimeType: 'application/json',
-            }
-        });
-        return safeJsonParse<SceneEntity>(response.text, {} as SceneEntity);
+        const images = prepareImages(imageBase64);
+        const systemInstruction = `You are a Character Artist AI. Output VALID JSON only. Schema: ${ENTITY_SCHEMA}`;
+        return await requestValidatedJson<SceneEntity>(
+            'SceneEntity',
+            `Analyze this character description (and image if provided) and return a JSON object matching the SceneEntity schema. Name: ${name}. Description: ${description}`,
+            p => requestJson(p, images, systemInstruction, 'SceneEntity'),
+            ctx,
+            cacheFor(images, systemInstruction)
+        );
     } catch (e) {
         console.error("Character enrichment failed:", e);
         return null;
     }
 };
 
-export const enrichSetting = async (description: string, imageBase64?: string): Promise<CompositionElement | null> => {
-    if (!process.env.API_KEY) return null;
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const enrichSetting = async (description: string, imageBase64?: string, ctx?: AICallContext): Promise<CompositionElement | null> => {
+    if (!isProviderConfigured()) return null;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: prepareContent(`Analyze this setting description (and image if provided) and return a JSON object matching the CompositionElement schema. Description: ${description}`, imageBase64) },
-            config: {
-                systemInstruction: `You are a Environment Artist AI. Output VALID JSON only. Schema: ${SETTING_SCHEMA}`,
-                responseMimeType: 'application/json',
-            }
-        });
-        return safeJsonParse<CompositionElement>(response.text, {} as CompositionElement);
+        const images = prepareImages(imageBase64);
+        const systemInstruction = `You are a Environment Artist AI. Output VALID JSON only. Schema: ${SETTING_SCHEMA}`;
+        // CompositionElement no tiene esquema de validación: solo se repara la sintaxis
+        const element = await requestValidatedJson<CompositionElement | undefined>(
+            'CompositionElement',
+            `Analyze this setting description (and image if provided) and return a JSON object matching the CompositionElement schema. Description: ${description}`,
+            p => requestJson(p, images, systemInstruction, 'CompositionElement'),
+            ctx,
+            cacheFor(images, systemInstruction)
+        );
+        return element ?? ({} as CompositionElement);
     } catch (e) {
         console.error("Setting enrichment failed:", e);
         return null;
@@ -113,12 +122,10 @@ export const enrichSetting = async (description: string, imageBase64?: string):
 };
 
 export const enrichSceneDescription = async (userDescription: string): Promise<Partial<CinematicPrompt>> => {
-  if (!process.env.API_KEY) {
+  if (!isProviderConfigured()) {
     console.error("API Key is missing");
     return {};
   }
-  
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
 
   // NOTE: This function returns Partial<CinematicPrompt> for legacy support, 
   // but fetchCinematicSpec below uses the new CinematicJSON.
@@ -127,16 +134,7 @@ export const enrichSceneDescription = async (userDescription: string): Promise<P
   const systemInstruction = `You are a Cinematographer AI. Analyze the user's scene description and output a VALID JSON object.`;
 
   try {
-    const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash', 
-      contents: userDescription,
-      config: {
-        systemInstruction: systemInstruction,
-        responseMimeType: "application/json",
-      }
-    });
-
-    const text = response.text;
+    const text = await completeJson({ prompt: userDescription, systemInstruction, schema: 'CinematicPrompt' });
     if (!text) return {};
     
     return safeJsonParse<Partial<CinematicPrompt>>(text, {});
@@ -214,40 +212,127 @@ export const generateCharacterProfilePrompt = (userInput: string): string => {
   `;
 };
 
-export const fetchCharacterPassport = async (description: string): Promise<CharacterPassport | null> => {
-    if (!process.env.API_KEY) return null;
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const fetchCharacterPassport = async (description: string, ctx?: AICallContext): Promise<CharacterPassport | null> => {
+    if (!isProviderConfigured()) return null;
     const prompt = generateCharacterProfilePrompt(description);
     
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [{ text: prompt }] },
-            config: { responseMimeType: 'application/json' }
-        });
-        return safeJsonParse<CharacterPassport>(response.text, {} as CharacterPassport);
+        return await requestValidatedJson<CharacterPassport>(
+            'CharacterPassport',
+            prompt,
+            p => completeJson({ prompt: p, schema: 'CharacterPassport', signal: ctx?.signal }),
+            ctx,
+            cacheFor([])
+        );
     } catch (e) {
         console.error("Character Passport generation failed", e);
+        if (!(e instanceof SchemaValidationError)) throw e; // Provider errors (429...) go to the caller / job queue
         return null;
     }
 };
 
+// What the scene prompt knows about one cast member: identity plus the scene's direction for them
+export interface CastBrief {
+  characterId: string;
+  passport: CharacterPassport;
+  blocking?: CastBlocking;
+}
+
+/**
+ * Briefs for every cast member, generating (and reporting) the passports of those that only have a
+ * text prompt. Members without passport or prompt are skipped.
+ */
+export const resolveCastBriefs = async (
+  cast: Node<CharacterData>[],
+  blocking?: SceneBlocking,
+  onGenerated?: (nodeId: string, passport: CharacterPassport) => void,
+  signal?: AbortSignal
+): Promise<CastBrief[]> => {
+  const briefs = await Promise.all(cast.map(async (member): Promise<CastBrief | null> => {
+    let passport = member.data.characterPassport || null;
+    if (!passport && member.data.prompt) {
+      passport = await fetchCharacterPassport(member.data.prompt, { nodeId: member.id, signal });
+      if (passport) onGenerated?.(member.id, passport);
+    }
+    return passport ? { characterId: member.id, passport, blocking: blocking?.cast?.[member.id] } : null;
+  }));
+  return briefs.filter((b): b is CastBrief => !!b);
+};
+
+// Reference images attached for one cast member (1-based positions in the image list)
+export interface CastReferenceSlot {
+  description: string;
+  face?: number;
+  outfit?: number;
+}
+
+/**
+ * Tells the image model which attached reference belongs to which person, so every cast
+ * member keeps their own identity in multi-character shots.
+ */
+export const buildCastIdentityNote = (slots: CastReferenceSlot[]): string => {
+  const lines = slots
+    .map(slot => {
+      const refs = [
+        slot.face ? `reference image ${slot.face} (face/identity)` : '',
+        slot.outfit ? `reference image ${slot.outfit} (outfit)` : '',
+      ].filter(Boolean);
+      return refs.length > 0 ? `- "${slot.description}": ${refs.join(', ')}` : '';
+    })
+    .filter(Boolean);
+  if (lines.length === 0) return '';
+  return `IDENTITY LOCK: keep each person's face, build and outfit exactly as in their own reference images. Do not blend identities.\n${lines.join('\n')}\n\n`;
+};
+
 /**
  * Construye el Prompt Maestro para convertir texto de guion en JSON Cinematográfico (NUEVO ESQUEMA).
  */
 export const buildScenePrompt = (
   scriptText: string, 
-  characterProfile: CharacterPassport | null,
-  settingProfile: SettingPassport | null 
+  cast: CastBrief[],
+  settingProfile: SettingPassport | null,
+  blocking?: SceneBlocking
 ): string => {
 
-  // 1. LÓGICA DE OVERRIDE DE PERSONAJE
-  const charSection = characterProfile 
+  // 1. LÓGICA DE OVERRIDE DE PERSONAJES (un bloque por miembro del reparto)
+  const clothingFor = ({ passport, blocking }: CastBrief, fallback: string) =>
+    blocking?.wardrobe || passport.visual_dna?.clothing || fallback;
+  const castLines = cast.map((member, i) => `
+      - ${castMemberId(i)}:
+        Description: "${member.passport.description}"
+        Clothing: "${clothingFor(member, "As defined")}"${member.blocking?.wardrobe ? ' (wardrobe override for this scene)' : ''}
+        Face: ${JSON.stringify(member.passport.facialCompositeProfile)}${member.blocking?.action ? `
+        Action: "${member.blocking.action}"` : ''}${member.blocking?.position ? `
+        Screen position: ${member.blocking.position}` : ''}`).join('');
+  const charSection = cast.length > 0
     ? `
-      [[🔴 CRITICAL INSTRUCTION: CHARACTER VISUAL LOCK]]
-      You MUST use the provided Character Profile to populate "subjects".
-      - Main Subject: "${characterProfile.description}"
-      - Clothing: "${characterProfile.visual_dna?.clothing || "As defined"}"
+      [[🔴 CRITICAL INSTRUCTION: CAST VISUAL LOCK]]
+      The scene features ${cast.length === 1 ? 'this character' : `these ${cast.length} characters`}. You MUST add one entry to "subjects" per cast member, in this order, with the given character_id, and keep each identity exactly as described.
+      ${castLines}
+      `
+    : "";
+  const subjectRules = cast.length > 0
+    ? cast.map((member, i) => `
+    - subjects[${i}].character_id -> "${castMemberId(i)}"
+    - subjects[${i}].description -> "${member.passport.description}"
+    - subjects[${i}].clothing_details -> "${clothingFor(member, "Standard")}"${member.blocking?.action ? `
+    - subjects[${i}].action_pose -> "${member.blocking.action}"` : ''}${member.blocking?.position ? `
+    - subjects[${i}].screen_position -> "${member.blocking.position}"` : ''}`).join('')
+    : `
+    - subjects -> Inferred from script (character_id "")`;
+
+  // 1b. BLOCKING: decisiones de producción de la escena (restricciones duras, no inferencias)
+  const blockingRules = [
+    blocking?.shotSize && `- composition.frame_size -> "${blocking.shotSize}"\n      - presentation.camera.shot_type -> "${blocking.shotSize}"`,
+    blocking?.cameraAngle && `- composition.angle -> "${blocking.cameraAngle}"`,
+    blocking?.timeOfDay && `- Time of day: "${blocking.timeOfDay}" (state it in scene_globals.description and match style.lighting to it)`,
+    blocking?.mood && `- scene_globals.mood -> "${blocking.mood}"`,
+  ].filter(Boolean);
+  const blockingSection = blockingRules.length > 0
+    ? `
+      [[🟣 CRITICAL INSTRUCTION: BLOCKING LOCK]]
+      These production decisions are FINAL. Use them verbatim, even if the script action suggests otherwise:
+      ${blockingRules.join('\n      ')}
       `
     : "";
 
@@ -266,19 +351,20 @@ export const buildScenePrompt = (
     
     INPUT CONTEXT:
     - SCRIPT ACTION: "${scriptText}"
-    ${characterProfile ? `- CHARACTER REF: Included` : '- CHARACTER REF: None'}
+    ${cast.length > 0 ? `- CAST REFS: ${cast.length}` : '- CAST REFS: None'}
     ${settingProfile ? `- SETTING REF: Included` : '- SETTING REF: None'}
 
     ${charSection}
     ${settingSection}
+    ${blockingSection}
 
     TASK: Generate the Scene JSON based on the INPUT SCRIPT ACTION.
     
     DATA MAPPING RULES (STRICT):
     1. scene_globals.description -> MUST correspond to "SCRIPT ACTION".
-    2. subjects.main_subject -> "${characterProfile ? characterProfile.description : "Inferred from script"}"
-    3. subjects.clothing_details -> "${characterProfile ? (characterProfile.visual_dna?.clothing || "Standard") : "Inferred"}"
-    4. subjects.action_pose -> Inferred from SCRIPT ACTION.
+    2. subjects (one entry per person):${subjectRules}
+    3. subjects[].action_pose / expression_mood -> Inferred from SCRIPT ACTION unless given above.
+    4. BLOCKING LOCK values (if any) override anything inferred from the script.
     
     OUTPUT FORMAT: JSON ONLY (No markdown).
     
@@ -289,22 +375,25 @@ export const buildScenePrompt = (
 
 export const fetchCinematicSpec = async (
   scriptText: string, 
-  passport: CharacterPassport | null,
-  settingPassport: SettingPassport | null = null
+  cast: CastBrief[],
+  settingPassport: SettingPassport | null = null,
+  blocking?: SceneBlocking,
+  ctx?: AICallContext
 ): Promise<CinematicJSON | null> => {
-    if (!process.env.API_KEY) return null;
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-    const prompt = buildScenePrompt(scriptText, passport, settingPassport);
+    if (!isProviderConfigured()) return null;
+    const prompt = buildScenePrompt(scriptText, cast, settingPassport, blocking);
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [{ text: prompt }] },
-            config: { responseMimeType: 'application/json' }
-        });
-        return safeJsonParse<CinematicJSON>(response.text, {} as CinematicJSON);
+        return await requestValidatedJson<CinematicJSON>(
+            'CinematicJSON',
+            prompt,
+            p => completeJson({ prompt: p, schema: 'CinematicJSON', signal: ctx?.signal }),
+            ctx,
+            cacheFor([])
+        );
     } catch (e) {
          console.error("Cinematic Spec generation failed", e);
+         if (!(e instanceof SchemaValidationError)) throw e; // Provider errors (429...) go to the caller / job queue
          return null;
     }
 };
@@ -315,10 +404,10 @@ export const fetchCinematicSpec = async (
  */
 export const transformCinematicSpec = async (
   sourceJson: CinematicJSON, 
-  modificationPrompt: string
+  modificationPrompt: string,
+  ctx?: AICallContext
 ): Promise<CinematicJSON | null> => {
-    if (!process.env.API_KEY) return null;
-    const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+    if (!isProviderConfigured()) return null;
 
     const prompt = `
     ROLE: Expert Technical Director and JSON Editor.
@@ -345,15 +434,77 @@ export const transformCinematicSpec = async (
     `;
 
     try {
-        const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash',
-            contents: { parts: [{ text: prompt }] },
-            config: { responseMimeType: 'application/json' }
-        });
-        
-        return safeJsonParse<CinematicJSON>(response.text, sourceJson);
+        return await requestValidatedJson<CinematicJSON>(
+            'CinematicJSON',
+            prompt,
+            p => completeJson({ prompt: p, schema: 'CinematicJSON', signal: ctx?.signal }),
+            ctx
+        );
     } catch (e) {
          console.error("Cinematic Transformation failed", e);
+         if (!(e instanceof SchemaValidationError)) throw e; // Provider errors (429...) go to the caller / job queue
+         return null;
+    }
+};
+
+const BREAKDOWN_SCHEMA = `
+interface ScriptBreakdown {
+  scenes: Array<{
+    title: string;        // Short label, e.g. "Maria finds the letter"
+    description: string;  // What the camera sees, written as a self-contained visual description
+    shot_type: string;    // One of the allowed shot types
+    characters: string[]; // Names of the characters visible in the shot
+    location: string;     // Where the shot takes place
+  }>;
+}
+`;
+
+/**
+ * Convierte el texto libre del guion en una lista de planos para el storyboard.
+ * Los nombres de personajes y localizaciones ya existentes se pasan para que el modelo los reutilice.
+ */
+export const fetchScriptBreakdown = async (
+  scriptText: string,
+  known: { characters: string[]; locations: string[] },
+  ctx?: AICallContext
+): Promise<ScriptBreakdown | null> => {
+    if (!isProviderConfigured()) return null;
+
+    const prompt = `
+    ROLE: Expert First Assistant Director and Storyboard Artist.
+    TASK: Break down the SCRIPT below into the sequence of shots needed to storyboard it.
+
+    RULES:
+    1. One entry per distinct shot, in story order. Split a paragraph when the camera would cut.
+    2. "description" must stand on its own: who is in frame, what they do, where, and the key visual details. No camera jargon.
+    3. "shot_type" must be one of: ${SHOT_SIZES.join(', ')}.
+    4. "characters" lists only the people visible in the shot. Reuse the KNOWN CHARACTERS names exactly when they appear.
+    5. "location" names the place. Reuse the KNOWN LOCATIONS names exactly when the shot happens there.
+
+    KNOWN CHARACTERS: ${known.characters.join(' | ') || 'none'}
+    KNOWN LOCATIONS: ${known.locations.join(' | ') || 'none'}
+
+    SCRIPT:
+    <<<
+    ${scriptText}
+    >>>
+
+    OUTPUT FORMAT: JSON ONLY (No markdown).
+
+    TARGET JSON SCHEMA (Strict):
+    ${BREAKDOWN_SCHEMA}
+    `;
+
+    try {
+        return await requestValidatedJson<ScriptBreakdown>(
+            'ScriptBreakdown',
+            prompt,
+            p => completeJson({ prompt: p, schema: 'ScriptBreakdown', signal: ctx?.signal }),
+            ctx,
+            cacheFor([])
+        );
+    } catch (e) {
+         console.error("Script breakdown failed", e);
          return null;
     }
 };
@@ -0,0 +1,74 @@
+import { GoogleGenAI, Modality } from "@google/genai";
+import type { Part } from "@google/genai";
+import { AIProvider, ImageInput } from './types';
+
+let client: GoogleGenAI | null = null;
+
+const getClient = (): GoogleGenAI => {
+  if (!process.env.API_KEY) throw new Error("API Key is missing");
+  if (!client) client = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  return client;
+};
+
+const toPart = (image: ImageInput): Part => ({ inlineData: { data: image.data, mimeType: image.mimeType } });
+
+const extractImage = (response: any): string => {
+  if (response.candidates?.[0]?.content?.parts) {
+    for (const part of response.candidates[0].content.parts) {
+      if (part.inlineData) {
+        return part.inlineData.data;
+      }
+    }
+  }
+  throw new Error("No image was generated. The response may have been blocked or the format was unexpected.");
+};
+
+export const geminiProvider: AIProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  models: {
+    text: ['gemini-2.5-flash', 'gemini-2.5-pro', 'gemini-2.5-flash-lite'],
+    vision: ['gemini-2.5-flash', 'gemini-2.5-pro'],
+    image: ['gemini-2.5-flash-image'],
+    imageEdit: ['gemini-2.5-flash-image'],
+  },
+
+  isConfigured: () => !!process.env.API_KEY,
+
+  completeJson: async ({ model, prompt, systemInstruction, signal }) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: { parts: [{ text: prompt }] },
+      config: { systemInstruction, responseMimeType: 'application/json', abortSignal: signal },
+    });
+    return response.text || '';
+  },
+
+  analyzeImage: async ({ model, prompt, systemInstruction, images, signal }) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: { parts: [{ text: prompt }, ...images.map(toPart)] },
+      config: { systemInstruction, responseMimeType: 'application/json', abortSignal: signal },
+    });
+    return response.text || '';
+  },
+
+  generateImage: async ({ model, prompt, systemInstruction, signal }) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: { parts: [{ text: prompt }] },
+      config: { responseModalities: [Modality.IMAGE], systemInstruction, abortSignal: signal },
+    });
+    return extractImage(response);
+  },
+
+  // Las imágenes de referencia van antes del prompt, igual que antes de la abstracción.
+  editImage: async ({ model, prompt, systemInstruction, images, signal }) => {
+    const response = await getClient().models.generateContent({
+      model,
+      contents: { parts: [...images.map(toPart), { text: prompt }] },
+      config: { responseModalities: [Modality.IMAGE], systemInstruction, abortSignal: signal },
+    });
+    return extractImage(response);
+  },
+};
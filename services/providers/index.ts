@@ -0,0 +1,127 @@
+import {
+  AIProvider,
+  ProviderTask,
+  ImageInput,
+  JsonCompletionRequest,
+  VisionAnalysisRequest,
+  ImageGenerationRequest,
+  ImageEditRequest,
+} from './types';
+import { geminiProvider } from './geminiProvider';
+import { mockProvider } from './mockProvider';
+
+export * from './types';
+
+const SETTINGS_KEY = 'storyboard.aiProvider';
+
+interface ProviderSettings {
+  providerId: string;
+  models: Partial<Record<string, Partial<Record<ProviderTask, string>>>>; // providerId -> task -> model
+}
+
+const registry = new Map<string, AIProvider>();
+
+const readSettings = (): ProviderSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (raw) return { providerId: 'gemini', models: {}, ...JSON.parse(raw) };
+  } catch (e) {
+    console.warn("⚠️ Could not read AI provider settings:", e);
+  }
+  return { providerId: 'gemini', models: {} };
+};
+
+let settings: ProviderSettings = readSettings();
+
+const writeSettings = (next: ProviderSettings) => {
+  settings = next;
+  try {
+    localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+  } catch (e) {
+    console.warn("⚠️ Could not persist AI provider settings:", e);
+  }
+};
+
+export const registerProvider = (provider: AIProvider) => {
+  registry.set(provider.id, provider);
+};
+
+registerProvider(geminiProvider);
+registerProvider(mockProvider);
+
+// `?provider=mock` forces a backend for this tab only (automated tests, demos) without touching saved settings.
+const urlOverride = (): string | null => {
+  try {
+    return new URLSearchParams(window.location.search).get('provider');
+  } catch {
+    return null;
+  }
+};
+
+export const getProviders = (): AIProvider[] => Array.from(registry.values());
+
+export const getActiveProvider = (): AIProvider => {
+  const override = urlOverride();
+  return (override && registry.get(override)) || registry.get(settings.providerId) || geminiProvider;
+};
+
+export const isProviderOverridden = (): boolean => {
+  const override = urlOverride();
+  return !!override && registry.has(override);
+};
+
+export const setActiveProvider = (providerId: string) => {
+  if (!registry.has(providerId)) throw new Error(`Unknown AI provider: ${providerId}`);
+  writeSettings({ ...settings, providerId });
+  console.log(`🔌 AI provider switched to ${providerId}`);
+};
+
+/**
+ * Model used for a task on the given provider (user override or the provider default).
+ */
+export const getModelFor = (task: ProviderTask, provider: AIProvider = getActiveProvider()): string =>
+  settings.models[provider.id]?.[task] || provider.models[task][0];
+
+export const setModelFor = (task: ProviderTask, model: string, providerId: string = getActiveProvider().id) => {
+  const current = settings.models[providerId] || {};
+  const trimmed = model.trim();
+  const next = { ...current, [task]: trimmed || undefined };
+  writeSettings({ ...settings, models: { ...settings.models, [providerId]: next } });
+};
+
+/**
+ * Converts a data URL or raw base64 string into a provider image input.
+ */
+export const toImageInput = (base64Data: string, fallbackMimeType = 'image/png'): ImageInput => {
+  if (base64Data.startsWith('data:')) {
+    const [meta, data] = base64Data.split(',');
+    return { data: data || '', mimeType: meta.split(':')[1]?.split(';')[0] || fallbackMimeType };
+  }
+  return { data: base64Data, mimeType: fallbackMimeType };
+};
+
+// --- Task shortcuts: resolve provider + model on every call so settings apply immediately ---
+
+type Request<T> = Omit<T, 'model'>;
+
+export const completeJson = (request: Request<JsonCompletionRequest>) => {
+  const provider = getActiveProvider();
+  return provider.completeJson({ ...request, model: getModelFor('text', provider) });
+};
+
+export const analyzeImage = (request: Request<VisionAnalysisRequest>) => {
+  const provider = getActiveProvider();
+  return provider.analyzeImage({ ...request, model: getModelFor('vision', provider) });
+};
+
+export const generateImage = (request: Request<ImageGenerationRequest>) => {
+  const provider = getActiveProvider();
+  return provider.generateImage({ ...request, model: getModelFor('image', provider) });
+};
+
+export const editImage = (request: Request<ImageEditRequest>) => {
+  const provider = getActiveProvider();
+  return provider.editImage({ ...request, model: getModelFor('imageEdit', provider) });
+};
+
+export const isProviderConfigured = () => getActiveProvider().isConfigured();
@@ -0,0 +1,98 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { mockProvider } from './mockProvider';
+import { setActiveProvider, getActiveProvider } from './index';
+import { generateCharacterProfilePrompt, fetchCharacterPassport, fetchScriptBreakdown, fetchCinematicSpec, transformCinematicSpec, CastBrief } from '../promptArchitect';
+import { generateSceneImage, generateVeoPrompt } from '../geminiService';
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const isPng = (base64: string) => PNG_SIGNATURE.every((byte, i) => Buffer.from(base64, 'base64')[i] === byte);
+
+const request = { model: 'mock-json', prompt: 'A lighthouse in a storm' };
+
+describe('mockProvider', () => {
+  it('answers the same request with the same JSON', async () => {
+    const [first, second] = await Promise.all([
+      mockProvider.completeJson({ ...request, schema: 'CinematicJSON' }),
+      mockProvider.completeJson({ ...request, schema: 'CinematicJSON' }),
+    ]);
+    expect(first).toBe(second);
+    expect(JSON.parse(first).scene_globals.description).toBeTruthy();
+  });
+
+  it('builds the requested schema from the prompt', async () => {
+    const prompt = generateCharacterProfilePrompt('A young courier with short red hair');
+    const passport = JSON.parse(await mockProvider.completeJson({ model: 'mock-json', prompt, schema: 'CharacterPassport' }));
+    expect(passport.description).toBe('A young courier with short red hair');
+    expect(passport.facialCompositeProfile.eyes.color).toBeTruthy();
+  });
+
+  it('renders a different placeholder PNG per prompt and per reference image', async () => {
+    const frame = await mockProvider.generateImage({ model: 'mock-image', prompt: 'Sunrise' });
+    const other = await mockProvider.generateImage({ model: 'mock-image', prompt: 'Sunset' });
+    const edited = await mockProvider.editImage({ model: 'mock-image', prompt: 'Sunrise', images: [{ data: frame, mimeType: 'image/png' }] });
+    expect([frame, other, edited].every(isPng)).toBe(true);
+    expect(new Set([frame, other, edited]).size).toBe(3);
+  });
+});
+
+const SCRIPT = `Maria finds the letter under the door of her flat.
+
+Maria runs down the stairs into the rainy street.`;
+
+/**
+ * Character → Script → Image → Transformation → Video through the same service calls the
+ * nodes use, with the offline mock provider.
+ */
+describe('mock provider pipeline', () => {
+  beforeAll(() => {
+    setActiveProvider('mock');
+  });
+
+  it('is the active provider', () => {
+    expect(getActiveProvider().id).toBe('mock');
+  });
+
+  it('runs Character → Script → Image → Transformation → Video', async () => {
+    // Character
+    const passport = await fetchCharacterPassport('A young courier with short red hair');
+    expect(passport?.description).toBe('A young courier with short red hair');
+    expect(passport?.facialCompositeProfile.eyes.color).toBeTruthy();
+
+    // Script: one shot per paragraph, known characters reused by name
+    const breakdown = await fetchScriptBreakdown(SCRIPT, { characters: ['Maria'], locations: [] });
+    expect(breakdown?.scenes).toHaveLength(2);
+    expect(breakdown!.scenes[0].characters).toEqual(['Maria']);
+
+    // Image: the cast lock and the blocking reach the spec
+    const cast: CastBrief[] = [{ characterId: 'character-1', passport: passport!, blocking: { position: 'left' } }];
+    const spec = await fetchCinematicSpec(breakdown!.scenes[0].description, cast, null, { shotSize: 'Close-up' });
+    expect(spec?.subjects).toHaveLength(1);
+    expect(spec!.subjects[0]).toMatchObject({ character_id: 'cast_1', description: passport!.description, screen_position: 'left' });
+    expect(spec!.composition.frame_size).toBe('Close-up');
+
+    const frame = await generateSceneImage({ prompt: JSON.stringify(spec) });
+    expect(isPng(frame)).toBe(true);
+
+    // Transformation: the source spec is kept and the change recorded
+    const transformed = await transformCinematicSpec(spec!, 'make it night');
+    expect(transformed?.subjects).toEqual(spec!.subjects);
+    expect(transformed!.scene_globals.description).toContain('[make it night]');
+
+    const editedFrame = await generateSceneImage({ prompt: JSON.stringify(transformed), images: [`data:image/png;base64,${frame}`] });
+    expect(isPng(editedFrame)).toBe(true);
+    expect(editedFrame).not.toBe(frame);
+
+    // Video: one sequence event per timeline segment
+    const video = await generateVeoPrompt(frame, editedFrame, 6, ['Maria reads the letter', 'Night falls']);
+    expect(video?.output_specifications.duration_seconds).toBe(6);
+    expect(video!.sequence.map(s => [s.start_time, s.end_time])).toEqual([['0.0s', '3.0s'], ['3.0s', '6.0s']]);
+  });
+
+  it('rejects a cancelled transformation instead of returning null', async () => {
+    const spec = await fetchCinematicSpec('A lighthouse in a storm', []);
+    const controller = new AbortController();
+    controller.abort();
+    await expect(transformCinematicSpec(spec!, 'add fog', { signal: controller.signal })).rejects.toMatchObject({ name: 'AbortError' });
+  });
+});
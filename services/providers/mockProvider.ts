@@ -0,0 +1,329 @@
+import { AIProvider, ImageInput, ResponseSchemaName } from './types';
+import { CharacterPassport, SettingPassport, CinematicJSON, CinematicPrompt, SceneEntity, CompositionElement, ScriptBreakdown } from '../../types/cinematicSchema';
+import { VideoPrompt } from '../../types/videoSchema';
+import { hashString, createRng, pick } from '../../utils/hash';
+import { encodePng, bytesToBase64 } from '../../utils/png';
+
+/**
+ * Offline stand-in for a real backend. Every answer is derived from a hash of the request
+ * (prompt + images + schema), so the same inputs always produce the same passports, specs
+ * and placeholder frames — useful for development without an API key and for automated tests.
+ */
+
+const MOCK_LATENCY_MS = 250;
+
+const SHOT_SIZES = ['Wide Shot', 'Medium Shot', 'Close-up', 'Medium Close-up', 'Extreme Wide Shot'] as const;
+const ANGLES = ['Eye Level', 'Low Angle', 'High Angle', 'Dutch Angle'] as const;
+const DEPTHS = ['Shallow Focus', 'Deep Focus'] as const;
+const LENSES = ['24mm', '35mm', '50mm', '85mm'] as const;
+const APERTURES = ['f/1.8', 'f/2.8', 'f/4', 'f/8'] as const;
+const STYLES = ['Cinematic Noir', 'Naturalistic Drama', 'Neo-Western', 'Cyberpunk', 'Pastel Indie'] as const;
+const MOODS = ['Tense', 'Melancholic', 'Hopeful', 'Mysterious', 'Serene'] as const;
+const LIGHTING = ['Low-key hard light', 'Soft diffused daylight', 'Neon practicals', 'Golden hour backlight'] as const;
+const COLORS = ['teal', 'amber', 'crimson', 'slate grey', 'ochre', 'ivory', 'deep blue'] as const;
+const FACE_SHAPES = ['Oval', 'Square', 'Heart', 'Round'] as const;
+const SKIN_TONES = ['Fair with cool undertones', 'Olive', 'Warm brown', 'Deep ebony'] as const;
+const EYE_COLORS = ['Brown', 'Hazel', 'Green', 'Blue'] as const;
+const LOCATIONS = ['Rain-soaked alley', 'Abandoned warehouse', 'Sunlit kitchen', 'Forest clearing', 'Rooftop at night'] as const;
+const MOVEMENTS = ['Slow push in', 'Pan right', 'Static', 'Handheld follow', 'Crane up'] as const;
+
+const delay = async (signal?: AbortSignal) => {
+  await new Promise(resolve => setTimeout(resolve, MOCK_LATENCY_MS));
+  signal?.throwIfAborted();
+};
+
+// Hashing the whole base64 payload is cheap enough and keeps different images apart.
+const seedFor = (parts: (string | undefined)[], images: ImageInput[] = []) =>
+  hashString([...parts, ...images.map(img => img.data)].join('\u0000'));
+
+const extract = (prompt: string, pattern: RegExp): string | undefined => prompt.match(pattern)?.[1]?.trim() || undefined;
+
+const palette = (rng: () => number) => [pick(rng, COLORS), pick(rng, COLORS)];
+
+// --- Schema builders ---
+
+const mockCharacterPassport = (prompt: string, rng: () => number): CharacterPassport => {
+  const input = extract(prompt, /character description or input:\s*"([^"]*)"/);
+  return {
+    character_id: 'main_actor',
+    description: input || `A ${pick(rng, MOODS).toLowerCase()} figure in their ${20 + Math.floor(rng() * 40)}s`,
+    facialCompositeProfile: {
+      faceShape: pick(rng, FACE_SHAPES),
+      skinTone: pick(rng, SKIN_TONES),
+      forehead: pick(rng, ['High, broad', 'Narrow', 'Medium']),
+      eyebrows: { shape: pick(rng, ['Arched', 'Straight', 'Rounded']), density: pick(rng, ['Thick', 'Medium', 'Sparse']) },
+      eyes: { color: pick(rng, EYE_COLORS), shape: pick(rng, ['Almond', 'Round', 'Hooded']) },
+      nose: { shape: pick(rng, ['Straight', 'Aquiline', 'Button']), size: pick(rng, ['Small', 'Medium', 'Large']) },
+      mouth: { shape: pick(rng, ['Full', 'Thin', 'Wide']), expression: pick(rng, ['Neutral', 'Slight smile', 'Tense']) },
+    },
+    visual_dna: {
+      body: pick(rng, ['Lean, athletic build', 'Stocky, broad-shouldered', 'Tall and slender']),
+      clothing: `${pick(rng, COLORS)} ${pick(rng, ['trench coat', 'leather jacket', 'wool sweater', 'linen shirt'])}`,
+    },
+  };
+};
+
+const mockSettingPassport = (rng: () => number): SettingPassport => {
+  const [dominant, accents] = palette(rng);
+  return {
+    scene_description: pick(rng, LOCATIONS),
+    style: {
+      visual_style: pick(rng, STYLES),
+      lighting: { type: pick(rng, LIGHTING), mood: pick(rng, MOODS) },
+      color_palette: { dominant, accents },
+    },
+  };
+};
+
+const baseCinematicJson = (rng: () => number): CinematicJSON => {
+  const shot = pick(rng, SHOT_SIZES);
+  return {
+    subjects: [{
+      character_id: '',
+      description: 'A lone figure',
+      clothing_details: `${pick(rng, COLORS)} coat`,
+      action_pose: pick(rng, ['Standing still', 'Walking towards camera', 'Looking over shoulder']),
+      expression_mood: pick(rng, MOODS),
+    }],
+    scene_globals: {
+      description: pick(rng, LOCATIONS),
+      mood: pick(rng, MOODS),
+    },
+    composition: {
+      frame_size: shot,
+      depth_of_field: pick(rng, DEPTHS),
+      angle: pick(rng, ANGLES),
+      foreground: { description: pick(rng, ['Rain drops on the lens', 'Out-of-focus railing', 'Empty']) },
+      background: { description: pick(rng, ['City lights', 'Dense trees', 'Brick wall']) },
+    },
+    style: {
+      visual_style: pick(rng, STYLES),
+      color_palette: { dominant: palette(rng), accents: [pick(rng, COLORS)] },
+      lighting: { type: pick(rng, LIGHTING), mood: pick(rng, MOODS) },
+    },
+    presentation: {
+      camera: { lens_focal_length: pick(rng, LENSES), aperture: pick(rng, APERTURES), shot_type: shot },
+    },
+  };
+};
+
+const mockCinematicJson = (prompt: string, rng: () => number): CinematicJSON => {
+  const spec = baseCinematicJson(rng);
+
+  // Transformation: start from the SOURCE JSON and record the requested change
+  const source = extract(prompt, /SOURCE JSON:\s*(\{[\s\S]*?\})\s*MODIFICATION PROMPT:/);
+  if (source) {
+    try {
+      const parsed = JSON.parse(source) as CinematicJSON;
+      const modification = extract(prompt, /MODIFICATION PROMPT:\s*"([\s\S]*?)"/) || '';
+      return {
+        ...parsed,
+        scene_globals: {
+          ...parsed.scene_globals,
+          description: `${parsed.scene_globals?.description || ''} [${modification}]`.trim(),
+        },
+      };
+    } catch {
+      // JSON fuente ilegible: devolvemos una especificación nueva
+    }
+  }
+
+  // Scene spec: honour the script action and the cast lock (one subject per cast member)
+  spec.scene_globals.description = extract(prompt, /SCRIPT ACTION:\s*"([^"]*)"/) || spec.scene_globals.description;
+  const castIds = Array.from(prompt.matchAll(/subjects\[(\d+)\]\.character_id -> "([^"]*)"/g));
+  if (castIds.length > 0) {
+    const [template] = spec.subjects;
+    spec.subjects = castIds.map(([, index, characterId]) => ({
+      ...template,
+      character_id: characterId,
+      description: extract(prompt, new RegExp(`subjects\\[${index}\\]\\.description -> "([^"]*)"`)) || template.description,
+      clothing_details: extract(prompt, new RegExp(`subjects\\[${index}\\]\\.clothing_details -> "([^"]*)"`)) || template.clothing_details,
+      action_pose: extract(prompt, new RegExp(`subjects\\[${index}\\]\\.action_pose -> "([^"]*)"`)) || template.action_pose,
+      screen_position: extract(prompt, new RegExp(`subjects\\[${index}\\]\\.screen_position -> "([^"]*)"`)),
+    }));
+  }
+
+  // Blocking lock: shot, angle and mood are taken verbatim
+  const shot = extract(prompt, /composition\.frame_size -> "([^"]*)"/);
+  if (shot) spec.composition.frame_size = spec.presentation.camera.shot_type = shot;
+  spec.composition.angle = extract(prompt, /composition\.angle -> "([^"]*)"/) || spec.composition.angle;
+  spec.scene_globals.mood = extract(prompt, /scene_globals\.mood -> "([^"]*)"/) || spec.scene_globals.mood;
+  return spec;
+};
+
+const mockLegacyCinematicPrompt = (prompt: string, rng: () => number): CinematicPrompt => ({
+  scene_globals: {
+    lighting: { type: pick(rng, LIGHTING), quality: ['soft'], color_temperature: 'neutral' },
+    atmosphere: pick(rng, MOODS),
+  },
+  composition: [{ description: prompt.slice(0, 120) }],
+  entities: [],
+  presentation: {
+    camera: {
+      lens_focal_length: pick(rng, LENSES),
+      aperture: pick(rng, APERTURES),
+      depth_of_field: pick(rng, DEPTHS),
+      shot_type: pick(rng, SHOT_SIZES),
+      angle: pick(rng, ANGLES),
+      aspect_ratio: '16:9',
+    },
+  },
+});
+
+const mockSceneEntity = (prompt: string, rng: () => number): SceneEntity => ({
+  id: 'character_1',
+  type: 'character',
+  description: extract(prompt, /Description:\s*(.*)$/m) || 'A character',
+  placement_plane: pick(rng, ['foreground', 'midground']),
+  details: {
+    pose: pick(rng, ['Standing', 'Seated', 'Leaning against a wall']),
+    facial_expression: pick(rng, MOODS),
+    clothing: `${pick(rng, COLORS)} jacket`,
+    skin_texture: 'Natural',
+  },
+});
+
+const mockCompositionElement = (prompt: string, rng: () => number): CompositionElement => ({
+  description: extract(prompt, /Description:\s*(.*)$/m) || pick(rng, LOCATIONS),
+  position: pick(rng, ['background', 'midground']),
+  texture: pick(rng, ['Weathered concrete', 'Polished wood', 'Wet asphalt']),
+});
+
+const mockVideoPrompt = (prompt: string, rng: () => number): VideoPrompt => {
+  const duration = Number(extract(prompt, /"duration_seconds":\s*([\d.]+)/)) || 5;
+  const segments = Array.from(prompt.matchAll(/- \[([\d.]+)s - ([\d.]+)s\]:\s*(.*)/g));
+  const sequence = segments.length > 0
+    ? segments.map(([, start, end, text]) => ({
+        start_time: `${start}s`,
+        end_time: `${end}s`,
+        description: text.trim(),
+        actions: [text.trim()],
+      }))
+    : [{ start_time: '0.0s', end_time: `${duration.toFixed(1)}s`, description: 'Continuous shot', actions: [] }];
+
+  return {
+    metadata: { project_name: 'AI Storyboard Shot', version: '1.0', request_id: `MOCK-${Math.floor(rng() * 1e6)}`, model_target: 'veo-3.1-generate-preview' },
+    output_specifications: { duration_seconds: duration, resolution: '1080p', aspect_ratio: '16:9', fps: 24 },
+    assets: [],
+    timeline: { interpolation_mode: 'semantic_aware', keyframes: [] },
+    actors: [{ actor_id: 'main_actor', description: 'A lone figure' }],
+    scene: { location: pick(rng, LOCATIONS), time_of_day: pick(rng, ['Dawn', 'Noon', 'Dusk', 'Night']), weather: pick(rng, ['Clear', 'Rain', 'Fog']) },
+    scene_description: sequence.map(s => s.description).join(' Then '),
+    style: { visual_style: pick(rng, STYLES), lighting: { type: pick(rng, LIGHTING) } },
+    camera: { composition: pick(rng, SHOT_SIZES), camera_movements: [pick(rng, MOVEMENTS)] },
+    sequence,
+    audio_scape: { ambient_sound: [pick(rng, ['Distant traffic', 'Wind', 'Room tone'])], sound_effects: [] },
+    negative_prompts: ['text', 'watermark', 'distortion'],
+  };
+};
+
+// Un plano por párrafo del guion; personajes y localizaciones solo si ya se conocían
+const mockScriptBreakdown = (prompt: string, rng: () => number): ScriptBreakdown => {
+  const script = extract(prompt, /<<<([\s\S]*?)>>>/) || '';
+  const knownList = (label: string) => (extract(prompt, new RegExp(`${label}:\\s*(.*)$`, 'm')) || '')
+    .split('|').map(name => name.trim()).filter(name => name && name !== 'none');
+  const characters = knownList('KNOWN CHARACTERS');
+  const locations = knownList('KNOWN LOCATIONS');
+  const mentions = (text: string, names: string[]) => names.filter(name => text.toLowerCase().includes(name.toLowerCase()));
+
+  const paragraphs = script.split(/\n\s*\n/).map(p => p.replace(/\s+/g, ' ').trim()).filter(Boolean).slice(0, 12);
+  return {
+    scenes: (paragraphs.length > 0 ? paragraphs : ['An establishing shot']).map((text, i) => ({
+      title: `Shot ${i + 1}: ${text.split(' ').slice(0, 5).join(' ')}`,
+      description: text,
+      shot_type: pick(rng, SHOT_SIZES),
+      characters: mentions(text, characters),
+      location: mentions(text, locations)[0] || pick(rng, LOCATIONS),
+    })),
+  };
+};
+
+const buildJson = (schema: ResponseSchemaName | undefined, prompt: string, rng: () => number): unknown => {
+  switch (schema) {
+    case 'CharacterPassport': return mockCharacterPassport(prompt, rng);
+    case 'SettingPassport': return mockSettingPassport(rng);
+    case 'CinematicJSON': return mockCinematicJson(prompt, rng);
+    case 'CinematicPrompt': return mockLegacyCinematicPrompt(prompt, rng);
+    case 'SceneEntity': return mockSceneEntity(prompt, rng);
+    case 'CompositionElement': return mockCompositionElement(prompt, rng);
+    case 'VideoPrompt': return mockVideoPrompt(prompt, rng);
+    case 'ScriptBreakdown': return mockScriptBreakdown(prompt, rng);
+    default: return {};
+  }
+};
+
+// --- Placeholder frames ---
+
+const PLACEHOLDER_WIDTH = 320;
+const PLACEHOLDER_HEIGHT = 180;
+
+const hslToRgb = (h: number, s: number, l: number): [number, number, number] => {
+  const k = (n: number) => (n + h / 30) % 12;
+  const a = s * Math.min(l, 1 - l);
+  const f = (n: number) => l - a * Math.max(-1, Math.min(k(n) - 3, Math.min(9 - k(n), 1)));
+  return [Math.round(f(0) * 255), Math.round(f(8) * 255), Math.round(f(4) * 255)];
+};
+
+/**
+ * Sky/ground gradient with a "subject" disc — different seeds give visibly different frames.
+ */
+const renderPlaceholder = (rng: () => number): string => {
+  const w = PLACEHOLDER_WIDTH, h = PLACEHOLDER_HEIGHT;
+  const hue = rng() * 360;
+  const sky = hslToRgb(hue, 0.55, 0.6);
+  const ground = hslToRgb((hue + 40) % 360, 0.4, 0.25);
+  const subject = hslToRgb((hue + 180) % 360, 0.7, 0.5);
+  const horizon = Math.floor(h * (0.45 + rng() * 0.25));
+  const cx = w * (0.2 + rng() * 0.6), cy = horizon - h * 0.1;
+  const radius = h * (0.12 + rng() * 0.15);
+
+  const rgb = new Uint8Array(w * h * 3);
+  for (let y = 0; y < h; y++) {
+    for (let x = 0; x < w; x++) {
+      const i = (y * w + x) * 3;
+      const inSubject = (x - cx) ** 2 + (y - cy) ** 2 < radius ** 2;
+      const isFrame = x < 2 || y < 2 || x >= w - 2 || y >= h - 2;
+      const shade = y < horizon ? 1 - (y / horizon) * 0.35 : 1;
+      const base = isFrame ? [255, 255, 255] : inSubject ? subject : y < horizon ? sky : ground;
+      rgb[i] = Math.round(base[0] * (inSubject || isFrame ? 1 : shade));
+      rgb[i + 1] = Math.round(base[1] * (inSubject || isFrame ? 1 : shade));
+      rgb[i + 2] = Math.round(base[2] * (inSubject || isFrame ? 1 : shade));
+    }
+  }
+  return bytesToBase64(encodePng(w, h, rgb));
+};
+
+export const mockProvider: AIProvider = {
+  id: 'mock',
+  label: 'Offline Mock (deterministic)',
+  models: {
+    text: ['mock-json'],
+    vision: ['mock-vision'],
+    image: ['mock-image'],
+    imageEdit: ['mock-image'],
+  },
+
+  isConfigured: () => true,
+
+  completeJson: async ({ prompt, systemInstruction, schema, signal }) => {
+    await delay(signal);
+    const rng = createRng(seedFor([schema, systemInstruction, prompt]));
+    return JSON.stringify(buildJson(schema, prompt, rng));
+  },
+
+  analyzeImage: async ({ prompt, systemInstruction, schema, images, signal }) => {
+    await delay(signal);
+    const rng = createRng(seedFor([schema, systemInstruction, prompt], images));
+    return JSON.stringify(buildJson(schema, prompt, rng));
+  },
+
+  generateImage: async ({ prompt, systemInstruction, signal }) => {
+    await delay(signal);
+    return renderPlaceholder(createRng(seedFor([systemInstruction, prompt])));
+  },
+
+  editImage: async ({ prompt, systemInstruction, images, signal }) => {
+    await delay(signal);
+    return renderPlaceholder(createRng(seedFor([systemInstruction, prompt], images)));
+  },
+};
@@ -0,0 +1,65 @@
+/**
+ * Contract every AI backend implements. Services (geminiService, promptArchitect) only talk
+ * to this interface, so node components never know which backend or model is behind a call.
+ */
+
+// Each task can be routed to a different model.
+export type ProviderTask = 'text' | 'vision' | 'image' | 'imageEdit';
+
+export const PROVIDER_TASKS: { task: ProviderTask; label: string; description: string }[] = [
+  { task: 'text', label: 'Text → JSON', description: 'Scene specs, passports from text, transformations' },
+  { task: 'vision', label: 'Vision Analysis', description: 'Character/setting analysis, reverse engineering, video prompts' },
+  { task: 'image', label: 'Image Generation', description: 'Text-to-image (scenes, reference assets)' },
+  { task: 'imageEdit', label: 'Image-to-Image', description: 'Scene generation with reference images' },
+];
+
+export interface ImageInput {
+  data: string; // Raw base64 (no data URL prefix)
+  mimeType: string;
+}
+
+// Name of the JSON shape a request expects. Real backends ignore it; the mock provider uses it
+// to answer with an object of the right type.
+export type ResponseSchemaName =
+  | 'CharacterPassport'
+  | 'SettingPassport'
+  | 'CinematicJSON'
+  | 'CinematicPrompt'
+  | 'SceneEntity'
+  | 'CompositionElement'
+  | 'VideoPrompt'
+  | 'ScriptBreakdown';
+
+interface BaseRequest {
+  model: string;
+  prompt: string;
+  systemInstruction?: string;
+  schema?: ResponseSchemaName;
+  signal?: AbortSignal; // Cancels the request (cancelled queue jobs)
+}
+
+export interface JsonCompletionRequest extends BaseRequest {}
+
+export interface VisionAnalysisRequest extends BaseRequest {
+  images: ImageInput[];
+}
+
+export interface ImageGenerationRequest extends BaseRequest {}
+
+export interface ImageEditRequest extends BaseRequest {
+  images: ImageInput[];
+}
+
+export interface AIProvider {
+  id: string;
+  label: string;
+  // Suggested models per task; the first one is the default.
+  models: Record<ProviderTask, string[]>;
+  isConfigured: () => boolean;
+  // JSON tasks return the raw response text; parsing stays in the services.
+  completeJson: (request: JsonCompletionRequest) => Promise<string>;
+  analyzeImage: (request: VisionAnalysisRequest) => Promise<string>;
+  // Image tasks return raw base64 PNG/JPEG data.
+  generateImage: (request: ImageGenerationRequest) => Promise<string>;
+  editImage: (request: ImageEditRequest) => Promise<string>;
+}
@@ -0,0 +1,84 @@
+import 'fake-indexeddb/auto';
+import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
+import {
+  buildResponseCacheKey, readCachedResponse, writeCachedResponse, invalidateNodeResponses, clearResponseCache, RESPONSE_CACHE_TTL_MS,
+} from './responseCache';
+import { setActiveProvider, setModelFor } from './providers';
+import { getResponseRecord } from './persistence/db';
+
+const TEXT = { task: 'text' } as const;
+
+beforeAll(() => {
+  setActiveProvider('mock');
+});
+
+beforeEach(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {});
+  await clearResponseCache();
+});
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('buildResponseCacheKey', () => {
+  it('is stable for identical requests', async () => {
+    const a = await buildResponseCacheKey('CinematicJSON', 'A lighthouse', TEXT);
+    const b = await buildResponseCacheKey('CinematicJSON', 'A lighthouse', { task: 'text' });
+    expect(a).toEqual(b);
+    expect(a.key).toMatch(/^[0-9a-f]{64}$/);
+    expect(a.model).toBe('mock-json');
+  });
+
+  it('changes with schema, prompt, system instruction, images and model', async () => {
+    const base = (await buildResponseCacheKey('CinematicJSON', 'A lighthouse', TEXT)).key;
+    const variants = await Promise.all([
+      buildResponseCacheKey('SettingPassport', 'A lighthouse', TEXT),
+      buildResponseCacheKey('CinematicJSON', 'A lighthouse at night', TEXT),
+      buildResponseCacheKey('CinematicJSON', 'A lighthouse', { task: 'text', systemInstruction: 'Be brief' }),
+      buildResponseCacheKey('CinematicJSON', 'A lighthouse', { task: 'text', images: [{ data: 'AAAA', mimeType: 'image/png' }] }),
+      buildResponseCacheKey('CinematicJSON', 'A lighthouse', { task: 'text', images: [{ data: 'BBBB', mimeType: 'image/png' }] }),
+    ]);
+    setModelFor('text', 'mock-json-v2');
+    variants.push(await buildResponseCacheKey('CinematicJSON', 'A lighthouse', TEXT));
+    setModelFor('text', '');
+
+    const keys = new Set([base, ...variants.map(v => v.key)]);
+    expect(keys.size).toBe(variants.length + 1);
+  });
+});
+
+describe('response cache', () => {
+  it('answers until the entry expires, then drops it', async () => {
+    const now = Date.now();
+    const clock = vi.spyOn(Date, 'now').mockReturnValue(now);
+    await writeCachedResponse('k1', 'mock-json', '{"a":1}');
+
+    clock.mockReturnValue(now + RESPONSE_CACHE_TTL_MS - 1);
+    expect(await readCachedResponse('k1')).toBe('{"a":1}');
+
+    clock.mockReturnValue(now + RESPONSE_CACHE_TTL_MS + 1);
+    expect(await readCachedResponse('k1')).toBeUndefined();
+    expect(await getResponseRecord('k1')).toBeUndefined();
+  });
+
+  it('links every node that reads an entry, so each one can invalidate it', async () => {
+    await writeCachedResponse('shared', 'mock-json', '{"a":1}', 'node-a');
+    await writeCachedResponse('own', 'mock-json', '{"b":2}', 'node-b');
+    expect(await readCachedResponse('shared', 'node-b')).toBe('{"a":1}');
+    expect((await getResponseRecord('shared'))?.nodeIds).toEqual(['node-a', 'node-b']);
+
+    expect(await invalidateNodeResponses('node-b')).toBe(2);
+    expect(await readCachedResponse('shared')).toBeUndefined();
+    expect(await readCachedResponse('own')).toBeUndefined();
+  });
+
+  it('only drops the entries of the invalidated node', async () => {
+    await writeCachedResponse('a', 'mock-json', '{"a":1}', 'node-a');
+    await writeCachedResponse('b', 'mock-json', '{"b":2}', 'node-b');
+
+    expect(await invalidateNodeResponses('node-a')).toBe(1);
+    expect(await invalidateNodeResponses('node-a')).toBe(0);
+    expect(await readCachedResponse('b')).toBe('{"b":2}');
+  });
+});
@@ -0,0 +1,86 @@
+import { getActiveProvider, getModelFor, ImageInput, ResponseSchemaName } from './providers';
+import { getResponseRecord, putResponseRecord, deleteResponseRecord, deleteResponsesForNode, clearResponseRecords } from './persistence/db';
+
+/**
+ * IndexedDB cache for AI JSON responses. Identical requests (same provider, model, schema,
+ * prompt and images) are answered from the cache until the entry expires, so reconnecting
+ * a cable or reloading the page does not spend quota again.
+ *
+ * Cache failures never break a generation: every helper degrades to "miss".
+ */
+
+export const RESPONSE_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000; // 7 days
+
+// What the caller sends besides the prompt; enough to tell two requests apart
+export interface CacheableRequest {
+  task: 'text' | 'vision';
+  systemInstruction?: string;
+  images?: ImageInput[];
+}
+
+const sha256Hex = async (text: string): Promise<string> => {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text));
+  return Array.from(new Uint8Array(digest)).map(b => b.toString(16).padStart(2, '0')).join('');
+};
+
+export const buildResponseCacheKey = async (
+  schema: ResponseSchemaName,
+  prompt: string,
+  request: CacheableRequest
+): Promise<{ key: string; model: string }> => {
+  const provider = getActiveProvider();
+  const model = getModelFor(request.task, provider);
+  const imageHashes = await Promise.all((request.images || []).map(image => sha256Hex(image.data)));
+  const key = await sha256Hex(JSON.stringify([provider.id, model, schema, request.systemInstruction || '', prompt, imageHashes]));
+  return { key, model };
+};
+
+/**
+ * Cached text for a key, or undefined on miss/expiry. The requesting node is linked to the
+ * entry so its own invalidation also covers responses it reused.
+ */
+export const readCachedResponse = async (key: string, nodeId?: string): Promise<string | undefined> => {
+  try {
+    const record = await getResponseRecord(key);
+    if (!record) return undefined;
+    if (record.expiresAt < Date.now()) {
+      await deleteResponseRecord(key);
+      return undefined;
+    }
+    if (nodeId && !record.nodeIds.includes(nodeId)) {
+      await putResponseRecord({ ...record, nodeIds: [...record.nodeIds, nodeId] });
+    }
+    return record.text;
+  } catch {
+    return undefined;
+  }
+};
+
+export const writeCachedResponse = async (key: string, model: string, text: string, nodeId?: string): Promise<void> => {
+  try {
+    const now = Date.now();
+    await putResponseRecord({
+      key,
+      text,
+      model,
+      nodeIds: nodeId ? [nodeId] : [],
+      createdAt: now,
+      expiresAt: now + RESPONSE_CACHE_TTL_MS,
+    });
+  } catch {
+    // Sin caché (IndexedDB no disponible): la respuesta ya se devolvió igualmente
+  }
+};
+
+/**
+ * Drops every cached response a node used, so its next generation asks the model again.
+ */
+export const invalidateNodeResponses = async (nodeId: string): Promise<number> => {
+  try {
+    return await deleteResponsesForNode(nodeId);
+  } catch {
+    return 0;
+  }
+};
+
+export const clearResponseCache = () => clearResponseRecords();
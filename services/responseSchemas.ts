@@ -0,0 +1,130 @@
+import { FieldSpec, str, requiredStr, num, arr, obj } from '../utils/schemaValidator';
+import { ResponseSchemaName } from './providers';
+
+// Runtime counterparts of the interfaces in types/cinematicSchema.ts and types/videoSchema.ts.
+// Only fields a prompt cannot do without are required; the rest fall back to empty values.
+
+const CinematicJSONSpec = obj({
+  subjects: arr(obj({
+    character_id: str(),
+    description: requiredStr(),
+    clothing_details: str(),
+    action_pose: str(),
+    expression_mood: str(),
+    screen_position: str(),
+  })),
+  scene_globals: obj({
+    description: requiredStr(),
+    mood: str(),
+  }),
+  composition: obj({
+    frame_size: str('Medium Shot'),
+    depth_of_field: str(),
+    angle: str('Eye Level'),
+    foreground: obj({ description: str() }),
+    background: obj({ description: str() }),
+  }),
+  style: obj({
+    visual_style: str(),
+    color_palette: obj({ dominant: arr(str()), accents: arr(str()) }),
+    lighting: obj({ type: str(), mood: str() }),
+  }),
+  presentation: obj({
+    camera: obj({ lens_focal_length: str(), aperture: str(), shot_type: str() }),
+  }),
+});
+
+const CharacterPassportSpec = obj({
+  character_id: str('main_actor'),
+  description: requiredStr(),
+  facialCompositeProfile: obj({
+    faceShape: str(),
+    skinTone: str(),
+    forehead: str(),
+    eyebrows: obj({ shape: str(), density: str() }),
+    eyes: obj({ color: str(), shape: str() }),
+    nose: obj({ shape: str(), size: str() }),
+    mouth: obj({ shape: str(), expression: str() }),
+  }),
+  visual_dna: obj({ body: str(), clothing: str() }, { optional: true }),
+});
+
+const SettingPassportSpec = obj({
+  scene_description: requiredStr(),
+  style: obj({
+    visual_style: str(),
+    lighting: obj({ type: str(), mood: str() }),
+    color_palette: obj({ dominant: str(), accents: str() }),
+  }),
+});
+
+const SceneEntitySpec = obj({
+  id: str('character_1'),
+  type: str('character'),
+  description: requiredStr(),
+  placement_plane: str('midground'),
+  details: obj({
+    pose: str(),
+    facial_expression: str(),
+    clothing: str(),
+    skin_texture: str(),
+  }),
+});
+
+const VideoPromptSpec = obj({
+  metadata: obj({
+    project_name: str('AI Storyboard Shot'),
+    version: str('1.0'),
+    request_id: str(''),
+    model_target: str('veo-3.1-generate-preview'),
+  }),
+  output_specifications: obj({
+    duration_seconds: num(),
+    resolution: str('1080p'),
+    aspect_ratio: str('16:9'),
+    fps: num(24),
+  }),
+  assets: arr(obj({ asset_id: requiredStr(), source_url: str() })),
+  timeline: obj({
+    interpolation_mode: str('semantic_aware'),
+    keyframes: arr(obj({ timestamp: num(), asset_id_ref: requiredStr() })),
+  }),
+  actors: arr(obj({ actor_id: str('main_actor'), description: requiredStr() })),
+  scene: obj({ location: str(), time_of_day: str(), weather: str() }),
+  scene_description: requiredStr(),
+  style: obj({ visual_style: str() }),
+  camera: obj({ composition: str(), camera_movements: arr(str()) }),
+  sequence: arr(
+    obj({
+      start_time: requiredStr(),
+      end_time: requiredStr(),
+      description: requiredStr(),
+      actions: arr(str()),
+    }),
+    { minItems: 1, required: true }
+  ),
+  audio_scape: obj({ ambient_sound: arr(str()), sound_effects: arr(str()) }),
+  negative_prompts: arr(str()),
+});
+
+const ScriptBreakdownSpec = obj({
+  scenes: arr(
+    obj({
+      title: requiredStr(),
+      description: requiredStr(),
+      shot_type: str(),
+      characters: arr(str()),
+      location: str(),
+    }),
+    { minItems: 1, required: true }
+  ),
+});
+
+export const RESPONSE_SCHEMAS: Partial<Record<ResponseSchemaName, FieldSpec>> = {
+  CinematicJSON: CinematicJSONSpec,
+  CharacterPassport: CharacterPassportSpec,
+  SettingPassport: SettingPassportSpec,
+  SceneEntity: SceneEntitySpec,
+  VideoPrompt: VideoPromptSpec,
+  ScriptBreakdown: ScriptBreakdownSpec,
+};
@@ -0,0 +1,202 @@
+import { resolveImage } from './persistence/imageStore';
+import { createPdfDocument, measureText, wrapText, PAGE_SIZES, PdfPage, PdfColor } from '../utils/pdf';
+import { StoryboardPanel, describeShot } from '../utils/storyboardSheet';
+import { base64ToBytes } from '../utils/png';
+
+export type PanelsPerPage = 1 | 2 | 3 | 4 | 6 | 9;
+export const PANELS_PER_PAGE: PanelsPerPage[] = [1, 2, 3, 4, 6, 9];
+
+export const PANEL_ASPECT_RATIOS = [
+  { label: '16:9', value: 16 / 9 },
+  { label: '2.39:1', value: 2.39 },
+  { label: '4:3', value: 4 / 3 },
+  { label: '1:1', value: 1 },
+  { label: '9:16', value: 9 / 16 },
+];
+
+export interface StoryboardPdfOptions {
+  panelsPerPage: PanelsPerPage;
+  aspectRatio: number; // width / height of every panel frame
+  orientation: 'landscape' | 'portrait';
+  pageSize: keyof typeof PAGE_SIZES;
+  includeNotes: boolean;
+}
+
+export const DEFAULT_STORYBOARD_PDF_OPTIONS: StoryboardPdfOptions = {
+  panelsPerPage: 6,
+  aspectRatio: 16 / 9,
+  orientation: 'landscape',
+  pageSize: 'A4',
+  includeNotes: true,
+};
+
+const MARGIN = 36;
+const HEADER_HEIGHT = 28;
+const GUTTER = 14;
+const MAX_IMAGE_EDGE = 1400; // px; enough for print without bloating the file
+
+const GRID: Record<'landscape' | 'portrait', Record<PanelsPerPage, [number, number]>> = {
+  landscape: { 1: [1, 1], 2: [2, 1], 3: [3, 1], 4: [2, 2], 6: [3, 2], 9: [3, 3] },
+  portrait: { 1: [1, 1], 2: [1, 2], 3: [1, 3], 4: [2, 2], 6: [2, 3], 9: [3, 3] },
+};
+
+const loadImageElement = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error('Could not decode image'));
+    img.src = src;
+  });
+
+// Recorta (cover) al aspecto del panel y recodifica a JPEG, el único formato que el PDF incrusta sin descomprimir
+const toPanelJpeg = async (src: string, aspectRatio: number) => {
+  const img = await loadImageElement(src);
+  const sourceRatio = img.naturalWidth / img.naturalHeight;
+  const cropWidth = sourceRatio > aspectRatio ? img.naturalHeight * aspectRatio : img.naturalWidth;
+  const cropHeight = sourceRatio > aspectRatio ? img.naturalHeight : img.naturalWidth / aspectRatio;
+  const scale = Math.min(1, MAX_IMAGE_EDGE / Math.max(cropWidth, cropHeight));
+  const width = Math.max(1, Math.round(cropWidth * scale));
+  const height = Math.max(1, Math.round(cropHeight * scale));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error('Canvas 2D context unavailable');
+  ctx.fillStyle = '#ffffff';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, (img.naturalWidth - cropWidth) / 2, (img.naturalHeight - cropHeight) / 2, cropWidth, cropHeight, 0, 0, width, height);
+
+  const bytes = base64ToBytes(canvas.toDataURL('image/jpeg', 0.88).split(',')[1]);
+  return { bytes, width, height };
+};
+
+// Escribe líneas hasta agotar el alto disponible; la última visible termina en "..."
+const drawLines = (
+  page: PdfPage, lines: string[], x: number, y: number, maxWidth: number, maxY: number,
+  size: number, color: PdfColor, font: 'regular' | 'italic' = 'regular'
+) => {
+  const lineHeight = size * 1.25;
+  let cursor = y;
+  for (let i = 0; i < lines.length; i++) {
+    if (cursor + lineHeight > maxY) break;
+    let line = lines[i];
+    const isLastVisible = cursor + lineHeight * 2 > maxY && i < lines.length - 1;
+    if (isLastVisible) {
+      while (line && measureText(`${line}...`, size, font) > maxWidth) line = line.slice(0, -1);
+      line = `${line}...`;
+    }
+    page.text(x, cursor + size, line, { size, font, color });
+    cursor += lineHeight;
+    if (isLastVisible) break;
+  }
+  return cursor;
+};
+
+/**
+ * Lays out the panels as a printable storyboard sheet. Images are resolved from the image
+ * store; panels whose image is missing or unreadable get an empty frame instead.
+ */
+export const renderStoryboardPdf = async (
+  panels: StoryboardPanel[],
+  options: StoryboardPdfOptions,
+  projectName: string,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> => {
+  const pdf = createPdfDocument();
+  const base = PAGE_SIZES[options.pageSize];
+  const pageWidth = options.orientation === 'landscape' ? base.height : base.width;
+  const pageHeight = options.orientation === 'landscape' ? base.width : base.height;
+  const [columns, rows] = GRID[options.orientation][options.panelsPerPage];
+
+  const cellWidth = (pageWidth - MARGIN * 2 - GUTTER * (columns - 1)) / columns;
+  const cellHeight = (pageHeight - MARGIN * 2 - HEADER_HEIGHT - GUTTER * (rows - 1)) / rows;
+  const textSize = options.panelsPerPage >= 6 ? 7 : options.panelsPerPage >= 3 ? 8 : 10;
+  const minCaption = textSize * 1.25 * 5;
+
+  // El marco ocupa todo el ancho salvo que deje sin sitio al pie de foto
+  let frameWidth = cellWidth;
+  let frameHeight = frameWidth / options.aspectRatio;
+  if (frameHeight > cellHeight - minCaption) {
+    frameHeight = Math.max(cellHeight - minCaption, cellHeight * 0.4);
+    frameWidth = Math.min(cellWidth, frameHeight * options.aspectRatio);
+  }
+
+  // Una misma imagen usada en varios paneles se incrusta una sola vez
+  const embedded = new Map<string, string | null>();
+  const embed = async (ref: string) => {
+    if (!embedded.has(ref)) {
+      try {
+        const src = await resolveImage(ref);
+        const jpeg = src ? await toPanelJpeg(src, options.aspectRatio) : null;
+        embedded.set(ref, jpeg ? pdf.addJpeg(jpeg.bytes, jpeg.width, jpeg.height) : null);
+      } catch (error) {
+        console.warn('⚠️ Storyboard PDF: image skipped', ref, error);
+        embedded.set(ref, null);
+      }
+    }
+    return embedded.get(ref) ?? null;
+  };
+
+  const perPage = columns * rows;
+  const pageCount = Math.max(1, Math.ceil(panels.length / perPage));
+  const exportedAt = new Date().toLocaleDateString();
+
+  for (let pageIndex = 0; pageIndex < pageCount; pageIndex++) {
+    const page = pdf.addPage(pageWidth, pageHeight);
+
+    // Cabecera: proyecto a la izquierda, fecha y paginación a la derecha
+    page.text(MARGIN, MARGIN + 12, projectName || 'Storyboard', { size: 13, font: 'bold' });
+    const pageLabel = `${exportedAt}  ·  Page ${pageIndex + 1} / ${pageCount}`;
+    page.text(pageWidth - MARGIN - measureText(pageLabel, 8), MARGIN + 12, pageLabel, { size: 8, color: [0.4, 0.4, 0.4] });
+    page.rect(MARGIN, MARGIN + 18, pageWidth - MARGIN * 2, 0.6, { fill: [0.75, 0.75, 0.75] });
+
+    const pagePanels = panels.slice(pageIndex * perPage, (pageIndex + 1) * perPage);
+    for (let slot = 0; slot < pagePanels.length; slot++) {
+      const panel = pagePanels[slot];
+      const cellX = MARGIN + (slot % columns) * (cellWidth + GUTTER);
+      const cellY = MARGIN + HEADER_HEIGHT + Math.floor(slot / columns) * (cellHeight + GUTTER);
+      const frameX = cellX + (cellWidth - frameWidth) / 2;
+
+      const imageName = panel.image ? await embed(panel.image) : null;
+      if (imageName) {
+        page.image(imageName, frameX, cellY, frameWidth, frameHeight);
+      } else {
+        page.rect(frameX, cellY, frameWidth, frameHeight, { fill: [0.95, 0.95, 0.95] });
+        const label = panel.image ? 'Image unavailable' : 'No image';
+        page.text(frameX + (frameWidth - measureText(label, textSize)) / 2, cellY + frameHeight / 2, label, { size: textSize, color: [0.6, 0.6, 0.6] });
+      }
+      page.rect(frameX, cellY, frameWidth, frameHeight, { stroke: [0.2, 0.2, 0.2], lineWidth: 0.8 });
+
+      // Pie: "N - Título", metadatos de cámara, descripción y notas
+      const captionX = frameX;
+      const captionWidth = frameWidth;
+      const captionBottom = cellY + cellHeight;
+      let cursor = cellY + frameHeight + 4;
+
+      const heading = wrapText(`${panel.number}  ${panel.title}`, captionWidth, textSize + 1, 'bold')[0] || '';
+      page.text(captionX, cursor + textSize + 1, heading, { size: textSize + 1, font: 'bold' });
+      cursor += (textSize + 1) * 1.35;
+
+      const meta = [panel.slugline, describeShot(panel)].filter(Boolean).join('  |  ');
+      if (meta) {
+        cursor = drawLines(page, wrapText(meta, captionWidth, textSize), captionX, cursor, captionWidth, captionBottom, textSize, [0.35, 0.35, 0.55]);
+      }
+
+      const notes = options.includeNotes ? panel.notes : undefined;
+      const notesLines = notes ? wrapText(`Notes: ${notes}`, captionWidth, textSize, 'italic') : [];
+      // Reserva hasta dos líneas para las notas antes de repartir la descripción
+      const notesReserve = Math.min(notesLines.length, 2) * textSize * 1.25;
+      if (panel.description) {
+        cursor = drawLines(page, wrapText(panel.description, captionWidth, textSize), captionX, cursor, captionWidth, captionBottom - notesReserve, textSize, [0.1, 0.1, 0.1]);
+      }
+      if (notesLines.length > 0) {
+        drawLines(page, notesLines, captionX, cursor + 1, captionWidth, captionBottom, textSize, [0.45, 0.3, 0.05], 'italic');
+      }
+
+      onProgress?.(pageIndex * perPage + slot + 1, panels.length);
+    }
+  }
+
+  return new Blob([pdf.build()], { type: 'application/pdf' });
+};
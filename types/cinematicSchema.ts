@@ -79,14 +79,19 @@ export interface CharacterPassport {
   };
 }
 
+// One person in the shot. Cast members keep the id they were given in the prompt ("cast_1", "cast_2"...)
+export interface CinematicSubject {
+  character_id: string; // Empty for people inferred from the script (extras)
+  description: string; // e.g., "A grizzled detective in a trench coat"
+  clothing_details: string; // e.g., "Wet, rumpled beige trench coat over a dark suit"
+  action_pose: string; // e.g., "Standing hunched, lighting a cigarette"
+  expression_mood: string; // e.g., "Weary, cynical expression"
+  screen_position?: string; // e.g., "left", "background"
+}
+
 // UPDATED INTERFACE V2
 export interface CinematicJSON {
-  subjects: {
-    main_subject: string; // e.g., "A grizzled detective in a trench coat"
-    clothing_details: string; // e.g., "Wet, rumpled beige trench coat over a dark suit"
-    action_pose: string; // e.g., "Standing hunched, lighting a cigarette"
-    expression_mood: string; // e.g., "Weary, cynical expression"
-  };
+  subjects: CinematicSubject[];
   scene_globals: {
     description: string;
     mood: string;
@@ -108,6 +113,19 @@ export interface CinematicJSON {
   };
 }
 
+// One shot proposed by the AI script breakdown
+export interface BreakdownScene {
+  title: string;
+  description: string; // Visual description of the shot, ready to be used as the scene text
+  shot_type: string; // e.g., "Wide Shot"
+  characters: string[]; // Names as written in the script
+  location: string;
+}
+
+export interface ScriptBreakdown {
+  scenes: BreakdownScene[];
+}
+
 // Estructura para el "Pasaporte del Escenario"
 export interface SettingPassport {
   scene_description: string;
@@ -1,4 +1,5 @@
 import { CinematicPrompt, CharacterPassport, CinematicJSON, SettingPassport } from './cinematicSchema';
+import type { AIResponseReport } from '../services/aiResponse';
 import { VideoPrompt } from './videoSchema';
 
 export enum NodeType {
@@ -12,25 +13,67 @@ export enum NodeType {
 
 export interface NodeData {}
 
+// Instance of a shared library asset; `version` is the library version last pulled into the node
+export interface LibraryLink {
+  assetId: string;
+  version: number;
+}
+
 export interface CharacterData extends NodeData {
   prompt: string;
-  image?: string; // base64
-  clothingImage?: string; // base64 (Body/Outfit Ref)
+  image?: string; // image store ref (img:<hash>)
+  clothingImage?: string; // image store ref (Body/Outfit Ref)
   characterPassport?: CharacterPassport;
+  libraryLink?: LibraryLink;
 }
 
 export interface SettingData extends NodeData {
   prompt: string;
-  image?: string; // base64
+  image?: string; // image store ref (img:<hash>)
   settingPassport?: SettingPassport;
+  libraryLink?: LibraryLink;
+}
+
+export type ScreenPosition = 'left' | 'center' | 'right' | 'foreground' | 'background';
+
+// Per-character direction inside one scene
+export interface CastBlocking {
+  action?: string;
+  wardrobe?: string; // Overrides the passport clothing (and its outfit reference image)
+  position?: ScreenPosition;
+}
+
+// Production decisions for a scene; every field is a hard constraint for the scene spec
+export interface SceneBlocking {
+  shotSize?: string;
+  cameraAngle?: string;
+  timeOfDay?: string;
+  mood?: string;
+  cast?: Record<string, CastBlocking>; // Keyed by Character node id
+}
+
+// A spoken line kept with its scene (from an imported screenplay)
+export interface DialogueLine {
+  character: string; // Character cue without extensions ("MARIA")
+  text: string;
+  parenthetical?: string;
 }
 
+export type CameraMove = 'none' | 'zoom-in' | 'zoom-out' | 'pan-left' | 'pan-right' | 'pan-up' | 'pan-down';
+
 export interface ScriptScene {
   id: string;
   title: string;
   description: string;
   isExpanded: boolean;
   selectedSettingId?: string;
+  castIds?: string[]; // Character nodes in this scene; undefined = every character connected to the script
+  blocking?: SceneBlocking;
+  slugline?: string; // Original scene heading when imported from a screenplay
+  dialogue?: DialogueLine[];
+  duration?: number; // Planned seconds on screen (from imported shot lists or the animatic player)
+  cameraMove?: CameraMove; // Animatic camera move for the scene's shots; undefined = static
+  notes?: string; // Director / production notes; printed on storyboard sheets, never sent to the AI
 }
 
 export interface ScriptData extends NodeData {
@@ -55,15 +98,39 @@ export interface GenerationTrace {
     settingText?: string;
   };
   architectOutput?: any; // The JSON generated by the AI
+  response?: AIResponseReport; // Validation / repair details of the architect response
   rawError?: string; // The actual error message
 }
 
+// Outputs produced by AI calls; each one is stamped with a hash of the inputs that produced it
+export type GeneratedArtifact = 'image' | 'enrichedSceneJson' | 'transformationJson' | 'promptSchema';
+export type InputHashes = Partial<Record<GeneratedArtifact, string>>;
+
+// One generated (or uploaded) version of an Image node's picture
+export interface ImageTake {
+  id: string;
+  image: string; // image store ref
+  source: 'generated' | 'upload';
+  createdAt: number;
+  prompt?: string;
+  enrichedSceneJson?: Partial<CinematicPrompt> | CinematicJSON | null;
+  debugTrace?: GenerationTrace;
+  inputHashes?: InputHashes;
+  provider?: string;
+  model?: string;
+}
+
 export interface ImageData extends NodeData {
   prompt: string;
-  image?: string; // base64
+  image?: string; // image store ref (img:<hash>) of the selected take
   isLoading: boolean;
   error?: string;
   debugTrace?: GenerationTrace;
+  inputHashes?: InputHashes;
+
+  // Version history: `image` always mirrors the selected take, so downstream nodes keep reading it
+  takes?: ImageTake[];
+  selectedTakeId?: string;
   
   // Reactive Enrichment Data
   sceneEnrichmentStatus?: 'idle' | 'loading' | 'success' | 'error';
@@ -73,7 +140,7 @@ export interface ImageData extends NodeData {
   mode?: 'standard' | 'transformation';
   incomingTransformationData?: {
       json?: Partial<CinematicPrompt> | CinematicJSON | null;
-      referenceImage?: string; // base64
+      referenceImage?: string; // image store ref
   };
 }
 
@@ -81,8 +148,10 @@ export interface TransformationData extends NodeData {
   modificationPrompt: string;
   transformationJson?: CinematicJSON | null;
   isProcessing?: boolean;
-  referenceImage?: string; // base64 from connected Image Node
+  referenceImage?: string; // image store ref from connected Image Node
   sourceJson?: CinematicJSON | null;
+  inputHashes?: InputHashes;
+  debugTrace?: GenerationTrace; // Last transformation request (response report / error)
 }
 
 export interface VideoData extends NodeData {
@@ -93,6 +162,7 @@ export interface VideoData extends NodeData {
   startImage?: string;
   endImage?: string;
   movementPrompt?: string;
+  inputHashes?: InputHashes;
   
   // --- TIMELINE FIELDS ---
   duration: number;        // Total seconds (usually 8 for Veo)
@@ -129,6 +199,7 @@ export interface Graph {
   nodes: Node[];
   connections: Connection[];
   lastModified: number;
+  schemaVersion?: number; // Missing on graphs saved before migrations existed (v0)
 }
 
 export interface ProjectMetadata {
@@ -0,0 +1,42 @@
+import { describe, it, expect } from 'vitest';
+import { buildAnimaticShots, applyShotTiming, DEFAULT_SHOT_SECONDS } from './animatic';
+import { Node, Connection, NodeType, ScriptData, ScriptScene } from '../types/graph';
+
+const scene = (id: string, extra: Partial<ScriptScene> = {}): ScriptScene => ({ id, title: id, description: '', isExpanded: false, ...extra });
+
+const script: Node<ScriptData> = {
+  id: 'script-1', type: NodeType.Script, position: { x: 0, y: 0 },
+  data: { script: '', scenes: [scene('a', { duration: 6, cameraMove: 'zoom-in' }), scene('b')] },
+};
+
+const image = (id: string, y: number): Node => ({ id, type: NodeType.Image, position: { x: 300, y }, data: { prompt: '', isLoading: false } });
+
+const NODES: Node[] = [script, image('image-1', 0), image('image-2', 100)];
+const CONNECTIONS: Connection[] = [
+  { id: 'c1', fromNodeId: 'script-1', fromOutput: 'a', toNodeId: 'image-1', toInputIndex: 1 },
+  { id: 'c2', fromNodeId: 'script-1', fromOutput: 'a', toNodeId: 'image-2', toInputIndex: 1 },
+];
+
+describe('animatic shots', () => {
+  it('reads duration and camera move from the scene, splitting the duration between its images', () => {
+    const shots = buildAnimaticShots(NODES, CONNECTIONS);
+    expect(shots.map(s => [s.id, s.duration, s.move])).toEqual([
+      ['a:image-1', 3, 'zoom-in'],
+      ['a:image-2', 3, 'zoom-in'],
+      ['b:slate', DEFAULT_SHOT_SECONDS, 'none'],
+    ]);
+  });
+
+  it('saves edits on the scenes so they survive rebuilding the shots', () => {
+    const shots = buildAnimaticShots(NODES, CONNECTIONS);
+    const edits = applyShotTiming(NODES, shots, ['a'], { duration: 2, move: 'none' });
+    expect(edits).toEqual([{ nodeId: 'script-1', scenes: [scene('a', { duration: 4, cameraMove: undefined }), scene('b')] }]);
+
+    const nodes = NODES.map(n => (n.id === 'script-1' ? { ...n, data: { ...n.data, scenes: edits[0].scenes } } as Node : n));
+    const rebuilt = applyShotTiming(nodes, buildAnimaticShots(nodes, CONNECTIONS), ['b'], { move: 'pan-left' });
+    expect(buildAnimaticShots(
+      nodes.map(n => (n.id === 'script-1' ? { ...n, data: { ...n.data, scenes: rebuilt[0].scenes } } as Node : n)),
+      CONNECTIONS
+    ).map(s => [s.duration, s.move])).toEqual([[2, 'none'], [2, 'none'], [DEFAULT_SHOT_SECONDS, 'pan-left']]);
+  });
+});
@@ -0,0 +1,115 @@
+import { Node, Connection, NodeType, VideoData, ScriptData, ScriptScene, CameraMove } from '../types/graph';
+import { StoryboardPanel, collectStoryboardPanels } from './storyboardSheet';
+
+export type { CameraMove };
+
+export const CAMERA_MOVES: { value: CameraMove; label: string }[] = [
+  { value: 'none', label: 'Static' },
+  { value: 'zoom-in', label: 'Zoom in' },
+  { value: 'zoom-out', label: 'Zoom out' },
+  { value: 'pan-left', label: 'Pan left' },
+  { value: 'pan-right', label: 'Pan right' },
+  { value: 'pan-up', label: 'Tilt up' },
+  { value: 'pan-down', label: 'Tilt down' },
+];
+
+export interface AnimaticShot {
+  id: string; // Stable key for the player (scene id + image node)
+  panel: StoryboardPanel;
+  duration: number; // Seconds
+  move: CameraMove;
+}
+
+export const DEFAULT_SHOT_SECONDS = 3;
+export const MIN_SHOT_SECONDS = 0.5;
+
+// Cuánto se acerca la cámara en los movimientos (1 = sin margen)
+const MOVE_SCALE = 1.15;
+
+/**
+ * Shot duration, in order of preference: the scene's planned duration (shared between its
+ * images), the Video node fed by the image (its spec, then its timeline), then DEFAULT_SHOT_SECONDS.
+ */
+const shotDuration = (panel: StoryboardPanel, imagesInScene: number, nodes: Node[], connections: Connection[]) => {
+  if (panel.duration) return Math.max(MIN_SHOT_SECONDS, panel.duration / imagesInScene);
+  const video = connections
+    .filter(c => c.fromNodeId === panel.imageNodeId && c.toInputIndex === 0)
+    .map(c => nodes.find(n => n.id === c.toNodeId))
+    .find((n): n is Node<VideoData> => n?.type === NodeType.Video);
+  return video?.data.promptSchema?.output_specifications?.duration_seconds || video?.data.duration || DEFAULT_SHOT_SECONDS;
+};
+
+const scenesOf = (nodes: Node[], scriptNodeId: string) =>
+  (nodes.find(n => n.id === scriptNodeId && n.type === NodeType.Script)?.data as ScriptData | undefined)?.scenes || [];
+
+export const buildAnimaticShots = (nodes: Node[], connections: Connection[]): AnimaticShot[] => {
+  const panels = collectStoryboardPanels(nodes, connections);
+  return panels.map(panel => ({
+    id: `${panel.sceneId}:${panel.imageNodeId || 'slate'}`,
+    panel,
+    duration: shotDuration(panel, panels.filter(p => p.sceneId === panel.sceneId).length, nodes, connections),
+    move: scenesOf(nodes, panel.scriptNodeId).find(s => s.id === panel.sceneId)?.cameraMove || 'none',
+  }));
+};
+
+/**
+ * Stores a player edit on the scenes of `sceneIds` so it survives closing the player. The shots
+ * of a scene share its timing: `duration` is per shot and saved as the scene total, which
+ * buildAnimaticShots splits evenly again. Returns the new scene list of each Script node touched.
+ */
+export const applyShotTiming = (
+  nodes: Node[],
+  shots: AnimaticShot[],
+  sceneIds: string[],
+  timing: { duration?: number; move?: CameraMove }
+): { nodeId: string; scenes: ScriptScene[] }[] => {
+  const targets = new Set(sceneIds);
+  const scriptIds = new Set(shots.filter(s => targets.has(s.panel.sceneId)).map(s => s.panel.scriptNodeId));
+  return [...scriptIds].map(nodeId => ({
+    nodeId,
+    scenes: scenesOf(nodes, nodeId).map(scene => {
+      if (!targets.has(scene.id)) return scene;
+      const patch: Partial<ScriptScene> = {};
+      if (timing.duration !== undefined) patch.duration = timing.duration * shots.filter(s => s.panel.sceneId === scene.id).length;
+      if (timing.move !== undefined) patch.cameraMove = timing.move === 'none' ? undefined : timing.move;
+      return { ...scene, ...patch };
+    }),
+  }));
+};
+
+export const totalDuration = (shots: AnimaticShot[]) => shots.reduce((sum, shot) => sum + shot.duration, 0);
+
+/**
+ * Finds the shot playing at `time` (seconds from the start) and the progress inside it (0..1).
+ */
+export const shotAt = (shots: AnimaticShot[], time: number): { index: number; progress: number } => {
+  let start = 0;
+  for (let index = 0; index < shots.length; index++) {
+    const end = start + shots[index].duration;
+    if (time < end) return { index, progress: Math.max(0, (time - start) / shots[index].duration) };
+    start = end;
+  }
+  return { index: shots.length - 1, progress: 1 };
+};
+
+export const shotStartTime = (shots: AnimaticShot[], index: number) =>
+  shots.slice(0, index).reduce((sum, shot) => sum + shot.duration, 0);
+
+const ease = (t: number) => t * t * (3 - 2 * t);
+
+/**
+ * Camera transform for a move at `progress`: `scale` >= 1 over the cover-fitted image and an
+ * offset in -1..1 of the spare margin on each axis (0 = centered).
+ */
+export const moveTransform = (move: CameraMove, progress: number): { scale: number; x: number; y: number } => {
+  const t = ease(Math.min(1, Math.max(0, progress)));
+  switch (move) {
+    case 'zoom-in': return { scale: 1 + (MOVE_SCALE - 1) * t, x: 0, y: 0 };
+    case 'zoom-out': return { scale: MOVE_SCALE - (MOVE_SCALE - 1) * t, x: 0, y: 0 };
+    case 'pan-left': return { scale: MOVE_SCALE, x: 1 - 2 * t, y: 0 };
+    case 'pan-right': return { scale: MOVE_SCALE, x: -1 + 2 * t, y: 0 };
+    case 'pan-up': return { scale: MOVE_SCALE, x: 0, y: 1 - 2 * t };
+    case 'pan-down': return { scale: MOVE_SCALE, x: 0, y: -1 + 2 * t };
+    default: return { scale: 1, x: 0, y: 0 };
+  }
+};
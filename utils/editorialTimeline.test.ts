@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { buildTimelineClips, toEdl, toFcpxml, toOtio, TimelineClip } from './editorialTimeline';
+import { AnimaticShot } from './animatic';
+
+const shot = (number: string, title: string, description: string, duration: number, image?: string): AnimaticShot => ({
+  id: `shot-${number}`,
+  panel: { scriptNodeId: 'script-1', sceneId: `scene-${number}`, number, title, description, image },
+  duration,
+  move: 'none',
+});
+
+const SHOTS = [
+  shot('1', 'Rooftop chase', 'Maria runs\nacross the roof.', 2.5, 'img:a'),
+  shot('2', 'Café', 'Bob waits & drinks <coffee>.', 1),
+];
+
+const clips: TimelineClip[] = buildTimelineClips(SHOTS, 24, (s, i) =>
+  s.panel.image ? { path: `media/${String(i + 1).padStart(3, '0')}.png`, width: 1280, height: 720 } : undefined
+);
+
+describe('buildTimelineClips', () => {
+  it('turns shots into frame-accurate clips', () => {
+    expect(clips).toEqual([
+      { name: '1 Rooftop chase', description: 'Maria runs across the roof.', frames: 60, media: { path: 'media/001.png', width: 1280, height: 720 } },
+      { name: '2 Café', description: 'Bob waits & drinks <coffee>.', frames: 24, media: undefined },
+    ]);
+  });
+});
+
+describe('toEdl', () => {
+  it('writes CMX3600 events from 01:00:00:00, black for missing images', () => {
+    const lines = toEdl('Mi película', clips, 24).split('\r\n');
+    expect(lines[0]).toBe('TITLE: MI PELICULA');
+    expect(lines).toContain('001  AX      V     C        00:00:00:00 00:00:02:12 01:00:00:00 01:00:02:12');
+    expect(lines).toContain('002  BL      V     C        00:00:00:00 00:00:01:00 01:00:02:12 01:00:03:12');
+    expect(lines).toContain('* FROM CLIP NAME: 2 Cafe');
+    expect(lines).toContain('* SOURCE FILE: media/001.png');
+  });
+});
+
+describe('toFcpxml', () => {
+  it('places clips and gaps back to back and escapes text', () => {
+    const xml = toFcpxml('Demo', clips, 24);
+    expect(xml).toContain('<sequence format="r1" duration="84/24s"');
+    expect(xml).toContain('<video ref="r3" name="1 Rooftop chase" offset="0s" start="0s" duration="60/24s">');
+    expect(xml).toContain('<gap name="2 Café" offset="60/24s" start="0s" duration="24/24s">');
+    expect(xml).toContain('value="Bob waits &amp; drinks &lt;coffee&gt;."');
+  });
+});
+
+describe('toOtio', () => {
+  it('writes one clip or gap per shot on a single video track', () => {
+    const timeline = JSON.parse(toOtio('Demo', clips, 24));
+    const [track] = timeline.tracks.children;
+    expect(track.children.map((c: { OTIO_SCHEMA: string }) => c.OTIO_SCHEMA)).toEqual(['Clip.1', 'Gap.1']);
+    expect(track.children[0].media_reference.target_url).toBe('media/001.png');
+    expect(track.children[1].source_range.duration).toEqual({ OTIO_SCHEMA: 'RationalTime.1', rate: 24, value: 24 });
+    expect(timeline.global_start_time.value).toBe(3600 * 24);
+  });
+});
@@ -0,0 +1,167 @@
+import { AnimaticShot } from './animatic';
+
+/**
+ * Shot list -> editorial interchange formats (CMX3600 EDL, FCPXML, OpenTimelineIO). Every shot
+ * becomes a still-image clip named after its scene; the scene description rides along as a
+ * marker. Scenes without an image become gaps (OTIO / FCPXML) or black events (EDL).
+ */
+
+export type TimelineFps = 24 | 25 | 30;
+export const TIMELINE_FPS: TimelineFps[] = [24, 25, 30];
+
+export interface TimelineClip {
+  name: string; // "3 Rooftop chase"
+  description: string;
+  frames: number;
+  media?: { path: string; width: number; height: number }; // Relative to the timeline file
+}
+
+export const buildTimelineClips = (
+  shots: AnimaticShot[],
+  fps: TimelineFps,
+  mediaFor: (shot: AnimaticShot, index: number) => TimelineClip['media']
+): TimelineClip[] =>
+  shots.map((shot, index) => ({
+    name: `${shot.panel.number} ${shot.panel.title}`.trim(),
+    description: shot.panel.description.replace(/\s+/g, ' ').trim(),
+    frames: Math.max(1, Math.round(shot.duration * fps)),
+    media: mediaFor(shot, index),
+  }));
+
+// --- CMX3600 EDL ---
+
+const timecode = (frames: number, fps: TimelineFps) => {
+  const pad = (value: number) => String(value).padStart(2, '0');
+  const totalSeconds = Math.floor(frames / fps);
+  return `${pad(Math.floor(totalSeconds / 3600))}:${pad(Math.floor(totalSeconds / 60) % 60)}:${pad(totalSeconds % 60)}:${pad(frames % fps)}`;
+};
+
+// Los comentarios de un EDL son una línea ASCII: sin saltos ni caracteres raros
+const edlText = (value: string) => value.normalize('NFD').replace(/[\u0300-\u036f]/g, '').replace(/[^\x20-\x7E]/g, ' ').replace(/\s+/g, ' ').trim();
+
+const RECORD_START = 3600; // Segundos: las secuencias empiezan en 01:00:00:00
+
+export const toEdl = (title: string, clips: TimelineClip[], fps: TimelineFps): string => {
+  const lines = [`TITLE: ${edlText(title).toUpperCase() || 'STORYBOARD'}`, 'FCM: NON-DROP FRAME', ''];
+  let record = RECORD_START * fps;
+
+  clips.forEach((clip, index) => {
+    const event = String(index + 1).padStart(3, '0');
+    const reel = clip.media ? 'AX      ' : 'BL      ';
+    lines.push(
+      `${event}  ${reel}V     C        ${timecode(0, fps)} ${timecode(clip.frames, fps)} ${timecode(record, fps)} ${timecode(record + clip.frames, fps)}`,
+      `* FROM CLIP NAME: ${edlText(clip.name)}`
+    );
+    if (clip.media) lines.push(`* SOURCE FILE: ${clip.media.path}`);
+    if (clip.description) lines.push(`* LOC: ${timecode(record, fps)} YELLOW ${edlText(clip.description).slice(0, 200)}`);
+    lines.push('');
+    record += clip.frames;
+  });
+
+  return lines.join('\r\n');
+};
+
+// --- FCPXML 1.9 ---
+
+const xml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const rational = (frames: number, fps: TimelineFps) => (frames === 0 ? '0s' : `${frames}/${fps}s`);
+
+export const toFcpxml = (title: string, clips: TimelineClip[], fps: TimelineFps): string => {
+  const totalFrames = clips.reduce((sum, clip) => sum + clip.frames, 0);
+  const resources = [
+    `    <format id="r1" name="FFVideoFormat1080p${fps}" frameDuration="1/${fps}s" width="1920" height="1080"/>`,
+  ];
+  const spine: string[] = [];
+  let offset = 0;
+
+  clips.forEach((clip, index) => {
+    const marker = clip.description
+      ? `\n              <marker start="0s" duration="1/${fps}s" value="${xml(clip.description)}"/>\n            `
+      : '';
+    if (clip.media) {
+      const formatId = `r${index * 2 + 2}`;
+      const assetId = `r${index * 2 + 3}`;
+      resources.push(
+        `    <format id="${formatId}" name="FFVideoFormatRateUndefined" width="${clip.media.width}" height="${clip.media.height}"/>`,
+        `    <asset id="${assetId}" name="${xml(clip.name)}" start="0s" duration="0s" hasVideo="1" format="${formatId}">`,
+        `      <media-rep kind="original-media" src="${xml(clip.media.path)}"/>`,
+        '    </asset>'
+      );
+      spine.push(`        <video ref="${assetId}" name="${xml(clip.name)}" offset="${rational(offset, fps)}" start="0s" duration="${rational(clip.frames, fps)}">${marker}</video>`);
+    } else {
+      spine.push(`        <gap name="${xml(clip.name)}" offset="${rational(offset, fps)}" start="0s" duration="${rational(clip.frames, fps)}">${marker}</gap>`);
+    }
+    offset += clip.frames;
+  });
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<!DOCTYPE fcpxml>',
+    '<fcpxml version="1.9">',
+    '  <resources>',
+    ...resources,
+    '  </resources>',
+    '  <library>',
+    `    <event name="${xml(title)}">`,
+    `      <project name="${xml(title)}">`,
+    `        <sequence format="r1" duration="${rational(totalFrames, fps)}" tcStart="${RECORD_START}s" tcFormat="NDF">`,
+    '          <spine>',
+    ...spine.map(line => `    ${line}`),
+    '          </spine>',
+    '        </sequence>',
+    '      </project>',
+    '    </event>',
+    '  </library>',
+    '</fcpxml>',
+    '',
+  ].join('\n');
+};
+
+// --- OpenTimelineIO ---
+
+const rationalTime = (value: number, rate: number) => ({ OTIO_SCHEMA: 'RationalTime.1', rate, value });
+const timeRange = (start: number, duration: number, rate: number) => ({
+  OTIO_SCHEMA: 'TimeRange.1',
+  start_time: rationalTime(start, rate),
+  duration: rationalTime(duration, rate),
+});
+
+export const toOtio = (title: string, clips: TimelineClip[], fps: TimelineFps): string => {
+  const children = clips.map(clip => {
+    const markers = clip.description
+      ? [{ OTIO_SCHEMA: 'Marker.2', name: clip.description.slice(0, 80), color: 'YELLOW', marked_range: timeRange(0, 0, fps), comment: clip.description, metadata: {} }]
+      : [];
+    const base = { name: clip.name, source_range: timeRange(0, clip.frames, fps), effects: [], markers, metadata: {} };
+    return clip.media
+      ? {
+          OTIO_SCHEMA: 'Clip.1',
+          ...base,
+          media_reference: {
+            OTIO_SCHEMA: 'ExternalReference.1',
+            name: clip.media.path.split('/').pop(),
+            target_url: clip.media.path,
+            available_range: null,
+            metadata: { width: clip.media.width, height: clip.media.height },
+          },
+        }
+      : { OTIO_SCHEMA: 'Gap.1', ...base };
+  });
+
+  return JSON.stringify({
+    OTIO_SCHEMA: 'Timeline.1',
+    name: title,
+    global_start_time: rationalTime(RECORD_START * fps, fps),
+    metadata: {},
+    tracks: {
+      OTIO_SCHEMA: 'Stack.1',
+      name: 'tracks',
+      source_range: null,
+      effects: [],
+      markers: [],
+      metadata: {},
+      children: [{ OTIO_SCHEMA: 'Track.1', name: 'V1', kind: 'Video', source_range: null, effects: [], markers: [], metadata: {}, children }],
+    },
+  }, null, 2);
+};
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { remapGraph, extractSubgraph, withUpstream, offsetBeside } from './graphRemap';
+import { Node, Connection, NodeType, ScriptData } from '../types/graph';
+import { NODE_CONFIG } from '../components/nodes/nodeConfig';
+
+const node = (id: string, type: NodeType, data: object, x = 0, y = 0): Node =>
+  ({ id, type, position: { x, y }, data } as Node);
+
+const connection = (id: string, fromNodeId: string, fromOutput: string | number, toNodeId: string, toInputIndex: number): Connection =>
+  ({ id, fromNodeId, fromOutput, toNodeId, toInputIndex });
+
+const NODES = [
+  node('char', NodeType.Character, { prompt: 'Maria' }),
+  node('set', NodeType.Setting, { prompt: 'Kitchen' }, 0, 300),
+  node('script', NodeType.Script, {
+    script: '',
+    cachedCharacterId: 'char',
+    scenes: [{
+      id: 'scene-a',
+      title: 'One',
+      description: 'Maria enters.',
+      isExpanded: false,
+      selectedSettingId: 'set',
+      castIds: ['char', 'elsewhere'],
+      blocking: { shotSize: 'Close-up', cast: { char: { position: 'left' }, elsewhere: { position: 'right' } } },
+    }],
+  }, 400, 0),
+  node('image', NodeType.Image, { prompt: '', isLoading: false }, 800, 0),
+];
+
+const CONNECTIONS = [
+  connection('c1', 'char', 0, 'script', 0),
+  connection('c2', 'set', 0, 'script', 1),
+  connection('c3', 'script', 'scene-a', 'image', 1),
+  connection('c4', 'outside', 0, 'image', 0),
+];
+
+describe('remapGraph', () => {
+  const remapped = remapGraph(NODES, CONNECTIONS, { x: 100, y: 50 });
+  const newId = (id: string) => remapped.nodeIds.get(id)!;
+
+  it('gives every node a fresh id and applies the offset', () => {
+    expect(remapped.nodes.map(n => n.id)).toEqual(NODES.map(n => newId(n.id)));
+    expect(new Set(remapped.nodes.map(n => n.id)).size).toBe(NODES.length);
+    expect(remapped.nodes.some(n => NODES.some(original => original.id === n.id))).toBe(false);
+    expect(remapped.nodes[2].position).toEqual({ x: 500, y: 50 });
+  });
+
+  it('rewrites node references inside scenes and drops the ones outside the graph', () => {
+    const data = remapped.nodes[2].data as ScriptData;
+    const [scene] = data.scenes;
+    expect(data.cachedCharacterId).toBe(newId('char'));
+    expect(scene.id).not.toBe('scene-a');
+    expect(scene.selectedSettingId).toBe(newId('set'));
+    expect(scene.castIds).toEqual([newId('char')]);
+    expect(scene.blocking).toEqual({ shotSize: 'Close-up', cast: { [newId('char')]: { position: 'left' } } });
+  });
+
+  it('keeps cables inside the graph, following the new scene ids', () => {
+    const [scene] = (remapped.nodes[2].data as ScriptData).scenes;
+    expect(remapped.connections).toHaveLength(3);
+    expect(remapped.connections[2]).toMatchObject({ fromNodeId: newId('script'), fromOutput: scene.id, toNodeId: newId('image'), toInputIndex: 1 });
+  });
+
+  it('leaves the source graph untouched', () => {
+    expect((NODES[2].data as ScriptData).scenes[0].id).toBe('scene-a');
+    expect(CONNECTIONS[0].fromNodeId).toBe('char');
+  });
+});
+
+describe('withUpstream / extractSubgraph', () => {
+  it('adds every node feeding the picked ones', () => {
+    expect(withUpstream(new Set(['image']), CONNECTIONS)).toEqual(new Set(['image', 'script', 'outside', 'char', 'set']));
+  });
+
+  it('keeps only the cables between picked nodes', () => {
+    const picked = extractSubgraph(NODES, CONNECTIONS, new Set(['script', 'image']));
+    expect(picked.nodes.map(n => n.id)).toEqual(['script', 'image']);
+    expect(picked.connections.map(c => c.id)).toEqual(['c3']);
+  });
+});
+
+describe('offsetBeside', () => {
+  it('places the incoming nodes to the right, top-aligned', () => {
+    const existing = [node('a', NodeType.Image, {}, 0, 100)];
+    const incoming = [node('b', NodeType.Script, {}, 50, 400)];
+    expect(offsetBeside(existing, incoming)).toEqual({ x: NODE_CONFIG[NodeType.Image].width + 200 - 50, y: -300 });
+    expect(offsetBeside([], incoming)).toEqual({ x: 0, y: 0 });
+  });
+});
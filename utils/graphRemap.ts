@@ -0,0 +1,107 @@
+import { Node, Connection, NodeType, ScriptData, ScriptScene } from '../types/graph';
+import { NODE_CONFIG } from '../components/nodes/nodeConfig';
+
+export interface RemappedGraph {
+  nodes: Node[];
+  connections: Connection[];
+  nodeIds: Map<string, string>; // old id -> new id
+}
+
+/**
+ * Gives every node, scene and connection a fresh id so a graph can be merged into another
+ * without collisions. Node ids are also referenced from inside node data (scene settings,
+ * casts, blocking, cached enrichment) and scene ids from cables, so all of those follow;
+ * references to nodes that are not part of the graph are dropped.
+ */
+export const remapGraph = (nodes: Node[], connections: Connection[], offset = { x: 0, y: 0 }): RemappedGraph => {
+  const nodeIds = new Map<string, string>(nodes.map(node => [node.id, crypto.randomUUID()]));
+  const sceneIds = new Map<string, string>();
+  const mapId = (id?: string) => (id ? nodeIds.get(id) : undefined);
+
+  const remapScene = (scene: ScriptScene, newNodeId: string): ScriptScene => {
+    const id = `scene-${newNodeId}-${crypto.randomUUID()}`;
+    sceneIds.set(scene.id, id);
+    const cast = scene.blocking?.cast;
+    return {
+      ...scene,
+      id,
+      selectedSettingId: mapId(scene.selectedSettingId),
+      castIds: scene.castIds?.map(castId => mapId(castId)).filter((castId): castId is string => !!castId),
+      blocking: scene.blocking && {
+        ...scene.blocking,
+        cast: cast && Object.fromEntries(
+          Object.entries(cast).filter(([characterId]) => nodeIds.has(characterId)).map(([characterId, value]) => [mapId(characterId)!, value])
+        ),
+      },
+    };
+  };
+
+  const remappedNodes = nodes.map(node => {
+    const id = nodeIds.get(node.id)!;
+    const position = { x: node.position.x + offset.x, y: node.position.y + offset.y };
+    if (node.type !== NodeType.Script) return { ...node, id, position };
+    const data = node.data as ScriptData;
+    return {
+      ...node,
+      id,
+      position,
+      data: {
+        ...data,
+        scenes: data.scenes.map(scene => remapScene(scene, id)),
+        cachedCharacterId: mapId(data.cachedCharacterId),
+        cachedSettingId: mapId(data.cachedSettingId),
+      },
+    };
+  });
+
+  // Los cables que apuntan a nodos fuera del grafo no se pueden conservar
+  const remappedConnections = connections
+    .filter(c => nodeIds.has(c.fromNodeId) && nodeIds.has(c.toNodeId))
+    .map(c => ({
+      ...c,
+      id: crypto.randomUUID(),
+      fromNodeId: nodeIds.get(c.fromNodeId)!,
+      toNodeId: nodeIds.get(c.toNodeId)!,
+      fromOutput: typeof c.fromOutput === 'string' ? sceneIds.get(c.fromOutput) || c.fromOutput : c.fromOutput,
+    }));
+
+  return { nodes: remappedNodes, connections: remappedConnections, nodeIds };
+};
+
+/**
+ * Keeps only the picked nodes and the cables between them (the input of `remapGraph` for a
+ * partial merge).
+ */
+export const extractSubgraph = (nodes: Node[], connections: Connection[], ids: Set<string>) => ({
+  nodes: nodes.filter(n => ids.has(n.id)),
+  connections: connections.filter(c => ids.has(c.fromNodeId) && ids.has(c.toNodeId)),
+});
+
+/**
+ * Adds every node that feeds the picked ones, directly or indirectly (e.g. the cast and
+ * settings of a Script), so the merged copy keeps working.
+ */
+export const withUpstream = (ids: Set<string>, connections: Connection[]): Set<string> => {
+  const result = new Set(ids);
+  const queue = [...ids];
+  while (queue.length > 0) {
+    const id = queue.pop()!;
+    connections.filter(c => c.toNodeId === id && !result.has(c.fromNodeId)).forEach(c => {
+      result.add(c.fromNodeId);
+      queue.push(c.fromNodeId);
+    });
+  }
+  return result;
+};
+
+/**
+ * Horizontal offset that places `incoming` to the right of everything in `existing`.
+ */
+export const offsetBeside = (existing: Node[], incoming: Node[], gap = 200): { x: number; y: number } => {
+  if (existing.length === 0 || incoming.length === 0) return { x: 0, y: 0 };
+  const right = Math.max(...existing.map(n => n.position.x + NODE_CONFIG[n.type].width));
+  const left = Math.min(...incoming.map(n => n.position.x));
+  const top = Math.min(...existing.map(n => n.position.y));
+  const incomingTop = Math.min(...incoming.map(n => n.position.y));
+  return { x: right + gap - left, y: top - incomingTop };
+};
@@ -0,0 +1,57 @@
+import { describe, it, expect } from 'vitest';
+import { topologicalSort, wouldCreateCycle, getUpstreamIds } from './graphTopology';
+import { Node, Connection, NodeType } from '../types/graph';
+
+const node = (id: string): Node => ({ id, type: NodeType.Image, position: { x: 0, y: 0 }, data: { prompt: '', isLoading: false } } as Node);
+
+const edge = (from: string, to: string, toInputIndex = 0): Connection =>
+  ({ id: `${from}->${to}:${toInputIndex}`, fromNodeId: from, fromOutput: 0, toNodeId: to, toInputIndex });
+
+describe('topologicalSort', () => {
+  it('puts every node after its inputs', () => {
+    const nodes = ['video', 'image', 'script', 'character'].map(node);
+    const { order, cycle } = topologicalSort(nodes, [edge('character', 'script'), edge('script', 'image'), edge('image', 'video'), edge('character', 'image', 2)]);
+    expect(order).toEqual(['character', 'script', 'image', 'video']);
+    expect(cycle).toEqual([]);
+  });
+
+  it('keeps the original node order among independent nodes', () => {
+    const nodes = ['b', 'a', 'c', 'd'].map(node);
+    expect(topologicalSort(nodes, [edge('c', 'a')]).order).toEqual(['b', 'c', 'd', 'a']);
+    expect(topologicalSort(nodes, []).order).toEqual(['b', 'a', 'c', 'd']);
+  });
+
+  it('ignores self-loops and cables to missing nodes', () => {
+    const nodes = ['a', 'b'].map(node);
+    expect(topologicalSort(nodes, [edge('a', 'a'), edge('ghost', 'b'), edge('a', 'b')])).toEqual({ order: ['a', 'b'], cycle: [] });
+  });
+
+  it('reports the nodes that form a cycle and sorts the rest', () => {
+    const nodes = ['root', 'x', 'y', 'z', 'after'].map(node);
+    const { order, cycle } = topologicalSort(nodes, [edge('root', 'x'), edge('x', 'y'), edge('y', 'z'), edge('z', 'x'), edge('z', 'after')]);
+    expect(order).toEqual(['root']);
+    expect(cycle).toEqual(['x', 'y', 'z']);
+  });
+});
+
+describe('wouldCreateCycle', () => {
+  const connections = [edge('a', 'b'), edge('b', 'c'), edge('x', 'c')];
+
+  it('detects cables that close a loop', () => {
+    expect(wouldCreateCycle(connections, 'c', 'a')).toBe(true);
+    expect(wouldCreateCycle(connections, 'b', 'a')).toBe(true);
+    expect(wouldCreateCycle(connections, 'a', 'a')).toBe(true);
+  });
+
+  it('allows cables that keep the graph acyclic', () => {
+    expect(wouldCreateCycle(connections, 'a', 'c')).toBe(false);
+    expect(wouldCreateCycle(connections, 'x', 'a')).toBe(false);
+    expect(wouldCreateCycle(connections, 'c', 'new')).toBe(false);
+  });
+});
+
+describe('getUpstreamIds', () => {
+  it('lists each input node once', () => {
+    expect(getUpstreamIds([edge('a', 'c'), edge('a', 'c', 1), edge('b', 'c'), edge('c', 'd')], 'c')).toEqual(['a', 'b']);
+  });
+});
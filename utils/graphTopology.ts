@@ -0,0 +1,102 @@
+import { Node, Connection } from '../types/graph';
+
+/**
+ * Dependency helpers for the node graph. Connections always point downstream
+ * (fromNodeId produces data that toNodeId consumes).
+ */
+
+export interface TopologicalOrder {
+  order: string[]; // Node ids, every node after all of its inputs
+  cycle: string[]; // Node ids forming a cycle (empty when the graph is acyclic)
+}
+
+export const getUpstreamIds = (connections: Connection[], nodeId: string): string[] =>
+  Array.from(new Set(connections.filter(c => c.toNodeId === nodeId).map(c => c.fromNodeId)));
+
+const buildAdjacency = (connections: Connection[]) => {
+  const adjacency = new Map<string, string[]>();
+  connections.forEach(c => {
+    if (!adjacency.has(c.fromNodeId)) adjacency.set(c.fromNodeId, []);
+    adjacency.get(c.fromNodeId)!.push(c.toNodeId);
+  });
+  return adjacency;
+};
+
+/**
+ * Finds one cycle among `candidates` (DFS); used to report *which* nodes loop, not just that they do.
+ */
+const findCycle = (candidates: Set<string>, adjacency: Map<string, string[]>): string[] => {
+  const state = new Map<string, 'visiting' | 'done'>();
+  const path: string[] = [];
+
+  const visit = (id: string): string[] | null => {
+    state.set(id, 'visiting');
+    path.push(id);
+    for (const next of adjacency.get(id) || []) {
+      if (!candidates.has(next)) continue;
+      if (state.get(next) === 'visiting') return path.slice(path.indexOf(next));
+      if (!state.has(next)) {
+        const found = visit(next);
+        if (found) return found;
+      }
+    }
+    path.pop();
+    state.set(id, 'done');
+    return null;
+  };
+
+  for (const id of candidates) {
+    if (state.has(id)) continue;
+    const found = visit(id);
+    if (found) return found;
+  }
+  return [];
+};
+
+/**
+ * Kahn's algorithm. Nodes are taken in their original order when several are ready,
+ * so the result is stable across runs.
+ */
+export const topologicalSort = (nodes: Node[], connections: Connection[]): TopologicalOrder => {
+  const ids = new Set(nodes.map(n => n.id));
+  const edges = connections.filter(c => ids.has(c.fromNodeId) && ids.has(c.toNodeId) && c.fromNodeId !== c.toNodeId);
+  const adjacency = buildAdjacency(edges);
+
+  const inDegree = new Map<string, number>(nodes.map(n => [n.id, 0]));
+  edges.forEach(c => inDegree.set(c.toNodeId, (inDegree.get(c.toNodeId) || 0) + 1));
+
+  const order: string[] = [];
+  const ready = nodes.filter(n => inDegree.get(n.id) === 0).map(n => n.id);
+  while (ready.length > 0) {
+    const id = ready.shift()!;
+    order.push(id);
+    (adjacency.get(id) || []).forEach(next => {
+      const remaining = (inDegree.get(next) || 0) - 1;
+      inDegree.set(next, remaining);
+      if (remaining === 0) ready.push(next);
+    });
+  }
+
+  if (order.length === nodes.length) return { order, cycle: [] };
+
+  const leftover = new Set(nodes.map(n => n.id).filter(id => !order.includes(id)));
+  return { order, cycle: findCycle(leftover, adjacency) };
+};
+
+/**
+ * True when adding from -> to would close a loop (i.e. `to` already reaches `from`).
+ */
+export const wouldCreateCycle = (connections: Connection[], fromNodeId: string, toNodeId: string): boolean => {
+  if (fromNodeId === toNodeId) return true;
+  const adjacency = buildAdjacency(connections);
+  const stack = [toNodeId];
+  const seen = new Set<string>();
+  while (stack.length > 0) {
+    const id = stack.pop()!;
+    if (id === fromNodeId) return true;
+    if (seen.has(id)) continue;
+    seen.add(id);
+    stack.push(...(adjacency.get(id) || []));
+  }
+  return false;
+};
@@ -0,0 +1,79 @@
+import { Node, Graph } from '../types/graph';
+import { storeImage, resolveImage, isImageRef } from '../services/persistence/imageStore';
+
+// Every place in node data where an image (inline base64 or store reference) can live.
+const IMAGE_FIELD_PATHS: string[][] = [
+  ['image'],
+  ['clothingImage'],
+  ['referenceImage'],
+  ['startImage'],
+  ['endImage'],
+  ['incomingTransformationData', 'referenceImage'],
+];
+
+// Image nodes also keep every previous take
+const takeImages = (data: any): string[] =>
+  Array.isArray(data?.takes) ? data.takes.map((take: any) => take?.image).filter((v: unknown): v is string => typeof v === 'string' && !!v) : [];
+
+const getPath = (obj: any, path: string[]) => path.reduce((acc, key) => (acc == null ? undefined : acc[key]), obj);
+
+const setPath = (obj: any, path: string[], value: any): any => {
+  const [key, ...rest] = path;
+  return { ...obj, [key]: rest.length === 0 ? value : setPath(obj[key] || {}, rest, value) };
+};
+
+/**
+ * Returns a copy of the node with every image field passed through `fn`.
+ */
+export const mapNodeImages = async (node: Node, fn: (value: string) => Promise<string | undefined>): Promise<Node> => {
+  let data: any = node.data;
+  for (const path of IMAGE_FIELD_PATHS) {
+    const value = getPath(data, path);
+    if (typeof value === 'string' && value) {
+      const mapped = await fn(value);
+      if (mapped !== value) data = setPath(data, path, mapped);
+    }
+  }
+  if (takeImages(data).length > 0) {
+    const takes = await Promise.all(data.takes.map(async (take: any) => {
+      if (typeof take?.image !== 'string' || !take.image) return take;
+      const mapped = await fn(take.image);
+      return mapped === take.image ? take : { ...take, image: mapped };
+    }));
+    if (takes.some((take, i) => take !== data.takes[i])) data = { ...data, takes };
+  }
+  return data === node.data ? node : { ...node, data };
+};
+
+/**
+ * Lists every image reference used by the given nodes.
+ */
+export const collectImageRefs = (nodes: Node[]): string[] => {
+  const refs = new Set<string>();
+  nodes.forEach(node => {
+    IMAGE_FIELD_PATHS.forEach(path => {
+      const value = getPath(node.data, path);
+      if (isImageRef(value)) refs.add(value);
+    });
+    takeImages(node.data).forEach(value => {
+      if (isImageRef(value)) refs.add(value);
+    });
+  });
+  return Array.from(refs);
+};
+
+/**
+ * Moves inline base64 images into the image store, leaving references in the graph.
+ */
+export const externalizeGraphImages = async <T extends Pick<Graph, 'nodes'>>(graph: T): Promise<T> => {
+  const nodes = await Promise.all(graph.nodes.map(node => mapNodeImages(node, storeImage)));
+  return { ...graph, nodes };
+};
+
+/**
+ * Replaces image references with data URLs, for exports that must be self-contained.
+ */
+export const inlineGraphImages = async <T extends Pick<Graph, 'nodes'>>(graph: T): Promise<T> => {
+  const nodes = await Promise.all(graph.nodes.map(node => mapNodeImages(node, async value => (await resolveImage(value)) || value)));
+  return { ...graph, nodes };
+};
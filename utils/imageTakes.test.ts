@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { addTake, selectTake, removeTake, updateSelectedTake, MAX_TAKES } from './imageTakes';
+import { ImageData, ImageTake } from '../types/graph';
+
+const take = (id: string, extra: Partial<ImageTake> = {}): ImageTake => ({
+  id,
+  image: `img:${id}`,
+  source: 'generated',
+  createdAt: 0,
+  ...extra,
+});
+
+const GENERATED = take('t1', {
+  prompt: 'first prompt',
+  enrichedSceneJson: { scene_globals: { description: 'first' } } as any,
+  inputHashes: { image: 'image:1', enrichedSceneJson: 'spec:1' },
+});
+
+const base: ImageData = { prompt: 'node prompt', isLoading: false };
+
+describe('imageTakes', () => {
+  it('addTake selects the new take and mirrors its fields', () => {
+    const data = { ...base, ...addTake(base, GENERATED) } as ImageData;
+    expect(data).toMatchObject({
+      image: 'img:t1',
+      prompt: 'first prompt',
+      selectedTakeId: 't1',
+      inputHashes: { image: 'image:1', enrichedSceneJson: 'spec:1' },
+    });
+    expect(data.takes).toEqual([GENERATED]);
+  });
+
+  it('addTake keeps the spec and stamp for a take without its own (uploads)', () => {
+    const withSpec = { ...base, ...addTake(base, GENERATED) } as ImageData;
+    const data = { ...withSpec, ...addTake(withSpec, take('up', { source: 'upload' })) } as ImageData;
+    expect(data.image).toBe('img:up');
+    expect(data.prompt).toBe('first prompt');
+    expect(data.enrichedSceneJson).toBe(GENERATED.enrichedSceneJson);
+    expect(data.inputHashes).toEqual({ image: undefined, enrichedSceneJson: 'spec:1' });
+  });
+
+  it('addTake drops the oldest takes past MAX_TAKES', () => {
+    let data = base;
+    for (let i = 0; i <= MAX_TAKES; i++) data = { ...data, ...addTake(data, take(`t${i}`)) } as ImageData;
+    expect(data.takes).toHaveLength(MAX_TAKES);
+    expect(data.takes![0].id).toBe('t1');
+  });
+
+  it('selectTake pins another take and ignores the current or unknown ones', () => {
+    const data = [GENERATED, take('t2')].reduce((acc, t) => ({ ...acc, ...addTake(acc, t) }) as ImageData, base);
+    expect(selectTake(data, 't2')).toBeNull();
+    expect(selectTake(data, 'missing')).toBeNull();
+    expect(selectTake(data, 't1')).toMatchObject({ image: 'img:t1', selectedTakeId: 't1', prompt: 'first prompt' });
+  });
+
+  it('removeTake falls back to the newest remaining take', () => {
+    const data = [take('t1'), take('t2'), take('t3')].reduce((acc, t) => ({ ...acc, ...addTake(acc, t) }) as ImageData, base);
+    const pinned = { ...data, ...selectTake(data, 't2') } as ImageData;
+
+    // Borrar una toma no seleccionada no toca la imagen
+    expect(removeTake(pinned, 't3')).toEqual({ takes: [data.takes![0], data.takes![1]] });
+    expect(removeTake(pinned, 't2')).toMatchObject({ image: 'img:t3', selectedTakeId: 't3' });
+  });
+
+  it('removeTake clears the image when the last take goes', () => {
+    const data = { ...base, ...addTake(base, take('t1')) } as ImageData;
+    expect(removeTake(data, 't1')).toEqual({ takes: [], image: undefined, selectedTakeId: undefined, debugTrace: undefined });
+  });
+
+  it('updateSelectedTake patches only the selected take', () => {
+    const data = [take('t1'), take('t2')].reduce((acc, t) => ({ ...acc, ...addTake(acc, t) }) as ImageData, base);
+    const { takes } = updateSelectedTake(data, { prompt: 'edited' });
+    expect(takes!.map(t => t.prompt)).toEqual([undefined, 'edited']);
+    expect(updateSelectedTake(base, { prompt: 'edited' })).toEqual({});
+  });
+});
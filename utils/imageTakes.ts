@@ -0,0 +1,78 @@
+import { ImageData, ImageTake } from '../types/graph';
+
+/**
+ * Version history of an Image node. Every generation (or upload) adds a take; the selected
+ * take is mirrored into the node's own fields (image, prompt, spec, trace, stamps), which is
+ * what Transformation and Video nodes read downstream.
+ */
+
+export const MAX_TAKES = 24;
+
+type TakeFields = Pick<ImageData, 'image' | 'prompt' | 'enrichedSceneJson' | 'debugTrace' | 'inputHashes' | 'takes' | 'selectedTakeId'>;
+
+export const createTake = (image: string, details: Omit<ImageTake, 'id' | 'image' | 'createdAt'>): ImageTake => ({
+  id: crypto.randomUUID(),
+  image,
+  createdAt: Date.now(),
+  ...details,
+});
+
+export const getTakes = (data: ImageData): ImageTake[] => data.takes || [];
+
+export const getSelectedTake = (data: ImageData): ImageTake | undefined =>
+  getTakes(data).find(take => take.id === data.selectedTakeId);
+
+// Campos del nodo que reflejan una toma concreta
+// (una toma sin spec propia, como una subida manual, conserva la spec y el sello actuales)
+const mirrorTake = (data: ImageData, take: ImageTake): Omit<TakeFields, 'takes'> => {
+  const hasSpec = !!take.enrichedSceneJson;
+  return {
+    image: take.image,
+    prompt: take.prompt ?? data.prompt,
+    enrichedSceneJson: hasSpec ? take.enrichedSceneJson : data.enrichedSceneJson,
+    debugTrace: take.debugTrace,
+    inputHashes: {
+      ...(data.inputHashes || {}),
+      image: take.inputHashes?.image,
+      enrichedSceneJson: hasSpec ? take.inputHashes?.enrichedSceneJson : data.inputHashes?.enrichedSceneJson,
+    },
+    selectedTakeId: take.id,
+  };
+};
+
+/**
+ * Adds a take and selects it. Past MAX_TAKES the oldest takes are dropped.
+ */
+export const addTake = (data: ImageData, take: ImageTake): Partial<ImageData> => {
+  const takes = [...getTakes(data), take].slice(-MAX_TAKES);
+  return { ...mirrorTake(data, take), takes };
+};
+
+/**
+ * Pins an existing take as the node's current image.
+ */
+export const selectTake = (data: ImageData, takeId: string): Partial<ImageData> | null => {
+  const take = getTakes(data).find(t => t.id === takeId);
+  if (!take || take.id === data.selectedTakeId) return null;
+  return mirrorTake(data, take);
+};
+
+/**
+ * Removes a take. Deleting the selected one falls back to the newest remaining take,
+ * or clears the image when none is left.
+ */
+export const removeTake = (data: ImageData, takeId: string): Partial<ImageData> => {
+  const takes = getTakes(data).filter(t => t.id !== takeId);
+  if (takeId !== data.selectedTakeId) return { takes };
+  const fallback = takes[takes.length - 1];
+  if (fallback) return { ...mirrorTake(data, fallback), takes };
+  return { takes, image: undefined, selectedTakeId: undefined, debugTrace: undefined };
+};
+
+/**
+ * Keeps the selected take in sync when the node's spec is edited in place (e.g. reverse engineering).
+ */
+export const updateSelectedTake = (data: ImageData, patch: Partial<Omit<ImageTake, 'id' | 'image'>>): Partial<ImageData> => {
+  if (!data.selectedTakeId) return {};
+  return { takes: getTakes(data).map(take => (take.id === data.selectedTakeId ? { ...take, ...patch } : take)) };
+};
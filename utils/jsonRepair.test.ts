@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { repairJson, safeJsonParse } from './jsonRepair';
+
+describe('repairJson', () => {
+  it('returns valid JSON untouched', () => {
+    expect(repairJson('{"a": [1, 2], "b": "x"}')).toEqual({ value: { a: [1, 2], b: 'x' }, repairs: [] });
+  });
+
+  it('strips markdown fences and surrounding prose', () => {
+    const { value, repairs } = repairJson('Here you go:\n```json\n{"mood": "tense"}\n```\nHope it helps!');
+    expect(value).toEqual({ mood: 'tense' });
+    expect(repairs).toContain('Removed markdown code fences');
+  });
+
+  it('fixes JavaScript-style objects', () => {
+    const { value, repairs } = repairJson("{ mood: 'tense', // comment\n tags: ['a', 'b',], ok: True, n: NaN, }");
+    expect(value).toEqual({ mood: 'tense', tags: ['a', 'b'], ok: true, n: null });
+    expect(repairs).toEqual([
+      'Quoted unquoted keys (×4)',
+      'Converted single-quoted strings (×3)',
+      'Removed comments',
+      'Removed trailing commas (×2)',
+      'Converted True/False/None literals',
+      'Replaced NaN/undefined/Infinity with null',
+    ]);
+  });
+
+  it('inserts missing commas and escapes raw newlines', () => {
+    expect(repairJson('{"a": 1 "b": "line\nbreak"}').value).toEqual({ a: 1, b: 'line\nbreak' });
+  });
+
+  it('closes output truncated mid-string', () => {
+    const { value, repairs } = repairJson('{"subjects": [{"description": "A lone fig');
+    expect(value).toEqual({ subjects: [{ description: 'A lone fig' }] });
+    expect(repairs).toEqual(expect.arrayContaining(['Closed an unterminated string', 'Closed unclosed brackets']));
+  });
+
+  it('drops a key left without value', () => {
+    expect(repairJson('{"a": 1, "b":').value).toEqual({ a: 1 });
+  });
+
+  it('unescapes invalid escape sequences in double-quoted strings', () => {
+    const { value, repairs } = repairJson('{"d": "it\\\'s", "p": "C:\\x", "ok": "a\\n\\u00e9\\"b"}');
+    expect(value).toEqual({ d: "it's", p: 'C:x', ok: 'a\né"b' });
+    expect(repairs).toEqual(['Unescaped invalid escape sequences in strings (×2)']);
+  });
+
+  it('recovers a number truncated mid-token', () => {
+    expect(repairJson('{"a": 1.').value).toEqual({ a: 1 });
+    expect(repairJson('{"a": [2.5, 3e').value).toEqual({ a: [2.5, 3] });
+    const { value, repairs } = repairJson('{"a": 1, "b": -');
+    expect(value).toEqual({ a: 1 });
+    expect(repairs).toContain('Completed a truncated number');
+  });
+
+  it('inserts commas only between values, not after keys', () => {
+    expect(repairJson('{"a": {"x": 1} "b": [1 2] "c" : "v" "d": true}').value).toEqual({ a: { x: 1 }, b: [1, 2], c: 'v', d: true });
+  });
+
+  it('repairs large output in linear time', () => {
+    const items = Array.from({ length: 20000 }, (_, i) => `{"id": ${i} "name": 'item ${i}'}`).join(' ');
+    const started = performance.now();
+    const { value } = repairJson<{ items: unknown[] }>(`{"items": [${items}`);
+    expect(value?.items).toHaveLength(20000);
+    expect(performance.now() - started).toBeLessThan(2000);
+  });
+
+  it('gives up on text without JSON', () => {
+    expect(repairJson('').value).toBeUndefined();
+    expect(repairJson('no json here').value).toBeUndefined();
+    expect(repairJson('Sorry').value).toBeUndefined();
+  });
+});
+
+describe('safeJsonParse', () => {
+  it('falls back when nothing is recoverable', () => {
+    expect(safeJsonParse('nothing', { empty: true })).toEqual({ empty: true });
+  });
+});
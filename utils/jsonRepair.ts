@@ -1,28 +1,399 @@
+/**
+ * Tolerant JSON parser for model output.
+ *
+ * Models wrap JSON in markdown, add prose, use single quotes, leave trailing commas or
+ * comments, put raw newlines inside strings, or get cut off mid-object when they hit the
+ * token limit. `repairJson` normalises all of that in a single scan, closes whatever is
+ * still open and, as a last resort, keeps the largest prefix that parses. Every fix is
+ * reported so the trace inspector can show what was changed.
+ */
 
-export const safeJsonParse = <T>(inputString: string, fallback: T): T => {
-  if (!inputString) return fallback;
+export interface JsonRepairResult<T> {
+  value: T | undefined; // undefined when nothing usable could be recovered
+  repairs: string[]; // Human readable list of fixes applied (empty = valid JSON as-is)
+}
 
-  let cleanString = inputString;
+type Closer = '}' | ']';
 
-  // 1. Remove common Markdown code block markers
-  cleanString = cleanString.replace(/^```json\s*/i, "").replace(/^```\s*/i, "").replace(/```\s*$/, "");
+interface SafePoint {
+  length: number; // Output length right after a complete value
+  stack: Closer[];
+}
 
-  // 2. Find the first '{' and the last '}' to extract the JSON object
-  // This handles cases where the model adds preamble text like "Here is the JSON:"
-  const firstBrace = cleanString.indexOf('{');
-  const lastBrace = cleanString.lastIndexOf('}');
+const REPAIR_LABELS = {
+  fences: 'Removed markdown code fences',
+  prose: 'Removed text around the JSON',
+  comments: 'Removed comments',
+  singleQuotes: 'Converted single-quoted strings',
+  controlChars: 'Escaped raw newlines/control characters in strings',
+  invalidEscapes: 'Unescaped invalid escape sequences in strings',
+  trailingCommas: 'Removed trailing commas',
+  duplicateCommas: 'Removed duplicate commas',
+  missingCommas: 'Inserted missing commas',
+  unquotedKeys: 'Quoted unquoted keys',
+  bareWords: 'Quoted bare string values',
+  pythonLiterals: 'Converted True/False/None literals',
+  invalidLiterals: 'Replaced NaN/undefined/Infinity with null',
+  truncatedNumber: 'Completed a truncated number',
+  strayBrackets: 'Removed stray closing brackets',
+  mismatchedBrackets: 'Closed brackets left open before a mismatched closer',
+  unterminatedString: 'Closed an unterminated string',
+  danglingKey: 'Dropped a key without value at the end',
+  unclosedBrackets: 'Closed unclosed brackets',
+  trailingText: 'Ignored text after the JSON',
+  truncated: 'Dropped an incomplete trailing value (kept the largest valid prefix)',
+} as const;
 
-  if (firstBrace !== -1 && lastBrace !== -1 && lastBrace > firstBrace) {
-    cleanString = cleanString.substring(firstBrace, lastBrace + 1);
-  }
+type RepairKind = keyof typeof REPAIR_LABELS;
+
+const PYTHON_LITERALS: Record<string, string> = { True: 'true', False: 'false', None: 'null' };
+const INVALID_LITERALS = new Set(['NaN', 'undefined', 'Infinity', '-Infinity']);
+const JSON_ESCAPES = new Set(['"', '\\', '/', 'b', 'f', 'n', 'r', 't']);
+
+// Último token significativo emitido: decide si hace falta una coma antes del siguiente valor
+type Token = 'open' | 'comma' | 'colon' | 'key' | 'value';
+
+const isIdentStart = (c: string) => /[A-Za-z_$]/.test(c);
+const isIdentChar = (c: string) => /[A-Za-z0-9_$\-]/.test(c);
+
+const isSpace = (c: string) => c === ' ' || c === '\n' || c === '\r' || c === '\t';
+
+const trimTrailingComma = (s: string): { text: string; removed: boolean } => {
+  let end = s.length;
+  while (end > 0 && isSpace(s[end - 1])) end--;
+  return s[end - 1] === ',' ? { text: s.slice(0, end - 1), removed: true } : { text: s, removed: false };
+};
+
+const nextNonSpace = (s: string, from: number): string => {
+  let i = from;
+  while (i < s.length && isSpace(s[i])) i++;
+  return s[i] || '';
+};
 
+const tryParse = (text: string): { ok: true; value: unknown } | { ok: false } => {
   try {
-    return JSON.parse(cleanString) as T;
-  } catch (error) {
-    console.warn("safeJsonParse: Standard JSON.parse failed.", error);
+    return { ok: true, value: JSON.parse(text) };
+  } catch {
+    return { ok: false };
+  }
+};
+
+/**
+ * Cuts markdown fences and surrounding prose, returning the text from the first `{`/`[`.
+ */
+const extractCandidate = (input: string, note: (kind: RepairKind) => void): string => {
+  let text = input.trim();
+
+  if (/```/.test(text)) {
+    const fenced = text.match(/```(?:json|JSON)?\s*([\s\S]*?)(?:```|$)/);
+    if (fenced) {
+      text = fenced[1].trim();
+      note('fences');
+    }
+  }
+
+  const start = text.search(/[{[]/);
+  if (start > 0) {
+    text = text.slice(start);
+    note('prose');
+  }
+  return text;
+};
+
+/**
+ * Single pass that rewrites the candidate into strict JSON where it can, tracking open
+ * brackets and the points where the output is a complete value (for prefix recovery).
+ */
+const normalize = (text: string, note: (kind: RepairKind) => void) => {
+  let out = '';
+  const stack: Closer[] = [];
+  const safePoints: SafePoint[] = [];
+  let inString = false;
+  let stringIsKey = false;
+  let quote = '"';
+  let escape = false;
+  let last: Token = 'open';
+  let commaAt = 0; // Longitud de `out` antes de la última coma (para quitarla si llega un cierre)
+  let i = 0;
+
+  const markSafe = () => {
+    if (stack.length > 0) safePoints.push({ length: out.length, stack: [...stack] });
+  };
+
+  // A value directly after another value (e.g. `"a": 1 "b": 2`) needs a comma
+  const ensureSeparator = () => {
+    if (last === 'value' && stack.length > 0) {
+      commaAt = out.length;
+      out += ',';
+      note('missingCommas');
+      last = 'comma';
+    }
+  };
+
+  for (; i < text.length; i++) {
+    const c = text[i];
+
+    if (inString) {
+      if (c === '\\') {
+        const next = text[i + 1];
+        if (next === undefined) {
+          // Cortado justo después de la barra
+          escape = true;
+          out += c;
+          continue;
+        }
+        if (quote === "'" && next === "'") {
+          out += "'"; // \' is not a valid JSON escape
+          i++;
+          continue;
+        }
+        if (JSON_ESCAPES.has(next) || (next === 'u' && /^[0-9a-fA-F]{4}$/.test(text.slice(i + 2, i + 6)))) {
+          out += c + next;
+          i++;
+          continue;
+        }
+        // `\'`, `\x`, `\a`...: se descarta la barra y el carácter se trata como texto normal
+        note('invalidEscapes');
+        continue;
+      }
+      if (c === quote) {
+        inString = false;
+        last = stringIsKey ? 'key' : 'value';
+        out += '"';
+        continue;
+      }
+      if (quote === "'" && c === '"') {
+        out += '\\"';
+        continue;
+      }
+      if (c < ' ') {
+        note('controlChars');
+        out += c === '\n' ? '\\n' : c === '\r' ? '\\r' : c === '\t' ? '\\t' : `\\u${c.charCodeAt(0).toString(16).padStart(4, '0')}`;
+        continue;
+      }
+      out += c;
+      continue;
+    }
+
+    // --- Outside strings ---
+    if (c === '"' || c === "'") {
+      ensureSeparator();
+      if (c === "'") note('singleQuotes');
+      stringIsKey = stack[stack.length - 1] === '}' && last !== 'colon';
+      inString = true;
+      quote = c;
+      out += '"';
+      continue;
+    }
+
+    if (c === '/' && text[i + 1] === '/') {
+      const end = text.indexOf('\n', i);
+      i = end === -1 ? text.length : end - 1;
+      note('comments');
+      continue;
+    }
+    if (c === '/' && text[i + 1] === '*') {
+      const end = text.indexOf('*/', i + 2);
+      i = end === -1 ? text.length : end + 1;
+      note('comments');
+      continue;
+    }
+
+    if (c === '{' || c === '[') {
+      ensureSeparator();
+      stack.push(c === '{' ? '}' : ']');
+      out += c;
+      last = 'open';
+      continue;
+    }
+
+    if (c === '}' || c === ']') {
+      // Sin leer `out`: indexar el string acumulado lo aplana en cada cierre (cuadrático)
+      if (last === 'comma') {
+        out = out.slice(0, commaAt);
+        note('trailingCommas');
+      }
+      if (stack.length === 0 || !stack.includes(c)) {
+        note('strayBrackets');
+        continue;
+      }
+      while (stack[stack.length - 1] !== c) {
+        out += stack.pop();
+        note('mismatchedBrackets');
+      }
+      out += stack.pop();
+      last = 'value';
+      if (stack.length === 0) {
+        if (text.slice(i + 1).trim()) note('trailingText');
+        return { out, stack, safePoints, inString: false, escape: false };
+      }
+      markSafe();
+      continue;
+    }
+
+    if (c === ',') {
+      if (last === 'comma' || last === 'open') {
+        note('duplicateCommas');
+        continue;
+      }
+      markSafe();
+      commaAt = out.length;
+      out += c;
+      last = 'comma';
+      continue;
+    }
+
+    if (c === ':') {
+      out += c;
+      last = 'colon';
+      continue;
+    }
+
+    if (c === '-' && text.startsWith('-Infinity', i)) {
+      ensureSeparator();
+      out += 'null';
+      i += '-Infinity'.length - 1;
+      note('invalidLiterals');
+      last = 'value';
+      continue;
+    }
+
+    if (isIdentStart(c)) {
+      let j = i;
+      while (j < text.length && isIdentChar(text[j])) j++;
+      const word = text.slice(i, j);
+      const isKey = nextNonSpace(text, j) === ':' && stack[stack.length - 1] === '}';
+      ensureSeparator();
+      if (isKey) {
+        out += JSON.stringify(word);
+        note('unquotedKeys');
+      } else if (word === 'true' || word === 'false' || word === 'null') {
+        out += word;
+      } else if (word in PYTHON_LITERALS) {
+        out += PYTHON_LITERALS[word];
+        note('pythonLiterals');
+      } else if (INVALID_LITERALS.has(word)) {
+        out += 'null';
+        note('invalidLiterals');
+      } else {
+        out += JSON.stringify(word);
+        note('bareWords');
+      }
+      last = isKey ? 'key' : 'value';
+      i = j - 1;
+      continue;
+    }
+
+    if (/[0-9-]/.test(c)) {
+      let j = i;
+      while (j < text.length && /[0-9eE+\-.]/.test(text[j])) j++;
+      ensureSeparator();
+      // `1.`, `2e`, `-`: número cortado, se queda la parte válida (o nada, y la clave queda colgando)
+      const number = text.slice(i, j);
+      const complete = number.replace(/[.eE+\-]+$/, '');
+      if (complete !== number) note('truncatedNumber');
+      out += complete;
+      if (complete) last = 'value';
+      i = j - 1;
+      continue;
+    }
+
+    out += c;
+  }
+
+  return { out, stack, safePoints, inString, escape };
+};
+
+/**
+ * Closes whatever the scan left open: string, dangling key, trailing comma, brackets.
+ */
+const closeOpen = (out: string, stack: Closer[], note: (kind: RepairKind) => void): string => {
+  let text = out.replace(/\s+$/, '');
+
+  const { text: noComma, removed } = trimTrailingComma(text);
+  if (removed) {
+    text = noComma;
+    note('trailingCommas');
+  }
+
+  if (stack[stack.length - 1] === '}') {
+    // `"key":` o `"key"` sin valor al final de un objeto
+    if (text.endsWith(':')) {
+      text = text.replace(/,?\s*"(?:[^"\\]|\\.)*"\s*:$/, '');
+      note('danglingKey');
+    } else {
+      const key = text.match(/([{,])\s*"(?:[^"\\]|\\.)*"$/);
+      if (key && key.index !== undefined) {
+        text = text.slice(0, key.index + (key[1] === '{' ? 1 : 0));
+        note('danglingKey');
+      }
+    }
+  }
+
+  if (stack.length > 0) {
+    text += [...stack].reverse().join('');
+    note('unclosedBrackets');
+  }
+  return text;
+};
+
+export const repairJson = <T = unknown>(input: string): JsonRepairResult<T> => {
+  if (!input || !input.trim()) return { value: undefined, repairs: [] };
+
+  const counts = new Map<RepairKind, number>();
+  const note = (kind: RepairKind) => counts.set(kind, (counts.get(kind) || 0) + 1);
+  const report = () =>
+    Array.from(counts.entries()).map(([kind, n]) => (n > 1 ? `${REPAIR_LABELS[kind]} (×${n})` : REPAIR_LABELS[kind]));
+
+  // Fast path: already valid JSON
+  const direct = tryParse(input);
+  if (direct.ok && typeof direct.value === 'object' && direct.value !== null) {
+    return { value: direct.value as T, repairs: [] };
+  }
+
+  const candidate = extractCandidate(input, note);
+  // Sin `{` ni `[` no hay objeto que recuperar (prosa sola no se convierte en un string JSON)
+  if (!/^[{[]/.test(candidate)) return { value: undefined, repairs: report() };
+  const plain = tryParse(candidate);
+  if (plain.ok) return { value: plain.value as T, repairs: report() };
+
+  const scan = normalize(candidate, note);
+  let out = scan.out;
+  if (scan.inString) {
+    if (scan.escape) out = out.slice(0, -1);
+    out += '"';
+    note('unterminatedString');
+  }
+
+  const closed = closeOpen(out, scan.stack, note);
+  const parsed = tryParse(closed);
+  if (parsed.ok) return { value: parsed.value as T, repairs: report() };
+
+  // Último recurso: el prefijo válido más largo, cortando en el último valor completo
+  for (let p = scan.safePoints.length - 1; p >= 0; p--) {
+    const point = scan.safePoints[p];
+    const attempt = tryParse(closeOpen(scan.out.slice(0, point.length), point.stack, () => {}));
+    if (attempt.ok) {
+      note('truncated');
+      return { value: attempt.value as T, repairs: report() };
+    }
+  }
+
+  return { value: undefined, repairs: report() };
+};
+
+/**
+ * Parses model output, repairing it if needed. Returns `fallback` when nothing is recoverable.
+ */
+export const safeJsonParse = <T>(inputString: string, fallback: T): T => {
+  if (!inputString) return fallback;
+
+  const { value, repairs } = repairJson<T>(inputString);
+  if (repairs.length > 0) console.warn("safeJsonParse: repaired model output:", repairs);
+  if (value === undefined) {
+    console.warn("safeJsonParse: could not recover any JSON.");
     console.debug("safeJsonParse: Failed string content:", inputString);
-    
-    // Return the fallback if parsing fails
     return fallback;
   }
+  return value;
 };
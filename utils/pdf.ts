@@ -0,0 +1,220 @@
+/**
+ * Minimal PDF writer: standard Helvetica fonts (WinAnsi), filled/stroked rectangles and
+ * JPEG images. Enough for printable storyboard sheets without a PDF library.
+ * Coordinates are in points with the origin at the TOP-left of the page.
+ */
+
+export type PdfFont = 'regular' | 'bold' | 'italic';
+
+export type PdfColor = [number, number, number]; // 0..1 RGB
+
+export interface PdfTextOptions {
+  size?: number;
+  font?: PdfFont;
+  color?: PdfColor;
+}
+
+export interface PdfRectOptions {
+  fill?: PdfColor;
+  stroke?: PdfColor;
+  lineWidth?: number;
+}
+
+export interface PdfPage {
+  text: (x: number, y: number, value: string, options?: PdfTextOptions) => void;
+  rect: (x: number, y: number, width: number, height: number, options?: PdfRectOptions) => void;
+  image: (imageName: string, x: number, y: number, width: number, height: number) => void;
+}
+
+export interface PdfDocument {
+  addPage: (width: number, height: number) => PdfPage;
+  addJpeg: (bytes: Uint8Array, width: number, height: number) => string;
+  build: () => Uint8Array;
+}
+
+export const PAGE_SIZES = {
+  A4: { width: 595.28, height: 841.89 },
+  Letter: { width: 612, height: 792 },
+} as const;
+
+const FONT_NAMES: Record<PdfFont, { resource: string; base: string }> = {
+  regular: { resource: 'F1', base: 'Helvetica' },
+  bold: { resource: 'F2', base: 'Helvetica-Bold' },
+  italic: { resource: 'F3', base: 'Helvetica-Oblique' },
+};
+
+// Anchos AFM (por 1000 unidades) de los caracteres 32..126
+const HELVETICA_WIDTHS = [
+  278, 278, 355, 556, 556, 889, 667, 191, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 278, 278, 584, 584, 584, 556,
+  1015, 667, 667, 722, 722, 667, 611, 778, 722, 278, 500, 667, 556, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 278, 278, 278, 469, 556,
+  333, 556, 556, 500, 556, 556, 278, 556, 556, 222, 222, 500, 222, 833, 556, 556,
+  556, 556, 333, 500, 278, 556, 500, 722, 500, 500, 500, 334, 260, 334, 584,
+];
+const HELVETICA_BOLD_WIDTHS = [
+  278, 333, 474, 556, 556, 889, 722, 238, 333, 333, 389, 584, 278, 333, 278, 278,
+  556, 556, 556, 556, 556, 556, 556, 556, 556, 556, 333, 333, 584, 584, 584, 611,
+  975, 722, 722, 722, 722, 667, 611, 778, 722, 278, 556, 722, 611, 833, 722, 778,
+  667, 778, 722, 667, 611, 722, 667, 944, 667, 667, 611, 333, 278, 333, 584, 556,
+  333, 556, 611, 556, 611, 556, 333, 611, 611, 278, 278, 556, 278, 889, 611, 611,
+  611, 611, 389, 556, 333, 611, 556, 778, 556, 556, 500, 389, 280, 389, 584,
+];
+
+// Tipografía "inteligente" -> equivalentes WinAnsi; el resto fuera de Latin-1 se sustituye
+const normalizeText = (value: string) =>
+  value
+    .replace(/[‘’]/g, "'")
+    .replace(/[“”]/g, '"')
+    .replace(/[–—]/g, '-')
+    .replace(/…/g, '...')
+    .replace(/[\r\t]/g, ' ')
+    .replace(/[^\x20-\x7E\xA0-\xFF\n]/g, '?');
+
+export const measureText = (value: string, size: number, font: PdfFont = 'regular') => {
+  const widths = font === 'bold' ? HELVETICA_BOLD_WIDTHS : HELVETICA_WIDTHS;
+  let total = 0;
+  for (const char of normalizeText(value)) {
+    const code = char.charCodeAt(0);
+    total += code >= 32 && code <= 126 ? widths[code - 32] : 556;
+  }
+  return (total * size) / 1000;
+};
+
+/**
+ * Greedy word wrap. Words wider than the line are cut; explicit line breaks are kept.
+ */
+export const wrapText = (value: string, maxWidth: number, size: number, font: PdfFont = 'regular'): string[] => {
+  const lines: string[] = [];
+  normalizeText(value).split('\n').forEach(paragraph => {
+    let line = '';
+    paragraph.split(/\s+/).filter(Boolean).forEach(word => {
+      const candidate = line ? `${line} ${word}` : word;
+      if (measureText(candidate, size, font) <= maxWidth) {
+        line = candidate;
+        return;
+      }
+      if (line) lines.push(line);
+      line = word;
+      while (measureText(line, size, font) > maxWidth && line.length > 1) {
+        let cut = line.length - 1;
+        while (cut > 1 && measureText(line.slice(0, cut), size, font) > maxWidth) cut--;
+        lines.push(line.slice(0, cut));
+        line = line.slice(cut);
+      }
+    });
+    lines.push(line);
+  });
+  return lines;
+};
+
+const escapePdfString = (value: string) => normalizeText(value).replace(/\n/g, ' ').replace(/([\\()])/g, '\\$1');
+const num = (value: number) => (Math.round(value * 100) / 100).toString();
+const rgb = ([r, g, b]: PdfColor) => `${num(r)} ${num(g)} ${num(b)}`;
+
+// Cadenas Latin-1 -> bytes (cada carácter ya está en 0..255 tras normalizeText)
+const latin1Bytes = (value: string) => {
+  const bytes = new Uint8Array(value.length);
+  for (let i = 0; i < value.length; i++) bytes[i] = value.charCodeAt(i) & 0xff;
+  return bytes;
+};
+
+export const createPdfDocument = (): PdfDocument => {
+  const pages: { width: number; height: number; ops: string[] }[] = [];
+  const images: { name: string; bytes: Uint8Array; width: number; height: number }[] = [];
+
+  const addPage = (width: number, height: number): PdfPage => {
+    const page = { width, height, ops: [] as string[] };
+    pages.push(page);
+    return {
+      text: (x, y, value, { size = 10, font = 'regular', color = [0, 0, 0] as PdfColor } = {}) => {
+        // `y` es la línea base medida desde arriba
+        page.ops.push(`BT /${FONT_NAMES[font].resource} ${num(size)} Tf ${rgb(color)} rg ${num(x)} ${num(height - y)} Td (${escapePdfString(value)}) Tj ET`);
+      },
+      rect: (x, y, w, h, { fill, stroke, lineWidth = 0.5 } = {}) => {
+        if (!fill && !stroke) return;
+        const paint = fill && stroke ? 'B' : fill ? 'f' : 'S';
+        page.ops.push(
+          `q ${fill ? `${rgb(fill)} rg ` : ''}${stroke ? `${rgb(stroke)} RG ${num(lineWidth)} w ` : ''}${num(x)} ${num(height - y - h)} ${num(w)} ${num(h)} re ${paint} Q`
+        );
+      },
+      image: (imageName, x, y, w, h) => {
+        page.ops.push(`q ${num(w)} 0 0 ${num(h)} ${num(x)} ${num(height - y - h)} cm /${imageName} Do Q`);
+      },
+    };
+  };
+
+  const addJpeg = (bytes: Uint8Array, width: number, height: number) => {
+    const name = `Im${images.length + 1}`;
+    images.push({ name, bytes, width, height });
+    return name;
+  };
+
+  const build = (): Uint8Array => {
+    const chunks: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (part: string | Uint8Array) => {
+      const bytes = typeof part === 'string' ? latin1Bytes(part) : part;
+      chunks.push(bytes);
+      length += bytes.length;
+    };
+
+    // Numeración: 1 catálogo, 2 árbol de páginas, 3-5 fuentes, luego imágenes, luego (página, contenido) por página
+    const fontIds = { regular: 3, bold: 4, italic: 5 };
+    const imageIds = images.map((_, i) => 6 + i);
+    const pageIds = pages.map((_, i) => 6 + images.length + i * 2);
+    const objectCount = 5 + images.length + pages.length * 2;
+
+    const beginObject = (id: number) => {
+      offsets[id] = length;
+      write(`${id} 0 obj\n`);
+    };
+
+    write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+
+    beginObject(2);
+    write(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    (Object.keys(fontIds) as PdfFont[]).forEach(font => {
+      beginObject(fontIds[font]);
+      write(`<< /Type /Font /Subtype /Type1 /BaseFont /${FONT_NAMES[font].base} /Encoding /WinAnsiEncoding >>\nendobj\n`);
+    });
+
+    images.forEach((image, i) => {
+      beginObject(imageIds[i]);
+      write(`<< /Type /XObject /Subtype /Image /Width ${image.width} /Height ${image.height} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${image.bytes.length} >>\nstream\n`);
+      write(image.bytes);
+      write('\nendstream\nendobj\n');
+    });
+
+    const fontResources = (Object.keys(fontIds) as PdfFont[]).map(font => `/${FONT_NAMES[font].resource} ${fontIds[font]} 0 R`).join(' ');
+    const imageResources = images.map((image, i) => `/${image.name} ${imageIds[i]} 0 R`).join(' ');
+
+    pages.forEach((page, i) => {
+      const pageId = pageIds[i];
+      const content = latin1Bytes(page.ops.join('\n'));
+      beginObject(pageId);
+      write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${num(page.width)} ${num(page.height)}] /Resources << /Font << ${fontResources} >>${imageResources ? ` /XObject << ${imageResources} >>` : ''} >> /Contents ${pageId + 1} 0 R >>\nendobj\n`);
+      beginObject(pageId + 1);
+      write(`<< /Length ${content.length} >>\nstream\n`);
+      write(content);
+      write('\nendstream\nendobj\n');
+    });
+
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount + 1}\n0000000000 65535 f \n`);
+    for (let id = 1; id <= objectCount; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${objectCount + 1} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const pdf = new Uint8Array(length);
+    let offset = 0;
+    chunks.forEach(chunk => { pdf.set(chunk, offset); offset += chunk.length; });
+    return pdf;
+  };
+
+  return { addPage, addJpeg, build };
+};
@@ -0,0 +1,115 @@
+/**
+ * Minimal PNG encoder (8-bit RGB, no compression). Enough for generated placeholders
+ * without pulling a canvas or an image library into non-DOM code.
+ */
+
+const CRC_TABLE = (() => {
+  const table = new Uint32Array(256);
+  for (let n = 0; n < 256; n++) {
+    let c = n;
+    for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+    table[n] = c >>> 0;
+  }
+  return table;
+})();
+
+export const crc32 = (bytes: Uint8Array, start = 0, end = bytes.length): number => {
+  let crc = 0xffffffff;
+  for (let i = start; i < end; i++) crc = CRC_TABLE[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ 0xffffffff) >>> 0;
+};
+
+const adler32 = (bytes: Uint8Array): number => {
+  let a = 1, b = 0;
+  for (let i = 0; i < bytes.length; i++) {
+    a = (a + bytes[i]) % 65521;
+    b = (b + a) % 65521;
+  }
+  return ((b << 16) | a) >>> 0;
+};
+
+const writeUint32 = (out: Uint8Array, offset: number, value: number) => {
+  out[offset] = (value >>> 24) & 0xff;
+  out[offset + 1] = (value >>> 16) & 0xff;
+  out[offset + 2] = (value >>> 8) & 0xff;
+  out[offset + 3] = value & 0xff;
+};
+
+const chunk = (type: string, data: Uint8Array): Uint8Array => {
+  const out = new Uint8Array(12 + data.length);
+  writeUint32(out, 0, data.length);
+  for (let i = 0; i < 4; i++) out[4 + i] = type.charCodeAt(i);
+  out.set(data, 8);
+  writeUint32(out, 8 + data.length, crc32(out, 4, 8 + data.length));
+  return out;
+};
+
+// zlib stream made of "stored" (uncompressed) deflate blocks
+const zlibStore = (raw: Uint8Array): Uint8Array => {
+  const MAX_BLOCK = 65535;
+  const blocks = Math.max(1, Math.ceil(raw.length / MAX_BLOCK));
+  const out = new Uint8Array(2 + blocks * 5 + raw.length + 4);
+  out[0] = 0x78;
+  out[1] = 0x01;
+  let pos = 2;
+  for (let i = 0; i < blocks; i++) {
+    const start = i * MAX_BLOCK;
+    const len = Math.min(MAX_BLOCK, raw.length - start);
+    out[pos++] = i === blocks - 1 ? 1 : 0; // BFINAL + BTYPE=00
+    out[pos++] = len & 0xff;
+    out[pos++] = (len >>> 8) & 0xff;
+    out[pos++] = ~len & 0xff;
+    out[pos++] = (~len >>> 8) & 0xff;
+    out.set(raw.subarray(start, start + len), pos);
+    pos += len;
+  }
+  writeUint32(out, pos, adler32(raw));
+  return out;
+};
+
+/**
+ * Encodes an RGB pixel buffer (width * height * 3 bytes) as PNG.
+ */
+export const encodePng = (width: number, height: number, rgb: Uint8Array): Uint8Array => {
+  if (rgb.length !== width * height * 3) throw new Error('encodePng: pixel buffer size mismatch');
+
+  // Each scanline starts with filter type 0 (None)
+  const raw = new Uint8Array((width * 3 + 1) * height);
+  for (let y = 0; y < height; y++) {
+    raw[y * (width * 3 + 1)] = 0;
+    raw.set(rgb.subarray(y * width * 3, (y + 1) * width * 3), y * (width * 3 + 1) + 1);
+  }
+
+  const header = new Uint8Array(13);
+  writeUint32(header, 0, width);
+  writeUint32(header, 4, height);
+  header[8] = 8; // bit depth
+  header[9] = 2; // color type: RGB
+
+  const parts = [
+    new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+    chunk('IHDR', header),
+    chunk('IDAT', zlibStore(raw)),
+    chunk('IEND', new Uint8Array(0)),
+  ];
+  const png = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+  let offset = 0;
+  parts.forEach(p => { png.set(p, offset); offset += p.length; });
+  return png;
+};
+
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  const STEP = 0x8000;
+  for (let i = 0; i < bytes.length; i += STEP) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + STEP));
+  }
+  return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
@@ -0,0 +1,82 @@
+import { SceneBlocking, CastBlocking, ScreenPosition } from '../types/graph';
+
+/**
+ * Option lists and helpers for the per-scene blocking editor. Values are written into the
+ * scene spec verbatim, so they use the same vocabulary as CinematicJSON.
+ */
+
+export const SHOT_SIZES = ['Extreme Wide Shot', 'Wide Shot', 'Medium Wide Shot', 'Medium Shot', 'Medium Close-up', 'Close-up', 'Extreme Close-up'];
+export const CAMERA_ANGLES = ['Eye Level', 'Low Angle', 'High Angle', 'Overhead', 'Dutch Angle', 'Over the Shoulder', 'POV'];
+export const TIMES_OF_DAY = ['Dawn', 'Morning', 'Day', 'Midday', 'Afternoon', 'Golden Hour', 'Dusk', 'Night'];
+export const SCREEN_POSITIONS: ScreenPosition[] = ['left', 'center', 'right', 'foreground', 'background'];
+
+// Solo descarta valores vacíos: no recortamos para no comernos el espacio mientras se escribe
+const clean = (value?: string) => (value?.trim() ? value : undefined);
+
+const normalizeCast = (blocking: CastBlocking): CastBlocking | undefined => {
+  const result: CastBlocking = { action: clean(blocking.action), wardrobe: clean(blocking.wardrobe), position: blocking.position };
+  return Object.values(result).some(Boolean) ? result : undefined;
+};
+
+/**
+ * Drops empty fields so an untouched editor leaves no trace on the scene (and no hash change).
+ */
+export const normalizeBlocking = (blocking: SceneBlocking): SceneBlocking | undefined => {
+  const cast: Record<string, CastBlocking> = {};
+  Object.entries(blocking.cast || {}).forEach(([id, entry]) => {
+    const normalized = normalizeCast(entry);
+    if (normalized) cast[id] = normalized;
+  });
+
+  const result: SceneBlocking = {
+    shotSize: clean(blocking.shotSize),
+    cameraAngle: clean(blocking.cameraAngle),
+    timeOfDay: clean(blocking.timeOfDay),
+    mood: clean(blocking.mood),
+    cast: Object.keys(cast).length > 0 ? cast : undefined,
+  };
+  return Object.values(result).some(Boolean) ? result : undefined;
+};
+
+// Resumen corto para la cabecera de la escena ("Close-up · Low Angle · Night")
+export const summarizeBlocking = (blocking?: SceneBlocking): string =>
+  [blocking?.shotSize, blocking?.cameraAngle, blocking?.timeOfDay, blocking?.mood].filter(Boolean).join(' · ');
+
+// Abreviaturas habituales en listas de planos
+const SHOT_ABBREVIATIONS: Record<string, string> = {
+  ews: 'Extreme Wide Shot', els: 'Extreme Wide Shot',
+  ws: 'Wide Shot', ls: 'Wide Shot', wide: 'Wide Shot',
+  mws: 'Medium Wide Shot', mls: 'Medium Wide Shot', cowboy: 'Medium Wide Shot',
+  ms: 'Medium Shot', medium: 'Medium Shot',
+  mcu: 'Medium Close-up',
+  cu: 'Close-up', closeup: 'Close-up',
+  ecu: 'Extreme Close-up', xcu: 'Extreme Close-up',
+};
+
+/**
+ * Maps a shot type from imported data ("CU", "wide shot", "Close up") onto SHOT_SIZES.
+ */
+export const matchShotSize = (value?: string): string | undefined => {
+  const key = value?.trim().toLowerCase().replace(/[\s_-]+/g, ' ');
+  if (!key) return undefined;
+  return SHOT_SIZES.find(size => size.toLowerCase().replace(/-/g, ' ') === key) || SHOT_ABBREVIATIONS[key.replace(/[ .]/g, '')];
+};
+
+// Hora de los sluglines ("NIGHT", "LATER THAT EVENING") -> valor del editor de blocking
+const SLUGLINE_TIMES: [RegExp, string][] = [
+  [/\b(DAWN|SUNRISE|DAYBREAK)\b/i, 'Dawn'],
+  [/\bMORNING\b/i, 'Morning'],
+  [/\b(NOON|MIDDAY)\b/i, 'Midday'],
+  [/\bAFTERNOON\b/i, 'Afternoon'],
+  [/\b(SUNSET|GOLDEN HOUR|MAGIC HOUR)\b/i, 'Golden Hour'],
+  [/\b(DUSK|EVENING|TWILIGHT)\b/i, 'Dusk'],
+  [/\b(NIGHT|MIDNIGHT)\b/i, 'Night'],
+  [/\bDAY\b/i, 'Day'],
+];
+
+/**
+ * Maps a slugline time of day onto TIMES_OF_DAY. Continuity markers such as
+ * "CONTINUOUS" or "LATER" have no lighting information and return undefined.
+ */
+export const matchTimeOfDay = (raw?: string): string | undefined =>
+  raw ? SLUGLINE_TIMES.find(([pattern]) => pattern.test(raw))?.[1] : undefined;
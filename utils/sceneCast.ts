@@ -0,0 +1,29 @@
+import { Node, Connection, NodeType, ScriptScene, CharacterData } from '../types/graph';
+
+/**
+ * Cast resolution for Script scenes. Any number of Character nodes can be connected to a
+ * Script (input 0); each scene either lists the ones that appear in it or, when it has no
+ * explicit selection, uses all of them.
+ */
+
+export const getScriptCharacters = (nodes: Node[], connections: Connection[], scriptId: string): Node<CharacterData>[] =>
+  connections
+    .filter(c => c.toNodeId === scriptId && c.toInputIndex === 0)
+    .map(c => nodes.find(n => n.id === c.fromNodeId && n.type === NodeType.Character) as Node<CharacterData> | undefined)
+    .filter((n, i, all): n is Node<CharacterData> => !!n && all.findIndex(other => other?.id === n.id) === i);
+
+export const resolveSceneCast = (scene: ScriptScene, characters: Node<CharacterData>[]): Node<CharacterData>[] =>
+  scene.castIds ? characters.filter(c => scene.castIds!.includes(c.id)) : characters;
+
+// Identificador estable de cada miembro dentro del prompt y de `subjects` ("cast_1", "cast_2"...)
+export const castMemberId = (index: number) => `cast_${index + 1}`;
+
+/**
+ * Toggles a character in a scene's cast. The first change turns "everyone" into an explicit list.
+ */
+export const toggleCastMember = (scene: ScriptScene, characters: Node<CharacterData>[], characterId: string): string[] => {
+  const current = resolveSceneCast(scene, characters).map(c => c.id);
+  return current.includes(characterId)
+    ? current.filter(id => id !== characterId)
+    : characters.map(c => c.id).filter(id => id === characterId || current.includes(id));
+};
@@ -0,0 +1,60 @@
+import { describe, it, expect } from 'vitest';
+import { splitSceneText, splitScene, mergeScenes } from './sceneEditing';
+import { ScriptScene } from '../types/graph';
+
+const scene = (overrides: Partial<ScriptScene> = {}): ScriptScene => ({
+  id: 'scene-1',
+  title: 'Kitchen',
+  description: 'Maria opens the letter. She reads it twice. She drops it.',
+  isExpanded: false,
+  ...overrides,
+});
+
+describe('splitSceneText', () => {
+  it('splits at the caret', () => {
+    expect(splitSceneText('First half second half', 10)).toEqual(['First half', 'second half']);
+  });
+
+  it('prefers paragraphs, then sentences, near the middle', () => {
+    expect(splitSceneText('One.\n\nTwo.\n\nThree.')).toEqual(['One.\n\nTwo.', 'Three.']);
+    expect(splitSceneText('One. Two! Three? Four.')).toEqual(['One. Two!', 'Three? Four.']);
+  });
+
+  it('refuses to leave an empty side', () => {
+    expect(splitSceneText('A single sentence')).toBeNull();
+    expect(splitSceneText('Trailing   ', 8)).toBeNull();
+  });
+});
+
+describe('splitScene', () => {
+  it('keeps the id on the first half and halves the duration', () => {
+    const dialogue = [{ character: 'MARIA', text: 'No.' }];
+    const [first, second] = splitScene(scene({ duration: 5, dialogue }), 'scene-2')!;
+    expect(first).toMatchObject({ id: 'scene-1', description: 'Maria opens the letter. She reads it twice.', duration: 2.5, dialogue });
+    expect(second).toMatchObject({ id: 'scene-2', title: 'Kitchen (cont.)', description: 'She drops it.', duration: 2.5, isExpanded: true });
+    expect(second.dialogue).toBeUndefined();
+  });
+});
+
+describe('mergeScenes', () => {
+  it('keeps the first scene and combines text, cast, dialogue, duration and notes', () => {
+    const merged = mergeScenes(
+      scene({ castIds: ['a'], duration: 2, notes: 'Handheld', dialogue: [{ character: 'MARIA', text: 'No.' }] }),
+      scene({ id: 'scene-2', title: 'Later', description: 'Bob enters.', castIds: ['a', 'b'], selectedSettingId: 'set', duration: 3, notes: ' ' })
+    );
+    expect(merged).toMatchObject({
+      id: 'scene-1',
+      title: 'Kitchen',
+      description: 'Maria opens the letter. She reads it twice. She drops it.\n\nBob enters.',
+      castIds: ['a', 'b'],
+      selectedSettingId: 'set',
+      duration: 5,
+      notes: 'Handheld',
+    });
+    expect(merged.dialogue).toHaveLength(1);
+  });
+
+  it('keeps an implicit cast implicit', () => {
+    expect(mergeScenes(scene({ castIds: ['a'] }), scene({ id: 'scene-2' })).castIds).toBeUndefined();
+  });
+});
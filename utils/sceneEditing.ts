@@ -0,0 +1,70 @@
+import { ScriptScene } from '../types/graph';
+
+/**
+ * Pure helpers behind the split / merge scene actions. Scene ids are what cables point at,
+ * so the first half of a split and the result of a merge always keep the original id.
+ */
+
+const halve = (parts: string[], joiner: string): [string, string] => {
+  const middle = Math.ceil(parts.length / 2);
+  return [parts.slice(0, middle).join(joiner), parts.slice(middle).join(joiner)];
+};
+
+/**
+ * Splits a description at `at` (a caret position) or, without one, at the paragraph (or
+ * sentence) boundary closest to the middle. Returns null when one side would be empty.
+ */
+export const splitSceneText = (text: string, at?: number): [string, string] | null => {
+  let parts: [string, string];
+  if (at !== undefined && at > 0 && at < text.length) {
+    parts = [text.slice(0, at), text.slice(at)];
+  } else {
+    const paragraphs = text.split(/\n\s*\n/).filter(p => p.trim());
+    const sentences = text.split(/(?<=[.!?])\s+/).filter(s => s.trim());
+    if (paragraphs.length > 1) parts = halve(paragraphs, '\n\n');
+    else if (sentences.length > 1) parts = halve(sentences, ' ');
+    else return null;
+  }
+  const [first, second] = parts.map(p => p.trim());
+  return first && second ? [first, second] : null;
+};
+
+const halfDuration = (duration?: number) => (duration ? Math.round((duration / 2) * 10) / 10 : undefined);
+
+export const splitScene = (scene: ScriptScene, newId: string, at?: number): [ScriptScene, ScriptScene] | null => {
+  const parts = splitSceneText(scene.description, at);
+  if (!parts) return null;
+  return [
+    { ...scene, description: parts[0], duration: halfDuration(scene.duration) },
+    {
+      ...scene,
+      id: newId,
+      title: `${scene.title} (cont.)`,
+      description: parts[1],
+      isExpanded: true,
+      duration: halfDuration(scene.duration),
+      // El diálogo no se puede repartir con fiabilidad: se queda en la primera mitad
+      dialogue: undefined,
+    },
+  ];
+};
+
+/**
+ * Joins a scene with the one after it. The merged scene keeps the first scene's id, title,
+ * setting and blocking; casts are combined (an implicit "everyone" cast stays implicit).
+ */
+export const mergeScenes = (first: ScriptScene, second: ScriptScene): ScriptScene => {
+  const dialogue = [...(first.dialogue || []), ...(second.dialogue || [])];
+  const castIds = first.castIds && second.castIds
+    ? [...first.castIds, ...second.castIds.filter(id => !first.castIds!.includes(id))]
+    : undefined;
+  return {
+    ...first,
+    description: [first.description, second.description].filter(text => text.trim()).join('\n\n'),
+    selectedSettingId: first.selectedSettingId || second.selectedSettingId,
+    castIds,
+    dialogue: dialogue.length > 0 ? dialogue : undefined,
+    duration: first.duration || second.duration ? (first.duration || 0) + (second.duration || 0) : undefined,
+    notes: [first.notes, second.notes].filter(note => note?.trim()).join('\n\n') || undefined,
+  };
+};
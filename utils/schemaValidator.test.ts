@@ -0,0 +1,76 @@
+import { describe, it, expect } from 'vitest';
+import { validate, formatIssues, str, requiredStr, num, arr, obj, FieldSpec } from './schemaValidator';
+
+const SHOT: FieldSpec = obj({
+  title: requiredStr(),
+  duration: num(),
+  fps: num(24),
+  tags: arr(str()),
+  camera: obj({ angle: str('Eye Level'), lens: str() }),
+  notes: obj({ text: str() }, { optional: true }),
+  beats: arr(obj({ description: requiredStr() }), { minItems: 1, required: true }),
+});
+
+describe('validate', () => {
+  it('accepts a complete value without issues', () => {
+    const value = { title: 'Letter', duration: 4, fps: 25, tags: ['rain'], camera: { angle: 'Low', lens: '35mm' }, beats: [{ description: 'Maria reads' }] };
+    expect(validate(SHOT, value)).toEqual({ value, issues: [], valid: true });
+  });
+
+  it('fills defaults and builds missing objects as fixed issues', () => {
+    const { value, issues, valid } = validate<any>(SHOT, { title: 'Letter', duration: 4, beats: [{ description: 'x' }] });
+    expect(valid).toBe(true);
+    expect(value).toMatchObject({ fps: 24, tags: [], camera: { angle: 'Eye Level', lens: '' } });
+    expect('notes' in value).toBe(false);
+    expect(issues.map(i => [i.path, i.severity])).toEqual([
+      ['fps', 'fixed'],
+      ['tags', 'fixed'],
+      ['camera', 'fixed'],
+      ['camera.angle', 'fixed'],
+      ['camera.lens', 'fixed'],
+    ]);
+  });
+
+  it('coerces obvious type slips', () => {
+    const { value, issues, valid } = validate<any>(SHOT, {
+      title: 7, duration: '4.5', tags: 'rain', camera: { angle: ['Low', 'Dutch'] }, beats: { description: 'single beat' },
+    });
+    expect(valid).toBe(true);
+    expect(value).toMatchObject({ title: '7', duration: 4.5, tags: ['rain'], camera: { angle: 'Low, Dutch' }, beats: [{ description: 'single beat' }] });
+    expect(issues.find(i => i.path === 'beats')?.message).toBe('Expected array, got a single object; wrapped.');
+  });
+
+  it('reports field errors with their paths', () => {
+    const { issues, valid } = validate(SHOT, { duration: 'soon', beats: [{ description: 'ok' }, {}] });
+    expect(valid).toBe(false);
+    expect(issues.filter(i => i.severity === 'error')).toEqual([
+      { path: 'title', message: 'Required string is missing.', severity: 'error' },
+      { path: 'duration', message: 'Expected number, got string.', severity: 'error' },
+      { path: 'beats[1].description', message: 'Required string is missing.', severity: 'error' },
+    ]);
+  });
+
+  it('enforces minItems and required arrays', () => {
+    expect(validate(SHOT, { title: 'a', duration: 1, beats: [] }).issues).toContainEqual(
+      { path: 'beats', message: 'Expected at least 1 item(s), got 0.', severity: 'error' }
+    );
+    expect(validate(SHOT, { title: 'a', duration: 1 }).issues).toContainEqual(
+      { path: 'beats', message: 'Required array is missing.', severity: 'error' }
+    );
+  });
+
+  it('reports a non-object root', () => {
+    expect(validate(obj({ a: requiredStr() }, { optional: true }), 'text').issues).toEqual([
+      { path: '(root)', message: 'Expected object, got string.', severity: 'error' },
+    ]);
+  });
+});
+
+describe('formatIssues', () => {
+  it('lists one issue per line', () => {
+    expect(formatIssues([
+      { path: 'title', message: 'Required string is missing.', severity: 'error' },
+      { path: 'fps', message: 'Missing; default used.', severity: 'fixed' },
+    ])).toBe('- title: Required string is missing.\n- fps: Missing; default used.');
+  });
+});
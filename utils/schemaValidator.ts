@@ -0,0 +1,137 @@
+/**
+ * Tiny runtime validator for the JSON we get back from models. It walks a value against a
+ * FieldSpec tree, fills safe defaults, coerces obvious type slips ("5" -> 5) and reports
+ * everything it touched so the caller can decide whether to accept, repair or fail.
+ */
+
+export type FieldSpec =
+  | { type: 'string'; required?: boolean; default?: string }
+  | { type: 'number'; required?: boolean; default?: number }
+  | { type: 'boolean'; required?: boolean; default?: boolean }
+  | { type: 'array'; items: FieldSpec; required?: boolean; default?: unknown[]; minItems?: number }
+  | { type: 'object'; fields: Record<string, FieldSpec>; required?: boolean; optional?: boolean };
+
+export interface ValidationIssue {
+  path: string;
+  message: string;
+  severity: 'error' | 'fixed'; // 'fixed' = default filled or value coerced
+}
+
+export interface ValidationResult<T> {
+  value: T;
+  issues: ValidationIssue[];
+  valid: boolean; // No 'error' issues
+}
+
+// --- Spec builders (keep schema definitions readable) ---
+
+export const str = (def = ''): FieldSpec => ({ type: 'string', default: def });
+export const requiredStr = (): FieldSpec => ({ type: 'string', required: true });
+export const num = (def?: number): FieldSpec => ({ type: 'number', default: def, required: def === undefined });
+export const arr = (items: FieldSpec, opts: { minItems?: number; required?: boolean } = {}): FieldSpec =>
+  ({ type: 'array', items, default: opts.required ? undefined : [], ...opts });
+export const obj = (fields: Record<string, FieldSpec>, opts: { optional?: boolean } = {}): FieldSpec =>
+  ({ type: 'object', fields, ...opts });
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+const describe = (value: unknown) => (Array.isArray(value) ? 'array' : value === null ? 'null' : typeof value);
+
+const check = (spec: FieldSpec, value: unknown, path: string, issues: ValidationIssue[]): unknown => {
+  const at = path || '(root)';
+  const missing = value === undefined || value === null;
+
+  switch (spec.type) {
+    case 'string': {
+      if (typeof value === 'string') return value;
+      if (!missing && (typeof value === 'number' || typeof value === 'boolean')) {
+        issues.push({ path: at, message: `Expected string, got ${describe(value)}; converted.`, severity: 'fixed' });
+        return String(value);
+      }
+      if (!missing && Array.isArray(value) && value.every(v => typeof v === 'string')) {
+        issues.push({ path: at, message: 'Expected string, got array of strings; joined.', severity: 'fixed' });
+        return value.join(', ');
+      }
+      break;
+    }
+    case 'number': {
+      if (typeof value === 'number' && Number.isFinite(value)) return value;
+      const parsed = typeof value === 'string' ? parseFloat(value) : NaN;
+      if (Number.isFinite(parsed)) {
+        issues.push({ path: at, message: `Expected number, got "${value}"; parsed.`, severity: 'fixed' });
+        return parsed;
+      }
+      break;
+    }
+    case 'boolean': {
+      if (typeof value === 'boolean') return value;
+      if (value === 'true' || value === 'false') {
+        issues.push({ path: at, message: 'Expected boolean, got string; parsed.', severity: 'fixed' });
+        return value === 'true';
+      }
+      break;
+    }
+    case 'array': {
+      let list: unknown[] | undefined;
+      if (Array.isArray(value)) list = value;
+      else if (!missing && !isPlainObject(value)) {
+        issues.push({ path: at, message: `Expected array, got ${describe(value)}; wrapped.`, severity: 'fixed' });
+        list = [value];
+      } else if (isPlainObject(value) && spec.items.type === 'object') {
+        issues.push({ path: at, message: 'Expected array, got a single object; wrapped.', severity: 'fixed' });
+        list = [value];
+      }
+      if (list) {
+        const items = list.map((item, i) => check(spec.items, item, `${path}[${i}]`, issues));
+        if (spec.minItems && items.length < spec.minItems) {
+          issues.push({ path: at, message: `Expected at least ${spec.minItems} item(s), got ${items.length}.`, severity: 'error' });
+        }
+        return items;
+      }
+      break;
+    }
+    case 'object': {
+      if (isPlainObject(value) || (missing && !spec.required && !spec.optional)) {
+        // Objeto ausente pero no obligatorio: lo construimos desde los defaults de sus campos
+        const source = isPlainObject(value) ? value : {};
+        if (!isPlainObject(value)) {
+          issues.push({ path: at, message: 'Missing object; built from defaults.', severity: 'fixed' });
+        }
+        const result: Record<string, unknown> = { ...source };
+        Object.entries(spec.fields).forEach(([key, fieldSpec]) => {
+          const child = check(fieldSpec, source[key], path ? `${path}.${key}` : key, issues);
+          if (child !== undefined) result[key] = child;
+        });
+        return result;
+      }
+      if (missing && spec.optional) return undefined;
+      break;
+    }
+  }
+
+  // Valor ausente o con un tipo irrecuperable
+  if ('default' in spec && spec.default !== undefined) {
+    issues.push({
+      path: at,
+      message: missing ? 'Missing; default used.' : `Expected ${spec.type}, got ${describe(value)}; default used.`,
+      severity: 'fixed',
+    });
+    return Array.isArray(spec.default) ? [...spec.default] : spec.default;
+  }
+  issues.push({
+    path: at,
+    message: missing ? `Required ${spec.type} is missing.` : `Expected ${spec.type}, got ${describe(value)}.`,
+    severity: 'error',
+  });
+  return value;
+};
+
+export const validate = <T>(spec: FieldSpec, value: unknown): ValidationResult<T> => {
+  const issues: ValidationIssue[] = [];
+  const result = check(spec, value, '', issues);
+  return { value: result as T, issues, valid: !issues.some(i => i.severity === 'error') };
+};
+
+export const formatIssues = (issues: ValidationIssue[]): string =>
+  issues.map(i => `- ${i.path}: ${i.message}`).join('\n');
@@ -0,0 +1,175 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { parseScreenplay, parseSlugline, normalizeCharacterName, isFdx } from './screenplayParser';
+
+const FOUNTAIN = `Title: The Letter
+Author: Someone
+
+FADE IN:
+
+A quiet street before dawn.
+
+INT. MARIA'S FLAT - KITCHEN - NIGHT #1#
+
+Maria opens an envelope.
+Her hands shake.
+
+MARIA (V.O.)
+(whispering)
+I knew it.
+I always knew.
+
+BOB (CONT'D)
+Who is it from?
+
+CUT TO:
+
+.ROOFTOP
+
+/* cut for time */
+[[check the location]]
+Wind.
+`;
+
+describe('parseSlugline', () => {
+  it('splits interior, location and time of day', () => {
+    expect(parseSlugline('EXT. SMITH HOUSE - BACKYARD - DAY')).toEqual({ interior: 'EXT', location: 'SMITH HOUSE - BACKYARD', timeOfDay: 'DAY' });
+    expect(parseSlugline('INT./EXT. CAR - MOVING')).toEqual({ interior: 'INT/EXT', location: 'CAR', timeOfDay: 'MOVING' });
+    expect(parseSlugline('ROOFTOP')).toEqual({ interior: undefined, location: 'ROOFTOP' });
+  });
+});
+
+describe('normalizeCharacterName', () => {
+  it('drops extensions and dual-dialogue markers', () => {
+    expect(normalizeCharacterName('Maria (V.O.)')).toBe('MARIA');
+    expect(normalizeCharacterName("BOB (CONT'D) ^")).toBe('BOB');
+  });
+});
+
+describe('parseScreenplay (Fountain)', () => {
+  const scenes = parseScreenplay(FOUNTAIN, 'letter.fountain');
+
+  it('splits scenes at sluglines, keeping content before the first one', () => {
+    expect(scenes.map(s => s.heading)).toEqual(['OPENING', "INT. MARIA'S FLAT - KITCHEN - NIGHT", 'ROOFTOP']);
+    expect(scenes[0].action).toBe('A quiet street before dawn.');
+  });
+
+  it('collects action, dialogue and cast per scene', () => {
+    const kitchen = scenes[1];
+    expect(kitchen).toMatchObject({ interior: 'INT', location: "MARIA'S FLAT - KITCHEN", timeOfDay: 'NIGHT' });
+    expect(kitchen.action).toBe('Maria opens an envelope.\nHer hands shake.');
+    expect(kitchen.characters).toEqual(['MARIA', 'BOB']);
+    expect(kitchen.dialogue).toEqual([
+      { character: 'MARIA', text: 'I knew it.\nI always knew.', parenthetical: '(whispering)' },
+      { character: 'BOB', text: 'Who is it from?' },
+    ]);
+  });
+
+  it('ignores boneyard, notes and transitions', () => {
+    expect(scenes[2].action).toBe('Wind.');
+  });
+
+  it('only skips a title page made of Fountain title keys', () => {
+    const script = `FADE IN:
+INT. KITCHEN - NIGHT
+
+Maria waits.`;
+    expect(parseScreenplay(script).map(s => [s.heading, s.action])).toEqual([['INT. KITCHEN - NIGHT', 'Maria waits.']]);
+
+    const withTitle = `Title: The Letter
+Draft date: 1/1/2026
+Contact:
+    maria@example.com
+
+EXT. ROOFTOP - DAWN
+
+Wind.`;
+    expect(parseScreenplay(withTitle).map(s => s.heading)).toEqual(['EXT. ROOFTOP - DAWN']);
+  });
+
+  it('keeps a script that starts with a "Word:" line that is not a title key', () => {
+    const script = `SUPER: Ten years later
+
+INT. KITCHEN - DAY
+
+Maria waits.`;
+    expect(parseScreenplay(script).map(s => [s.heading, s.action])).toEqual([
+      ['OPENING', 'SUPER: Ten years later'],
+      ['INT. KITCHEN - DAY', 'Maria waits.'],
+    ]);
+  });
+});
+
+// Final Draft parte un párrafo en varios <Text> cuando cambia el estilo
+const FDX = `<?xml version="1.0" encoding="UTF-8" standalone="no" ?>
+<FinalDraft DocumentType="Script" Template="No" Version="5">
+  <Content>
+    <Paragraph Type="Scene Heading">
+      <SceneProperties Length="1" Page="1" Title=""/>
+      <Text>INT. MARIA'S FLAT - KITCHEN - NIGHT</Text>
+    </Paragraph>
+    <Paragraph Type="Action">
+      <Text>Maria opens </Text>
+      <Text Style="Bold">the envelope</Text>
+      <Text>. Her hands shake.</Text>
+    </Paragraph>
+    <Paragraph Type="Character">
+      <Text>MARIA</Text>
+      <Text Style="AllCaps"> (V.O.)</Text>
+    </Paragraph>
+    <Paragraph Type="Parenthetical">
+      <Text>(whispering)</Text>
+    </Paragraph>
+    <Paragraph Type="Dialogue">
+      <Text>I </Text>
+      <Text Style="Italic">knew</Text>
+      <Text> it.</Text>
+    </Paragraph>
+    <Paragraph Type="Transition">
+      <Text>CUT TO:</Text>
+    </Paragraph>
+    <Paragraph Type="Scene Heading">
+      <Text>EXT. ROOFTOP - DAWN</Text>
+    </Paragraph>
+    <Paragraph Type="Action">
+      <Text>Wind &amp; rain.</Text>
+    </Paragraph>
+    <Paragraph Type="Cast List">
+      <Text>MARIA, BOB</Text>
+    </Paragraph>
+  </Content>
+  <TitlePage>
+    <Content>
+      <Paragraph Type="Action"><Text>The Letter</Text></Paragraph>
+    </Content>
+  </TitlePage>
+</FinalDraft>`;
+
+describe('parseScreenplay (Final Draft)', () => {
+  const scenes = parseScreenplay(FDX, 'letter.fdx');
+
+  it('joins the <Text> runs of a paragraph and splits scenes at headings', () => {
+    expect(scenes.map(s => s.heading)).toEqual(["INT. MARIA'S FLAT - KITCHEN - NIGHT", 'EXT. ROOFTOP - DAWN']);
+    expect(scenes[0].action).toBe('Maria opens the envelope. Her hands shake.');
+    expect(scenes[0].dialogue).toEqual([{ character: 'MARIA', text: 'I knew it.', parenthetical: '(whispering)' }]);
+    expect(scenes[1]).toMatchObject({ interior: 'EXT', location: 'ROOFTOP', timeOfDay: 'DAWN', action: 'Wind & rain.' });
+  });
+
+  it('ignores unknown paragraph types and the title page', () => {
+    expect(scenes[1].characters).toEqual([]);
+    expect(scenes.some(s => s.action.includes('The Letter'))).toBe(false);
+  });
+
+  it('rejects files that are not valid Final Draft XML', () => {
+    expect(() => parseScreenplay('<FinalDraft><Content>', 'broken.fdx')).toThrow('XML could not be parsed');
+    expect(() => parseScreenplay('<FinalDraft></FinalDraft>', 'empty.fdx')).toThrow('no <Content> section');
+  });
+});
+
+describe('isFdx', () => {
+  it('detects Final Draft files by extension or root element', () => {
+    expect(isFdx('script.FDX', '')).toBe(true);
+    expect(isFdx('script.txt', '<?xml version="1.0"?>\n<FinalDraft DocumentType="Script">')).toBe(true);
+    expect(isFdx('script.fountain', FOUNTAIN)).toBe(false);
+  });
+});
@@ -0,0 +1,233 @@
+import { DialogueLine } from '../types/graph';
+
+/**
+ * Screenplay import (Fountain and Final Draft .fdx). Both formats are reduced to the same
+ * stream of typed paragraphs, which is then split into scenes at every slugline.
+ */
+
+export type ScreenplayElementType = 'heading' | 'action' | 'character' | 'parenthetical' | 'dialogue' | 'transition';
+
+export interface ScreenplayElement {
+  type: ScreenplayElementType;
+  text: string;
+}
+
+export interface ParsedScreenplayScene {
+  heading: string;      // Slugline tal cual ("INT. KITCHEN - NIGHT")
+  interior?: 'INT' | 'EXT' | 'INT/EXT';
+  location: string;     // "KITCHEN"
+  timeOfDay?: string;   // "NIGHT"
+  action: string;
+  dialogue: DialogueLine[];
+  characters: string[]; // Character cues in order of appearance, without extensions
+}
+
+export const SCREENPLAY_EXTENSIONS = ['.fountain', '.spmd', '.fdx', '.txt'];
+
+const SLUGLINE_REGEX = /^(INT\.?\/EXT|EXT\.?\/INT|I\/E|INT|EXT|EST)[.\s]/i;
+const SCENE_NUMBER_REGEX = /\s*#[^#]+#\s*$/;
+const TRANSITION_REGEX = /^(FADE IN:|[A-Z0-9 .'-]+TO:)$/;
+// Claves de portada de Fountain; cualquier otro "Algo:" (FADE IN:, SUPER:) ya es guion
+const TITLE_PAGE_KEY_REGEX = /^(title|credit|authors?|source|draft date|date|contact|copyright|notes|revision)\s*:/i;
+
+// Nombre del personaje sin extensiones: "MARIA (V.O.)" -> "MARIA", "BOB (CONT'D) ^" -> "BOB"
+export const normalizeCharacterName = (cue: string) =>
+  cue.replace(/\^$/, '').replace(/\(.*?\)/g, '').replace(/\s+/g, ' ').trim().toUpperCase();
+
+const isCharacterCue = (line: string) => {
+  const name = line.replace(/\(.*?\)/g, '').replace(/\^$/, '').trim();
+  return /[A-Z]/.test(name) && name === name.toUpperCase() && !/[a-z]/.test(name) && !TRANSITION_REGEX.test(line);
+};
+
+/**
+ * Splits a slugline into INT/EXT, location and time of day ("EXT. SMITH HOUSE - BACKYARD - DAY").
+ */
+export const parseSlugline = (heading: string): Pick<ParsedScreenplayScene, 'interior' | 'location' | 'timeOfDay'> => {
+  const prefix = heading.match(SLUGLINE_REGEX);
+  const rawPrefix = prefix ? prefix[1].toUpperCase().replace(/\./g, '') : '';
+  const interior = rawPrefix === 'INT' ? 'INT'
+    : rawPrefix === 'EXT' ? 'EXT'
+    : rawPrefix ? (rawPrefix === 'EST' ? 'EXT' : 'INT/EXT')
+    : undefined;
+
+  const rest = (prefix ? heading.slice(prefix[0].length) : heading).replace(/^[.\s]+/, '').trim();
+  const parts = rest.split(/\s+[-–—]+\s+/);
+  if (parts.length > 1) {
+    return { interior, location: parts.slice(0, -1).join(' - ').trim(), timeOfDay: parts[parts.length - 1].trim() };
+  }
+  return { interior, location: rest };
+};
+
+// --- FOUNTAIN ---
+
+const stripFountainMarkup = (text: string) =>
+  text
+    .replace(/\/\*[\s\S]*?\*\//g, '')   // Boneyard
+    .replace(/\[\[[\s\S]*?\]\]/g, '')   // Notes
+    .replace(/\r\n?/g, '\n');
+
+// La portada ("Title: ...", "Author: ...") termina en la primera línea en blanco
+const skipTitlePage = (lines: string[]) => {
+  if (!TITLE_PAGE_KEY_REGEX.test(lines[0] || '')) return lines;
+  const end = lines.findIndex(line => line.trim() === '');
+  return end === -1 ? [] : lines.slice(end + 1);
+};
+
+export const parseFountainElements = (text: string): ScreenplayElement[] => {
+  const lines = skipTitlePage(stripFountainMarkup(text).split('\n'));
+  const elements: ScreenplayElement[] = [];
+  let inDialogue = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i].trim();
+    const prevLine = i === 0 ? '' : lines[i - 1].trim();
+    const prevBlank = prevLine === '';
+    const nextLine = lines[i + 1]?.trim() ?? '';
+
+    if (line === '') {
+      inDialogue = false;
+      continue;
+    }
+
+    if (inDialogue) {
+      if (/^\(.*\)$/.test(line)) elements.push({ type: 'parenthetical', text: line });
+      else {
+        const last = elements[elements.length - 1];
+        if (last?.type === 'dialogue') last.text += `\n${line}`;
+        else elements.push({ type: 'dialogue', text: line });
+      }
+      continue;
+    }
+
+    // Secciones, sinopsis, saltos de página y letras se ignoran
+    if (/^(#|=)/.test(line) || line.startsWith('~')) continue;
+
+    // Una transición ("FADE IN:") puede ir pegada al slugline que introduce
+    const startsScene = prevBlank || TRANSITION_REGEX.test(prevLine);
+    if (startsScene && ((line.startsWith('.') && !line.startsWith('..')) || SLUGLINE_REGEX.test(line))) {
+      const heading = (line.startsWith('.') ? line.slice(1) : line).replace(SCENE_NUMBER_REGEX, '').trim();
+      elements.push({ type: 'heading', text: heading });
+      continue;
+    }
+
+    if (line.startsWith('>') && !line.endsWith('<')) {
+      elements.push({ type: 'transition', text: line.slice(1).trim() });
+      continue;
+    }
+    if (prevBlank && TRANSITION_REGEX.test(line) && (nextLine === '' || SLUGLINE_REGEX.test(nextLine))) {
+      elements.push({ type: 'transition', text: line });
+      continue;
+    }
+
+    if (prevBlank && nextLine !== '' && (line.startsWith('@') || (!line.startsWith('!') && isCharacterCue(line)))) {
+      elements.push({ type: 'character', text: line.replace(/^@/, '').trim() });
+      inDialogue = true;
+      continue;
+    }
+
+    const actionText = line.replace(/^!/, '').replace(/^>\s*(.*?)\s*<$/, '$1');
+    const last = elements[elements.length - 1];
+    if (last?.type === 'action' && !prevBlank) last.text += `\n${actionText}`;
+    else elements.push({ type: 'action', text: actionText });
+  }
+
+  return elements;
+};
+
+// --- FINAL DRAFT (.fdx) ---
+
+const FDX_TYPES: Record<string, ScreenplayElementType> = {
+  'Scene Heading': 'heading',
+  'Action': 'action',
+  'General': 'action',
+  'Shot': 'action',
+  'Character': 'character',
+  'Parenthetical': 'parenthetical',
+  'Dialogue': 'dialogue',
+  'Transition': 'transition',
+};
+
+export const parseFdxElements = (xml: string): ScreenplayElement[] => {
+  const doc = new DOMParser().parseFromString(xml, 'application/xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) {
+    throw new Error('Invalid Final Draft file (XML could not be parsed)');
+  }
+
+  // Solo el cuerpo del guion: las notas y la portada también usan <Paragraph>
+  const content = doc.getElementsByTagName('Content')[0];
+  if (!content) throw new Error('Invalid Final Draft file (no <Content> section)');
+
+  const elements: ScreenplayElement[] = [];
+  Array.from(content.getElementsByTagName('Paragraph')).forEach(paragraph => {
+    const type = FDX_TYPES[paragraph.getAttribute('Type') || ''];
+    if (!type) return;
+    // El texto puede venir partido en varios <Text> (negritas, cursivas...)
+    const text = Array.from(paragraph.getElementsByTagName('Text')).map(t => t.textContent || '').join('').trim();
+    if (text) elements.push({ type, text });
+  });
+  return elements;
+};
+
+// --- SCENES ---
+
+/**
+ * Groups paragraphs into scenes. Anything before the first slugline becomes an untitled
+ * opening scene, but only when it has content.
+ */
+export const groupScreenplayScenes = (elements: ScreenplayElement[]): ParsedScreenplayScene[] => {
+  const scenes: ParsedScreenplayScene[] = [];
+  let current: ParsedScreenplayScene | null = null;
+  let speaker: string | null = null;
+  let parenthetical: string | undefined;
+
+  const ensureScene = () => {
+    if (!current) {
+      current = { heading: 'OPENING', location: '', action: '', dialogue: [], characters: [] };
+      scenes.push(current);
+    }
+    return current;
+  };
+
+  elements.forEach(element => {
+    switch (element.type) {
+      case 'heading':
+        current = { heading: element.text, ...parseSlugline(element.text), action: '', dialogue: [], characters: [] };
+        scenes.push(current);
+        speaker = null;
+        break;
+      case 'character': {
+        const scene = ensureScene();
+        speaker = normalizeCharacterName(element.text);
+        parenthetical = undefined;
+        if (speaker && !scene.characters.includes(speaker)) scene.characters.push(speaker);
+        break;
+      }
+      case 'parenthetical':
+        parenthetical = element.text;
+        break;
+      case 'dialogue':
+        if (speaker) {
+          ensureScene().dialogue.push({ character: speaker, text: element.text, ...(parenthetical ? { parenthetical } : {}) });
+          parenthetical = undefined;
+        }
+        break;
+      case 'action': {
+        const scene = ensureScene();
+        scene.action = scene.action ? `${scene.action}\n\n${element.text}` : element.text;
+        speaker = null;
+        break;
+      }
+      case 'transition':
+        speaker = null;
+        break;
+    }
+  });
+
+  return scenes;
+};
+
+export const isFdx = (fileName: string, text: string) =>
+  fileName.toLowerCase().endsWith('.fdx') || /<FinalDraft[\s>]/.test(text.slice(0, 500));
+
+export const parseScreenplay = (text: string, fileName = ''): ParsedScreenplayScene[] =>
+  groupScreenplayScenes(isFdx(fileName, text) ? parseFdxElements(text) : parseFountainElements(text));
@@ -0,0 +1,82 @@
+import { Node, Connection, NodeType, ScriptData, CharacterData, SettingData } from '../types/graph';
+import { NODE_CONFIG } from '../components/nodes/nodeConfig';
+
+/**
+ * Matching of character names / locations (from imports and AI breakdowns) to Character and
+ * Setting nodes. A node matches when its prompt is the name or starts with it, so a writer can
+ * expand "MARIA" into "MARIA, 30s, tired nurse..." and still be matched by the next import.
+ */
+
+const ROW_SPACING = 340;
+const COLUMN_GAP = 70;
+
+type AssetData = CharacterData | SettingData;
+
+export const matchesName = (prompt: string, name: string) => {
+  const text = prompt.trim().toUpperCase();
+  const key = name.trim().toUpperCase();
+  return !!key && text.startsWith(key) && !/[A-Z0-9]/.test(text.charAt(key.length));
+};
+
+const isConnectedTo = (connections: Connection[], nodeId: string, scriptId: string, inputIndex: number) =>
+  connections.some(c => c.fromNodeId === nodeId && c.toNodeId === scriptId && c.toInputIndex === inputIndex);
+
+/**
+ * Node of the given type for a name. Nodes already wired into the script input win over
+ * other matches in the graph.
+ */
+export const findAssetNode = <T extends AssetData>(
+  type: NodeType,
+  name: string,
+  nodes: Node[],
+  connections: Connection[],
+  scriptId: string,
+  inputIndex: number
+): Node<T> | undefined => {
+  const matches = nodes.filter(n => n.type === type && matchesName((n.data as AssetData).prompt || '', name)) as Node<T>[];
+  return matches.find(n => isConnectedTo(connections, n.id, scriptId, inputIndex)) || matches[0];
+};
+
+export interface ResolvedAssets<T extends AssetData> {
+  ids: Record<string, string>; // Name as given -> node id
+  nodes: Node<T>[];            // Nodes to create
+  connections: Connection[];   // Cables to add into the script input
+}
+
+/**
+ * Finds one node per name, creating the missing ones (in a column left of the script) when
+ * `create` is set, and wires every resolved node into the script input.
+ */
+export const resolveScriptAssets = <T extends AssetData>(
+  type: NodeType,
+  names: string[],
+  nodes: Node[],
+  connections: Connection[],
+  script: Node<ScriptData>,
+  inputIndex: number,
+  column: number,
+  create = true
+): ResolvedAssets<T> => {
+  const result: ResolvedAssets<T> = { ids: {}, nodes: [], connections: [] };
+  const x = script.position.x - (NODE_CONFIG[type].width + COLUMN_GAP) * column;
+
+  names.forEach(name => {
+    let node = findAssetNode<T>(type, name, [...nodes, ...result.nodes], connections, script.id, inputIndex);
+    if (!node) {
+      if (!create) return;
+      node = {
+        id: crypto.randomUUID(),
+        type,
+        position: { x, y: script.position.y + result.nodes.length * ROW_SPACING },
+        data: { prompt: name, image: undefined } as T,
+      };
+      result.nodes.push(node);
+    }
+    const nodeId = node.id;
+    result.ids[name] = nodeId;
+    if (!isConnectedTo(connections, nodeId, script.id, inputIndex) && !result.connections.some(c => c.fromNodeId === nodeId)) {
+      result.connections.push({ id: crypto.randomUUID(), fromNodeId: nodeId, fromOutput: 0, toNodeId: script.id, toInputIndex: inputIndex });
+    }
+  });
+  return result;
+};
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { diffBreakdown, mergeBreakdown, scenesRemovedBy, BreakdownAssetIds } from './scriptBreakdown';
+import { ScriptScene } from '../types/graph';
+import { BreakdownScene } from '../types/cinematicSchema';
+
+const scene = (id: string, title: string, extra: Partial<ScriptScene> = {}): ScriptScene =>
+  ({ id, title, description: `${title} description`, isExpanded: false, ...extra });
+
+const shot = (title: string, extra: Partial<BreakdownScene> = {}): BreakdownScene =>
+  ({ title, description: `${title} description`, shot_type: '', characters: [], location: '', ...extra });
+
+const EXISTING = [
+  scene('s-letter', 'The Letter', { castIds: ['char-maria'], blocking: { shotSize: 'Close-up' } }),
+  scene('s-stairs', 'Stairs'),
+  scene('s-street', 'Street'),
+];
+
+const ASSETS: BreakdownAssetIds = { characters: { Maria: 'char-maria', Tom: 'char-tom' }, locations: { 'Rainy street': 'set-street' } };
+
+describe('diffBreakdown', () => {
+  it('pairs proposals with scenes by title, ignoring case and spacing', () => {
+    const rows = diffBreakdown(EXISTING, [
+      shot('  the   LETTER ', { description: 'The Letter description', shot_type: 'CU' }),
+      shot('Stairs', { description: 'Maria runs down.' }),
+      shot('Rooftop'),
+    ]);
+    expect(rows.map(r => [r.existing?.id, r.change])).toEqual([
+      ['s-letter', 'unchanged'],
+      ['s-stairs', 'updated'],
+      [undefined, 'added'],
+    ]);
+    expect(rows[0].shotSize).toBe('Close-up');
+  });
+
+  it('counts a new shot size as an update and pairs duplicate titles once each', () => {
+    const rows = diffBreakdown([...EXISTING, scene('s-street-2', 'Street')], [
+      shot('The Letter', { shot_type: 'Wide Shot' }),
+      shot('Street'),
+      shot('Street'),
+      shot('Street'),
+    ]);
+    expect(rows[0].change).toBe('updated');
+    expect(rows.slice(1).map(r => r.existing?.id)).toEqual(['s-street', 's-street-2', undefined]);
+  });
+
+  it('lists the scenes a replace would drop', () => {
+    const rows = diffBreakdown(EXISTING, [shot('Stairs')]);
+    expect(scenesRemovedBy(EXISTING, rows).map(s => s.id)).toEqual(['s-letter', 's-street']);
+  });
+});
+
+describe('mergeBreakdown', () => {
+  const proposals = [
+    shot('Stairs', { description: 'Maria runs down.', characters: ['Maria', 'Tom'], location: 'Rainy street' }),
+    shot('Rooftop', { characters: ['Maria'] }),
+  ];
+
+  it('merge keeps untouched scenes in place, updates matches and appends new ones', () => {
+    const scenes = mergeBreakdown(EXISTING, diffBreakdown(EXISTING, proposals), 'merge', ASSETS, 'script-1');
+    expect(scenes.map(s => s.title)).toEqual(['The Letter', 'Stairs', 'Street', 'Rooftop']);
+    expect(scenes[0]).toBe(EXISTING[0]);
+    expect(scenes[1]).toMatchObject({ id: 's-stairs', description: 'Maria runs down.', castIds: ['char-maria', 'char-tom'], selectedSettingId: 'set-street' });
+    expect(scenes[3].id).toMatch(/^scene-script-1-/);
+    expect(scenes[3].castIds).toEqual(['char-maria']);
+  });
+
+  it('replace keeps only the proposed shots, in proposal order', () => {
+    const scenes = mergeBreakdown(EXISTING, diffBreakdown(EXISTING, [shot('Street'), shot('The Letter')]), 'replace', ASSETS, 'script-1');
+    expect(scenes.map(s => s.id)).toEqual(['s-street', 's-letter']);
+  });
+
+  it('keeps the existing cast when no character name resolves to a node', () => {
+    const rows = diffBreakdown(EXISTING, [shot('The Letter', { characters: ['Stranger'], shot_type: 'Wide' })]);
+    const [letter] = mergeBreakdown(EXISTING, rows, 'replace', ASSETS, 'script-1');
+    expect(letter.castIds).toEqual(['char-maria']);
+    expect(letter.blocking).toEqual({ shotSize: 'Wide Shot' });
+  });
+
+  it('keeps scene ids (and therefore cables) across repeated runs', () => {
+    const first = mergeBreakdown(EXISTING, diffBreakdown(EXISTING, proposals), 'merge', ASSETS, 'script-1');
+    const edited = [shot('Stairs', { description: 'Maria stumbles down.' }), shot('Rooftop', { description: 'Night falls.' })];
+    const second = mergeBreakdown(first, diffBreakdown(first, edited), 'replace', ASSETS, 'script-1');
+    expect(second.map(s => s.id)).toEqual(['s-stairs', first[3].id]);
+    expect(second.map(s => s.description)).toEqual(['Maria stumbles down.', 'Night falls.']);
+  });
+
+  it('re-reads scenes by id, so edits made while waiting for the model survive', () => {
+    const rows = diffBreakdown(EXISTING, [shot('Street', { description: 'New text' })]);
+    const current = EXISTING.map(s => (s.id === 's-street' ? { ...s, notes: 'Shoot at dusk' } : s));
+    const [street] = mergeBreakdown(current, rows, 'replace', ASSETS, 'script-1');
+    expect(street).toMatchObject({ id: 's-street', description: 'New text', notes: 'Shoot at dusk' });
+  });
+});
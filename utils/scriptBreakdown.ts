@@ -0,0 +1,85 @@
+import { ScriptScene } from '../types/graph';
+import { BreakdownScene } from '../types/cinematicSchema';
+import { matchShotSize, normalizeBlocking } from './sceneBlocking';
+
+/**
+ * Diff and merge of an AI script breakdown against the scenes a Script node already has.
+ * Proposed shots are paired with existing scenes by title, so re-running the breakdown after
+ * editing the script updates scenes in place (keeping their ids and cables) instead of
+ * duplicating them.
+ */
+
+export type BreakdownChange = 'added' | 'updated' | 'unchanged';
+
+export interface BreakdownRow {
+  proposal: BreakdownScene;
+  existing?: ScriptScene;
+  change: BreakdownChange;
+  shotSize?: string; // shot_type mapped onto SHOT_SIZES
+}
+
+// 'merge' keeps scenes the breakdown does not mention; 'replace' drops them
+export type BreakdownMergeMode = 'merge' | 'replace';
+
+const titleKey = (title: string) => title.trim().toLowerCase().replace(/\s+/g, ' ');
+
+export const diffBreakdown = (existing: ScriptScene[], proposed: BreakdownScene[]): BreakdownRow[] => {
+  const used = new Set<string>();
+  return proposed.map(proposal => {
+    const match = existing.find(scene => !used.has(scene.id) && titleKey(scene.title) === titleKey(proposal.title));
+    if (match) used.add(match.id);
+    const shotSize = matchShotSize(proposal.shot_type);
+    const changed = !match || match.description !== proposal.description || (!!shotSize && match.blocking?.shotSize !== shotSize);
+    return { proposal, existing: match, change: !match ? 'added' : changed ? 'updated' : 'unchanged', shotSize };
+  });
+};
+
+/**
+ * Existing scenes that a 'replace' merge would delete.
+ */
+export const scenesRemovedBy = (existing: ScriptScene[], rows: BreakdownRow[]): ScriptScene[] =>
+  existing.filter(scene => !rows.some(row => row.existing?.id === scene.id));
+
+export interface BreakdownAssetIds {
+  characters: Record<string, string>; // Name -> Character node id
+  locations: Record<string, string>;  // Location -> Setting node id
+}
+
+const applyRow = (row: BreakdownRow, assets: BreakdownAssetIds, base: ScriptScene): ScriptScene => {
+  const castIds = row.proposal.characters.map(name => assets.characters[name]).filter(Boolean);
+  const settingId = assets.locations[row.proposal.location];
+  return {
+    ...base,
+    title: row.proposal.title,
+    description: row.proposal.description,
+    // Sin personajes reconocidos se conserva el reparto actual
+    castIds: castIds.length > 0 ? castIds : base.castIds,
+    selectedSettingId: settingId || base.selectedSettingId,
+    blocking: row.shotSize ? normalizeBlocking({ ...base.blocking, shotSize: row.shotSize }) : base.blocking,
+  };
+};
+
+export const mergeBreakdown = (
+  existing: ScriptScene[],
+  rows: BreakdownRow[],
+  mode: BreakdownMergeMode,
+  assets: BreakdownAssetIds,
+  scriptId: string
+): ScriptScene[] => {
+  // Se relee cada escena por id: pudo editarse (o borrarse) mientras se esperaba al modelo
+  const bases = rows.map(row => existing.find(scene => scene.id === row.existing?.id));
+  const merged = rows.map((row, i) => applyRow(row, assets, bases[i] || {
+    id: `scene-${scriptId}-${crypto.randomUUID()}`,
+    title: '',
+    description: '',
+    isExpanded: false,
+  }));
+  if (mode === 'replace') return merged;
+
+  // Merge: orden actual para las escenas existentes, las nuevas al final
+  const updated = new Map(merged.filter((_, i) => bases[i]).map(scene => [scene.id, scene]));
+  return [
+    ...existing.map(scene => updated.get(scene.id) || scene),
+    ...merged.filter((_, i) => !bases[i]),
+  ];
+};
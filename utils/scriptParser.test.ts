@@ -0,0 +1,59 @@
+import { describe, it, expect } from 'vitest';
+import { detectDelimiter, parseDelimited, looksLikeHeader, guessColumnMapping, parseDuration, splitNames, mapCsvRows } from './scriptParser';
+
+describe('parseDelimited', () => {
+  it('handles quoted cells with delimiters, doubled quotes and line breaks', () => {
+    const text = '﻿Title,Description\r\n"Opening","She says ""hi"", then\nleaves"\r\n\r\nEnd,Fade out\n';
+    expect(parseDelimited(text)).toEqual([
+      ['Title', 'Description'],
+      ['Opening', 'She says "hi", then\nleaves'],
+      ['End', 'Fade out'],
+    ]);
+  });
+
+  it('trims unquoted cells but keeps the spaces inside quotes', () => {
+    expect(parseDelimited('  Title , "  indented\n  text  " ,  x\n" a "\t,b', ',')).toEqual([
+      ['Title', '  indented\n  text  ', 'x'],
+      [' a ', 'b'],
+    ]);
+  });
+
+  it('detects the delimiter from the first line, ignoring quoted ones', () => {
+    expect(detectDelimiter('a;b;c\n1,2;3')).toBe(';');
+    expect(detectDelimiter('a\tb\n')).toBe('\t');
+    expect(detectDelimiter('"a;b",c\n')).toBe(',');
+  });
+});
+
+describe('column mapping', () => {
+  it('maps known headers in English and Spanish', () => {
+    const rows = parseDelimited('Escena;Acción;Personajes;Plano;Duración\nUno;Entra;Ana y Luis;CU;0:08');
+    expect(looksLikeHeader(rows)).toBe(true);
+    const mapping = guessColumnMapping(rows, true);
+    expect(mapping).toEqual({ title: 0, description: 1, characters: 2, shotType: 3, duration: 4 });
+    expect(mapCsvRows(rows, mapping, true)).toEqual([
+      { title: 'Uno', description: 'Entra', setting: undefined, characters: ['Ana', 'Luis'], shotType: 'CU', duration: 8 },
+    ]);
+  });
+
+  it('falls back to title + description without a header', () => {
+    const rows = parseDelimited('A rooftop,Rain falls\n,Second shot');
+    expect(looksLikeHeader(rows)).toBe(false);
+    expect(mapCsvRows(rows, guessColumnMapping(rows, false), false).map(r => r.title)).toEqual(['A rooftop', 'Scene 2']);
+  });
+});
+
+describe('cell helpers', () => {
+  it('parses durations', () => {
+    expect(parseDuration('8')).toBe(8);
+    expect(parseDuration('8,5 sec')).toBe(8.5);
+    expect(parseDuration('1:30')).toBe(90);
+    expect(parseDuration('0')).toBeUndefined();
+    expect(parseDuration('soon')).toBeUndefined();
+  });
+
+  it('splits character lists', () => {
+    expect(splitNames('Ana, Luis & Bob / Eve and Tom')).toEqual(['Ana', 'Luis', 'Bob', 'Eve', 'Tom']);
+    expect(splitNames(undefined)).toEqual([]);
+  });
+});
@@ -1,40 +1,173 @@
-import { ScriptScene } from '../types/graph';
-
-export const parseScriptCSV = (text: string, nodeId: string): ScriptScene[] => {
-  const lines = text.split(/\r?\n/).filter(line => line.trim().length > 0);
-  
-  // Regla de negocio: Omitir siempre la primera fila (Header)
-  if (lines.length < 2) return [];
-  const dataLines = lines.slice(1); 
-
-  return dataLines.map((line, index) => {
-    // Detección básica de CSV: Maneja comas, pero si hay comillas las respeta (básico)
-    // Si la línea tiene comillas, usa regex, si no, split simple.
-    let parts: string[] = [];
-    if (line.includes('"')) {
-        const regex = /(?:^|,)("(?:[^"]|"")*"|[^,]*)/g;
-        let match;
-        while ((match = regex.exec(line))) {
-            // Eliminar comillas envolventes y comas iniciales
-            let val = match[1].startsWith(',') ? match[1].substring(1) : match[1];
-            if (val.startsWith('"') && val.endsWith('"')) val = val.slice(1, -1);
-            parts.push(val.trim());
-        }
+/**
+ * Delimited text import for Script nodes (CSV / TSV / semicolon). Parsing follows RFC 4180:
+ * quoted cells may contain delimiters, doubled quotes and line breaks.
+ */
+
+export type CsvDelimiter = ',' | '\t' | ';';
+export const CSV_DELIMITERS: { value: CsvDelimiter; label: string }[] = [
+  { value: ',', label: 'Comma' },
+  { value: '\t', label: 'Tab' },
+  { value: ';', label: 'Semicolon' },
+];
+
+export type CsvColumnRole = 'title' | 'description' | 'setting' | 'characters' | 'shotType' | 'duration';
+export type CsvColumnMapping = Partial<Record<CsvColumnRole, number>>;
+
+export const CSV_COLUMN_ROLES: { role: CsvColumnRole; label: string }[] = [
+  { role: 'title', label: 'Title' },
+  { role: 'description', label: 'Description' },
+  { role: 'setting', label: 'Setting' },
+  { role: 'characters', label: 'Characters' },
+  { role: 'shotType', label: 'Shot type' },
+  { role: 'duration', label: 'Duration' },
+];
+
+// Nombres de cabecera reconocidos para cada rol (en minúsculas, inglés y español)
+const HEADER_ALIASES: Record<CsvColumnRole, string[]> = {
+  title: ['title', 'scene', 'name', 'titulo', 'título', 'escena'],
+  description: ['description', 'action', 'text', 'prompt', 'descripcion', 'descripción', 'accion', 'acción'],
+  setting: ['setting', 'location', 'set', 'place', 'localizacion', 'localización', 'lugar', 'escenario'],
+  characters: ['characters', 'character', 'cast', 'personajes', 'personaje', 'reparto'],
+  shotType: ['shot', 'shot type', 'shot size', 'shot_type', 'framing', 'size', 'plano', 'tipo de plano', 'encuadre'],
+  duration: ['duration', 'seconds', 'secs', 'length', 'time', 'duracion', 'duración', 'segundos'],
+};
+
+export interface CsvSceneRow {
+  title: string;
+  description: string;
+  setting?: string;
+  characters: string[];
+  shotType?: string;
+  duration?: number; // Seconds
+}
+
+// Cuenta el delimitador fuera de comillas en la primera línea lógica
+const countOutsideQuotes = (text: string, delimiter: string) => {
+  let count = 0;
+  let inQuotes = false;
+  for (const char of text) {
+    if (char === '"') inQuotes = !inQuotes;
+    else if (!inQuotes && char === '\n') break;
+    else if (!inQuotes && char === delimiter) count++;
+  }
+  return count;
+};
+
+export const detectDelimiter = (text: string): CsvDelimiter =>
+  CSV_DELIMITERS
+    .map(({ value }) => ({ value, count: countOutsideQuotes(text, value) }))
+    .reduce((best, current) => (current.count > best.count ? current : best)).value;
+
+/**
+ * Splits delimited text into rows of cells. Blank lines are skipped. Unquoted cells are
+ * trimmed; quoted cells keep their content verbatim (RFC 4180).
+ */
+export const parseDelimited = (text: string, delimiter: CsvDelimiter = detectDelimiter(text)): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let inQuotes = false;
+  let quoted = false; // La celda actual venía entre comillas
+  const source = text.replace(/^\uFEFF/, '');
+
+  const endCell = () => {
+    row.push(quoted ? cell : cell.trim());
+    cell = '';
+    quoted = false;
+  };
+
+  const endRow = () => {
+    endCell();
+    if (row.some(value => value.trim() !== '')) rows.push(row);
+    row = [];
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    if (inQuotes) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"' && !quoted && cell.trim() === '') {
+      cell = '';
+      inQuotes = true;
+      quoted = true;
+    } else if (char === delimiter) {
+      endCell();
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && source[i + 1] === '\n') i++;
+      endRow();
+    } else if (quoted && /\s/.test(char)) {
+      // Espacio entre la comilla de cierre y el delimitador: no es parte de la celda
     } else {
-        parts = line.split(',');
+      cell += char;
     }
+  }
+  if (cell !== '' || row.length > 0) endRow();
+
+  return rows;
+};
+
+const roleForHeader = (header: string): CsvColumnRole | undefined => {
+  const key = header.trim().toLowerCase();
+  return CSV_COLUMN_ROLES.map(r => r.role).find(role => HEADER_ALIASES[role].includes(key));
+};
+
+/**
+ * A first row is treated as a header when any of its cells is a known column name.
+ */
+export const looksLikeHeader = (rows: string[][]) => !!rows[0]?.some(cell => roleForHeader(cell));
+
+export const guessColumnMapping = (rows: string[][], hasHeader: boolean): CsvColumnMapping => {
+  const columnCount = Math.max(0, ...rows.map(r => r.length));
+  if (hasHeader && rows[0]) {
+    const mapping: CsvColumnMapping = {};
+    rows[0].forEach((header, index) => {
+      const role = roleForHeader(header);
+      if (role && mapping[role] === undefined) mapping[role] = index;
+    });
+    if (mapping.title !== undefined || mapping.description !== undefined) return mapping;
+  }
+  // Formato clásico: Columna 0 = Título, Columna 1 = Descripción (con una sola columna, es la descripción)
+  return columnCount > 1 ? { title: 0, description: 1 } : { description: 0 };
+};
+
+// "8", "8s", "8.5 sec", "00:08", "1:30" -> segundos
+export const parseDuration = (value?: string): number | undefined => {
+  const text = value?.trim().toLowerCase();
+  if (!text) return undefined;
+  if (/^\d+(:\d{1,2}){1,2}$/.test(text)) {
+    return text.split(':').reduce((total, part) => total * 60 + Number(part), 0);
+  }
+  const seconds = parseFloat(text.replace(',', '.'));
+  return Number.isFinite(seconds) && seconds > 0 ? seconds : undefined;
+};
+
+export const splitNames = (value?: string): string[] =>
+  (value || '').split(/[,;|/&]|\band\b|\by\b/i).map(name => name.trim()).filter(Boolean);
+
+export const mapCsvRows = (rows: string[][], mapping: CsvColumnMapping, hasHeader: boolean): CsvSceneRow[] => {
+  const cell = (row: string[], role: CsvColumnRole) => {
+    const index = mapping[role];
+    return index === undefined ? undefined : row[index]?.trim() || undefined;
+  };
 
-    // Asumimos Columna 0 = Escena/Título, Columna 1 = Descripción/Acción
-    // Si solo hay 1 columna, usamos esa como descripción.
-    const title = parts.length > 1 ? parts[0] : `Scene ${index + 1}`;
-    const description = parts.length > 1 ? parts[1] : parts[0];
-
-    return {
-      id: `scene-${nodeId}-${Date.now()}-${index}`,
-      title: title || `Scene ${index + 1}`,
-      description: description || "",
-      isExpanded: true,
-      selectedSettingId: undefined
-    };
-  });
-};
\ No newline at end of file
+  return (hasHeader ? rows.slice(1) : rows)
+    .filter(row => CSV_COLUMN_ROLES.some(({ role }) => cell(row, role)))
+    .map((row, index) => ({
+      title: cell(row, 'title') || `Scene ${index + 1}`,
+      description: cell(row, 'description') || '',
+      setting: cell(row, 'setting'),
+      characters: splitNames(cell(row, 'characters')),
+      shotType: cell(row, 'shotType'),
+      duration: parseDuration(cell(row, 'duration')),
+    }));
+};
@@ -0,0 +1,84 @@
+import { Node, Connection, NodeType, ScriptData, ImageData } from '../types/graph';
+
+/**
+ * One frame of the printed storyboard: a scene plus one of the Image nodes fed by it.
+ * Scenes without a connected Image node still get a panel (with an empty frame).
+ */
+export interface StoryboardPanel {
+  scriptNodeId: string;
+  sceneId: string;
+  number: string; // "3", or "2.3" when the graph has several Script nodes
+  title: string;
+  description: string;
+  image?: string; // image store ref of the selected take
+  imageNodeId?: string;
+  shotType?: string;
+  lens?: string;
+  cameraAngle?: string;
+  duration?: number;
+  notes?: string;
+  slugline?: string;
+}
+
+const byPosition = (a: Node, b: Node) => a.position.y - b.position.y || a.position.x - b.position.x;
+
+const cameraOf = (data: ImageData) => {
+  const json = data.enrichedSceneJson as { presentation?: { camera?: Record<string, string | undefined> } } | null | undefined;
+  return json?.presentation?.camera;
+};
+
+/**
+ * Walks every Script node (top-to-bottom, left-to-right) and its scenes in order. Camera
+ * metadata comes from the Image node's cinematic spec, falling back to the scene blocking.
+ */
+export const collectStoryboardPanels = (nodes: Node[], connections: Connection[]): StoryboardPanel[] => {
+  const scripts = nodes.filter(n => n.type === NodeType.Script).sort(byPosition) as Node<ScriptData>[];
+  const panels: StoryboardPanel[] = [];
+
+  scripts.forEach((script, scriptIndex) => {
+    script.data.scenes.forEach((scene, sceneIndex) => {
+      const number = scripts.length > 1 ? `${scriptIndex + 1}.${sceneIndex + 1}` : `${sceneIndex + 1}`;
+      const images = connections
+        .filter(c => c.fromNodeId === script.id && c.fromOutput === scene.id && c.toInputIndex === 1)
+        .map(c => nodes.find(n => n.id === c.toNodeId))
+        .filter((n): n is Node<ImageData> => n?.type === NodeType.Image)
+        .sort(byPosition);
+
+      const base = {
+        scriptNodeId: script.id,
+        sceneId: scene.id,
+        title: scene.title,
+        description: scene.description,
+        duration: scene.duration,
+        notes: scene.notes?.trim() || undefined,
+        slugline: scene.slugline,
+      };
+
+      if (images.length === 0) {
+        panels.push({ ...base, number, shotType: scene.blocking?.shotSize, cameraAngle: scene.blocking?.cameraAngle });
+        return;
+      }
+
+      // Varias imágenes para la misma escena: 3a, 3b, ...
+      images.forEach((imageNode, imageIndex) => {
+        const camera = cameraOf(imageNode.data);
+        panels.push({
+          ...base,
+          number: images.length > 1 ? `${number}${String.fromCharCode(97 + (imageIndex % 26))}` : number,
+          image: imageNode.data.image,
+          imageNodeId: imageNode.id,
+          shotType: camera?.shot_type || scene.blocking?.shotSize,
+          lens: camera?.lens_focal_length,
+          cameraAngle: camera?.angle || scene.blocking?.cameraAngle,
+        });
+      });
+    });
+  });
+
+  return panels;
+};
+
+export const describeShot = (panel: StoryboardPanel) =>
+  [panel.shotType, panel.lens, panel.cameraAngle, panel.duration ? `${panel.duration}s` : undefined]
+    .filter(Boolean)
+    .join(' · ');
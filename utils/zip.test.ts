@@ -0,0 +1,43 @@
+import { describe, it, expect } from 'vitest';
+import { deflateRawSync } from 'node:zlib';
+import { buildZip, readZip } from './zip';
+import { crc32 } from './png';
+
+const text = (bytes?: Uint8Array) => new TextDecoder().decode(bytes);
+
+describe('zip', () => {
+  it('reads back what it writes', async () => {
+    const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0, 255]);
+    const zip = buildZip([
+      { name: 'project.json', data: '{"name":"Ñandú"}' },
+      { name: 'images/abc.png', data: image },
+    ]);
+
+    const files = await readZip(zip);
+    expect([...files.keys()]).toEqual(['project.json', 'images/abc.png']);
+    expect(text(files.get('project.json'))).toBe('{"name":"Ñandú"}');
+    expect(files.get('images/abc.png')).toEqual(image);
+  });
+
+  it('rejects data that is not a zip', async () => {
+    await expect(readZip(new TextEncoder().encode('not a zip archive at all'))).rejects.toThrow('Not a zip archive');
+  });
+
+  it('inflates deflated entries (archives re-packed by other tools)', async () => {
+    const content = new TextEncoder().encode('storyboard '.repeat(50));
+    const deflated = new Uint8Array(deflateRawSync(content));
+    const zip = buildZip([{ name: 'notes.txt', data: deflated }]);
+
+    // Se marca la entrada como "deflate" con los tamaños reales, como haría otra herramienta
+    const view = new DataView(zip.buffer);
+    const central = zip.length - 22 - (46 + 'notes.txt'.length);
+    view.setUint16(8, 8, true);
+    view.setUint32(14, crc32(content), true);
+    view.setUint32(22, content.length, true);
+    view.setUint16(central + 10, 8, true);
+    view.setUint32(central + 16, crc32(content), true);
+    view.setUint32(central + 24, content.length, true);
+
+    expect(text((await readZip(zip)).get('notes.txt'))).toBe('storyboard '.repeat(50));
+  });
+});
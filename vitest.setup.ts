@@ -0,0 +1,10 @@
+// Node no tiene localStorage: los ajustes del proveedor de IA se guardan en memoria durante los tests
+const store = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => { store.set(key, value); },
+  removeItem: (key: string) => { store.delete(key); },
+  clear: () => store.clear(),
+  key: (index: number) => Array.from(store.keys())[index] ?? null,
+  get length() { return store.size; },
+};